@@ -0,0 +1,362 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { FsPolicyError } from './pathPolicy'
+import type { Bibliography, CitationEntry, CitationName } from '../src/shared/types'
+
+// Bibliographies larger than this are not read
+const MAX_FILE_SIZE = 20 * 1024 * 1024
+
+// BibTeX entry types and the CSL item types they become
+const BIBTEX_TYPES: Record<string, string> = {
+  article: 'article-journal',
+  book: 'book',
+  booklet: 'pamphlet',
+  inbook: 'chapter',
+  incollection: 'chapter',
+  inproceedings: 'paper-conference',
+  conference: 'paper-conference',
+  proceedings: 'book',
+  phdthesis: 'thesis',
+  mastersthesis: 'thesis',
+  thesis: 'thesis',
+  techreport: 'report',
+  report: 'report',
+  manual: 'report',
+  online: 'webpage',
+  electronic: 'webpage',
+  www: 'webpage',
+  unpublished: 'manuscript',
+}
+
+// Month macros BibTeX predefines
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+
+// LaTeX accent commands and the combining marks they stand for
+const LATEX_ACCENTS: Record<string, string> = {
+  '"': '\u0308',
+  "'": '\u0301',
+  '`': '\u0300',
+  '^': '\u0302',
+  '~': '\u0303',
+  '=': '\u0304',
+  '.': '\u0307',
+  c: '\u0327',
+  v: '\u030c',
+  u: '\u0306',
+  H: '\u030b',
+  r: '\u030a',
+}
+
+const LATEX_SYMBOLS: Record<string, string> = {
+  ss: 'ß',
+  o: 'ø',
+  O: 'Ø',
+  ae: 'æ',
+  AE: 'Æ',
+  oe: 'œ',
+  OE: 'Œ',
+  aa: 'å',
+  AA: 'Å',
+  l: 'ł',
+  L: 'Ł',
+  i: 'ı',
+}
+
+/**
+ * Plain text of a BibTeX value: accents and escapes resolved, formatting
+ * commands and grouping braces dropped
+ */
+function latexToText(value: string): string {
+  return value
+    .replace(/\\([`'^"~=.])\s*(?:\{\\?([a-zA-Z])\}|\\?([a-zA-Z]))/g, (_match, accent: string, braced?: string, bare?: string) =>
+      ((braced ?? bare ?? '') + LATEX_ACCENTS[accent]).normalize('NFC')
+    )
+    .replace(/\\([cvuHr])(?:\s*\{\\?([a-zA-Z])\}|\s+\\?([a-zA-Z]))/g, (_match, accent: string, braced?: string, bare?: string) =>
+      ((braced ?? bare ?? '') + LATEX_ACCENTS[accent]).normalize('NFC')
+    )
+    .replace(/\\(ss|ae|AE|oe|OE|aa|AA|o|O|l|L|i)(?![a-zA-Z])\s*/g, (_match, name: string) => LATEX_SYMBOLS[name])
+    .replace(/\\(?:textit|textbf|textsc|textrm|texttt|textup|emph|mkbibquote|mkbibemph|url)\s*/g, '')
+    // Escaped braces survive the removal of grouping braces
+    .replace(/\\([&%$#_{}])/g, (_match, char: string) => (char === '{' ? '\ue000' : char === '}' ? '\ue001' : char))
+    .replace(/[{}]/g, '')
+    .replace(/\ue000/g, '{')
+    .replace(/\ue001/g, '}')
+    .replace(/---/g, '—')
+    .replace(/--/g, '–')
+    .replace(/~/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Index of the character closing a BibTeX entry opened just before start
+ */
+function findEntryEnd(content: string, start: number, close: '}' | ')'): number {
+  let depth = 0
+  for (let i = start; i < content.length; i++) {
+    const char = content[i]
+    if (char === '{') {
+      depth++
+    } else if (char === '}') {
+      if (depth === 0 && close === '}') return i
+      depth--
+    } else if (char === ')' && close === ')' && depth === 0) {
+      return i
+    }
+  }
+  return -1
+}
+
+/**
+ * Fields of an entry body (name = value, ...), values still in LaTeX.
+ * Values are braced, quoted, numbers or @string macros, joined with #.
+ */
+function parseFields(body: string, strings: Map<string, string>): Map<string, string> {
+  const fields = new Map<string, string>()
+  let i = 0
+
+  const skipSpace = () => {
+    while (i < body.length && /[\s,]/.test(body[i])) i++
+  }
+  const readDelimited = (close: string): string => {
+    let depth = 0
+    const start = ++i
+    for (; i < body.length; i++) {
+      const char = body[i]
+      if (char === '\\') {
+        i++
+      } else if (char === '{') {
+        depth++
+      } else if (char === '}' && (depth > 0 || close !== '}')) {
+        depth--
+      } else if (char === close && depth === 0) {
+        break
+      }
+    }
+    return body.slice(start, i++)
+  }
+
+  while (i < body.length) {
+    skipSpace()
+    const name = /^[^\s=,{}"#]+/.exec(body.slice(i))
+    if (!name) break
+    i += name[0].length
+    while (/\s/.test(body[i] ?? '')) i++
+    if (body[i] !== '=') break
+    i++
+
+    let value = ''
+    for (;;) {
+      while (/\s/.test(body[i] ?? '')) i++
+      if (body[i] === '{') {
+        value += readDelimited('}')
+      } else if (body[i] === '"') {
+        value += readDelimited('"')
+      } else {
+        const word = /^[^\s,#}]+/.exec(body.slice(i))
+        if (!word) break
+        i += word[0].length
+        value += /^\d+$/.test(word[0]) ? word[0] : strings.get(word[0].toLowerCase()) ?? word[0]
+      }
+      while (/\s/.test(body[i] ?? '')) i++
+      if (body[i] !== '#') break
+      i++
+    }
+    fields.set(name[0].toLowerCase(), value)
+  }
+  return fields
+}
+
+/**
+ * Split a BibTeX value on a separator outside braces
+ */
+function splitOutsideBraces(value: string, separator: RegExp): string[] {
+  const parts: string[] = []
+  let depth = 0
+  let start = 0
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '{') depth++
+    else if (value[i] === '}') depth--
+    else if (depth === 0) {
+      const match = separator.exec(value.slice(i))
+      if (match?.index === 0) {
+        parts.push(value.slice(start, i))
+        i += match[0].length - 1
+        start = i + 1
+      }
+    }
+  }
+  parts.push(value.slice(start))
+  return parts.map((part) => part.trim()).filter(Boolean)
+}
+
+/**
+ * Names of a BibTeX author or editor field: "Last, First", "First von Last"
+ * or {A Braced Organisation}, separated by "and"
+ */
+function parseNames(value: string): CitationName[] {
+  return splitOutsideBraces(value, /^\s+and\s+/i)
+    .filter((name) => name.toLowerCase() !== 'others')
+    .map((name): CitationName => {
+      if (/^\{[^{}]*\}$/.test(name)) return { literal: latexToText(name) }
+
+      const parts = splitOutsideBraces(name, /^,/)
+      if (parts.length > 1) {
+        return { family: latexToText(parts[0]), given: latexToText(parts[parts.length - 1]) }
+      }
+
+      // The family name is the last word and any lower-case particles before it
+      const words = splitOutsideBraces(name, /^\s+/)
+      let familyStart = words.length - 1
+      while (familyStart > 1 && /^[a-z]/.test(words[familyStart - 1])) familyStart--
+      const given = words.slice(0, familyStart).join(' ')
+      return given
+        ? { family: latexToText(words.slice(familyStart).join(' ')), given: latexToText(given) }
+        : { literal: latexToText(name) }
+    })
+}
+
+function parseIssued(fields: Map<string, string>): CitationEntry['issued'] {
+  const date = fields.get('date')
+  if (date) {
+    const parts = /^(\d{4})(?:-(\d{1,2}))?(?:-(\d{1,2}))?/.exec(date.trim())
+    return parts
+      ? { 'date-parts': [parts.slice(1).filter(Boolean).map(Number)] }
+      : { literal: latexToText(date) }
+  }
+
+  const year = fields.get('year')
+  if (!year) return undefined
+  if (!/^\d{4}$/.test(year.trim())) return { literal: latexToText(year) }
+
+  const month = fields.get('month')?.trim().toLowerCase()
+  const monthNumber = month ? (/^\d+$/.test(month) ? Number(month) : MONTHS.indexOf(month.slice(0, 3)) + 1) : 0
+  return { 'date-parts': [monthNumber > 0 ? [Number(year), monthNumber] : [Number(year)]] }
+}
+
+function bibtexToCsl(id: string, bibtexType: string, fields: Map<string, string>): CitationEntry {
+  const text = (...names: string[]) => {
+    const value = names.map((name) => fields.get(name)).find((field) => field !== undefined)
+    return value === undefined ? undefined : latexToText(value) || undefined
+  }
+
+  const entry: CitationEntry = {
+    id,
+    type: BIBTEX_TYPES[bibtexType] ?? 'document',
+    title: text('title'),
+    author: fields.has('author') ? parseNames(fields.get('author') ?? '') : undefined,
+    editor: fields.has('editor') ? parseNames(fields.get('editor') ?? '') : undefined,
+    issued: parseIssued(fields),
+    'container-title': text('journal', 'journaltitle', 'booktitle'),
+    publisher: text('publisher', 'institution', 'school', 'organization'),
+    'publisher-place': text('address', 'location'),
+    volume: text('volume'),
+    issue: text('number', 'issue'),
+    page: text('pages'),
+    edition: text('edition'),
+    DOI: fields.get('doi')?.trim() || undefined,
+    URL: fields.get('url')?.trim() || undefined,
+  }
+  // Leave out the fields the entry does not have
+  return Object.fromEntries(Object.entries(entry).filter(([, value]) => value !== undefined)) as CitationEntry
+}
+
+/**
+ * Entries of a BibTeX (or BibLaTeX) file, converted to CSL-JSON
+ */
+export function parseBibtex(content: string): CitationEntry[] {
+  const strings = new Map(MONTHS.map((month) => [month, month]))
+  const entries: CitationEntry[] = []
+  let index = 0
+
+  while ((index = content.indexOf('@', index)) !== -1) {
+    const header = /^@\s*([a-zA-Z]+)\s*([{(])/.exec(content.slice(index, index + 100))
+    if (!header) {
+      index++
+      continue
+    }
+    const type = header[1].toLowerCase()
+    const bodyStart = index + header[0].length
+    const bodyEnd = findEntryEnd(content, bodyStart, header[2] === '{' ? '}' : ')')
+    if (bodyEnd === -1) break
+    const body = content.slice(bodyStart, bodyEnd)
+    index = bodyEnd + 1
+
+    if (type === 'comment' || type === 'preamble') continue
+    if (type === 'string') {
+      parseFields(body, strings).forEach((value, name) => strings.set(name, value))
+      continue
+    }
+
+    const comma = body.indexOf(',')
+    const key = (comma === -1 ? body : body.slice(0, comma)).trim()
+    if (key) {
+      entries.push(bibtexToCsl(key, type, parseFields(comma === -1 ? '' : body.slice(comma + 1), strings)))
+    }
+  }
+  return entries
+}
+
+/**
+ * Entries of a CSL-JSON file (an array of items, as Zotero exports them)
+ * @throws FsPolicyError when the file is not CSL-JSON
+ */
+export function parseCslJson(content: string, filePath: string): CitationEntry[] {
+  let data: unknown
+  try {
+    data = JSON.parse(content)
+  } catch {
+    throw new FsPolicyError('IO_ERROR', `${path.basename(filePath)} is not valid JSON`, filePath)
+  }
+  const items = Array.isArray(data) ? data : (data as { items?: unknown })?.items
+  if (!Array.isArray(items)) {
+    throw new FsPolicyError('IO_ERROR', `${path.basename(filePath)} is not a CSL-JSON bibliography`, filePath)
+  }
+
+  return items
+    .filter((item): item is Record<string, unknown> => !!item && typeof item === 'object' && item.id != null)
+    .map((item) => {
+      const entry: Record<string, unknown> = {
+        ...item,
+        id: String(item.id),
+        type: typeof item.type === 'string' ? item.type : 'document',
+      }
+      // Numbers are allowed in CSL-JSON, but the fields are formatted as text
+      for (const field of ['volume', 'issue', 'page', 'edition'] as const) {
+        if (typeof entry[field] === 'number') entry[field] = String(entry[field])
+      }
+      return entry as unknown as CitationEntry
+    })
+}
+
+/**
+ * Read a bibliography file: .bib (BibTeX) or .json (CSL-JSON)
+ */
+export async function loadBibliography(filePath: string): Promise<Bibliography> {
+  const stats = await fs.stat(filePath)
+  if (stats.size > MAX_FILE_SIZE) {
+    throw new FsPolicyError('IO_ERROR', `${path.basename(filePath)} is too large to load`, filePath)
+  }
+
+  const content = await fs.readFile(filePath, 'utf8')
+  const entries = /\.json$/i.test(filePath) ? parseCslJson(content, filePath) : parseBibtex(content)
+  return { filePath, entries }
+}
+
+/**
+ * The first bibliography file at the top of the workspace folders
+ * (.bib or .csl.json), or null when there is none
+ */
+export async function findBibliography(rootPaths: string[]): Promise<string | null> {
+  for (const rootPath of rootPaths) {
+    let names: string[]
+    try {
+      names = await fs.readdir(rootPath)
+    } catch {
+      continue
+    }
+    const name = names.sort().find((candidate) => /\.(bib|csl\.json)$/i.test(candidate))
+    if (name) return path.join(rootPath, name)
+  }
+  return null
+}
@@ -0,0 +1,127 @@
+import path from 'node:path'
+import type { TextEncoding } from '../src/shared/types'
+
+// Bytes inspected when guessing whether a file is binary
+const SNIFF_LENGTH = 8000
+
+// Images larger than this are not sent to the renderer for preview
+export const MAX_IMAGE_PREVIEW_BYTES = 20 * 1024 * 1024
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.bmp': 'image/bmp',
+  '.ico': 'image/x-icon',
+  '.svg': 'image/svg+xml',
+  '.avif': 'image/avif',
+}
+
+const BOMS: Array<{ encoding: TextEncoding; bytes: number[] }> = [
+  { encoding: 'utf8bom', bytes: [0xef, 0xbb, 0xbf] },
+  { encoding: 'utf16le', bytes: [0xff, 0xfe] },
+  { encoding: 'utf16be', bytes: [0xfe, 0xff] },
+]
+
+const strictUtf8 = new TextDecoder('utf-8', { fatal: true })
+
+/**
+ * MIME type for files opened in the image preview, by extension
+ */
+export function getImageMimeType(filePath: string): string | null {
+  return IMAGE_MIME_TYPES[path.extname(filePath).toLowerCase()] ?? null
+}
+
+function bomEncoding(buffer: Buffer): TextEncoding | null {
+  const match = BOMS.find(({ bytes }) => bytes.every((byte, i) => buffer[i] === byte))
+  return match?.encoding ?? null
+}
+
+/**
+ * Guess whether a file is binary: NUL bytes, or mostly control characters, in
+ * its first few kilobytes. Files starting with a UTF-16 byte order mark are text.
+ */
+export function isBinaryContent(buffer: Buffer): boolean {
+  if (bomEncoding(buffer)) return false
+
+  const sample = buffer.subarray(0, SNIFF_LENGTH)
+  let controlBytes = 0
+  for (const byte of sample) {
+    if (byte === 0) return true
+    // Control characters other than tab, newline, form feed and carriage return
+    if (byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0c && byte !== 0x0d) {
+      controlBytes++
+    }
+  }
+  return sample.length > 0 && controlBytes / sample.length > 0.1
+}
+
+/**
+ * Detect a text file's encoding from its byte order mark, falling back to
+ * Latin-1 when the bytes are not valid UTF-8
+ */
+export function detectEncoding(buffer: Buffer): TextEncoding {
+  const bom = bomEncoding(buffer)
+  if (bom) return bom
+
+  try {
+    strictUtf8.decode(buffer)
+    return 'utf8'
+  } catch {
+    return 'latin1'
+  }
+}
+
+/**
+ * Decode file bytes, dropping the byte order mark
+ */
+export function decodeText(buffer: Buffer, encoding: TextEncoding): string {
+  switch (encoding) {
+    case 'utf8':
+    case 'utf8bom': {
+      const text = buffer.toString('utf8')
+      return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+    }
+    case 'utf16le':
+    case 'utf16be': {
+      const hasBom = bomEncoding(buffer) === encoding
+      const body = buffer.subarray(hasBom ? 2 : 0)
+      // Node only decodes little-endian UTF-16; swap a copy for big-endian
+      const bytes = encoding === 'utf16be' ? Buffer.from(body).swap16() : body
+      return bytes.subarray(0, bytes.length - (bytes.length % 2)).toString('utf16le')
+    }
+    case 'latin1':
+      return buffer.toString('latin1')
+  }
+}
+
+/**
+ * Encode text for writing, with the byte order mark the encoding calls for
+ */
+export function encodeText(text: string, encoding: TextEncoding): Buffer {
+  switch (encoding) {
+    case 'utf8':
+      return Buffer.from(text, 'utf8')
+    case 'utf8bom':
+      return Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from(text, 'utf8')])
+    case 'utf16le':
+      return Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from(text, 'utf16le')])
+    case 'utf16be':
+      return Buffer.concat([Buffer.from([0xfe, 0xff]), Buffer.from(text, 'utf16le').swap16()])
+    case 'latin1':
+      return Buffer.from(text, 'latin1')
+  }
+}
+
+/**
+ * Characters that cannot be written in an encoding; only Latin-1 is limited
+ */
+export function findUnencodableText(text: string, encoding: TextEncoding): string | null {
+  if (encoding !== 'latin1') return null
+  for (const char of text) {
+    if (char.codePointAt(0)! > 0xff) return char
+  }
+  return null
+}
@@ -0,0 +1,231 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { createHash, randomBytes } from 'node:crypto'
+import { FsPolicyError } from './pathPolicy'
+import {
+  MAX_IMAGE_PREVIEW_BYTES,
+  decodeText,
+  detectEncoding,
+  encodeText,
+  getImageMimeType,
+  isBinaryContent,
+} from './encoding'
+import type { FileContents, FileVersion, TextEncoding, TransferOptions, TransferResult } from '../src/shared/types'
+
+export function hashContent(content: string | Buffer): string {
+  return createHash('sha1').update(content).digest('hex')
+}
+
+async function readBufferWithVersion(filePath: string): Promise<{ buffer: Buffer; version: FileVersion }> {
+  const buffer = await fs.readFile(filePath)
+  const stats = await fs.stat(filePath)
+  return { buffer, version: { mtimeMs: stats.mtimeMs, size: stats.size, hash: hashContent(buffer) } }
+}
+
+/**
+ * Read a text file along with the version it was read at
+ * @param encoding - Decode in this encoding instead of detecting it
+ */
+export async function readFileWithVersion(
+  filePath: string,
+  encoding?: TextEncoding
+): Promise<{ content: string; encoding: TextEncoding; version: FileVersion }> {
+  const { buffer, version } = await readBufferWithVersion(filePath)
+  const used = encoding ?? detectEncoding(buffer)
+  return { content: decodeText(buffer, used), encoding: used, version }
+}
+
+/**
+ * Read a file for opening in a tab: images as a data URL for the preview,
+ * other binary files without content, and text decoded in its encoding
+ * @param encoding - Reopen as text in this encoding, skipping detection
+ */
+export async function readFileContents(filePath: string, encoding?: TextEncoding): Promise<FileContents> {
+  const { buffer, version } = await readBufferWithVersion(filePath)
+
+  if (!encoding) {
+    const mimeType = getImageMimeType(filePath)
+    if (mimeType) {
+      return buffer.length > MAX_IMAGE_PREVIEW_BYTES
+        ? { kind: 'binary', version }
+        : { kind: 'image', mimeType, dataUrl: `data:${mimeType};base64,${buffer.toString('base64')}`, version }
+    }
+    if (isBinaryContent(buffer)) {
+      return { kind: 'binary', version }
+    }
+  }
+
+  const used = encoding ?? detectEncoding(buffer)
+  return { kind: 'text', content: decodeText(buffer, used), encoding: used, version }
+}
+
+/**
+ * Check whether a file still matches a recorded version. mtime and size are
+ * compared first; the content is only hashed when they differ, so a touch
+ * without a real edit does not count as a change.
+ * @returns The current content and version when the file changed, otherwise null
+ */
+export async function detectExternalChange(
+  filePath: string,
+  expected: FileVersion,
+  encoding?: TextEncoding
+): Promise<{ content: string; version: FileVersion } | null> {
+  let stats
+  try {
+    stats = await fs.stat(filePath)
+  } catch {
+    // Deleted since it was read; writing recreates it
+    return null
+  }
+
+  if (stats.mtimeMs === expected.mtimeMs && stats.size === expected.size) {
+    return null
+  }
+
+  const current = await readFileWithVersion(filePath, encoding)
+  return current.version.hash === expected.hash ? null : current
+}
+
+/**
+ * Write a file via a temp file in the same folder and a rename, so a crash
+ * mid-write leaves either the old or the new content, never a truncated file
+ */
+export async function writeFileAtomic(
+  filePath: string,
+  content: string,
+  encoding: TextEncoding = 'utf8'
+): Promise<FileVersion> {
+  const bytes = encodeText(content, encoding)
+  const tempPath = path.join(
+    path.dirname(filePath),
+    `.${path.basename(filePath)}.${randomBytes(6).toString('hex')}.tmp`
+  )
+
+  try {
+    // Keep the original file's permissions
+    const mode = await fs.stat(filePath).then((stats) => stats.mode, () => undefined)
+
+    const handle = await fs.open(tempPath, 'w', mode)
+    try {
+      await handle.writeFile(bytes)
+      await handle.sync()
+    } finally {
+      await handle.close()
+    }
+
+    await fs.rename(tempPath, filePath)
+  } catch (error) {
+    await fs.rm(tempPath, { force: true })
+    throw error
+  }
+
+  const stats = await fs.stat(filePath)
+  return { mtimeMs: stats.mtimeMs, size: stats.size, hash: hashContent(bytes) }
+}
+
+/**
+ * Move a file or folder, copying across devices when a rename is not possible
+ */
+export async function moveItem(from: string, to: string): Promise<void> {
+  try {
+    await fs.rename(from, to)
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EXDEV') throw error
+    await fs.cp(from, to, { recursive: true, errorOnExist: true, force: false })
+    await fs.rm(from, { recursive: true, force: true })
+  }
+}
+
+async function pathExists(itemPath: string): Promise<boolean> {
+  try {
+    await fs.lstat(itemPath)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * First free name in a folder: "notes.md", then "notes 2.md", "notes 3.md", ...
+ */
+export async function findAvailableName(folderPath: string, name: string): Promise<string> {
+  if (!(await pathExists(path.join(folderPath, name)))) return name
+
+  const ext = path.extname(name)
+  const stem = ext && ext !== name ? name.slice(0, -ext.length) : name
+  for (let n = 2; ; n++) {
+    const candidate = `${stem} ${n}${ext !== name ? ext : ''}`
+    if (!(await pathExists(path.join(folderPath, candidate)))) return candidate
+  }
+}
+
+/**
+ * Move or copy items into a folder. Paths must already be checked by the path policy.
+ * With onCollision 'fail' (the default) nothing is transferred when any name is taken.
+ */
+export async function transferItems(
+  mode: 'move' | 'copy',
+  sourcePaths: string[],
+  targetFolder: string,
+  options: TransferOptions = {}
+): Promise<TransferResult> {
+  const onCollision = options.onCollision ?? 'fail'
+  const result: TransferResult = { items: [], skipped: [] }
+
+  const planned: Array<{ from: string; name: string; duplicate: boolean }> = []
+  const collisions: string[] = []
+  for (const source of sourcePaths) {
+    // Items inside another dragged folder travel with it
+    if (sourcePaths.some((other) => source.startsWith(other + path.sep))) continue
+
+    if (targetFolder === source || targetFolder.startsWith(source + path.sep)) {
+      throw new FsPolicyError('INVALID_NAME', `Cannot ${mode} "${path.basename(source)}" into itself`, source)
+    }
+
+    // Moving into the folder an item is already in changes nothing
+    if (mode === 'move' && path.dirname(source) === targetFolder) {
+      result.skipped.push(source)
+      continue
+    }
+
+    const name = path.basename(source)
+    const duplicate = mode === 'copy' && path.dirname(source) === targetFolder
+    if (!duplicate && (await pathExists(path.join(targetFolder, name)))) {
+      collisions.push(name)
+    }
+    planned.push({ from: source, name, duplicate })
+  }
+
+  if (collisions.length > 0 && onCollision === 'fail') {
+    const names = collisions.map((name) => `"${name}"`).join(', ')
+    throw new FsPolicyError(
+      'ALREADY_EXISTS',
+      `${names} already ${collisions.length === 1 ? 'exists' : 'exist'} in "${path.basename(targetFolder)}"`,
+      targetFolder
+    )
+  }
+
+  for (const { from, name, duplicate } of planned) {
+    let targetName = name
+    if (duplicate) {
+      // Copying into the item's own folder makes a duplicate next to it
+      targetName = await findAvailableName(targetFolder, name)
+    } else if (collisions.includes(name)) {
+      if (onCollision === 'skip') {
+        result.skipped.push(from)
+        continue
+      }
+      targetName = await findAvailableName(targetFolder, name)
+    }
+
+    const to = path.join(targetFolder, targetName)
+    if (mode === 'move') {
+      await moveItem(from, to)
+    } else {
+      await fs.cp(from, to, { recursive: true, errorOnExist: true, force: false })
+    }
+    result.items.push({ from, to })
+  }
+
+  return result
+}
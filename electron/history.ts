@@ -0,0 +1,162 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { randomUUID } from 'node:crypto'
+import { FsPolicyError } from './pathPolicy'
+import { hashContent, writeFileAtomic } from './files'
+import type { HistoryEntry } from '../src/shared/types'
+
+// Saves this soon after the latest snapshot update it instead of adding one,
+// so auto-save while typing does not produce a snapshot per second
+const MERGE_WINDOW_MS = 60 * 1000
+
+// Retention: snapshots older than a day are thinned to one per hour, and none
+// are kept beyond the age or count limits
+const THIN_AFTER_MS = 24 * 60 * 60 * 1000
+const THIN_INTERVAL_MS = 60 * 60 * 1000
+const MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000
+const MAX_ENTRIES = 100
+
+const INDEX_FILE = 'index.json'
+
+interface HistoryIndex {
+  filePath: string
+  /** Newest first */
+  entries: HistoryEntry[]
+}
+
+export function countWords(text: string): number {
+  return text.match(/[\p{L}\p{N}][\p{L}\p{N}'’-]*/gu)?.length ?? 0
+}
+
+/**
+ * Local history
+ * Snapshots of files as they are saved, kept in the user-data directory: one
+ * folder per file with an index and the snapshot contents stored by hash, so
+ * identical versions are stored once.
+ */
+export class HistoryStore {
+  constructor(private readonly dir: string) {}
+
+  /**
+   * Snapshot a file's content after a save
+   * @param options.merge - Fold into the latest snapshot when it is recent (off for restores,
+   *   so the version being replaced stays in the timeline)
+   */
+  async record(filePath: string, content: string, options: { merge?: boolean } = {}): Promise<void> {
+    const index = await this.readIndex(filePath)
+    const hash = hashContent(content)
+    const latest = index.entries[0]
+    if (latest?.hash === hash) return
+
+    const now = Date.now()
+    const entry: HistoryEntry = { id: randomUUID(), createdAt: now, timestamp: now, hash, wordCount: countWords(content) }
+    if (latest && options.merge !== false && now - latest.createdAt < MERGE_WINDOW_MS) {
+      index.entries[0] = { ...entry, id: latest.id, createdAt: latest.createdAt }
+    } else {
+      index.entries.unshift(entry)
+    }
+
+    const folder = this.folderFor(filePath)
+    await fs.mkdir(folder, { recursive: true })
+    const blobPath = path.join(folder, hash)
+    if (!(await fs.stat(blobPath).catch(() => null))) {
+      await writeFileAtomic(blobPath, content)
+    }
+
+    index.entries = prune(index.entries, now)
+    await this.writeIndex(index)
+  }
+
+  /**
+   * Snapshots of a file, newest first
+   */
+  async list(filePath: string): Promise<HistoryEntry[]> {
+    return (await this.readIndex(filePath)).entries
+  }
+
+  async read(filePath: string, entryId: string): Promise<string> {
+    const entry = (await this.readIndex(filePath)).entries.find((e) => e.id === entryId)
+    if (!entry) {
+      throw new FsPolicyError('NOT_FOUND', 'This version is no longer in the local history', filePath)
+    }
+    return fs.readFile(path.join(this.folderFor(filePath), entry.hash), 'utf8')
+  }
+
+  /**
+   * Carry the history of a renamed or moved file, or of every file in a
+   * renamed or moved folder, over to the new path
+   */
+  async move(from: string, to: string): Promise<void> {
+    let folders: string[]
+    try {
+      folders = await fs.readdir(this.dir)
+    } catch {
+      return
+    }
+
+    for (const folder of folders) {
+      const index = await readJson(path.join(this.dir, folder, INDEX_FILE))
+      if (!index) continue
+
+      const relative = path.relative(from, index.filePath)
+      if (relative.startsWith('..') || path.isAbsolute(relative)) continue
+
+      const newPath = relative ? path.join(to, relative) : to
+      const newFolder = this.folderFor(newPath)
+      await fs.rm(newFolder, { recursive: true, force: true })
+      await fs.rename(path.join(this.dir, folder), newFolder)
+      await this.writeIndex({ ...index, filePath: newPath })
+    }
+  }
+
+  private async readIndex(filePath: string): Promise<HistoryIndex> {
+    const index = await readJson(path.join(this.folderFor(filePath), INDEX_FILE))
+    return index ?? { filePath, entries: [] }
+  }
+
+  /**
+   * Save the index and delete snapshot contents no entry refers to any more
+   */
+  private async writeIndex(index: HistoryIndex): Promise<void> {
+    const folder = this.folderFor(index.filePath)
+    await writeFileAtomic(path.join(folder, INDEX_FILE), JSON.stringify(index, null, 2))
+
+    const hashes = new Set(index.entries.map((entry) => entry.hash))
+    for (const name of await fs.readdir(folder)) {
+      if (name !== INDEX_FILE && !hashes.has(name) && !name.startsWith('.')) {
+        await fs.rm(path.join(folder, name), { force: true })
+      }
+    }
+  }
+
+  private folderFor(filePath: string): string {
+    return path.join(this.dir, hashContent(filePath))
+  }
+}
+
+async function readJson(indexPath: string): Promise<HistoryIndex | null> {
+  try {
+    const index = JSON.parse(await fs.readFile(indexPath, 'utf8')) as HistoryIndex
+    return typeof index?.filePath === 'string' && Array.isArray(index.entries) ? index : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Apply the retention limits to entries sorted newest first
+ */
+function prune(entries: HistoryEntry[], now: number): HistoryEntry[] {
+  let lastKept: number | null = null
+  return entries
+    .filter((entry) => {
+      const age = now - entry.timestamp
+      if (age > MAX_AGE_MS) return false
+      if (age > THIN_AFTER_MS && lastKept !== null && lastKept - entry.timestamp < THIN_INTERVAL_MS) {
+        return false
+      }
+      lastKept = entry.timestamp
+      return true
+    })
+    .slice(0, MAX_ENTRIES)
+}
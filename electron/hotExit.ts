@@ -0,0 +1,64 @@
+import fs from 'node:fs/promises'
+import { rmSync } from 'node:fs'
+import path from 'node:path'
+import { hashContent, writeFileAtomic } from './files'
+import type { UnsavedBuffer } from '../src/shared/types'
+
+/**
+ * Hot-exit journal
+ * Unsaved buffers kept in the user-data directory, one file per edited file,
+ * while they are dirty. Whatever is left when the app starts was lost to a crash
+ * or forced quit and is offered for recovery.
+ */
+export class HotExitJournal {
+  constructor(private readonly dir: string) {}
+
+  async write(buffer: UnsavedBuffer): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true })
+    await writeFileAtomic(this.pathFor(buffer.filePath), JSON.stringify(buffer))
+  }
+
+  /**
+   * Drop a buffer once it is saved, discarded or recovered
+   */
+  async discard(filePath: string): Promise<void> {
+    await fs.rm(this.pathFor(filePath), { force: true })
+  }
+
+  /**
+   * Journaled buffers, most recently edited first
+   */
+  async list(): Promise<UnsavedBuffer[]> {
+    let names: string[]
+    try {
+      names = await fs.readdir(this.dir)
+    } catch {
+      return []
+    }
+
+    const buffers: UnsavedBuffer[] = []
+    for (const name of names.filter((n) => n.endsWith('.json'))) {
+      try {
+        const buffer = JSON.parse(await fs.readFile(path.join(this.dir, name), 'utf8')) as UnsavedBuffer
+        if (typeof buffer?.filePath === 'string' && typeof buffer.content === 'string') {
+          buffers.push(buffer)
+        }
+      } catch {
+        // Cut short by the crash it was meant to survive
+      }
+    }
+    return buffers.sort((a, b) => b.modifiedAt - a.modifiedAt)
+  }
+
+  /**
+   * Drop every buffer, when the user quits without saving. Synchronous, so it
+   * finishes before the app exits.
+   */
+  clear(): void {
+    rmSync(this.dir, { recursive: true, force: true })
+  }
+
+  private pathFor(filePath: string): string {
+    return path.join(this.dir, `${hashContent(filePath)}.json`)
+  }
+}
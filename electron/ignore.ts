@@ -0,0 +1,228 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+
+interface IgnoreRule {
+  regex: RegExp
+  negated: boolean
+  directoryOnly: boolean
+  // Directory the rule was declared in; patterns are matched relative to it
+  baseDir: string
+}
+
+// Always hidden from the explorer, watcher and search, regardless of .gitignore
+export const DEFAULT_IGNORE_PATTERNS = ['.git/', 'node_modules/', '.DS_Store', '.intellirite/']
+
+// Read from every directory while walking down from the root
+const GITIGNORE_FILE = '.gitignore'
+
+// Workspace-level ignore list, read from the root only (same syntax as .gitignore)
+export const WORKSPACE_IGNORE_FILE = '.intelliriteignore'
+
+/**
+ * Ignore matcher
+ * Evaluates .gitignore files (nested, root to leaf), the workspace ignore file and
+ * the built-in defaults. Parsed rules are cached per directory until invalidated.
+ */
+export class IgnoreMatcher {
+  private cache = new Map<string, IgnoreRule[]>()
+
+  /**
+   * Check whether a path inside rootPath is ignored, either directly or because
+   * one of its ancestor folders is
+   */
+  async isIgnored(fullPath: string, isDirectory: boolean, rootPath: string): Promise<boolean> {
+    const relative = path.relative(rootPath, fullPath)
+    if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+      return false
+    }
+
+    const segments = relative.split(path.sep)
+    const rules: IgnoreRule[] = [
+      ...parseIgnoreFile(DEFAULT_IGNORE_PATTERNS.join('\n'), rootPath),
+      ...(await this.getRules(rootPath, WORKSPACE_IGNORE_FILE)),
+    ]
+
+    let currentDir = rootPath
+    for (let i = 0; i < segments.length; i++) {
+      rules.push(...(await this.getRules(currentDir, GITIGNORE_FILE)))
+
+      const candidate = path.join(currentDir, segments[i])
+      const isLast = i === segments.length - 1
+      if (matchRules(rules, candidate, isLast ? isDirectory : true)) {
+        return true
+      }
+      currentDir = candidate
+    }
+
+    return false
+  }
+
+  /**
+   * Drop cached rules when an ignore file is created, edited or deleted
+   */
+  handlePathChanged(changedPath: string): void {
+    const baseName = path.basename(changedPath)
+    if (baseName === GITIGNORE_FILE || baseName === WORKSPACE_IGNORE_FILE) {
+      const dir = path.dirname(changedPath)
+      this.cache.delete(cacheKey(dir, GITIGNORE_FILE))
+      this.cache.delete(cacheKey(dir, WORKSPACE_IGNORE_FILE))
+    }
+  }
+
+  /**
+   * Clear every cached rule set
+   */
+  invalidateAll(): void {
+    this.cache.clear()
+  }
+
+  private async getRules(dir: string, fileName: string): Promise<IgnoreRule[]> {
+    const key = cacheKey(dir, fileName)
+    const cached = this.cache.get(key)
+    if (cached) return cached
+
+    let rules: IgnoreRule[] = []
+    try {
+      const content = await fs.readFile(path.join(dir, fileName), 'utf8')
+      rules = parseIgnoreFile(content, dir)
+    } catch {
+      // No ignore file in this directory
+    }
+
+    this.cache.set(key, rules)
+    return rules
+  }
+}
+
+function cacheKey(dir: string, fileName: string): string {
+  return `${dir}${path.sep}${fileName}`
+}
+
+/**
+ * Last matching rule wins, so a later negation can re-include a path
+ */
+function matchRules(rules: IgnoreRule[], fullPath: string, isDirectory: boolean): boolean {
+  let ignored = false
+
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) continue
+
+    const relative = path.relative(rule.baseDir, fullPath)
+    if (!relative || relative.startsWith('..')) continue
+
+    if (rule.regex.test(relative.split(path.sep).join('/'))) {
+      ignored = !rule.negated
+    }
+  }
+
+  return ignored
+}
+
+/**
+ * Parse the contents of a .gitignore-style file into rules
+ */
+export function parseIgnoreFile(content: string, baseDir: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = []
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.replace(/(?<!\\)\s+$/, '')
+    if (!line || line.startsWith('#')) continue
+
+    let negated = false
+    if (line.startsWith('!')) {
+      negated = true
+      line = line.slice(1)
+    } else if (line.startsWith('\\!') || line.startsWith('\\#')) {
+      line = line.slice(1)
+    }
+
+    let directoryOnly = false
+    if (line.endsWith('/')) {
+      directoryOnly = true
+      line = line.slice(0, -1)
+    }
+    if (!line) continue
+
+    // A slash anywhere but the end anchors the pattern to the ignore file's directory
+    const anchored = line.includes('/')
+    if (line.startsWith('/')) {
+      line = line.slice(1)
+    }
+
+    const body = globToRegex(line)
+    rules.push({
+      regex: new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`),
+      negated,
+      directoryOnly,
+      baseDir,
+    })
+  }
+
+  return rules
+}
+
+/**
+ * Build a predicate from comma-separated globs (gitignore syntax), matched against
+ * paths relative to baseDir. Returns null when no patterns are given.
+ */
+export function createGlobMatcher(patterns: string, baseDir: string): ((fullPath: string, isDirectory: boolean) => boolean) | null {
+  const rules = parseIgnoreFile(
+    patterns
+      .split(',')
+      .map((pattern) => pattern.trim())
+      .join('\n'),
+    baseDir
+  )
+  if (rules.length === 0) return null
+
+  return (fullPath, isDirectory) => matchRules(rules, fullPath, isDirectory)
+}
+
+function globToRegex(glob: string): string {
+  let result = ''
+  let i = 0
+
+  while (i < glob.length) {
+    const char = glob[i]
+
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        if (glob[i + 2] === '/') {
+          // "**/" matches zero or more directories
+          result += '(?:.*/)?'
+          i += 3
+        } else {
+          result += '.*'
+          i += 2
+        }
+      } else {
+        result += '[^/]*'
+        i++
+      }
+    } else if (char === '?') {
+      result += '[^/]'
+      i++
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 1)
+      if (end === -1) {
+        result += '\\['
+        i++
+      } else {
+        result += `[${glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`
+        i = end + 1
+      }
+    } else if (char === '\\' && i + 1 < glob.length) {
+      result += escapeRegex(glob[i + 1])
+      i += 2
+    } else {
+      result += escapeRegex(char)
+      i++
+    }
+  }
+
+  return result
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')
+}
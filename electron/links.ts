@@ -0,0 +1,288 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import type { IgnoreMatcher } from './ignore'
+import { createSearchMatch } from './search'
+import { readFileWithVersion } from './files'
+import type { BatchFileWrite, PathRename, SearchMatch, WikiNote } from '../src/shared/types'
+
+const MARKDOWN_EXTENSIONS = new Set(['.md', '.markdown'])
+
+// Notes larger than this are not scanned for links
+const MAX_FILE_SIZE = 5 * 1024 * 1024
+
+// [[target#heading|alias]]; the heading and the alias are optional
+const WIKI_LINK_PATTERN = /\[\[([^[\]|#\n]*)(#[^[\]|\n]*)?(\|[^[\]\n]*)?\]\]/g
+
+export interface WikiLinkOccurrence {
+  /** 0-indexed */
+  line: number
+  /** Offset of the link in its line */
+  index: number
+  /** The link as written */
+  text: string
+  target: string
+  /** "#heading" and "|alias" as written, or empty */
+  heading: string
+  alias: string
+}
+
+/**
+ * Wiki-links in markdown, leaving out code blocks and code spans
+ */
+export function findWikiLinks(content: string): WikiLinkOccurrence[] {
+  const links: WikiLinkOccurrence[] = []
+  let fence: string | null = null
+
+  content.split(/\r?\n/).forEach((line, lineIndex) => {
+    const fenceMatch = /^ {0,3}(`{3,}|~{3,})/.exec(line)
+    if (fence) {
+      if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+        fence = null
+      }
+      return
+    }
+    if (fenceMatch) {
+      fence = fenceMatch[1]
+      return
+    }
+
+    // Blank out code spans, keeping offsets
+    const text = line.replace(/(`+)[^`][\s\S]*?\1/g, (span) => ' '.repeat(span.length))
+    for (const match of text.matchAll(WIKI_LINK_PATTERN)) {
+      if (!match[1].trim() && !match[2]) continue
+      links.push({
+        line: lineIndex,
+        index: match.index,
+        text: match[0],
+        target: match[1].trim(),
+        heading: match[2] ?? '',
+        alias: match[3] ?? '',
+      })
+    }
+  })
+  return links
+}
+
+/**
+ * A note's path for matching link targets: forward slashes, no extension, lower case
+ */
+function getNoteKey(notePath: string): string {
+  return notePath.replace(/\\/g, '/').replace(/\.(md|markdown)$/i, '').toLowerCase()
+}
+
+/**
+ * The note a link target points to. Targets are a note's name or the end of
+ * its path (folder/name), with or without the extension; when several notes
+ * match, the one next to the linking note wins, then the shortest path.
+ * An empty target ([[#heading]]) is the linking note itself.
+ */
+export function resolveWikiLink(target: string, fromPath: string, notePaths: string[]): string | null {
+  const wanted = getNoteKey(target.trim()).replace(/^(?:\.?\/)+/, '')
+  if (!wanted) return fromPath
+
+  const candidates = notePaths.filter((notePath) => getNoteKey(notePath).endsWith(`/${wanted}`))
+  if (candidates.length <= 1) return candidates[0] ?? null
+
+  const folder = path.dirname(fromPath)
+  return (
+    candidates.find((candidate) => path.dirname(candidate) === folder) ??
+    candidates.reduce((shortest, candidate) => (candidate.length < shortest.length ? candidate : shortest))
+  )
+}
+
+/**
+ * Shortest link target for a note: its name when no other note has it,
+ * otherwise as much of its path as it takes to tell them apart
+ * @param minSegments - Use at least this many path segments (to keep a link's folder)
+ */
+export function getWikiLinkTarget(notePath: string, notePaths: string[], minSegments = 1): string {
+  const segments = notePath.replace(/\\/g, '/').replace(/\.(md|markdown)$/i, '').split('/')
+  for (let count = Math.max(1, minSegments); count < segments.length; count++) {
+    const target = segments.slice(-count).join('/')
+    const suffix = `/${target.toLowerCase()}`
+    if (notePaths.every((other) => other === notePath || !getNoteKey(other).endsWith(suffix))) {
+      return target
+    }
+  }
+  return segments.join('/')
+}
+
+function isPathInside(folderPath: string, candidate: string): boolean {
+  return (
+    candidate.length > folderPath.length &&
+    candidate.startsWith(folderPath) &&
+    (candidate[folderPath.length] === '/' || candidate[folderPath.length] === '\\')
+  )
+}
+
+/**
+ * Where a path ended up after the renames, or null if none of them moved it
+ */
+function getRenamedPath(itemPath: string, renames: PathRename[]): string | null {
+  for (const { from, to } of renames) {
+    if (itemPath === from) return to
+    if (isPathInside(from, itemPath)) return to + itemPath.slice(from.length)
+  }
+  return null
+}
+
+/**
+ * Where a path was before the renames
+ */
+function getPathBeforeRenames(itemPath: string, renames: PathRename[]): string {
+  return getRenamedPath(itemPath, renames.map(({ from, to }) => ({ from: to, to: from }))) ?? itemPath
+}
+
+async function readNote(notePath: string): Promise<string | null> {
+  try {
+    const stats = await fs.stat(notePath)
+    if (stats.size > MAX_FILE_SIZE) return null
+    return (await readFileWithVersion(notePath)).content
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Wiki-links
+ * Finds the markdown notes of a workspace (respecting ignore rules) and the
+ * [[links]] between them, for autocomplete, navigation, backlinks and keeping
+ * links pointing at notes that are renamed or moved.
+ */
+export class WikiLinks {
+  constructor(private readonly ignoreMatcher: IgnoreMatcher) {}
+
+  /**
+   * Paths of the markdown files under the workspace roots
+   */
+  async listNotePaths(rootPaths: string[]): Promise<string[]> {
+    const notePaths: string[] = []
+
+    const walk = async (dir: string, rootPath: string): Promise<void> => {
+      let entries
+      try {
+        entries = await fs.readdir(dir, { withFileTypes: true })
+      } catch (error) {
+        console.error('[LINKS] Error reading folder:', dir, error)
+        return
+      }
+
+      for (const entry of entries) {
+        const fullPath = path.join(dir, entry.name)
+        const isDirectory = entry.isDirectory()
+
+        if (!isDirectory && !entry.isFile()) continue
+        if (await this.ignoreMatcher.isIgnored(fullPath, isDirectory, rootPath)) continue
+
+        if (isDirectory) {
+          await walk(fullPath, rootPath)
+        } else if (MARKDOWN_EXTENSIONS.has(path.extname(entry.name).toLowerCase())) {
+          notePaths.push(fullPath)
+        }
+      }
+    }
+
+    for (const rootPath of rootPaths) {
+      await walk(rootPath, rootPath)
+    }
+    return notePaths
+  }
+
+  async listNotes(rootPaths: string[]): Promise<WikiNote[]> {
+    const notePaths = await this.listNotePaths(rootPaths)
+
+    // Most names are unique, so only shared names need the path comparison
+    const nameCounts = new Map<string, number>()
+    const getName = (notePath: string) => path.basename(notePath, path.extname(notePath))
+    for (const notePath of notePaths) {
+      const key = getName(notePath).toLowerCase()
+      nameCounts.set(key, (nameCounts.get(key) ?? 0) + 1)
+    }
+
+    return notePaths.map((filePath) => {
+      const name = getName(filePath)
+      const rootPath = rootPaths.find((root) => isPathInside(root, filePath)) ?? path.dirname(filePath)
+      return {
+        filePath,
+        name,
+        folder: path.relative(rootPath, path.dirname(filePath)),
+        linkTarget: nameCounts.get(name.toLowerCase()) === 1 ? name : getWikiLinkTarget(filePath, notePaths),
+      }
+    })
+  }
+
+  /**
+   * The note a link in fromPath points to, or null when there is none
+   */
+  async resolve(rootPaths: string[], target: string, fromPath: string): Promise<string | null> {
+    return resolveWikiLink(target, fromPath, await this.listNotePaths(rootPaths))
+  }
+
+  /**
+   * Links in other notes that point to a note
+   */
+  async findBacklinks(rootPaths: string[], filePath: string): Promise<SearchMatch[]> {
+    const notePaths = await this.listNotePaths(rootPaths)
+    const matches: SearchMatch[] = []
+
+    for (const notePath of notePaths) {
+      if (notePath === filePath) continue
+      const content = await readNote(notePath)
+      if (content === null) continue
+
+      const lines = content.split(/\r?\n/)
+      for (const link of findWikiLinks(content)) {
+        if (resolveWikiLink(link.target, notePath, notePaths) === filePath) {
+          matches.push(createSearchMatch(notePath, lines[link.line], link.line + 1, link.index, link.text))
+        }
+      }
+    }
+    return matches
+  }
+
+  /**
+   * Rewrites that keep links pointing at renamed or moved notes (or notes in
+   * renamed folders). Called once the renames are done: links are resolved
+   * against the notes as they were, and rewritten for the notes as they are.
+   * Links written with a folder or an extension keep them.
+   */
+  async planRenames(rootPaths: string[], renames: PathRename[]): Promise<BatchFileWrite[]> {
+    const notePaths = await this.listNotePaths(rootPaths)
+    const previousPaths = notePaths.map((notePath) => getPathBeforeRenames(notePath, renames))
+    const writes: BatchFileWrite[] = []
+
+    for (const [noteIndex, notePath] of notePaths.entries()) {
+      const content = await readNote(notePath)
+      if (content === null) continue
+
+      // Split on \n only, so lines keep their \r
+      const lines = content.split('\n')
+      let isChanged = false
+      // Right to left, so earlier offsets in a line stay valid
+      for (const link of findWikiLinks(content).reverse()) {
+        if (!link.target) continue
+        const linked = resolveWikiLink(link.target, previousPaths[noteIndex], previousPaths)
+        const renamed = linked && getRenamedPath(linked, renames)
+        if (!renamed) continue
+
+        const hasExtension = /\.(md|markdown)$/i.test(link.target)
+        const target =
+          getWikiLinkTarget(renamed, notePaths, link.target.split('/').length) +
+          (hasExtension ? path.extname(renamed) : '')
+        if (target === link.target) continue
+
+        const line = lines[link.line]
+        lines[link.line] =
+          line.slice(0, link.index) +
+          `[[${target}${link.heading}${link.alias}]]` +
+          line.slice(link.index + link.text.length)
+        isChanged = true
+      }
+
+      if (isChanged) {
+        writes.push({ filePath: notePath, expectedContent: content, content: lines.join('\n') })
+      }
+    }
+    return writes
+  }
+}
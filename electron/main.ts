@@ -1,9 +1,24 @@
-import { app, BrowserWindow, ipcMain, dialog } from 'electron'
+import { app, BrowserWindow, ipcMain, dialog, shell, type FileFilter } from 'electron'
 import { fileURLToPath } from 'node:url'
 import path from 'node:path'
 import { platform } from 'process'
 import fs from 'node:fs/promises'
 import { existsSync, readFileSync } from 'node:fs'
+import { WorkspaceWatcher } from './watcher'
+import { IgnoreMatcher } from './ignore'
+import { WorkspaceSearch, previewReplace } from './search'
+import { WikiLinks } from './links'
+import { findBibliography, loadBibliography } from './bibliography'
+import { TrashManager } from './trash'
+import { detectExternalChange, readFileContents, readFileWithVersion, transferItems, writeFileAtomic } from './files'
+import { findUnencodableText } from './encoding'
+import { WORKSPACE_EXTENSION, readWorkspaceFile, writeWorkspaceFile } from './workspace'
+import { SessionStore } from './session'
+import { RecentList } from './recent'
+import { HistoryStore } from './history'
+import { HotExitJournal } from './hotExit'
+import { FsPolicyError, PathPolicy, fsFailure } from './pathPolicy'
+import type { BatchFileWrite, FileItem, FileVersion, FileWriteResult, FolderListing, PathRename, ReadFolderOptions, RecentOpenResult, ReplacePreviewRequest, SearchOptions, TextEncoding, TransferOptions, UnsavedBuffer, Workspace, WorkspaceSession } from '../src/shared/types'
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url))
 
@@ -27,8 +42,24 @@ process.env.VITE_PUBLIC = VITE_DEV_SERVER_URL ? path.join(process.env.APP_ROOT,
 
 let win: BrowserWindow | null
 
+// Shared by the explorer listing and the watcher so both hide the same paths
+const ignoreMatcher = new IgnoreMatcher()
+
+// Pushes external file-system changes in opened folders to the renderer
+const workspaceWatcher = new WorkspaceWatcher(
+  (events) => {
+    win?.webContents.send('fs-watch-event', events)
+  },
+  {
+    isIgnored: (fullPath, isDirectory, rootPath) => ignoreMatcher.isIgnored(fullPath, isDirectory, rootPath),
+    onPathChanged: (fullPath) => ignoreMatcher.handlePathChanged(fullPath),
+  }
+)
+
 function createWindow() {
   const isMac = platform === 'darwin'
+  // A new window asks about its own unsaved edits
+  closeConfirmed = false
   
   win = new BrowserWindow({
     width: 1400,
@@ -81,6 +112,21 @@ function createWindow() {
     win?.webContents.send('window-state-changed', { isMaximized: false })
   })
 
+  win.on('close', (event) => {
+    if (!confirmClose('close')) event.preventDefault()
+  })
+
+  // Cleared before anything can quit, so quitting does not ask about a window that is gone
+  win.on('closed', () => {
+    win = null
+  })
+
+  // Nothing is left to save in a renderer that is gone; its journal is recovered on the next launch
+  win.webContents.on('render-process-gone', () => {
+    unsavedFiles = []
+    pendingCloseAction = null
+  })
+
   if (VITE_DEV_SERVER_URL) {
     win.loadURL(VITE_DEV_SERVER_URL)
   } else {
@@ -110,7 +156,117 @@ ipcMain.handle('window-get-state', () => {
   return { isMaximized: win?.isMaximized() ?? false }
 })
 
+// Hot exit: dirty buffers are journaled while they are dirty, so a crash or forced
+// quit loses nothing; closing normally asks about them first
+const hotExitJournal = new HotExitJournal(path.join(app.getPath('userData'), 'hot-exit'))
+
+// Names of the files with unsaved edits, as last reported by the renderer
+let unsavedFiles: string[] = []
+// Set once closing or quitting may go ahead despite them; both check it, so the
+// user is asked only once
+let closeConfirmed = false
+// What to finish once the renderer has saved everything
+let pendingCloseAction: 'close' | 'quit' | null = null
+
+/**
+ * Ask what to do with unsaved edits before the window closes or the app quits.
+ * Returns true when closing can go ahead now.
+ */
+function confirmClose(action: 'close' | 'quit'): boolean {
+  if (closeConfirmed || unsavedFiles.length === 0 || !win || win.isDestroyed()) return true
+
+  const response = dialog.showMessageBoxSync(win, {
+    type: 'warning',
+    buttons: ['Save All', "Don't Save", 'Cancel'],
+    defaultId: 0,
+    cancelId: 2,
+    message: unsavedFiles.length === 1
+      ? `Do you want to save the changes you made to ${unsavedFiles[0]}?`
+      : `Do you want to save the changes to ${unsavedFiles.length} files?`,
+    detail: unsavedFiles.length === 1
+      ? "Your changes will be lost if you don't save them."
+      : `${unsavedFiles.join('\n')}\n\nYour changes will be lost if you don't save them.`,
+  })
+
+  if (response === 0) {
+    // Closed again once the renderer reports the saves are done
+    pendingCloseAction = action
+    win.webContents.send('hot-exit-save-all')
+    return false
+  }
+  if (response === 1) {
+    closeConfirmed = true
+    unsavedFiles = []
+    try {
+      hotExitJournal.clear()
+    } catch (error) {
+      console.error('Error clearing hot-exit journal:', error)
+    }
+    return true
+  }
+  return false
+}
+
+app.on('before-quit', (event) => {
+  if (!confirmClose('quit')) event.preventDefault()
+})
+
+ipcMain.on('hot-exit-set-unsaved', (_event, fileNames: string[]) => {
+  unsavedFiles = Array.isArray(fileNames) ? fileNames : []
+})
+
+ipcMain.on('hot-exit-saved-all', (_event, saved: boolean) => {
+  const action = pendingCloseAction
+  pendingCloseAction = null
+  // Stay open when a save failed, so the renderer can show what went wrong
+  if (!saved || !action) return
+
+  closeConfirmed = true
+  unsavedFiles = []
+  if (action === 'quit') {
+    app.quit()
+  } else {
+    win?.close()
+  }
+})
+
+ipcMain.handle('hot-exit-write', async (_event, buffer: UnsavedBuffer) => {
+  try {
+    await hotExitJournal.write(buffer)
+    return { success: true }
+  } catch (error) {
+    console.error('Error journaling unsaved buffer:', error)
+    return fsFailure(error)
+  }
+})
+
+ipcMain.handle('hot-exit-discard', async (_event, filePath: string) => {
+  try {
+    await hotExitJournal.discard(filePath)
+    return { success: true }
+  } catch (error) {
+    console.error('Error discarding unsaved buffer:', error)
+    return fsFailure(error)
+  }
+})
+
+ipcMain.handle('hot-exit-list', async () => {
+  try {
+    return { success: true, buffers: await hotExitJournal.list() }
+  } catch (error) {
+    console.error('Error listing unsaved buffers:', error)
+    return fsFailure(error)
+  }
+})
+
 // File system IPC handlers
+// Every path from the renderer goes through the policy first; failures come back
+// as { success: false, error: FsError } rather than as raw Node errors.
+const pathPolicy = new PathPolicy([app.getPath('userData')])
+
+// Folders, workspace files and files for the welcome screen and "Open Recent"
+const recentList = new RecentList(path.join(app.getPath('userData'), 'recent.json'))
+
 ipcMain.handle('fs-open-folder', async () => {
   if (!win) return null
   
@@ -122,137 +278,720 @@ ipcMain.handle('fs-open-folder', async () => {
     return null
   }
   
+  // A folder picked by the user becomes a workspace root
+  await pathPolicy.allowRoot(result.filePaths[0])
+  await recentList.add('folder', result.filePaths[0])
   return result.filePaths[0]
 })
 
-// Recursive function to read folder structure
-async function readFolderRecursive(folderPath: string): Promise<any[]> {
+// Workspace files the user opened or saved through a dialog; the renderer may
+// only write back to these
+const workspaceFiles = new Set<string>()
+
+/**
+ * Read a workspace file and allow its folders. Folders that were moved or
+ * deleted since are left out rather than failing the whole workspace.
+ */
+async function openWorkspaceFile(filePath: string): Promise<{ workspace: Workspace; missingFolders: string[] }> {
+  const workspace = await readWorkspaceFile(filePath)
+  workspaceFiles.add(filePath)
+
+  const folders: string[] = []
+  const missingFolders: string[] = []
+  for (const folder of workspace.folders) {
+    try {
+      await pathPolicy.allowRoot(folder)
+      folders.push(folder)
+    } catch {
+      missingFolders.push(folder)
+    }
+  }
+
+  await recentList.add('workspace', filePath)
+  return { workspace: { ...workspace, folders }, missingFolders }
+}
+
+ipcMain.handle('workspace-open', async () => {
+  if (!win) return { success: true, workspace: null }
+
+  const result = await dialog.showOpenDialog(win, {
+    properties: ['openFile'],
+    filters: [{ name: 'Intellirite Workspace', extensions: [WORKSPACE_EXTENSION] }],
+  })
+  if (result.canceled || result.filePaths.length === 0) {
+    return { success: true, workspace: null }
+  }
+
+  try {
+    return { success: true, ...(await openWorkspaceFile(result.filePaths[0])) }
+  } catch (error) {
+    console.error('Error opening workspace:', error)
+    return fsFailure(error)
+  }
+})
+
+// Save to the workspace's own file, or ask where to save when it has none (or saveAs is set)
+ipcMain.handle('workspace-save', async (_event, workspace: Workspace, saveAs?: boolean) => {
   try {
-    const items = await fs.readdir(folderPath, { withFileTypes: true })
-    const fileItems = []
-    
-    for (const item of items) {
-      const fullPath = path.join(folderPath, item.name)
-      
-      if (item.isDirectory()) {
-        // Recursively read children
-        const children = await readFolderRecursive(fullPath)
-        fileItems.push({
-          id: fullPath,
-          name: item.name,
-          path: fullPath,
-          type: 'folder' as const,
-          children: children,
-        })
-      } else {
-        const ext = path.extname(item.name).slice(1)
-        fileItems.push({
-          id: fullPath,
-          name: item.name,
-          path: fullPath,
-          type: 'file' as const,
-          extension: ext || undefined,
-        })
+    workspace.folders.forEach((folder) => pathPolicy.assertRoot(folder))
+
+    let filePath = workspace.filePath && workspaceFiles.has(workspace.filePath) ? workspace.filePath : null
+    if (!filePath || saveAs) {
+      if (!win) return { success: true, filePath: null }
+      const defaultName = `${path.basename(workspace.folders[0] ?? 'Untitled')}.${WORKSPACE_EXTENSION}`
+      const result = await dialog.showSaveDialog(win, {
+        defaultPath: path.join(workspace.folders[0] ? path.dirname(workspace.folders[0]) : app.getPath('documents'), defaultName),
+        filters: [{ name: 'Intellirite Workspace', extensions: [WORKSPACE_EXTENSION] }],
+      })
+      if (result.canceled || !result.filePath) {
+        return { success: true, filePath: null }
       }
+      filePath = result.filePath.endsWith(`.${WORKSPACE_EXTENSION}`)
+        ? result.filePath
+        : `${result.filePath}.${WORKSPACE_EXTENSION}`
     }
-    
-    // Sort: folders first, then files, both alphabetically
-    fileItems.sort((a, b) => {
-      if (a.type !== b.type) {
-        return a.type === 'folder' ? -1 : 1
+
+    await writeWorkspaceFile(filePath, workspace)
+    workspaceFiles.add(filePath)
+    await recentList.add('workspace', filePath)
+    return { success: true, filePath }
+  } catch (error) {
+    console.error('Error saving workspace:', error)
+    return fsFailure(error)
+  }
+})
+
+ipcMain.handle('recent-list', async () => {
+  try {
+    return { success: true, items: await recentList.list() }
+  } catch (error) {
+    console.error('Error listing recent items:', error)
+    return fsFailure(error)
+  }
+})
+
+// Files are recorded by the renderer when the user opens them in a tab
+ipcMain.handle('recent-add-file', async (_event, filePath: string, rootPath?: string) => {
+  try {
+    const resolved = await pathPolicy.resolve(filePath)
+    const root = rootPath ? pathPolicy.assertRoot(rootPath) : path.dirname(resolved)
+    return { success: true, items: await recentList.add('file', resolved, root) }
+  } catch (error) {
+    console.error('Error recording recent file:', error)
+    return fsFailure(error)
+  }
+})
+
+ipcMain.handle('recent-set-pinned', async (_event, itemPath: string, pinned: boolean) => {
+  try {
+    return { success: true, items: await recentList.setPinned(itemPath, pinned) }
+  } catch (error) {
+    console.error('Error pinning recent item:', error)
+    return fsFailure(error)
+  }
+})
+
+ipcMain.handle('recent-remove', async (_event, itemPath: string) => {
+  try {
+    return { success: true, items: await recentList.remove(itemPath) }
+  } catch (error) {
+    console.error('Error removing recent item:', error)
+    return fsFailure(error)
+  }
+})
+
+// Reopen a recent item without a dialog. Only paths on the recent list are
+// accepted, since they were all picked by the user before.
+ipcMain.handle('recent-open', async (_event, itemPath: string) => {
+  try {
+    const item = await recentList.get(itemPath)
+    if (!item) {
+      throw new FsPolicyError('NOT_FOUND', 'This item is no longer in the recent list', itemPath)
+    }
+
+    let result: RecentOpenResult
+    if (item.kind === 'workspace') {
+      result = await openWorkspaceFile(item.path)
+    } else if (item.kind === 'folder') {
+      if (!(await fs.stat(item.path)).isDirectory()) {
+        throw new FsPolicyError('NOT_FOUND', `${path.basename(item.path)} is no longer a folder`, item.path)
       }
-      return a.name.localeCompare(b.name)
-    })
-    
-    return fileItems
+      await pathPolicy.allowRoot(item.path)
+      await recentList.add('folder', item.path)
+      result = { workspace: { folders: [item.path], settings: {} } }
+    } else {
+      await fs.stat(item.path)
+      const rootPath = item.rootPath ?? path.dirname(item.path)
+      let workspace: Workspace | null = null
+      try {
+        // Already inside an open workspace folder
+        await pathPolicy.resolve(item.path)
+      } catch {
+        await pathPolicy.allowRoot(rootPath)
+        workspace = { folders: [rootPath], settings: {} }
+      }
+      await recentList.add('file', item.path, rootPath)
+      result = { workspace, filePath: item.path }
+    }
+
+    return { success: true, ...result }
   } catch (error) {
-    console.error('Error reading folder recursively:', error)
-    throw error
+    console.error('Error opening recent item:', error)
+    return fsFailure(error)
+  }
+})
+
+// Open tabs and panel state per workspace, restored on the next launch
+const sessionStore = new SessionStore(path.join(app.getPath('userData'), 'sessions'))
+
+// The saved workspace is reopened without a dialog on the next launch, so only
+// folders and workspace files the user opened this run are accepted
+ipcMain.handle('session-save', async (_event, session: WorkspaceSession) => {
+  try {
+    session.workspace.folders.forEach((folder) => pathPolicy.assertRoot(folder))
+    const workspaceFile = session.workspace.filePath
+    if (workspaceFile && !workspaceFiles.has(workspaceFile)) {
+      throw new FsPolicyError('OUTSIDE_WORKSPACE', 'This workspace file has not been opened', workspaceFile)
+    }
+    await sessionStore.save(session)
+    return { success: true }
+  } catch (error) {
+    console.error('Error saving session:', error)
+    return fsFailure(error)
+  }
+})
+
+ipcMain.handle('session-load', async (_event, workspace: Workspace) => {
+  try {
+    return { success: true, session: await sessionStore.load(workspace) }
+  } catch (error) {
+    console.error('Error loading session:', error)
+    return fsFailure(error)
+  }
+})
+
+// Reopen the last workspace on startup. Its folders become workspace roots again
+// without a dialog, since the user opened them before; missing folders are dropped.
+ipcMain.handle('session-restore-last', async () => {
+  try {
+    const session = await sessionStore.loadLast()
+    if (!session) return { success: true, session: null }
+
+    let workspace = session.workspace
+    const workspaceFile = workspace.filePath
+    if (workspaceFile) {
+      try {
+        // Pick up folders and settings changed in the file since
+        workspace = await readWorkspaceFile(workspaceFile)
+        workspaceFiles.add(workspaceFile)
+      } catch {
+        workspace = { ...workspace, filePath: undefined }
+      }
+    }
+
+    const folders: string[] = []
+    for (const folder of workspace.folders) {
+      try {
+        await pathPolicy.allowRoot(folder)
+        folders.push(folder)
+      } catch {
+        console.warn('[SESSION] Workspace folder no longer exists:', folder)
+      }
+    }
+    if (folders.length === 0) return { success: true, session: null }
+
+    return { success: true, session: { ...session, workspace: { ...workspace, folders } } }
+  } catch (error) {
+    console.error('Error restoring session:', error)
+    return fsFailure(error)
+  }
+})
+
+// Maximum number of entries returned per fs-read-folder call; the explorer asks for more on demand
+const FOLDER_PAGE_SIZE = 200
+
+// Read a single level of a folder, skipping ignored entries.
+// Sub-folders are returned without children; the renderer loads them when expanded.
+// options.rootPath is the opened workspace folder, used to resolve .gitignore rules.
+async function readFolderLevel(folderPath: string, options: ReadFolderOptions = {}): Promise<FolderListing> {
+  const rootPath = options.rootPath ?? folderPath
+  const offset = options.offset ?? 0
+  const limit = options.limit ?? FOLDER_PAGE_SIZE
+
+  const entries = await fs.readdir(folderPath, { withFileTypes: true })
+  const fileItems: FileItem[] = []
+
+  for (const entry of entries) {
+    const fullPath = path.join(folderPath, entry.name)
+    const isDirectory = entry.isDirectory()
+
+    if (await ignoreMatcher.isIgnored(fullPath, isDirectory, rootPath)) {
+      continue
+    }
+
+    if (isDirectory) {
+      fileItems.push({
+        id: fullPath,
+        name: entry.name,
+        path: fullPath,
+        type: 'folder' as const,
+      })
+    } else {
+      const ext = path.extname(entry.name).slice(1)
+      fileItems.push({
+        id: fullPath,
+        name: entry.name,
+        path: fullPath,
+        type: 'file' as const,
+        extension: ext || undefined,
+      })
+    }
+  }
+
+  // Sort: folders first, then files, both alphabetically
+  fileItems.sort((a, b) => {
+    if (a.type !== b.type) {
+      return a.type === 'folder' ? -1 : 1
+    }
+    return a.name.localeCompare(b.name)
+  })
+
+  return {
+    items: fileItems.slice(offset, offset + limit),
+    total: fileItems.length,
+    hasMore: offset + limit < fileItems.length,
   }
 }
 
-ipcMain.handle('fs-read-folder', async (_event, folderPath: string) => {
+ipcMain.handle('fs-read-folder', async (_event, folderPath: string, options: ReadFolderOptions = {}) => {
   try {
-    return await readFolderRecursive(folderPath)
+    const resolved = await pathPolicy.resolve(folderPath)
+    const rootPath = options.rootPath ? pathPolicy.assertRoot(options.rootPath) : undefined
+    return { success: true, ...(await readFolderLevel(resolved, { ...options, rootPath })) }
   } catch (error) {
     console.error('Error reading folder:', error)
-    throw error
+    return fsFailure(error)
   }
 })
 
-ipcMain.handle('fs-read-file', async (_event, filePath: string) => {
+ipcMain.handle('fs-watch-folder', (_event, folderPath: string) => {
+  try {
+    workspaceWatcher.watchRoot(pathPolicy.assertRoot(folderPath))
+    return { success: true }
+  } catch (error) {
+    return fsFailure(error)
+  }
+})
+
+ipcMain.handle('fs-unwatch-folder', (_event, folderPath: string) => {
+  workspaceWatcher.unwatchRoot(folderPath)
+  return { success: true }
+})
+
+// Text is decoded in its detected encoding unless the renderer asks for one
+// (reopen with encoding); images and other binaries come back without text
+ipcMain.handle('fs-read-file', async (_event, filePath: string, encoding?: TextEncoding) => {
   try {
-    const content = await fs.readFile(filePath, 'utf8')
-    return { success: true, content }
+    const contents = await readFileContents(await pathPolicy.resolve(filePath), encoding)
+    return { success: true, ...contents }
   } catch (error) {
     console.error('Error reading file:', error)
-    throw error
+    return fsFailure(error)
   }
 })
 
-ipcMain.handle('fs-write-file', async (_event, filePath: string, content: string) => {
+// Local history: files are snapshotted each time the app saves them
+const historyStore = new HistoryStore(path.join(app.getPath('userData'), 'history'))
+
+/**
+ * Snapshot a saved file; a failure is logged rather than failing the save
+ */
+async function recordHistory(filePath: string, content: string, options?: { merge?: boolean }) {
   try {
-    await fs.writeFile(filePath, content, 'utf8')
-    return { success: true }
+    await historyStore.record(filePath, content, options)
+  } catch (error) {
+    console.error('[HISTORY] Error recording snapshot:', error)
+  }
+}
+
+ipcMain.handle('history-list', async (_event, filePath: string) => {
+  try {
+    const resolved = await pathPolicy.resolve(filePath)
+    return { success: true, entries: await historyStore.list(resolved) }
+  } catch (error) {
+    console.error('Error listing local history:', error)
+    return fsFailure(error)
+  }
+})
+
+ipcMain.handle('history-read', async (_event, filePath: string, entryId: string) => {
+  try {
+    const resolved = await pathPolicy.resolve(filePath)
+    return { success: true, content: await historyStore.read(resolved, entryId) }
+  } catch (error) {
+    console.error('Error reading local history:', error)
+    return fsFailure(error)
+  }
+})
+
+// Write a snapshot back to the file. The restore gets its own snapshot, so the
+// version it replaces stays in the timeline.
+ipcMain.handle('history-restore', async (
+  _event,
+  filePath: string,
+  entryId: string,
+  expectedVersion?: FileVersion,
+  encoding: TextEncoding = 'utf8'
+) => {
+  try {
+    const resolved = await pathPolicy.resolve(filePath)
+    const content = await historyStore.read(resolved, entryId)
+    const unencodable = findUnencodableText(content, encoding)
+    if (unencodable) {
+      throw new FsPolicyError('UNENCODABLE', `"${unencodable}" cannot be saved in ${encoding}`, filePath)
+    }
+
+    if (expectedVersion) {
+      const changed = await detectExternalChange(resolved, expectedVersion, encoding)
+      if (changed) {
+        throw new FsPolicyError('CONFLICT', `${path.basename(resolved)} changed on disk`, filePath)
+      }
+    }
+
+    workspaceWatcher.markOwnWrite(resolved)
+    const version = await writeFileAtomic(resolved, content, encoding)
+    await recordHistory(resolved, content, { merge: false })
+    return { success: true, content, version }
+  } catch (error) {
+    console.error('Error restoring from local history:', error)
+    return fsFailure(error)
+  }
+})
+
+// Saves are atomic. When the renderer passes the version it loaded, the save is
+// refused if the file changed on disk since, and the disk copy is returned instead.
+ipcMain.handle('fs-write-file', async (
+  _event,
+  filePath: string,
+  content: string,
+  expectedVersion?: FileVersion,
+  encoding: TextEncoding = 'utf8'
+): Promise<FileWriteResult> => {
+  try {
+    const resolved = await pathPolicy.resolve(filePath)
+    const unencodable = findUnencodableText(content, encoding)
+    if (unencodable) {
+      throw new FsPolicyError('UNENCODABLE', `"${unencodable}" cannot be saved in ${encoding}`, filePath)
+    }
+
+    if (expectedVersion) {
+      const changed = await detectExternalChange(resolved, expectedVersion, encoding)
+      if (changed) {
+        return {
+          ...fsFailure(new FsPolicyError('CONFLICT', `${path.basename(resolved)} changed on disk`, filePath)),
+          diskContent: changed.content,
+          version: changed.version,
+        }
+      }
+    }
+
+    workspaceWatcher.markOwnWrite(resolved)
+    const version = await writeFileAtomic(resolved, content, encoding)
+    await recordHistory(resolved, content)
+    return { success: true, version }
   } catch (error) {
     console.error('Error writing file:', error)
-    throw error
+    return fsFailure(error)
+  }
+})
+
+// Write several files as one unit (used by replace across files and its undo).
+// Nothing is written unless every file still has its expected content, and files
+// already written are restored if a later write fails. Each file is compared and
+// written back in the encoding it was found in.
+ipcMain.handle('fs-write-files', async (_event, writes: BatchFileWrite[]) => {
+  const encodings = new Map<string, TextEncoding>()
+  try {
+    for (const write of writes) {
+      write.filePath = await pathPolicy.resolve(write.filePath)
+      const current = await readFileWithVersion(write.filePath).catch(() => null)
+      if (current?.content !== write.expectedContent) {
+        throw new FsPolicyError('CONFLICT', `${path.basename(write.filePath)} has changed since the preview`, write.filePath)
+      }
+      const unencodable = findUnencodableText(write.content, current.encoding)
+      if (unencodable) {
+        throw new FsPolicyError('UNENCODABLE', `"${unencodable}" cannot be saved in ${current.encoding}`, write.filePath)
+      }
+      encodings.set(write.filePath, current.encoding)
+    }
+  } catch (error) {
+    return fsFailure(error)
+  }
+
+  const written: BatchFileWrite[] = []
+  try {
+    for (const write of writes) {
+      workspaceWatcher.markOwnWrite(write.filePath)
+      await writeFileAtomic(write.filePath, write.content, encodings.get(write.filePath))
+      written.push(write)
+    }
+    for (const write of written) {
+      await recordHistory(write.filePath, write.content)
+    }
+    return { success: true, count: written.length }
+  } catch (error) {
+    console.error('Error writing files, rolling back:', error)
+    for (const write of written) {
+      await writeFileAtomic(write.filePath, write.expectedContent, encodings.get(write.filePath)).catch((rollbackError) => {
+        console.error('Error rolling back file:', write.filePath, rollbackError)
+      })
+    }
+    return fsFailure(error)
   }
 })
 
 ipcMain.handle('fs-create-file', async (_event, parentPath: string, fileName: string) => {
   try {
-    const filePath = path.join(parentPath, fileName)
-    await fs.writeFile(filePath, '', 'utf8')
+    const filePath = await pathPolicy.resolveChild(parentPath, fileName)
+    // 'wx' fails instead of truncating an existing file
+    await fs.writeFile(filePath, '', { encoding: 'utf8', flag: 'wx' })
     return { success: true, path: filePath }
   } catch (error) {
     console.error('Error creating file:', error)
-    throw error
+    return fsFailure(error)
   }
 })
 
 ipcMain.handle('fs-create-folder', async (_event, parentPath: string, folderName: string) => {
   try {
-    const folderPath = path.join(parentPath, folderName)
-    await fs.mkdir(folderPath, { recursive: true })
+    const folderPath = await pathPolicy.resolveChild(parentPath, folderName)
+    await fs.mkdir(folderPath)
     return { success: true, path: folderPath }
   } catch (error) {
     console.error('Error creating folder:', error)
-    throw error
+    return fsFailure(error)
   }
 })
 
 ipcMain.handle('fs-rename', async (_event, oldPath: string, newName: string) => {
   try {
-    const dir = path.dirname(oldPath)
-    const newPath = path.join(dir, newName)
+    const resolvedOld = await pathPolicy.resolve(oldPath, { followLeaf: false })
+    const newPath = await pathPolicy.resolveChild(path.dirname(resolvedOld), newName)
     
     if (existsSync(newPath)) {
-      throw new Error('A file or folder with that name already exists')
+      throw new FsPolicyError('ALREADY_EXISTS', 'A file or folder with that name already exists', newPath)
     }
     
-    await fs.rename(oldPath, newPath)
+    await fs.rename(resolvedOld, newPath)
+    await historyStore.move(resolvedOld, newPath).catch((error) => {
+      console.error('[HISTORY] Error moving local history:', error)
+    })
     return { success: true, path: newPath }
   } catch (error) {
     console.error('Error renaming:', error)
-    throw error
+    return fsFailure(error)
   }
 })
 
-ipcMain.handle('fs-delete', async (_event, itemPath: string) => {
-  try {
-    const stats = await fs.stat(itemPath)
-    
-    if (stats.isDirectory()) {
-      await fs.rmdir(itemPath, { recursive: true })
-    } else {
-      await fs.unlink(itemPath)
+// Drag-and-drop in the explorer: move or copy items into another folder
+async function handleTransfer(
+  mode: 'move' | 'copy',
+  sourcePaths: string[],
+  targetFolder: string,
+  options: TransferOptions = {}
+) {
+  const sources = await Promise.all(
+    sourcePaths.map((sourcePath) => pathPolicy.resolve(sourcePath, { followLeaf: false }))
+  )
+  const target = await pathPolicy.resolve(targetFolder)
+  const result = await transferItems(mode, sources, target, options)
+
+  // A moved file reappearing is not an external edit of the tab that follows it
+  if (mode === 'move') {
+    for (const { from, to } of result.items) {
+      workspaceWatcher.markOwnWrite(to)
+      await historyStore.move(from, to).catch((error) => {
+        console.error('[HISTORY] Error moving local history:', error)
+      })
     }
-    
-    return { success: true }
+  }
+  return { success: true, ...result }
+}
+
+ipcMain.handle('fs-move', async (_event, sourcePaths: string[], targetFolder: string, options?: TransferOptions) => {
+  try {
+    return await handleTransfer('move', sourcePaths, targetFolder, options)
+  } catch (error) {
+    console.error('Error moving:', error)
+    return fsFailure(error)
+  }
+})
+
+ipcMain.handle('fs-copy', async (_event, sourcePaths: string[], targetFolder: string, options?: TransferOptions) => {
+  try {
+    return await handleTransfer('copy', sourcePaths, targetFolder, options)
+  } catch (error) {
+    console.error('Error copying:', error)
+    return fsFailure(error)
+  }
+})
+
+// Deletes go to the trash and are logged so they can be restored
+const trashManager = new TrashManager(
+  path.join(app.getPath('userData'), 'recently-deleted.json'),
+  (itemPath) => shell.trashItem(itemPath)
+)
+
+ipcMain.handle('fs-delete', async (_event, itemPath: string, rootPath?: string) => {
+  try {
+    const resolved = await pathPolicy.resolve(itemPath, { followLeaf: false })
+    const item = await trashManager.moveToTrash(resolved, rootPath ? pathPolicy.assertRoot(rootPath) : undefined)
+    return { success: true, item }
   } catch (error) {
     console.error('Error deleting:', error)
-    throw error
+    return fsFailure(error)
+  }
+})
+
+ipcMain.handle('fs-list-deleted', async () => {
+  try {
+    return { success: true, items: await trashManager.list() }
+  } catch (error) {
+    console.error('Error listing deleted items:', error)
+    return fsFailure(error)
+  }
+})
+
+ipcMain.handle('fs-restore-deleted', async (_event, id: string) => {
+  try {
+    const entry = (await trashManager.list()).find((item) => item.id === id)
+    if (entry) {
+      // Only back into a workspace that is open now
+      await pathPolicy.resolve(entry.originalPath, { followLeaf: false })
+    }
+    const item = await trashManager.restore(id)
+    return { success: true, item }
+  } catch (error) {
+    console.error('Error restoring deleted item:', error)
+    return fsFailure(error)
+  }
+})
+
+// Find in Files: results are streamed to the requesting window as they are found
+const workspaceSearch = new WorkspaceSearch(ignoreMatcher)
+
+ipcMain.handle('search-start', (event, searchId: string, options: SearchOptions) => {
+  let rootPath: string
+  let rootPaths: string[]
+  try {
+    rootPath = pathPolicy.assertRoot(options.rootPath)
+    rootPaths = (options.rootPaths ?? [rootPath]).map((root) => pathPolicy.assertRoot(root))
+  } catch (error) {
+    return fsFailure(error)
+  }
+
+  const sender = event.sender
+  workspaceSearch.start(searchId, { ...options, rootPath, rootPaths }, {
+    onResults: (batch) => {
+      if (!sender.isDestroyed()) sender.send('search-results', batch)
+    },
+    onDone: (summary) => {
+      if (!sender.isDestroyed()) sender.send('search-done', summary)
+    },
+  })
+  return { success: true }
+})
+
+ipcMain.handle('search-cancel', (_event, searchId: string) => {
+  workspaceSearch.cancel(searchId)
+  return { success: true }
+})
+
+ipcMain.handle('search-replace-preview', async (_event, request: ReplacePreviewRequest) => {
+  try {
+    const filePath = await pathPolicy.resolve(request.filePath)
+    return { success: true, preview: await previewReplace({ ...request, filePath }) }
+  } catch (error) {
+    console.error('Error previewing replace:', error)
+    return fsFailure(error)
+  }
+})
+
+// Wiki-links between the workspace's markdown files
+const wikiLinks = new WikiLinks(ignoreMatcher)
+
+ipcMain.handle('links-list-notes', async (_event, rootPaths: string[]) => {
+  try {
+    const roots = rootPaths.map((root) => pathPolicy.assertRoot(root))
+    return { success: true, notes: await wikiLinks.listNotes(roots) }
+  } catch (error) {
+    console.error('Error listing notes:', error)
+    return fsFailure(error)
+  }
+})
+
+ipcMain.handle('links-resolve', async (_event, rootPaths: string[], target: string, fromPath: string) => {
+  try {
+    const roots = rootPaths.map((root) => pathPolicy.assertRoot(root))
+    return { success: true, filePath: await wikiLinks.resolve(roots, target, fromPath) }
+  } catch (error) {
+    console.error('Error resolving link:', error)
+    return fsFailure(error)
+  }
+})
+
+ipcMain.handle('links-backlinks', async (_event, rootPaths: string[], filePath: string) => {
+  try {
+    const roots = rootPaths.map((root) => pathPolicy.assertRoot(root))
+    return { success: true, matches: await wikiLinks.findBacklinks(roots, filePath) }
+  } catch (error) {
+    console.error('Error finding backlinks:', error)
+    return fsFailure(error)
+  }
+})
+
+ipcMain.handle('links-plan-renames', async (_event, rootPaths: string[], renames: PathRename[]) => {
+  try {
+    const roots = rootPaths.map((root) => pathPolicy.assertRoot(root))
+    return { success: true, writes: await wikiLinks.planRenames(roots, renames) }
+  } catch (error) {
+    console.error('Error updating links:', error)
+    return fsFailure(error)
+  }
+})
+
+// Citations: the workspace's bibliography file, chosen in its settings
+// (relative to the first folder) or found at the top of a folder
+ipcMain.handle('bibliography-load', async (_event, rootPaths: string[], bibliographyPath?: string) => {
+  try {
+    const roots = rootPaths.map((root) => pathPolicy.assertRoot(root))
+    const filePath = bibliographyPath
+      ? await pathPolicy.resolve(path.resolve(roots[0] ?? '', bibliographyPath))
+      : await findBibliography(roots)
+    return { success: true, bibliography: filePath ? await loadBibliography(filePath) : null }
+  } catch (error) {
+    console.error('Error loading bibliography:', error)
+    return fsFailure(error)
+  }
+})
+
+// Save content generated in the editor (a diagram as SVG) where the user
+// chooses, which may be outside the workspace
+ipcMain.handle('export-save', async (_event, defaultPath: string, content: string, filter: FileFilter) => {
+  try {
+    if (!win) return { success: true, filePath: null }
+    const result = await dialog.showSaveDialog(win, {
+      defaultPath: path.isAbsolute(defaultPath) ? defaultPath : path.join(app.getPath('documents'), defaultPath),
+      filters: [filter],
+    })
+    if (result.canceled || !result.filePath) {
+      return { success: true, filePath: null }
+    }
+    await writeFileAtomic(result.filePath, content)
+    return { success: true, filePath: result.filePath }
+  } catch (error) {
+    console.error('Error exporting file:', error)
+    return fsFailure(error)
   }
 })
 
@@ -260,9 +999,10 @@ ipcMain.handle('fs-delete', async (_event, itemPath: string) => {
 // for applications and their menu bar to stay active until the user quits
 // explicitly with Cmd + Q.
 app.on('window-all-closed', () => {
+  workspaceWatcher.unwatchAll()
   if (process.platform !== 'darwin') {
-    app.quit()
     win = null
+    app.quit()
   }
 })
 
@@ -0,0 +1,186 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import type { FsError, FsErrorCode, FsFailure } from '../src/shared/types'
+
+/**
+ * Error raised by the path policy, and by handlers for failures they detect
+ * themselves; converted to an FsError before it crosses IPC
+ */
+export class FsPolicyError extends Error {
+  constructor(
+    readonly code: FsErrorCode,
+    message: string,
+    readonly path?: string
+  ) {
+    super(message)
+    this.name = 'FsPolicyError'
+  }
+}
+
+// Node error codes with a more specific FsErrorCode than IO_ERROR
+const ERRNO_CODES: Record<string, FsErrorCode> = {
+  ENOENT: 'NOT_FOUND',
+  ENOTDIR: 'NOT_FOUND',
+  EEXIST: 'ALREADY_EXISTS',
+  ENOTEMPTY: 'ALREADY_EXISTS',
+  EACCES: 'PERMISSION_DENIED',
+  EPERM: 'PERMISSION_DENIED',
+  EROFS: 'PERMISSION_DENIED',
+}
+
+const ERROR_MESSAGES: Record<FsErrorCode, string> = {
+  OUTSIDE_WORKSPACE: 'This location is outside the open workspace',
+  INVALID_NAME: 'That name is not allowed',
+  NOT_FOUND: 'The file or folder no longer exists',
+  ALREADY_EXISTS: 'A file or folder with that name already exists',
+  PERMISSION_DENIED: 'Permission denied',
+  CONFLICT: 'The file changed on disk',
+  UNENCODABLE: 'The text cannot be saved in the chosen encoding',
+  IO_ERROR: 'The file system operation failed',
+}
+
+/**
+ * Convert anything thrown by a handler into an FsError
+ */
+export function toFsError(error: unknown): FsError {
+  if (error instanceof FsPolicyError) {
+    return { code: error.code, message: error.message, path: error.path }
+  }
+
+  const errno = error as NodeJS.ErrnoException
+  const code = (errno?.code && ERRNO_CODES[errno.code]) || 'IO_ERROR'
+  return {
+    code,
+    message: code === 'IO_ERROR' && errno?.message ? errno.message : ERROR_MESSAGES[code],
+    path: errno?.path,
+  }
+}
+
+export function fsFailure(error: unknown): FsFailure {
+  return { success: false, error: toFsError(error) }
+}
+
+/**
+ * Reject names that are empty, '.' or '..', or that contain separators or NUL
+ */
+export function validateName(name: string): void {
+  if (
+    typeof name !== 'string' ||
+    !name.trim() ||
+    name === '.' ||
+    name === '..' ||
+    /[/\\\0]/.test(name)
+  ) {
+    throw new FsPolicyError('INVALID_NAME', `"${name}" is not a valid file or folder name`)
+  }
+}
+
+function isInside(rootPath: string, candidate: string): boolean {
+  const relative = path.relative(rootPath, candidate)
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative))
+}
+
+/**
+ * Path policy
+ * File-system IPC may only touch paths inside the workspace roots the user
+ * opened (plus fixed locations such as app data). Paths are checked both as
+ * given and with symlinks resolved, so neither ../ segments nor a link
+ * pointing out of the workspace can escape it.
+ */
+export class PathPolicy {
+  // Root as given -> root with symlinks resolved
+  private roots = new Map<string, string>()
+
+  constructor(private readonly fixedRoots: string[] = []) {}
+
+  /**
+   * Allow operations inside a folder the user chose
+   */
+  async allowRoot(rootPath: string): Promise<void> {
+    const resolved = path.resolve(rootPath)
+    this.roots.set(resolved, await fs.realpath(resolved))
+  }
+
+  /**
+   * Check that a path is one of the allowed roots itself
+   */
+  assertRoot(rootPath: string): string {
+    const resolved = path.resolve(rootPath)
+    if (!this.roots.has(resolved)) {
+      throw new FsPolicyError('OUTSIDE_WORKSPACE', 'This folder has not been opened as a workspace', rootPath)
+    }
+    return resolved
+  }
+
+  /**
+   * Check a path from the renderer and return it normalized
+   * @param options.followLeaf - Resolve a symlink at the path itself. Off for
+   *   operations on the entry (rename, delete), which never touch the target.
+   * @throws FsPolicyError when the path is outside every allowed root
+   */
+  async resolve(targetPath: string, options: { followLeaf?: boolean } = {}): Promise<string> {
+    if (typeof targetPath !== 'string' || !path.isAbsolute(targetPath) || targetPath.includes('\0')) {
+      throw new FsPolicyError('OUTSIDE_WORKSPACE', 'Expected an absolute path', targetPath)
+    }
+
+    const resolved = path.resolve(targetPath)
+    const allowed = [...this.roots.entries(), ...this.fixedRoots.map((root) => [root, root] as const)]
+    if (!allowed.some(([root]) => isInside(root, resolved))) {
+      throw new FsPolicyError('OUTSIDE_WORKSPACE', ERROR_MESSAGES.OUTSIDE_WORKSPACE, targetPath)
+    }
+
+    const real = options.followLeaf === false
+      ? path.join(await realpathOfExisting(path.dirname(resolved)), path.basename(resolved))
+      : await realpathOfExisting(resolved)
+    if (!allowed.some(([, realRoot]) => isInside(realRoot, real))) {
+      throw new FsPolicyError('OUTSIDE_WORKSPACE', 'This path links to a location outside the open workspace', targetPath)
+    }
+
+    return resolved
+  }
+
+  /**
+   * Check a parent folder and a single path segment to create or rename to
+   */
+  async resolveChild(parentPath: string, name: string): Promise<string> {
+    validateName(name)
+    const parent = await this.resolve(parentPath)
+    return this.resolve(path.join(parent, name), { followLeaf: false })
+  }
+}
+
+// Dangling symlinks followed before giving up, to stop link cycles
+const MAX_LINK_DEPTH = 40
+
+/**
+ * realpath of the nearest existing ancestor, with the missing segments appended,
+ * so paths that are about to be created can be checked too. A dangling symlink
+ * is followed to where it points, since writing through it would create its target.
+ */
+async function realpathOfExisting(targetPath: string, depth = 0): Promise<string> {
+  const missing: string[] = []
+  let current = targetPath
+
+  for (;;) {
+    try {
+      return path.join(await fs.realpath(current), ...missing.reverse())
+    } catch (error) {
+      const parent = path.dirname(current)
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT' || parent === current) {
+        throw error
+      }
+
+      const linkTarget = await fs.readlink(current).catch(() => null)
+      if (linkTarget !== null) {
+        if (depth >= MAX_LINK_DEPTH) {
+          throw new FsPolicyError('OUTSIDE_WORKSPACE', 'Too many levels of symbolic links', targetPath)
+        }
+        const resolvedLink = await realpathOfExisting(path.resolve(parent, linkTarget), depth + 1)
+        return path.join(resolvedLink, ...missing.reverse())
+      }
+
+      missing.push(path.basename(current))
+      current = parent
+    }
+  }
+}
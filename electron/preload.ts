@@ -51,13 +51,111 @@ try {
   // File system API
   contextBridge.exposeInMainWorld('fileSystem', {
     openFolder: () => ipcRenderer.invoke('fs-open-folder'),
-    readFolder: (path: string) => ipcRenderer.invoke('fs-read-folder', path),
-    readFile: (filePath: string) => ipcRenderer.invoke('fs-read-file', filePath),
-    writeFile: (filePath: string, content: string) => ipcRenderer.invoke('fs-write-file', filePath, content),
+    readFolder: (path: string, options?: { rootPath?: string; offset?: number; limit?: number }) =>
+      ipcRenderer.invoke('fs-read-folder', path, options),
+    readFile: (filePath: string, encoding?: string) => ipcRenderer.invoke('fs-read-file', filePath, encoding),
+    writeFile: (filePath: string, content: string, expectedVersion?: unknown, encoding?: string) =>
+      ipcRenderer.invoke('fs-write-file', filePath, content, expectedVersion, encoding),
+    writeFiles: (writes: unknown[]) => ipcRenderer.invoke('fs-write-files', writes),
     createFile: (path: string, name: string) => ipcRenderer.invoke('fs-create-file', path, name),
     createFolder: (path: string, name: string) => ipcRenderer.invoke('fs-create-folder', path, name),
     rename: (oldPath: string, newName: string) => ipcRenderer.invoke('fs-rename', oldPath, newName),
-    delete: (path: string) => ipcRenderer.invoke('fs-delete', path),
+    move: (sourcePaths: string[], targetFolder: string, options?: unknown) =>
+      ipcRenderer.invoke('fs-move', sourcePaths, targetFolder, options),
+    copy: (sourcePaths: string[], targetFolder: string, options?: unknown) =>
+      ipcRenderer.invoke('fs-copy', sourcePaths, targetFolder, options),
+    delete: (path: string, rootPath?: string) => ipcRenderer.invoke('fs-delete', path, rootPath),
+    listDeleted: () => ipcRenderer.invoke('fs-list-deleted'),
+    restoreDeleted: (id: string) => ipcRenderer.invoke('fs-restore-deleted', id),
+    watchFolder: (path: string) => ipcRenderer.invoke('fs-watch-folder', path),
+    unwatchFolder: (path: string) => ipcRenderer.invoke('fs-unwatch-folder', path),
+    onWatchEvent: (callback: (events: unknown[]) => void) => {
+      const listener = (_event: unknown, events: unknown[]) => callback(events)
+      ipcRenderer.on('fs-watch-event', listener)
+      return () => ipcRenderer.removeListener('fs-watch-event', listener)
+    },
+  })
+
+  // Workspace search API
+  // Workspace files (multi-root workspaces)
+  contextBridge.exposeInMainWorld('workspace', {
+    open: () => ipcRenderer.invoke('workspace-open'),
+    save: (workspace: unknown, saveAs?: boolean) => ipcRenderer.invoke('workspace-save', workspace, saveAs),
+  })
+
+  // Recent folders, workspaces and files
+  contextBridge.exposeInMainWorld('recent', {
+    list: () => ipcRenderer.invoke('recent-list'),
+    open: (itemPath: string) => ipcRenderer.invoke('recent-open', itemPath),
+    addFile: (filePath: string, rootPath?: string) => ipcRenderer.invoke('recent-add-file', filePath, rootPath),
+    setPinned: (itemPath: string, pinned: boolean) => ipcRenderer.invoke('recent-set-pinned', itemPath, pinned),
+    remove: (itemPath: string) => ipcRenderer.invoke('recent-remove', itemPath),
+  })
+
+  // Local history of saved files
+  contextBridge.exposeInMainWorld('localHistory', {
+    list: (filePath: string) => ipcRenderer.invoke('history-list', filePath),
+    read: (filePath: string, entryId: string) => ipcRenderer.invoke('history-read', filePath, entryId),
+    restore: (filePath: string, entryId: string, expectedVersion?: unknown, encoding?: string) =>
+      ipcRenderer.invoke('history-restore', filePath, entryId, expectedVersion, encoding),
+  })
+
+  // Hot exit: journal of unsaved buffers and the close confirmation
+  contextBridge.exposeInMainWorld('hotExit', {
+    write: (buffer: unknown) => ipcRenderer.invoke('hot-exit-write', buffer),
+    discard: (filePath: string) => ipcRenderer.invoke('hot-exit-discard', filePath),
+    list: () => ipcRenderer.invoke('hot-exit-list'),
+    setUnsavedFiles: (fileNames: string[]) => ipcRenderer.send('hot-exit-set-unsaved', fileNames),
+    onSaveAll: (callback: () => void) => {
+      const listener = () => callback()
+      ipcRenderer.on('hot-exit-save-all', listener)
+      return () => ipcRenderer.removeListener('hot-exit-save-all', listener)
+    },
+    savedAll: (saved: boolean) => ipcRenderer.send('hot-exit-saved-all', saved),
+  })
+
+  // Session restore
+  contextBridge.exposeInMainWorld('session', {
+    save: (session: unknown) => ipcRenderer.invoke('session-save', session),
+    load: (workspace: unknown) => ipcRenderer.invoke('session-load', workspace),
+    restoreLast: () => ipcRenderer.invoke('session-restore-last'),
+  })
+
+  contextBridge.exposeInMainWorld('workspaceSearch', {
+    start: (searchId: string, options: unknown) => ipcRenderer.invoke('search-start', searchId, options),
+    cancel: (searchId: string) => ipcRenderer.invoke('search-cancel', searchId),
+    previewReplace: (request: unknown) => ipcRenderer.invoke('search-replace-preview', request),
+    onResults: (callback: (batch: unknown) => void) => {
+      const listener = (_event: unknown, batch: unknown) => callback(batch)
+      ipcRenderer.on('search-results', listener)
+      return () => ipcRenderer.removeListener('search-results', listener)
+    },
+    onDone: (callback: (summary: unknown) => void) => {
+      const listener = (_event: unknown, summary: unknown) => callback(summary)
+      ipcRenderer.on('search-done', listener)
+      return () => ipcRenderer.removeListener('search-done', listener)
+    },
+  })
+
+  // Wiki-links between markdown files
+  contextBridge.exposeInMainWorld('wikiLinks', {
+    listNotes: (rootPaths: string[]) => ipcRenderer.invoke('links-list-notes', rootPaths),
+    resolve: (rootPaths: string[], target: string, fromPath: string) =>
+      ipcRenderer.invoke('links-resolve', rootPaths, target, fromPath),
+    backlinks: (rootPaths: string[], filePath: string) => ipcRenderer.invoke('links-backlinks', rootPaths, filePath),
+    planRenames: (rootPaths: string[], renames: unknown[]) => ipcRenderer.invoke('links-plan-renames', rootPaths, renames),
+  })
+
+  // Citations
+  contextBridge.exposeInMainWorld('citations', {
+    loadBibliography: (rootPaths: string[], bibliographyPath?: string) =>
+      ipcRenderer.invoke('bibliography-load', rootPaths, bibliographyPath),
+  })
+
+  // Exports saved through a save dialog
+  contextBridge.exposeInMainWorld('fileExport', {
+    save: (defaultPath: string, content: string, filter: unknown) =>
+      ipcRenderer.invoke('export-save', defaultPath, content, filter),
   })
 
   console.log('[PRELOAD] ✅ All APIs exposed successfully')
@@ -0,0 +1,92 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import type { RecentItem, RecentItemKind } from '../src/shared/types'
+
+// Unpinned entries kept per list; pinned ones are never dropped
+const MAX_RECENT_WORKSPACES = 20
+const MAX_RECENT_FILES = 30
+
+/**
+ * Recent list
+ * Folders, workspace files and files the user opened, most recent first with
+ * pinned entries on top, persisted as JSON in the user-data directory.
+ */
+export class RecentList {
+  private items: RecentItem[] | null = null
+
+  constructor(private readonly filePath: string) {}
+
+  async list(): Promise<RecentItem[]> {
+    return [...(await this.load())]
+  }
+
+  async get(itemPath: string): Promise<RecentItem | undefined> {
+    return (await this.load()).find((item) => item.path === itemPath)
+  }
+
+  /**
+   * Record that an item was opened, moving it to the top of its list
+   */
+  async add(kind: RecentItemKind, itemPath: string, rootPath?: string): Promise<RecentItem[]> {
+    const items = await this.load()
+    const existing = items.find((item) => item.path === itemPath)
+    const entry: RecentItem = {
+      kind,
+      path: itemPath,
+      rootPath,
+      pinned: existing?.pinned ?? false,
+      lastOpened: Date.now(),
+    }
+
+    this.items = trim([entry, ...items.filter((item) => item !== existing)])
+    await this.save()
+    return this.list()
+  }
+
+  async setPinned(itemPath: string, pinned: boolean): Promise<RecentItem[]> {
+    this.items = (await this.load()).map((item) => (item.path === itemPath ? { ...item, pinned } : item))
+    await this.save()
+    return this.list()
+  }
+
+  async remove(itemPath: string): Promise<RecentItem[]> {
+    this.items = (await this.load()).filter((item) => item.path !== itemPath)
+    await this.save()
+    return this.list()
+  }
+
+  private async load(): Promise<RecentItem[]> {
+    if (this.items) return this.items
+
+    try {
+      const items = JSON.parse(await fs.readFile(this.filePath, 'utf8'))
+      this.items = Array.isArray(items) ? trim(items as RecentItem[]) : []
+    } catch {
+      this.items = []
+    }
+    return this.items
+  }
+
+  private async save(): Promise<void> {
+    try {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+      await fs.writeFile(this.filePath, JSON.stringify(this.items ?? [], null, 2), 'utf8')
+    } catch (error) {
+      console.error('[RECENT] Error saving recent list:', error)
+    }
+  }
+}
+
+/**
+ * Sort pinned entries first, then by last opened, and drop the oldest unpinned
+ * entries beyond each list's limit
+ */
+function trim(items: RecentItem[]): RecentItem[] {
+  const sorted = [...items].sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.lastOpened - a.lastOpened)
+  let workspaces = 0
+  let files = 0
+  return sorted.filter((item) => {
+    if (item.pinned) return true
+    return item.kind === 'file' ? ++files <= MAX_RECENT_FILES : ++workspaces <= MAX_RECENT_WORKSPACES
+  })
+}
@@ -0,0 +1,281 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import type { IgnoreMatcher } from './ignore'
+import { createGlobMatcher } from './ignore'
+import { decodeText, detectEncoding, isBinaryContent } from './encoding'
+import { readFileWithVersion } from './files'
+import type { ReplacePreview, ReplacePreviewRequest, SearchMatch, SearchOptions, SearchResultBatch, SearchSummary } from '../src/shared/types'
+
+const DEFAULT_MAX_RESULTS = 5000
+
+// Files larger than this are skipped rather than read into memory
+const MAX_FILE_SIZE = 5 * 1024 * 1024
+
+// Long lines are cut down to roughly this many characters around the match
+const PREVIEW_LENGTH = 200
+const PREVIEW_CONTEXT_BEFORE = 40
+
+export interface SearchCallbacks {
+  onResults: (batch: SearchResultBatch) => void
+  onDone: (summary: SearchSummary) => void
+}
+
+/**
+ * Build the RegExp for a search, honouring the regex/case/whole-word options
+ * @throws SyntaxError when isRegex is set and the query is not a valid pattern
+ */
+export function buildSearchRegex(options: Pick<SearchOptions, 'query' | 'isRegex' | 'caseSensitive' | 'wholeWord'>): RegExp {
+  let source = options.isRegex ? options.query : options.query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  if (options.wholeWord) {
+    source = `\\b(?:${source})\\b`
+  }
+  return new RegExp(source, options.caseSensitive ? 'g' : 'gi')
+}
+
+/**
+ * Workspace search
+ * Walks a root folder (respecting ignore rules and include/exclude globs) and
+ * streams matches back one file at a time. A new search cancels the running one.
+ */
+export class WorkspaceSearch {
+  private activeSearchId: string | null = null
+
+  constructor(private readonly ignoreMatcher: IgnoreMatcher) {}
+
+  /**
+   * Start a search in the background. The id is chosen by the renderer so it can
+   * tell batches of the current search from late batches of a previous one.
+   */
+  start(searchId: string, options: SearchOptions, callbacks: SearchCallbacks): void {
+    this.activeSearchId = searchId
+    void this.run(searchId, options, callbacks)
+  }
+
+  /**
+   * Cancel a running search; it reports done with cancelled set
+   */
+  cancel(searchId: string): void {
+    if (this.activeSearchId === searchId) {
+      this.activeSearchId = null
+    }
+  }
+
+  private isCancelled(searchId: string): boolean {
+    return this.activeSearchId !== searchId
+  }
+
+  private async run(searchId: string, options: SearchOptions, callbacks: SearchCallbacks): Promise<void> {
+    const summary: SearchSummary = {
+      searchId,
+      matchCount: 0,
+      fileCount: 0,
+      limitHit: false,
+      cancelled: false,
+    }
+
+    let regex: RegExp
+    try {
+      regex = buildSearchRegex(options)
+    } catch (error) {
+      callbacks.onDone({ ...summary, error: error instanceof Error ? error.message : String(error) })
+      return
+    }
+
+    const maxResults = options.maxResults ?? DEFAULT_MAX_RESULTS
+    for (const rootPath of options.rootPaths ?? [options.rootPath]) {
+      if (this.isCancelled(searchId) || summary.limitHit) break
+      await this.searchRoot(searchId, rootPath, regex, options, maxResults, summary, callbacks)
+    }
+
+    summary.cancelled = this.isCancelled(searchId)
+    if (!summary.cancelled) {
+      this.activeSearchId = null
+    }
+    callbacks.onDone(summary)
+  }
+
+  private async searchRoot(
+    searchId: string,
+    rootPath: string,
+    regex: RegExp,
+    options: SearchOptions,
+    maxResults: number,
+    summary: SearchSummary,
+    callbacks: SearchCallbacks
+  ): Promise<void> {
+    const include = createGlobMatcher(options.include ?? '', rootPath)
+    const exclude = createGlobMatcher(options.exclude ?? '', rootPath)
+
+    const isIncluded = (filePath: string) => {
+      if (!include) return true
+      // A pattern naming a folder includes everything below it
+      for (let current = filePath; current.length > rootPath.length; current = path.dirname(current)) {
+        if (include(current, current !== filePath)) return true
+      }
+      return false
+    }
+
+    const walk = async (dir: string): Promise<void> => {
+      let entries
+      try {
+        entries = await fs.readdir(dir, { withFileTypes: true })
+      } catch (error) {
+        console.error('[SEARCH] Error reading folder:', dir, error)
+        return
+      }
+
+      for (const entry of entries) {
+        if (this.isCancelled(searchId) || summary.limitHit) return
+
+        const fullPath = path.join(dir, entry.name)
+        const isDirectory = entry.isDirectory()
+
+        if (!isDirectory && !entry.isFile()) continue
+        if (exclude?.(fullPath, isDirectory)) continue
+        if (await this.ignoreMatcher.isIgnored(fullPath, isDirectory, rootPath)) continue
+
+        if (isDirectory) {
+          await walk(fullPath)
+          continue
+        }
+
+        if (!isIncluded(fullPath)) continue
+
+        const matches = await searchFile(fullPath, regex, maxResults - summary.matchCount)
+        if (matches.length === 0 || this.isCancelled(searchId)) continue
+
+        summary.matchCount += matches.length
+        summary.fileCount++
+        summary.limitHit = summary.matchCount >= maxResults
+        callbacks.onResults({ searchId, filePath: fullPath, matches })
+      }
+    }
+
+    await walk(rootPath)
+  }
+}
+
+/**
+ * Find up to `limit` matches in a single text file (binary and huge files yield none)
+ */
+export async function searchFile(filePath: string, regex: RegExp, limit: number): Promise<SearchMatch[]> {
+  let buffer: Buffer
+  try {
+    const stats = await fs.stat(filePath)
+    if (stats.size > MAX_FILE_SIZE) return []
+    buffer = await fs.readFile(filePath)
+  } catch {
+    return []
+  }
+
+  if (isBinaryContent(buffer)) return []
+
+  const matches: SearchMatch[] = []
+  const lines = decodeText(buffer, detectEncoding(buffer)).split(/\r?\n/)
+
+  for (let i = 0; i < lines.length && matches.length < limit; i++) {
+    const line = lines[i]
+    regex.lastIndex = 0
+
+    let match: RegExpExecArray | null
+    while ((match = regex.exec(line)) !== null && matches.length < limit) {
+      if (match[0].length === 0) {
+        // Avoid looping forever on zero-width matches
+        regex.lastIndex++
+        continue
+      }
+
+      matches.push(createSearchMatch(filePath, line, i + 1, match.index, match[0]))
+    }
+  }
+
+  return matches
+}
+
+/**
+ * Describe a match found at `index` in a line, with a preview of the line cut
+ * down around the match when it is long
+ */
+export function createSearchMatch(filePath: string, line: string, lineNumber: number, index: number, matchText: string): SearchMatch {
+  const previewFrom = line.length > PREVIEW_LENGTH ? Math.max(0, index - PREVIEW_CONTEXT_BEFORE) : 0
+  return {
+    filePath,
+    line: lineNumber,
+    column: index + 1,
+    length: matchText.length,
+    matchText,
+    preview: line.slice(previewFrom, previewFrom + PREVIEW_LENGTH),
+    previewStart: index - previewFrom,
+  }
+}
+
+/**
+ * Replace the given matches in a file's content. Each match is re-checked at its
+ * reported line and column so a file edited since the search is never corrupted;
+ * matches that no longer line up are counted as skipped.
+ */
+export function replaceMatchesInContent(
+  content: string,
+  request: Pick<ReplacePreviewRequest, 'matches' | 'options' | 'replaceText'>
+): { content: string; replacedCount: number; skippedCount: number } {
+  const { options, replaceText } = request
+  const regex = buildSearchRegex(options)
+  // Sticky and non-global, so exec/replace only look at lastIndex
+  const sticky = new RegExp(regex.source, regex.flags.replace('g', '') + 'y')
+
+  const matchesByLine = new Map<number, SearchMatch[]>()
+  for (const match of request.matches) {
+    const lineMatches = matchesByLine.get(match.line) ?? []
+    lineMatches.push(match)
+    matchesByLine.set(match.line, lineMatches)
+  }
+
+  const lines = content.split('\n')
+  let replacedCount = 0
+  let skippedCount = 0
+
+  for (const [lineNumber, lineMatches] of matchesByLine) {
+    const rawLine = lines[lineNumber - 1]
+    if (rawLine === undefined) {
+      skippedCount += lineMatches.length
+      continue
+    }
+
+    const hasCarriageReturn = rawLine.endsWith('\r')
+    let text = hasCarriageReturn ? rawLine.slice(0, -1) : rawLine
+
+    // Right to left, so earlier columns stay valid
+    const ordered = [...lineMatches].sort((a, b) => b.column - a.column)
+    for (const match of ordered) {
+      sticky.lastIndex = match.column - 1
+      const found = sticky.exec(text)
+      if (!found || found[0] !== match.matchText) {
+        skippedCount++
+        continue
+      }
+
+      sticky.lastIndex = match.column - 1
+      text = options.isRegex ? text.replace(sticky, replaceText) : text.replace(sticky, () => replaceText)
+      replacedCount++
+    }
+
+    lines[lineNumber - 1] = hasCarriageReturn ? `${text}\r` : text
+  }
+
+  return { content: lines.join('\n'), replacedCount, skippedCount }
+}
+
+/**
+ * Read a file, decoded in its encoding, and work out what it would look like after a replace
+ */
+export async function previewReplace(request: ReplacePreviewRequest): Promise<ReplacePreview> {
+  const { content: originalContent } = await readFileWithVersion(request.filePath)
+  const result = replaceMatchesInContent(originalContent, request)
+  return {
+    filePath: request.filePath,
+    originalContent,
+    newContent: result.content,
+    replacedCount: result.replacedCount,
+    skippedCount: result.skippedCount,
+  }
+}
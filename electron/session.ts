@@ -0,0 +1,56 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { hashContent, writeFileAtomic } from './files'
+import type { Workspace, WorkspaceSession } from '../src/shared/types'
+
+// Pointer to the session of the workspace that was open last
+const LAST_SESSION_FILE = 'last.json'
+
+/**
+ * Session store
+ * Keeps one session file per workspace in the user-data directory, keyed by
+ * the workspace file or, for workspaces that were never saved, by their folders.
+ */
+export class SessionStore {
+  constructor(private readonly dir: string) {}
+
+  async save(session: WorkspaceSession): Promise<void> {
+    const fileName = this.fileNameFor(session.workspace)
+    await fs.mkdir(this.dir, { recursive: true })
+    await writeFileAtomic(path.join(this.dir, fileName), JSON.stringify(session, null, 2))
+    await writeFileAtomic(path.join(this.dir, LAST_SESSION_FILE), JSON.stringify({ fileName }))
+  }
+
+  /**
+   * The stored session of a workspace, if it has one
+   */
+  async load(workspace: Workspace): Promise<WorkspaceSession | null> {
+    return this.read(this.fileNameFor(workspace))
+  }
+
+  /**
+   * The session of the workspace that was open when the app last closed
+   */
+  async loadLast(): Promise<WorkspaceSession | null> {
+    try {
+      const { fileName } = JSON.parse(await fs.readFile(path.join(this.dir, LAST_SESSION_FILE), 'utf8'))
+      return typeof fileName === 'string' ? this.read(path.basename(fileName)) : null
+    } catch {
+      return null
+    }
+  }
+
+  private async read(fileName: string): Promise<WorkspaceSession | null> {
+    try {
+      const session = JSON.parse(await fs.readFile(path.join(this.dir, fileName), 'utf8')) as WorkspaceSession
+      return Array.isArray(session?.workspace?.folders) && Array.isArray(session.tabs) ? session : null
+    } catch {
+      return null
+    }
+  }
+
+  private fileNameFor(workspace: Workspace): string {
+    const key = workspace.filePath ?? [...workspace.folders].sort().join('\n')
+    return `${hashContent(key)}.json`
+  }
+}
@@ -0,0 +1,219 @@
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { randomUUID } from 'node:crypto'
+import { FsPolicyError } from './pathPolicy'
+import { moveItem } from './files'
+import type { DeletedItem } from '../src/shared/types'
+
+// Folder inside the workspace root used when the OS trash is unavailable
+export const APP_TRASH_DIR = path.join('.intellirite', 'trash')
+
+// Oldest entries are dropped from the "Recently deleted" log beyond this
+const MAX_LOG_ENTRIES = 100
+
+/**
+ * Trash manager
+ * Sends deleted items to the OS trash, falling back to an app-managed trash
+ * folder in the workspace, and keeps a log of deletions so they can be restored.
+ * Items in the OS trash can only be restored when where they landed was found
+ * as they were moved there (see findInSystemTrash).
+ */
+export class TrashManager {
+  private entries: DeletedItem[] | null = null
+
+  /**
+   * @param logPath - JSON file the deletion log is persisted to
+   * @param trashItem - Moves a path to the OS trash (shell.trashItem)
+   */
+  constructor(
+    private readonly logPath: string,
+    private readonly trashItem: (itemPath: string) => Promise<void>
+  ) {}
+
+  /**
+   * Move a file or folder to the trash and record it
+   * @param rootPath - Workspace root holding the fallback trash folder
+   */
+  async moveToTrash(itemPath: string, rootPath?: string): Promise<DeletedItem> {
+    const stats = await fs.stat(itemPath)
+    const item: DeletedItem = {
+      id: randomUUID(),
+      name: path.basename(itemPath),
+      originalPath: itemPath,
+      itemType: stats.isDirectory() ? 'folder' : 'file',
+      deletedAt: Date.now(),
+      location: 'system',
+    }
+
+    try {
+      const before = await listSystemTrash()
+      await this.trashItem(itemPath)
+      item.trashPath = (await findInSystemTrash(item, before)) ?? undefined
+    } catch (error) {
+      console.warn('[TRASH] System trash unavailable, using app trash:', error)
+      const trashDir = path.join(rootPath ?? path.dirname(itemPath), APP_TRASH_DIR, item.id)
+      await fs.mkdir(trashDir, { recursive: true })
+      item.location = 'app'
+      item.trashPath = path.join(trashDir, item.name)
+      await moveItem(itemPath, item.trashPath)
+    }
+
+    const entries = await this.load()
+    entries.unshift(item)
+    entries.splice(MAX_LOG_ENTRIES)
+    await this.save()
+    return item
+  }
+
+  /**
+   * Recently deleted items, newest first
+   */
+  async list(): Promise<DeletedItem[]> {
+    return [...(await this.load())]
+  }
+
+  /**
+   * Put a deleted item back at its original path
+   * @throws FsPolicyError when the original path is taken or the item cannot be found
+   */
+  async restore(id: string): Promise<DeletedItem> {
+    const entries = await this.load()
+    const item = entries.find((entry) => entry.id === id)
+    if (!item) {
+      throw new FsPolicyError('NOT_FOUND', 'Item is no longer in the recently deleted list')
+    }
+
+    if (await pathExists(item.originalPath)) {
+      throw new FsPolicyError('ALREADY_EXISTS', `"${item.name}" already exists in its original folder`, item.originalPath)
+    }
+
+    const source = item.trashPath
+    if (!source) {
+      throw new FsPolicyError('NOT_FOUND', `"${item.name}" can only be restored from the system trash`)
+    }
+    if (!(await pathExists(source))) {
+      throw new FsPolicyError('NOT_FOUND', `"${item.name}" is no longer in the trash`)
+    }
+
+    await fs.mkdir(path.dirname(item.originalPath), { recursive: true })
+    await moveItem(source, item.originalPath)
+
+    if (item.location === 'app') {
+      // Remove the now empty <id> folder
+      await fs.rm(path.dirname(source), { recursive: true, force: true })
+    } else if (source.includes(`${path.sep}Trash${path.sep}files${path.sep}`)) {
+      await fs.rm(freedesktopInfoPath(source), { force: true })
+    }
+
+    entries.splice(entries.indexOf(item), 1)
+    await this.save()
+    return item
+  }
+
+  private async load(): Promise<DeletedItem[]> {
+    if (this.entries) return this.entries
+
+    try {
+      this.entries = JSON.parse(await fs.readFile(this.logPath, 'utf8')) as DeletedItem[]
+    } catch {
+      this.entries = []
+    }
+    return this.entries
+  }
+
+  private async save(): Promise<void> {
+    try {
+      await fs.mkdir(path.dirname(this.logPath), { recursive: true })
+      await fs.writeFile(this.logPath, JSON.stringify(this.entries ?? [], null, 2), 'utf8')
+    } catch (error) {
+      console.error('[TRASH] Error saving deletion log:', error)
+    }
+  }
+}
+
+async function pathExists(itemPath: string): Promise<boolean> {
+  try {
+    await fs.lstat(itemPath)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Names in the macOS trash, read before an item is trashed so the entry it
+ * becomes can be told apart; null elsewhere or when the trash cannot be read
+ */
+async function listSystemTrash(): Promise<Set<string> | null> {
+  if (process.platform !== 'darwin') return null
+  try {
+    return new Set(await fs.readdir(path.join(os.homedir(), '.Trash')))
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Where an item just moved to the OS trash ended up. Electron can move items to
+ * the trash but not back, so this follows each platform's trash layout; null
+ * when it cannot be told for certain.
+ * @param before - Names in the macOS trash before the item was moved there
+ */
+async function findInSystemTrash(item: DeletedItem, before: Set<string> | null): Promise<string | null> {
+  if (process.platform === 'darwin') {
+    // The Finder renames items whose name is taken, so look for the one new entry
+    if (!before) return null
+    const trashDir = path.join(os.homedir(), '.Trash')
+    const added = await fs.readdir(trashDir).then(
+      (names) => names.filter((name) => !before.has(name)),
+      () => []
+    )
+    return added.length === 1 ? path.join(trashDir, added[0]) : null
+  }
+
+  if (process.platform === 'linux') {
+    // freedesktop.org trash: files/<name> with a matching info/<name>.trashinfo
+    const dataHome = process.env.XDG_DATA_HOME || path.join(os.homedir(), '.local', 'share')
+    const trashDir = path.join(dataHome, 'Trash')
+
+    let infoFiles: string[]
+    try {
+      infoFiles = await fs.readdir(path.join(trashDir, 'info'))
+    } catch {
+      return null
+    }
+
+    let best: { name: string; deletedAt: number } | null = null
+    for (const infoFile of infoFiles) {
+      if (!infoFile.endsWith('.trashinfo')) continue
+
+      const info = await fs.readFile(path.join(trashDir, 'info', infoFile), 'utf8').catch(() => '')
+      const trashedPath = /^Path=(.*)$/m.exec(info)?.[1]
+      if (!trashedPath || safeDecode(trashedPath) !== item.originalPath) continue
+
+      const deletedAt = Date.parse(/^DeletionDate=(.*)$/m.exec(info)?.[1] ?? '') || 0
+      if (!best || deletedAt > best.deletedAt) {
+        best = { name: infoFile.slice(0, -'.trashinfo'.length), deletedAt }
+      }
+    }
+
+    return best ? path.join(trashDir, 'files', best.name) : null
+  }
+
+  // The Windows Recycle Bin cannot be read without native APIs
+  return null
+}
+
+function freedesktopInfoPath(trashedFile: string): string {
+  const trashDir = path.dirname(path.dirname(trashedFile))
+  return path.join(trashDir, 'info', `${path.basename(trashedFile)}.trashinfo`)
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value)
+  } catch {
+    return value
+  }
+}
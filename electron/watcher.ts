@@ -0,0 +1,178 @@
+import { watch, type FSWatcher } from 'node:fs'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import type { FileWatchEvent } from '../src/shared/types'
+
+// How long raw fs.watch notifications are collected before being flushed as one batch
+const BATCH_DELAY_MS = 100
+
+// Changes to a file within this window after the app itself wrote it are not reported
+const OWN_WRITE_WINDOW_MS = 1500
+
+export interface WorkspaceWatcherOptions {
+  // Paths for which this resolves true are dropped before classification
+  isIgnored?: (fullPath: string, isDirectory: boolean, rootPath: string) => Promise<boolean>
+  // Called for every raw notification, including the app's own writes
+  onPathChanged?: (fullPath: string) => void
+}
+
+interface PendingChange {
+  eventType: 'rename' | 'change'
+  rootPath: string
+}
+
+/**
+ * Workspace watcher
+ * Wraps recursive fs.watch for each opened root, classifies the raw
+ * notifications into add/change/unlink events and pushes them in batches.
+ */
+export class WorkspaceWatcher {
+  private watchers = new Map<string, FSWatcher>()
+  private pending = new Map<string, PendingChange>()
+  private knownFolders = new Set<string>()
+  private ownWrites = new Map<string, number>()
+  private flushTimer: ReturnType<typeof setTimeout> | null = null
+
+  constructor(
+    private readonly emit: (events: FileWatchEvent[]) => void,
+    private readonly options: WorkspaceWatcherOptions = {}
+  ) {}
+
+  /**
+   * Start watching a root folder (no-op if it is already watched)
+   */
+  watchRoot(rootPath: string): void {
+    if (this.watchers.has(rootPath)) return
+
+    try {
+      const watcher = watch(rootPath, { recursive: true }, (eventType, fileName) => {
+        if (!fileName) return
+        this.queue(path.join(rootPath, fileName.toString()), eventType, rootPath)
+      })
+
+      watcher.on('error', (error) => {
+        console.error('[WATCHER] Error watching', rootPath, error)
+        this.unwatchRoot(rootPath)
+      })
+
+      this.watchers.set(rootPath, watcher)
+    } catch (error) {
+      console.error('[WATCHER] Failed to watch', rootPath, error)
+    }
+  }
+
+  /**
+   * Stop watching a root folder
+   */
+  unwatchRoot(rootPath: string): void {
+    const watcher = this.watchers.get(rootPath)
+    if (!watcher) return
+
+    watcher.close()
+    this.watchers.delete(rootPath)
+
+    for (const folder of this.knownFolders) {
+      if (isInside(rootPath, folder)) {
+        this.knownFolders.delete(folder)
+      }
+    }
+  }
+
+  /**
+   * Stop watching everything
+   */
+  unwatchAll(): void {
+    for (const rootPath of [...this.watchers.keys()]) {
+      this.unwatchRoot(rootPath)
+    }
+    this.pending.clear()
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer)
+      this.flushTimer = null
+    }
+  }
+
+  /**
+   * Record that the app itself is about to write a file, so the resulting
+   * change notification is not echoed back to the renderer as an external edit
+   */
+  markOwnWrite(filePath: string): void {
+    this.ownWrites.set(filePath, Date.now())
+  }
+
+  private queue(fullPath: string, eventType: 'rename' | 'change', rootPath: string): void {
+    this.options.onPathChanged?.(fullPath)
+
+    // A rename notification wins over a change notification for the same path
+    if (this.pending.get(fullPath)?.eventType !== 'rename') {
+      this.pending.set(fullPath, { eventType, rootPath })
+    }
+
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null
+        void this.flush()
+      }, BATCH_DELAY_MS)
+    }
+  }
+
+  private async flush(): Promise<void> {
+    const batch = [...this.pending.entries()]
+    this.pending.clear()
+
+    const events: FileWatchEvent[] = []
+
+    for (const [fullPath, { eventType, rootPath }] of batch) {
+      const event = await this.classify(fullPath, eventType)
+      if (event && !(await this.options.isIgnored?.(fullPath, event.itemType === 'folder', rootPath))) {
+        events.push(event)
+      }
+    }
+
+    if (events.length > 0) {
+      this.emit(events)
+    }
+  }
+
+  private async classify(fullPath: string, eventType: 'rename' | 'change'): Promise<FileWatchEvent | null> {
+    let stats: Awaited<ReturnType<typeof fs.stat>> | null = null
+    try {
+      stats = await fs.stat(fullPath)
+    } catch {
+      stats = null
+    }
+
+    // Path is gone: it was deleted or renamed away
+    if (!stats) {
+      const wasFolder = this.knownFolders.delete(fullPath)
+      this.ownWrites.delete(fullPath)
+      return { type: 'unlink', path: fullPath, itemType: wasFolder ? 'folder' : 'file' }
+    }
+
+    if (stats.isDirectory()) {
+      const isNew = !this.knownFolders.has(fullPath)
+      this.knownFolders.add(fullPath)
+      // Directories report 'change' whenever their entries change; only creation is interesting
+      return eventType === 'rename' && isNew
+        ? { type: 'add', path: fullPath, itemType: 'folder' }
+        : null
+    }
+
+    const ownWriteAt = this.ownWrites.get(fullPath)
+    if (ownWriteAt !== undefined) {
+      if (Date.now() - ownWriteAt < OWN_WRITE_WINDOW_MS) {
+        return null
+      }
+      this.ownWrites.delete(fullPath)
+    }
+
+    // fs.watch reports both creation and atomic replacement as 'rename', so an
+    // 'add' may refer to a file the renderer already knows about
+    return { type: eventType === 'rename' ? 'add' : 'change', path: fullPath, itemType: 'file' }
+  }
+}
+
+function isInside(rootPath: string, candidate: string): boolean {
+  const relative = path.relative(rootPath, candidate)
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative))
+}
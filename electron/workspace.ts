@@ -0,0 +1,63 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { writeFileAtomic } from './files'
+import { FsPolicyError } from './pathPolicy'
+import type { Workspace, WorkspaceSettings } from '../src/shared/types'
+
+export const WORKSPACE_EXTENSION = 'intellirite-workspace'
+
+/**
+ * On-disk format. Folders are stored relative to the workspace file, so a
+ * workspace kept next to the notes stays valid when they are moved together.
+ */
+interface WorkspaceFile {
+  folders: Array<{ path: string }>
+  settings?: WorkspaceSettings
+}
+
+/**
+ * Read a workspace file, resolving its folders to absolute paths
+ * @throws FsPolicyError when the file is not a valid workspace
+ */
+export async function readWorkspaceFile(filePath: string): Promise<Workspace> {
+  let data: WorkspaceFile
+  try {
+    data = JSON.parse(await fs.readFile(filePath, 'utf8')) as WorkspaceFile
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      throw new FsPolicyError('IO_ERROR', `${path.basename(filePath)} is not a valid workspace file`, filePath)
+    }
+    throw error
+  }
+
+  if (!Array.isArray(data?.folders)) {
+    throw new FsPolicyError('IO_ERROR', `${path.basename(filePath)} does not list any folders`, filePath)
+  }
+
+  const baseDir = path.dirname(filePath)
+  const folders = data.folders
+    .filter((folder) => typeof folder?.path === 'string' && folder.path)
+    .map((folder) => path.resolve(baseDir, folder.path))
+
+  return {
+    filePath,
+    folders: [...new Set(folders)],
+    settings: data.settings && typeof data.settings === 'object' ? data.settings : {},
+  }
+}
+
+/**
+ * Write a workspace to a file
+ */
+export async function writeWorkspaceFile(filePath: string, workspace: Workspace): Promise<void> {
+  const baseDir = path.dirname(filePath)
+  const data: WorkspaceFile = {
+    folders: workspace.folders.map((folder) => {
+      // Absolute only when no relative path exists (another Windows drive)
+      const relative = path.relative(baseDir, folder)
+      return { path: path.isAbsolute(relative) ? folder : relative.split(path.sep).join('/') || '.' }
+    }),
+    settings: workspace.settings,
+  }
+  await writeFileAtomic(filePath, JSON.stringify(data, null, 2) + '\n')
+}
@@ -3,40 +3,229 @@ import {
   TopBar,
   Sidebar,
   TabStrip,
+  TabSwitcher,
   Editor,
+  SourceEditor,
   ChatPanel,
   StatusBar,
   CommandPalette,
   SettingsModal,
   InputDialog,
+  FileConflictDialog,
+  SearchPanel,
+  UndoToast,
+  RecentlyDeletedDialog,
+  HistoryPanel,
+  OutlinePanel,
+  BacklinksPanel,
+  RecoveryDialog,
+  ImagePreview,
+  WelcomeScreen,
+  ContextMenu,
+  TAB_DRAG_MIME,
+  type TabDragData,
+  type ContextMenuItem,
   type CursorPosition,
   type Command,
+  type SearchNavigationTarget,
 } from "./renderer/components";
-import type { FileItem } from "./shared/types";
+import type {
+  Bibliography,
+  DeletedItem,
+  EditorViewState,
+  FileItem,
+  FileWatchEvent,
+  FileVersion,
+  FolderListing,
+  HistoryEntry,
+  PathRename,
+  RecentItem,
+  SearchMatch,
+  TextEncoding,
+  UnsavedBuffer,
+  Workspace,
+  WorkspaceSession,
+  WorkspaceSettings,
+} from "./shared/types";
 import type { TabData } from "./renderer/components/Tab";
-import TurndownService from "turndown";
-import { marked } from "marked";
+import {
+  fileContentToEditorHtml,
+  editorHtmlToFileContent,
+  isMarkdownFile,
+  TEXT_ENCODING_LABELS,
+} from "./renderer/utils/fileContent";
+import {
+  createFileItem,
+  insertFileItem,
+  removeFileItem,
+  findFileItem,
+  getBaseName,
+  getParentPath,
+  rebasePath,
+  isPathInside,
+  findWorkspaceRoot,
+  setFolderChildren,
+} from "./renderer/utils/fileTree";
+import {
+  createEditorLayout,
+  getActiveGroup,
+  getOpenTabIds,
+  getPaneKey,
+  openTabsInGroup,
+  closeTabsInGroup,
+  moveTabToGroup,
+  placeTabInGroup,
+  replaceTabInGroup,
+  splitGroup,
+  focusGroup,
+  type EditorGroup,
+  type EditorLayout,
+  type SplitDirection,
+} from "./renderer/utils/editorGroups";
+import { isCopyDrag } from "./renderer/utils/dragAndDrop";
+import {
+  FileSystemError,
+  getErrorMessage,
+  unwrapFsResult,
+} from "./renderer/utils/fsResult";
+import {
+  createLiteralSearchRegex,
+  revealEditorMatch,
+} from "./renderer/utils/editorText";
+import {
+  getFrontMatterSource,
+  setFrontMatterSource,
+} from "./renderer/utils/markdownNodes";
+import type { WikiLinkParts } from "./renderer/utils/markdown";
+import { revealWikiLink } from "./renderer/utils/wikiLinks";
+import { revealHeading } from "./renderer/utils/outline";
+import {
+  findUnknownCitations,
+  getCitedKeys,
+  insertBibliography,
+} from "./renderer/utils/citations";
+import { DEFAULT_CITATION_STYLE } from "./renderer/utils/citationStyles";
+import {
+  editorPositionToSourceOffset,
+  sourceOffsetToEditorPosition,
+} from "./renderer/utils/sourcePosition";
+
+// Closed tabs remembered for "Reopen Closed Tab"
+const MAX_CLOSED_TABS = 20;
+
+const NO_BIBLIOGRAPHY_MESSAGE =
+  "No bibliography found. Add a .bib or .csl.json file to the top of a workspace folder, or choose one in Settings.";
+
+interface ClosedTab {
+  tab: TabData;
+  groupId: string;
+  /** Position in its group's tab strip */
+  index: number;
+  viewState?: EditorViewState;
+}
 
 function App() {
-  const [currentFolder, setCurrentFolder] = useState<string | undefined>();
+  // Root folders open together, with their settings; see loadWorkspace
+  const [workspace, setWorkspace] = useState<Workspace>({
+    folders: [],
+    settings: {},
+  });
+  // First root: where new files go by default, and the AI chat's workspace
+  const currentFolder: string | undefined = workspace.folders[0];
+  const workspaceRef = useRef(workspace);
+  workspaceRef.current = workspace;
   const [files, setFiles] = useState<FileItem[]>([]);
+  const [hasMoreFiles, setHasMoreFiles] = useState(false);
   const [selectedFileId, setSelectedFileId] = useState<string | undefined>();
   const [fileSystemReady, setFileSystemReady] = useState(false);
 
   // Tab management
   const [tabs, setTabs] = useState<TabData[]>([]);
-  const [activeTabId, setActiveTabId] = useState<string | null>(null);
+
+  // Split editor groups, each showing some of the open tabs
+  const [editorLayout, setEditorLayout] =
+    useState<EditorLayout>(createEditorLayout);
+  const editorLayoutRef = useRef(editorLayout);
+  editorLayoutRef.current = editorLayout;
+  const activeTabId = getActiveGroup(editorLayout).activeTabId;
+  // Editor group a dragged tab is over
+  const [tabDropGroupId, setTabDropGroupId] = useState<string | null>(null);
+
+  // Tab ids by most recent activation, and the Ctrl+Tab switcher's highlighted entry
+  const mruTabIds = useRef<string[]>([]);
+  const [tabSwitcherIndex, setTabSwitcherIndex] = useState<number | null>(null);
+  // Most recently closed last, for Ctrl+Shift+T
+  const closedTabs = useRef<ClosedTab[]>([]);
 
   // Auto-save debounce refs
   const saveTimeouts = useRef<Map<string, NodeJS.Timeout>>(new Map());
-  const turndownService = useRef(new TurndownService());
+
+  // Latest tabs, for file watcher events that arrive outside React's render cycle
+  const tabsRef = useRef<TabData[]>([]);
+  tabsRef.current = tabs;
+
+  // Selection and scroll position per pane (see getPaneKey), kept for tab
+  // switches and the saved session
+  const tabViewStates = useRef<Map<string, EditorViewState>>(new Map());
+  // Selection in the markdown source per pane, for tabs in source mode
+  const sourceSelections = useRef<Map<string, { from: number; to: number }>>(new Map());
+  // Set while a saved session is being reopened, so nothing else opens files meanwhile
+  const isRestoringSession = useRef(false);
+  const sessionSaveTimeout = useRef<NodeJS.Timeout | null>(null);
+
+  // Disk copy changed underneath a tab with unsaved edits, noticed by the
+  // file watcher or by a refused save
+  const [fileConflict, setFileConflict] = useState<{
+    tabId: string;
+    diskContent: string;
+    diskVersion?: FileVersion;
+  } | null>(null);
+  // Reopen / save with encoding menu, opened from the status bar or a command
+  const [encodingMenu, setEncodingMenu] = useState<{ x: number; y: number } | null>(null);
   
   // Editor ref for AI chat integration
   const editorRef = useRef<any>(null);
 
+  // Find in Files panel state (replaces the explorer while open)
+  const [isSearchPanelOpen, setIsSearchPanelOpen] = useState(false);
+  const [searchPanelQuery, setSearchPanelQuery] = useState("");
+
+  // Timeline of the active file's local history (replaces the explorer while open)
+  const [isHistoryPanelOpen, setIsHistoryPanelOpen] = useState(false);
+
+  // Heading outline of the active document (replaces the explorer while open)
+  const [isOutlinePanelOpen, setIsOutlinePanelOpen] = useState(false);
+
+  // Notes linking to the active file (replaces the explorer while open)
+  const [isBacklinksPanelOpen, setIsBacklinksPanelOpen] = useState(false);
+
+  // Search match to select once its file is showing in the editor
+  const pendingReveal = useRef<SearchNavigationTarget | null>(null);
+  const [revealRequest, setRevealRequest] = useState(0);
+
+  // Heading (from a [[note#heading]] link) or backlink to select once its
+  // file is showing in the editor
+  const pendingLinkReveal = useRef<{
+    filePath: string;
+    heading?: string;
+    link?: { source: string; occurrence: number };
+  } | null>(null);
+
+  // Workspace bibliography that [@citations] are drawn from
+  const [bibliography, setBibliography] = useState<Bibliography | null>(null);
+  const [bibliographyRevision, setBibliographyRevision] = useState(0);
+
+  // Rewrites links to renamed or moved notes; set once updateWikiLinks is defined
+  const updateWikiLinksRef = useRef<(renames: PathRename[]) => Promise<void>>(
+    async () => {}
+  );
+
   // Chat panel state
   const [isChatCollapsed, setIsChatCollapsed] = useState(false);
 
+  // Recent folders, workspaces and files, kept by the main process
+  const [recentItems, setRecentItems] = useState<RecentItem[]>([]);
+
   // Status bar state
   const [cursorPosition, setCursorPosition] = useState<CursorPosition>({
     line: 1,
@@ -50,6 +239,16 @@ function App() {
   // Settings modal state
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
 
+  // Last deleted item (offered for undo) and the "Recently deleted" view
+  const [deletedItem, setDeletedItem] = useState<DeletedItem | null>(null);
+  const [isRecentlyDeletedOpen, setIsRecentlyDeletedOpen] = useState(false);
+
+  // Unsaved buffers left by a crash or forced quit, offered for recovery on launch
+  const [recoveredBuffers, setRecoveredBuffers] = useState<UnsavedBuffer[]>([]);
+  // Editor content last journaled per file, so unchanged buffers are not rewritten
+  const journaledBuffers = useRef<Map<string, string>>(new Map());
+  const journalTimeout = useRef<NodeJS.Timeout | null>(null);
+
   // Input dialog state (for folder/file creation)
   const [inputDialog, setInputDialog] = useState<{
     isOpen: boolean;
@@ -102,37 +301,246 @@ function App() {
     };
   }, []);
 
-  // Load folder structure
-  const loadFolder = useCallback(async (folderPath: string) => {
-    try {
+  // Load the folder structure of a workspace. A single root's contents are
+  // the top level of the tree; with several roots each is a top-level folder.
+  const loadWorkspace = useCallback(async (next: Workspace) => {
+    const readRoot = async (folderPath: string) => {
       // Try window.fileSystem first, then fallback to direct ipcRenderer
-      let fileItems;
+      let listing: FolderListing;
       if (
         (window as any).fileSystem &&
         typeof (window as any).fileSystem.readFolder === "function"
       ) {
-        fileItems = await (window as any).fileSystem.readFolder(folderPath);
+        listing = unwrapFsResult<FolderListing>(
+          await (window as any).fileSystem.readFolder(folderPath, {
+            rootPath: folderPath,
+          })
+        );
       } else if (
         (window as any).ipcRenderer &&
         typeof (window as any).ipcRenderer.invoke === "function"
       ) {
         // Fallback: use ipcRenderer directly
-        fileItems = await (window as any).ipcRenderer.invoke(
-          "fs-read-folder",
-          folderPath
+        listing = unwrapFsResult<FolderListing>(
+          await (window as any).ipcRenderer.invoke(
+            "fs-read-folder",
+            folderPath,
+            { rootPath: folderPath }
+          )
         );
       } else {
         throw new Error("File system API not available");
       }
+      return listing;
+    };
+
+    try {
+      const listings = await Promise.all(next.folders.map(readRoot));
 
-      setFiles(fileItems);
-      setCurrentFolder(folderPath);
+      // Sub-folders arrive unloaded; the Sidebar reloads the expanded ones
+      if (listings.length === 1) {
+        setFiles(listings[0].items);
+        setHasMoreFiles(listings[0].hasMore);
+      } else {
+        setFiles(
+          next.folders.map((folderPath, i) => ({
+            ...createFileItem(folderPath, "folder"),
+            children: listings[i].items,
+            hasMoreChildren: listings[i].hasMore,
+          }))
+        );
+        setHasMoreFiles(false);
+      }
+      setWorkspace(next);
     } catch (error) {
       console.error("Error loading folder:", error);
-      alert(`Failed to load folder: ${error}`);
+      alert(`Failed to load folder: ${getErrorMessage(error)}`);
+    }
+  }, []);
+
+  // Reload the tree after the app itself changed files
+  const refreshFiles = useCallback(
+    () => loadWorkspace(workspaceRef.current),
+    [loadWorkspace]
+  );
+
+  // Apply a change to the workspace's folders or settings, writing it to the
+  // workspace file when there is one
+  const updateWorkspace = useCallback(
+    async (next: Workspace) => {
+      if (next.folders !== workspaceRef.current.folders) {
+        await loadWorkspace(next);
+      } else {
+        setWorkspace(next);
+      }
+      if (!next.filePath) return;
+
+      try {
+        unwrapFsResult(await window.workspace.save(next));
+      } catch (error) {
+        console.error("Error saving workspace:", error);
+        alert(`Failed to save workspace: ${getErrorMessage(error)}`);
+      }
+    },
+    [loadWorkspace]
+  );
+
+  // Read a file into a new tab; null for binary files, which the editor cannot show
+  const readFileIntoTab = useCallback(
+    async (filePath: string, encoding?: TextEncoding): Promise<TabData | null> => {
+      const newTab: TabData = {
+        id: `tab-${Date.now()}-${Math.random()}`,
+        filePath,
+        fileName: filePath.split("/").pop() || "Untitled",
+        isModified: false,
+        content: "",
+      };
+
+      if (window.fileSystem) {
+        const result = unwrapFsResult(
+          await window.fileSystem.readFile(filePath, encoding)
+        );
+        // Decoding it as text would garble it, and auto-save would write that back
+        if (result.kind === "binary") return null;
+
+        newTab.diskVersion = result.version;
+        if (result.kind === "image") {
+          newTab.imageSrc = result.dataUrl;
+        } else {
+          newTab.content = fileContentToEditorHtml(filePath, result.content);
+          newTab.encoding = result.encoding;
+        }
+      }
+      return newTab;
+    },
+    []
+  );
+
+  // Reopen a workspace's saved tabs, skipping files that no longer exist or
+  // can no longer be read. Tabs already open are kept.
+  const restoreSession = useCallback(
+    async (session: WorkspaceSession) => {
+      const restored = await Promise.all(
+        session.tabs.map(async (sessionTab) => {
+          try {
+            const tab = await readFileIntoTab(
+              sessionTab.filePath,
+              sessionTab.encoding
+            );
+            if (tab) {
+              tab.isPinned = sessionTab.isPinned;
+              tab.isSourceMode = sessionTab.isSourceMode;
+            }
+            if (tab && sessionTab.viewState) {
+              tabViewStates.current.set(
+                getPaneKey(editorLayoutRef.current.activeGroupId, tab.id),
+                sessionTab.viewState
+              );
+            }
+            return tab;
+          } catch (error) {
+            console.warn("Skipping tab from last session:", sessionTab.filePath, error);
+            return null;
+          }
+        })
+      );
+
+      const openPaths = new Set(tabsRef.current.map((tab) => tab.filePath));
+      const newTabs = restored.filter(
+        (tab): tab is TabData => tab !== null && !openPaths.has(tab.filePath)
+      );
+      const allTabs = [...tabsRef.current, ...newTabs];
+      setTabs(allTabs);
+
+      const activeTab =
+        allTabs.find((tab) => tab.filePath === session.activeFilePath) ??
+        newTabs[0];
+      const shownIds = newTabs.map((tab) => tab.id);
+      setEditorLayout((prev) =>
+        openTabsInGroup(
+          prev,
+          prev.activeGroupId,
+          activeTab ? [...shownIds, activeTab.id] : shownIds,
+          activeTab?.id ?? null
+        )
+      );
+      if (activeTab) {
+        setSelectedFileId(activeTab.filePath);
+      }
+      if (session.isChatCollapsed !== undefined) {
+        setIsChatCollapsed(session.isChatCollapsed);
+      }
+    },
+    [readFileIntoTab]
+  );
+
+  const loadRecentItems = useCallback(async () => {
+    try {
+      const result = unwrapFsResult(await window.recent.list());
+      setRecentItems(result.items);
+    } catch (error) {
+      console.error("Error loading recent items:", error);
     }
   }, []);
 
+  // Load a workspace the user opened, along with the tabs saved for it last time
+  const openWorkspace = useCallback(
+    async (next: Workspace) => {
+      isRestoringSession.current = true;
+      try {
+        await loadWorkspace(next);
+        // The main process has recorded it as recent
+        void loadRecentItems();
+        const { session } = unwrapFsResult(await window.session.load(next));
+        if (session?.tabs.length) {
+          await restoreSession(session);
+        }
+      } catch (error) {
+        console.error("Error restoring session:", error);
+      } finally {
+        isRestoringSession.current = false;
+      }
+    },
+    [loadWorkspace, loadRecentItems, restoreSession]
+  );
+
+  // Load (a further page of) a folder's children, e.g. when it is expanded in the Sidebar
+  const loadFolderChildren = useCallback(
+    async (folderPath: string, offset: number = 0) => {
+      const rootPath = findWorkspaceRoot(workspace.folders, folderPath);
+      if (!rootPath) return;
+
+      try {
+        const listing = unwrapFsResult(
+          await window.fileSystem.readFolder(folderPath, {
+            rootPath,
+            offset,
+          })
+        );
+
+        if (workspace.folders.length === 1 && folderPath === rootPath) {
+          setFiles((prev) => [...prev, ...listing.items]);
+          setHasMoreFiles(listing.hasMore);
+        } else {
+          setFiles((prev) =>
+            setFolderChildren(
+              prev,
+              folderPath,
+              listing.items,
+              listing.hasMore,
+              offset > 0
+            )
+          );
+        }
+      } catch (error) {
+        console.error("Error loading folder contents:", error);
+        // Mark as loaded so the Sidebar does not retry in a loop
+        setFiles((prev) => setFolderChildren(prev, folderPath, [], false));
+      }
+    },
+    [workspace.folders]
+  );
+
   // Handle open folder
   const handleOpenFolder = useCallback(async () => {
     try {
@@ -193,7 +601,7 @@ function App() {
       console.log("Folder path received:", folderPath);
 
       if (folderPath) {
-        await loadFolder(folderPath);
+        await openWorkspace({ folders: [folderPath], settings: {} });
       } else {
         console.log("No folder selected (user cancelled)");
       }
@@ -202,7 +610,78 @@ function App() {
       const errorMsg = error?.message || String(error);
       alert(`Failed to open folder: ${errorMsg}\n\nCheck console for details.`);
     }
-  }, [loadFolder, fileSystemReady]);
+  }, [openWorkspace, fileSystemReady]);
+
+  // Open an .intellirite-workspace file
+  const handleOpenWorkspace = useCallback(async () => {
+    try {
+      const result = unwrapFsResult(await window.workspace.open());
+      if (!result.workspace) return;
+
+      await openWorkspace(result.workspace);
+      if (result.missingFolders?.length) {
+        alert(
+          `These workspace folders could not be found:\n${result.missingFolders.join("\n")}`
+        );
+      }
+    } catch (error) {
+      console.error("Error opening workspace:", error);
+      alert(`Failed to open workspace: ${getErrorMessage(error)}`);
+    }
+  }, [openWorkspace]);
+
+  // Save the open folders and settings to a new workspace file
+  const handleSaveWorkspaceAs = useCallback(async () => {
+    const current = workspaceRef.current;
+    if (current.folders.length === 0) return;
+
+    try {
+      const { filePath } = unwrapFsResult(
+        await window.workspace.save(current, true)
+      );
+      if (filePath) {
+        setWorkspace((prev) => ({ ...prev, filePath }));
+        void loadRecentItems();
+      }
+    } catch (error) {
+      console.error("Error saving workspace:", error);
+      alert(`Failed to save workspace: ${getErrorMessage(error)}`);
+    }
+  }, [loadRecentItems]);
+
+  const handleAddWorkspaceFolder = useCallback(async () => {
+    try {
+      const folderPath = await window.fileSystem.openFolder();
+      const current = workspaceRef.current;
+      if (!folderPath || current.folders.includes(folderPath)) return;
+
+      await updateWorkspace({
+        ...current,
+        folders: [...current.folders, folderPath],
+      });
+    } catch (error) {
+      console.error("Error adding folder:", error);
+      alert(`Failed to add folder: ${getErrorMessage(error)}`);
+    }
+  }, [updateWorkspace]);
+
+  const handleRemoveWorkspaceFolder = useCallback(
+    (folderPath: string) => {
+      const current = workspaceRef.current;
+      void updateWorkspace({
+        ...current,
+        folders: current.folders.filter((folder) => folder !== folderPath),
+      });
+    },
+    [updateWorkspace]
+  );
+
+  const handleWorkspaceSettingsChange = useCallback(
+    (settings: WorkspaceSettings) => {
+      void updateWorkspace({ ...workspaceRef.current, settings });
+    },
+    [updateWorkspace]
+  );
 
   // Handle new file
   const handleNewFile = useCallback(
@@ -212,12 +691,14 @@ function App() {
         (async () => {
           try {
             if (window.fileSystem) {
-              await window.fileSystem.createFile(parentPath, fileName);
-              await loadFolder(currentFolder || parentPath);
+              unwrapFsResult(
+                await window.fileSystem.createFile(parentPath, fileName)
+              );
+              await refreshFiles();
             }
           } catch (error) {
             console.error("Error creating file:", error);
-            alert(`Failed to create file: ${error}`);
+            alert(`Failed to create file: ${getErrorMessage(error)}`);
           }
         })();
         return;
@@ -231,17 +712,19 @@ function App() {
         onSubmit: async (finalFileName: string) => {
           try {
             if (window.fileSystem) {
-              await window.fileSystem.createFile(parentPath, finalFileName);
-              await loadFolder(currentFolder || parentPath);
+              unwrapFsResult(
+                await window.fileSystem.createFile(parentPath, finalFileName)
+              );
+              await refreshFiles();
             }
           } catch (error) {
             console.error("Error creating file:", error);
-            alert(`Failed to create file: ${error}`);
+            alert(`Failed to create file: ${getErrorMessage(error)}`);
           }
         },
       });
     },
-    [currentFolder, loadFolder]
+    [refreshFiles]
   );
 
   // Handle new folder
@@ -254,17 +737,61 @@ function App() {
         onSubmit: async (folderName: string) => {
           try {
             if (window.fileSystem) {
-              await window.fileSystem.createFolder(parentPath, folderName);
-              await loadFolder(currentFolder || parentPath);
+              unwrapFsResult(
+                await window.fileSystem.createFolder(parentPath, folderName)
+              );
+              await refreshFiles();
             }
           } catch (error) {
             console.error("Error creating folder:", error);
-            alert(`Failed to create folder: ${error}`);
+            alert(`Failed to create folder: ${getErrorMessage(error)}`);
           }
         },
       });
     },
-    [currentFolder, loadFolder]
+    [refreshFiles]
+  );
+
+  // Tabs follow their files, including files inside moved or renamed folders
+  const retargetTabs = useCallback((renames: PathRename[]) => {
+    const moved = (filePath: string) => {
+      for (const { from, to } of renames) {
+        const newPath = rebasePath(filePath, from, to);
+        if (newPath) return newPath;
+      }
+      return null;
+    };
+    setTabs((prev) =>
+      prev.map((t) => {
+        const newPath = moved(t.filePath);
+        return newPath
+          ? { ...t, filePath: newPath, fileName: getBaseName(newPath) }
+          : t;
+      })
+    );
+    setSelectedFileId((prev) => (prev && moved(prev)) || prev);
+  }, []);
+
+  // Rename a file or folder, from the explorer or a tab; open tabs and links
+  // to it follow
+  const renameItem = useCallback(
+    async (itemPath: string, newName: string) => {
+      try {
+        if (window.fileSystem) {
+          const result = unwrapFsResult(
+            await window.fileSystem.rename(itemPath, newName)
+          );
+          const renames = [{ from: itemPath, to: result.path }];
+          retargetTabs(renames);
+          await refreshFiles();
+          await updateWikiLinksRef.current(renames);
+        }
+      } catch (error) {
+        console.error("Error renaming:", error);
+        alert(`Failed to rename: ${getErrorMessage(error)}`);
+      }
+    },
+    [refreshFiles, retargetTabs]
   );
 
   // Handle rename
@@ -275,20 +802,10 @@ function App() {
         title: "Rename",
         placeholder: "Enter new name",
         defaultValue: currentName || "",
-        onSubmit: async (newName: string) => {
-          try {
-            if (window.fileSystem) {
-              await window.fileSystem.rename(itemId, newName);
-              await loadFolder(currentFolder!);
-            }
-          } catch (error) {
-            console.error("Error renaming:", error);
-            alert(`Failed to rename: ${error}`);
-          }
-        },
+        onSubmit: (newName: string) => void renameItem(itemId, newName),
       });
     },
-    [currentFolder, loadFolder]
+    [renameItem]
   );
 
   // Handle delete
@@ -296,86 +813,307 @@ function App() {
     async (itemId: string) => {
       try {
         if (window.fileSystem) {
-          await window.fileSystem.delete(itemId);
-          await loadFolder(currentFolder!);
+          const result = unwrapFsResult(
+            await window.fileSystem.delete(
+              itemId,
+              findWorkspaceRoot(workspaceRef.current.folders, itemId)
+            )
+          );
+          setDeletedItem(result.item);
+          await refreshFiles();
         }
       } catch (error) {
         console.error("Error deleting:", error);
-        alert(`Failed to delete: ${error}`);
+        alert(`Failed to delete: ${getErrorMessage(error)}`);
+      }
+    },
+    [refreshFiles]
+  );
+
+  // Move or copy items dropped on a folder in the explorer
+  const handleMoveItems = useCallback(
+    async (paths: string[], targetFolder: string, copy: boolean) => {
+      try {
+        const transfer = copy ? window.fileSystem.copy : window.fileSystem.move;
+        // Copies always keep both; a move asks first
+        let result = await transfer(paths, targetFolder, {
+          onCollision: copy ? "rename" : "fail",
+        });
+        if (!result.success && result.error.code === "ALREADY_EXISTS") {
+          if (!confirm(`${result.error.message}. Keep both?`)) return;
+          result = await transfer(paths, targetFolder, { onCollision: "rename" });
+        }
+        const { items } = unwrapFsResult(result);
+
+        if (!copy && items.length > 0) {
+          retargetTabs(items);
+        }
+
+        await refreshFiles();
+        if (!copy && items.length > 0) {
+          await updateWikiLinksRef.current(items);
+        }
+      } catch (error) {
+        console.error("Error moving items:", error);
+        alert(
+          `Failed to ${copy ? "copy" : "move"}: ${getErrorMessage(error)}`
+        );
       }
     },
-    [currentFolder, loadFolder]
+    [refreshFiles, retargetTabs]
+  );
+
+  // Move a deleted item back to where it was
+  const handleRestoreDeleted = useCallback(
+    async (item: DeletedItem) => {
+      unwrapFsResult(await window.fileSystem.restoreDeleted(item.id));
+      setDeletedItem((prev) => (prev?.id === item.id ? null : prev));
+      await refreshFiles();
+    },
+    [refreshFiles]
   );
 
+  const handleUndoDelete = useCallback(async () => {
+    if (!deletedItem) return;
+    try {
+      await handleRestoreDeleted(deletedItem);
+    } catch (error) {
+      console.error("Error restoring:", error);
+      alert(`Failed to restore: ${getErrorMessage(error)}`);
+    }
+  }, [deletedItem, handleRestoreDeleted]);
+
+  const handleDismissDeleteToast = useCallback(() => {
+    setDeletedItem(null);
+  }, []);
+
+  // Show an open tab in the active editor group
+  const showTab = useCallback((tabId: string) => {
+    setEditorLayout((prev) => openTabsInGroup(prev, prev.activeGroupId, [tabId]));
+  }, []);
+
   // Handle file select - open file in tab
+  // A preview tab (opened with a single click) is replaced by the next file
+  // previewed in its group, until it is edited or kept open
   const handleFileSelect = useCallback(
-    async (fileId: string) => {
+    async (fileId: string, options: { preview?: boolean } = {}) => {
       setSelectedFileId(fileId);
 
       // Check if tab already exists
-      const existingTab = tabs.find((tab) => tab.filePath === fileId);
+      const existingTab = tabsRef.current.find((tab) => tab.filePath === fileId);
       if (existingTab) {
-        setActiveTabId(existingTab.id);
+        if (existingTab.isPreview && !options.preview) {
+          setTabs((prev) =>
+            prev.map((t) => (t.id === existingTab.id ? { ...t, isPreview: false } : t))
+          );
+        }
+        showTab(existingTab.id);
         return;
       }
 
       // Create new tab
       try {
-        // Read file content
-        let content = "";
-        if (window.fileSystem) {
-          try {
-            const result = await window.fileSystem.readFile(fileId);
-            if (result.success) {
-              content = result.content;
-
-              // Convert markdown to HTML for TipTap if it's a markdown file
-              const extension = fileId.split(".").pop()?.toLowerCase();
-              if (extension === "md" || extension === "markdown") {
-                // Convert markdown to HTML for TipTap
-                if (content.trim() && !content.trim().startsWith("<")) {
-                  content = marked.parse(content) as string;
-                }
-              } else {
-                // For non-markdown files, convert plain text to HTML paragraphs
-                if (!content.trim().startsWith("<")) {
-                  // Convert plain text to HTML paragraphs
-                  const lines = content
-                    .split("\n")
-                    .filter((line) => line.trim());
-                  if (lines.length > 0) {
-                    content = lines.map((line) => `<p>${line}</p>`).join("");
-                  } else {
-                    content = "<p></p>"; // Empty paragraph for empty files
-                  }
-                }
-              }
-            }
-          } catch (error) {
-            console.error("Error reading file:", error);
-            content = "<p>Error loading file content</p>";
-          }
+        const newTab = await readFileIntoTab(fileId);
+        if (!newTab) {
+          const fileName = fileId.split("/").pop() || "Untitled";
+          alert(`"${fileName}" is a binary file and cannot be opened in the editor.`);
+          return;
         }
 
-        const fileName = fileId.split("/").pop() || "Untitled";
-        const newTab: TabData = {
-          id: `tab-${Date.now()}-${Math.random()}`,
-          filePath: fileId,
-          fileName: fileName,
-          isModified: false,
-          content: content,
-        };
+        newTab.isPreview = options.preview;
+
+        const layout = editorLayoutRef.current;
+        const group = getActiveGroup(layout);
+        const previewTab = options.preview
+          ? tabsRef.current.find((t) => t.isPreview && group.tabIds.includes(t.id))
+          : undefined;
+        if (previewTab) {
+          const next = replaceTabInGroup(layout, group.id, previewTab.id, newTab.id);
+          editorLayoutRef.current = next;
+          setEditorLayout(next);
+          const stillOpen = getOpenTabIds(next);
+          setTabs((prev) => [...prev.filter((t) => stillOpen.has(t.id)), newTab]);
+        } else {
+          setTabs((prev) => [...prev, newTab]);
+          showTab(newTab.id);
+        }
 
-        setTabs((prev) => [...prev, newTab]);
-        setActiveTabId(newTab.id);
+        window.recent
+          ?.addFile(fileId, findWorkspaceRoot(workspaceRef.current.folders, fileId))
+          .then((result) => {
+            if (result.success) setRecentItems(result.items);
+          });
       } catch (error) {
         console.error("Error opening file:", error);
-        alert(`Failed to open file: ${error}`);
+        alert(`Failed to open file: ${getErrorMessage(error)}`);
       }
     },
-    [tabs]
+    [readFileIntoTab, showTab]
+  );
+
+  // Reopen an item from the welcome screen or "Open Recent", offering to drop
+  // it from the list when it no longer exists
+  const handleOpenRecent = useCallback(
+    async (item: RecentItem) => {
+      try {
+        const result = unwrapFsResult(await window.recent.open(item.path));
+        if (result.workspace) {
+          await openWorkspace(result.workspace);
+        }
+        if (result.missingFolders?.length) {
+          alert(
+            `These workspace folders could not be found:\n${result.missingFolders.join("\n")}`
+          );
+        }
+        if (result.filePath) {
+          await handleFileSelect(result.filePath);
+        }
+        void loadRecentItems();
+      } catch (error) {
+        console.error("Error opening recent item:", error);
+        if (error instanceof FileSystemError && error.code === "NOT_FOUND") {
+          if (
+            confirm(
+              `"${getBaseName(item.path)}" could not be found. Remove it from the recent list?`
+            )
+          ) {
+            const result = await window.recent.remove(item.path);
+            if (result.success) setRecentItems(result.items);
+          }
+          return;
+        }
+        alert(`Failed to open: ${getErrorMessage(error)}`);
+      }
+    },
+    [openWorkspace, handleFileSelect, loadRecentItems]
+  );
+
+  const handleToggleRecentPin = useCallback(async (item: RecentItem) => {
+    try {
+      const result = unwrapFsResult(
+        await window.recent.setPinned(item.path, !item.pinned)
+      );
+      setRecentItems(result.items);
+    } catch (error) {
+      console.error("Error pinning recent item:", error);
+    }
+  }, []);
+
+  const handleRemoveRecent = useCallback(async (item: RecentItem) => {
+    try {
+      const result = unwrapFsResult(await window.recent.remove(item.path));
+      setRecentItems(result.items);
+    } catch (error) {
+      console.error("Error removing recent item:", error);
+    }
+  }, []);
+
+  // Open a Find in Files match and select it in the editor
+  const handleOpenSearchMatch = useCallback(
+    async (target: SearchNavigationTarget) => {
+      pendingReveal.current = target;
+      await handleFileSelect(target.match.filePath);
+      setRevealRequest((n) => n + 1);
+    },
+    [handleFileSelect]
+  );
+
+  // Follow a wiki-link in a note; a link to a note that does not exist yet
+  // offers to create it next to the note
+  const handleOpenWikiLink = useCallback(
+    async (fromPath: string, link: WikiLinkParts) => {
+      try {
+        const result = unwrapFsResult(
+          await window.wikiLinks.resolve(
+            workspaceRef.current.folders,
+            link.target,
+            fromPath
+          )
+        );
+        let filePath = result.filePath;
+        if (!filePath) {
+          const name = link.target.trim();
+          if (/[/\\]/.test(name) || !confirm(`"${name}" does not exist yet. Create it?`)) {
+            return;
+          }
+          const created = unwrapFsResult(
+            await window.fileSystem.createFile(
+              getParentPath(fromPath),
+              /\.(md|markdown)$/i.test(name) ? name : `${name}.md`
+            )
+          );
+          filePath = created.path;
+          await refreshFiles();
+        }
+
+        pendingLinkReveal.current =
+          link.heading != null ? { filePath, heading: link.heading } : null;
+        await handleFileSelect(filePath);
+        setRevealRequest((n) => n + 1);
+      } catch (error) {
+        console.error("Error opening link:", error);
+        alert(`Failed to open link: ${getErrorMessage(error)}`);
+      }
+    },
+    [handleFileSelect, refreshFiles]
+  );
+
+  // Save a diagram drawn in a note as SVG, offered next to the note
+  const handleExportDiagram = useCallback(async (fromPath: string, svg: string) => {
+    try {
+      const name = getBaseName(fromPath).replace(/\.[^.]+$/, "");
+      unwrapFsResult(
+        await window.fileExport.save(`${getParentPath(fromPath)}/${name}-diagram.svg`, svg, {
+          name: "SVG Image",
+          extensions: ["svg"],
+        })
+      );
+    } catch (error) {
+      console.error("Error exporting diagram:", error);
+      alert(`Failed to export diagram: ${getErrorMessage(error)}`);
+    }
+  }, []);
+
+  // Open a note from the Backlinks panel and select the link in it
+  const handleOpenBacklink = useCallback(
+    async (match: SearchMatch, occurrence: number) => {
+      pendingLinkReveal.current = {
+        filePath: match.filePath,
+        link: { source: match.matchText, occurrence },
+      };
+      await handleFileSelect(match.filePath);
+      setRevealRequest((n) => n + 1);
+    },
+    [handleFileSelect]
   );
 
+  // Reveal the pending search match, heading or link once its tab is active
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!editor || !activeTabId) return;
+    const activeTab = tabs.find((t) => t.id === activeTabId);
+
+    const target = pendingReveal.current;
+    if (target && activeTab?.filePath === target.match.filePath) {
+      pendingReveal.current = null;
+      const regex = createLiteralSearchRegex(target.match.matchText, target);
+      if (!revealEditorMatch(editor, regex, target.occurrence)) {
+        console.warn("Search match not found in editor:", target.match);
+      }
+    }
+
+    const linkTarget = pendingLinkReveal.current;
+    if (linkTarget && activeTab?.filePath === linkTarget.filePath) {
+      pendingLinkReveal.current = null;
+      const isFound = linkTarget.link
+        ? revealWikiLink(editor, linkTarget.link.source, linkTarget.link.occurrence)
+        : revealHeading(editor, linkTarget.heading ?? "");
+      if (!isFound) {
+        console.warn("Link target not found in editor:", linkTarget);
+      }
+    }
+  }, [activeTabId, tabs, revealRequest]);
+
   // Handle editor content change with auto-save
   const handleEditorChange = useCallback(
     (tabId: string, content: string) => {
@@ -385,10 +1123,15 @@ function App() {
       // Update tab content and mark as modified
       setTabs((prev) =>
         prev.map((t) =>
-          t.id === tabId ? { ...t, content, isModified: true } : t
+          t.id === tabId
+            ? { ...t, content, isModified: true, isPreview: false }
+            : t
         )
       );
 
+      // Deleted files are only written again when saved explicitly
+      if (tab.isDeleted) return;
+
       // Clear existing timeout for this tab
       const existingTimeout = saveTimeouts.current.get(tabId);
       if (existingTimeout) {
@@ -399,34 +1142,48 @@ function App() {
       const timeout = setTimeout(async () => {
         try {
           if (window.fileSystem) {
+            // The file may have been moved since the edit; save to where it is now.
+            // A tab closed since then is saved as it was when the edit was made.
+            const { filePath, diskVersion, encoding } =
+              tabsRef.current.find((t) => t.id === tabId) ?? tab;
+
             // Convert HTML to markdown for .md files, otherwise save as HTML
-            const extension = tab.filePath.split(".").pop()?.toLowerCase();
-            let contentToSave = content;
-
-            if (extension === "md" || extension === "markdown") {
-              // Convert HTML to markdown
-              contentToSave = turndownService.current.turndown(content);
-            } else if (extension === "txt") {
-              // Extract plain text from HTML
-              const div = document.createElement("div");
-              div.innerHTML = content;
-              contentToSave = div.textContent || div.innerText || "";
-            }
-            // For other file types, save as HTML
+            const contentToSave = editorHtmlToFileContent(filePath, content);
+
+            // Refused if the file changed on disk since it was loaded or last saved
+            const result = await window.fileSystem.writeFile(
+              filePath,
+              contentToSave,
+              diskVersion,
+              encoding
+            );
 
-            await window.fileSystem.writeFile(tab.filePath, contentToSave);
+            if (!result.success) {
+              saveTimeouts.current.delete(tabId);
+              if (result.error.code === "CONFLICT") {
+                setFileConflict({
+                  tabId,
+                  diskContent: result.diskContent || "",
+                  diskVersion: result.version,
+                });
+                return;
+              }
+              throw new FileSystemError(result.error);
+            }
 
             // Mark as not modified after save
             setTabs((prev) =>
               prev.map((t) =>
-                t.id === tabId ? { ...t, isModified: false } : t
+                t.id === tabId
+                  ? { ...t, isModified: false, diskVersion: result.version }
+                  : t
               )
             );
 
             // Update last saved time
             setLastSaved(new Date());
 
-            console.log("Auto-saved:", tab.filePath);
+            console.log("Auto-saved:", filePath);
           }
         } catch (error) {
           console.error("Error auto-saving file:", error);
@@ -434,7 +1191,7 @@ function App() {
         }
 
         saveTimeouts.current.delete(tabId);
-      }, 1000); // 1 second debounce
+      }, workspaceRef.current.settings.autoSaveDelay ?? 1000); // 1 second debounce by default
 
       saveTimeouts.current.set(tabId, timeout);
     },
@@ -452,6 +1209,7 @@ function App() {
   // Auto-open first file when folder is loaded and no tabs exist
   useEffect(() => {
     if (
+      !isRestoringSession.current &&
       files.length > 0 &&
       tabs.length === 0 &&
       !activeTabId &&
@@ -478,19 +1236,756 @@ function App() {
       if (firstFile) {
         // Small delay to ensure state is ready
         setTimeout(() => {
+          // A session restore may have started or opened tabs in the meantime
+          if (isRestoringSession.current || tabsRef.current.length > 0) return;
           handleFileSelect(firstFile.id);
         }, 150);
       }
     }
   }, [files, tabs.length, activeTabId, currentFolder, handleFileSelect]);
 
-  // Cleanup timeouts on unmount
   useEffect(() => {
-    return () => {
-      saveTimeouts.current.forEach((timeout) => clearTimeout(timeout));
-      saveTimeouts.current.clear();
-    };
-  }, []);
+    if (fileSystemReady && window.recent) {
+      void loadRecentItems();
+    }
+  }, [fileSystemReady, loadRecentItems]);
+
+  // Reopen the workspace and tabs from the last run
+  useEffect(() => {
+    if (!fileSystemReady || !window.session) return;
+
+    let cancelled = false;
+    isRestoringSession.current = true;
+    (async () => {
+      try {
+        const { session } = unwrapFsResult(await window.session.restoreLast());
+        if (cancelled) return;
+        if (session) {
+          await loadWorkspace(session.workspace);
+          await restoreSession(session);
+        }
+
+        // Offered once the workspace is open, so their files can be read again
+        const { buffers } = unwrapFsResult(await window.hotExit.list());
+        if (!cancelled) setRecoveredBuffers(buffers);
+      } catch (error) {
+        console.error("Error restoring last session:", error);
+      } finally {
+        if (!cancelled) isRestoringSession.current = false;
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [fileSystemReady, loadWorkspace, restoreSession]);
+
+  // Latest panel state, for session saves that happen outside the render cycle
+  const sessionState = useRef({ activeTabId, isChatCollapsed });
+  sessionState.current = { activeTabId, isChatCollapsed };
+
+  // Store the open tabs, editor positions and panel state for the next launch
+  const saveSession = useCallback(() => {
+    const current = workspaceRef.current;
+    if (!window.session || isRestoringSession.current || current.folders.length === 0) {
+      return;
+    }
+
+    const { activeTabId: activeId, isChatCollapsed: chatCollapsed } =
+      sessionState.current;
+    const session: WorkspaceSession = {
+      workspace: current,
+      tabs: tabsRef.current.map((tab) => ({
+        filePath: tab.filePath,
+        encoding: tab.encoding,
+        isPinned: tab.isPinned,
+        isSourceMode: tab.isSourceMode,
+        viewState: [
+          editorLayoutRef.current.activeGroupId,
+          ...editorLayoutRef.current.groups.map((group) => group.id),
+        ]
+          .map((groupId) => tabViewStates.current.get(getPaneKey(groupId, tab.id)))
+          .find(Boolean),
+      })),
+      activeFilePath: tabsRef.current.find((tab) => tab.id === activeId)?.filePath,
+      isChatCollapsed: chatCollapsed,
+    };
+    window.session.save(session).catch((error) => {
+      console.error("Error saving session:", error);
+    });
+  }, []);
+
+  const scheduleSessionSave = useCallback(() => {
+    if (sessionSaveTimeout.current) {
+      clearTimeout(sessionSaveTimeout.current);
+    }
+    sessionSaveTimeout.current = setTimeout(() => {
+      sessionSaveTimeout.current = null;
+      saveSession();
+    }, 1000);
+  }, [saveSession]);
+
+  useEffect(() => {
+    scheduleSessionSave();
+  }, [workspace, tabs, activeTabId, isChatCollapsed, scheduleSessionSave]);
+
+  // Flush the pending save when the window closes
+  useEffect(() => {
+    const handleBeforeUnload = () => {
+      if (sessionSaveTimeout.current) {
+        clearTimeout(sessionSaveTimeout.current);
+        sessionSaveTimeout.current = null;
+      }
+      saveSession();
+    };
+    window.addEventListener("beforeunload", handleBeforeUnload);
+    return () => window.removeEventListener("beforeunload", handleBeforeUnload);
+  }, [saveSession]);
+
+  // Journal dirty buffers shortly after each edit, and drop them once they are
+  // saved or closed. The main process is told which files are dirty right away,
+  // for its confirmation on close.
+  useEffect(() => {
+    const dirtyTabs = tabs.filter((tab) => tab.isModified && !tab.imageSrc);
+    window.hotExit?.setUnsavedFiles(dirtyTabs.map((tab) => tab.fileName));
+
+    if (journalTimeout.current) {
+      clearTimeout(journalTimeout.current);
+    }
+    journalTimeout.current = setTimeout(() => {
+      journalTimeout.current = null;
+      if (!window.hotExit) return;
+
+      const journaled = journaledBuffers.current;
+      const dirtyPaths = new Set(dirtyTabs.map((tab) => tab.filePath));
+      for (const filePath of [...journaled.keys()]) {
+        if (dirtyPaths.has(filePath)) continue;
+        journaled.delete(filePath);
+        void window.hotExit.discard(filePath);
+      }
+
+      for (const tab of dirtyTabs) {
+        const content = tab.content || "";
+        if (journaled.get(tab.filePath) === content) continue;
+        journaled.set(tab.filePath, content);
+        window.hotExit
+          .write({
+            filePath: tab.filePath,
+            content: editorHtmlToFileContent(tab.filePath, content),
+            encoding: tab.encoding,
+            diskVersion: tab.diskVersion,
+            modifiedAt: Date.now(),
+          })
+          .then(unwrapFsResult)
+          .catch((error) => {
+            console.error("Error journaling unsaved buffer:", error);
+          });
+      }
+    }, 300);
+  }, [tabs]);
+
+  useEffect(() => {
+    return () => {
+      if (journalTimeout.current) clearTimeout(journalTimeout.current);
+    };
+  }, []);
+
+  // Save every dirty tab when the user chooses "Save All" on close; the window
+  // only closes when all of them were saved
+  useEffect(() => {
+    if (!window.hotExit) return;
+
+    return window.hotExit.onSaveAll(async () => {
+      let saved = true;
+      for (const tab of tabsRef.current) {
+        if (!tab.isModified || tab.imageSrc) continue;
+
+        const pendingSave = saveTimeouts.current.get(tab.id);
+        if (pendingSave) {
+          clearTimeout(pendingSave);
+          saveTimeouts.current.delete(tab.id);
+        }
+        try {
+          const result = await window.fileSystem.writeFile(
+            tab.filePath,
+            editorHtmlToFileContent(tab.filePath, tab.content || ""),
+            tab.diskVersion,
+            tab.encoding
+          );
+          if (!result.success) {
+            if (result.error.code === "CONFLICT") {
+              setFileConflict({
+                tabId: tab.id,
+                diskContent: result.diskContent || "",
+                diskVersion: result.version,
+              });
+            }
+            throw new FileSystemError(result.error);
+          }
+          setTabs((prev) =>
+            prev.map((t) =>
+              t.id === tab.id
+                ? { ...t, isModified: false, isDeleted: false, diskVersion: result.version }
+                : t
+            )
+          );
+          // The window may close before the journal catches up
+          journaledBuffers.current.delete(tab.filePath);
+          await window.hotExit.discard(tab.filePath);
+        } catch (error) {
+          console.error("Error saving file:", error);
+          alert(`Failed to save "${tab.fileName}": ${getErrorMessage(error)}`);
+          saved = false;
+          break;
+        }
+      }
+      window.hotExit.savedAll(saved);
+    });
+  }, []);
+
+  // Reopen a journaled buffer and save it. It is saved against the disk version
+  // it was edited from, so a file changed since shows the conflict dialog.
+  const handleRecoverBuffer = useCallback(
+    async (buffer: UnsavedBuffer) => {
+      let tab = tabsRef.current.find((t) => t.filePath === buffer.filePath);
+      if (!tab) {
+        const opened = await readFileIntoTab(buffer.filePath, buffer.encoding);
+        if (!opened || opened.imageSrc) {
+          throw new Error(`"${buffer.filePath}" can no longer be opened as text`);
+        }
+        tab = opened;
+        setTabs((prev) => [...prev, opened]);
+      }
+      const tabId = tab.id;
+      showTab(tabId);
+
+      const content = fileContentToEditorHtml(buffer.filePath, buffer.content);
+      setTabs((prev) =>
+        prev.map((t) =>
+          t.id === tabId
+            ? {
+                ...t,
+                content,
+                isModified: true,
+                isPreview: false,
+                diskVersion: buffer.diskVersion ?? t.diskVersion,
+              }
+            : t
+        )
+      );
+
+      const result = await window.fileSystem.writeFile(
+        buffer.filePath,
+        buffer.content,
+        buffer.diskVersion ?? tab.diskVersion,
+        buffer.encoding ?? tab.encoding
+      );
+      if (result.success) {
+        setTabs((prev) =>
+          prev.map((t) =>
+            t.id === tabId
+              ? { ...t, isModified: false, diskVersion: result.version }
+              : t
+          )
+        );
+        setLastSaved(new Date());
+      } else if (result.error.code === "CONFLICT") {
+        setFileConflict({
+          tabId,
+          diskContent: result.diskContent || "",
+          diskVersion: result.version,
+        });
+      } else {
+        throw new FileSystemError(result.error);
+      }
+
+      // Journaled again from the tab while it stays unsaved
+      unwrapFsResult(await window.hotExit.discard(buffer.filePath));
+      setRecoveredBuffers((prev) => prev.filter((b) => b !== buffer));
+    },
+    [readFileIntoTab, showTab]
+  );
+
+  const handleDiscardRecoveredBuffer = useCallback(async (buffer: UnsavedBuffer) => {
+    unwrapFsResult(await window.hotExit.discard(buffer.filePath));
+    setRecoveredBuffers((prev) => prev.filter((b) => b !== buffer));
+  }, []);
+
+  // Watch the workspace folders for changes made outside the app
+  useEffect(() => {
+    if (!window.fileSystem?.watchFolder) return;
+
+    for (const folderPath of workspace.folders) {
+      window.fileSystem
+        .watchFolder(folderPath)
+        .then(unwrapFsResult)
+        .catch((error) => {
+          console.error("Error watching folder:", error);
+        });
+    }
+
+    return () => {
+      for (const folderPath of workspace.folders) {
+        window.fileSystem.unwatchFolder(folderPath).catch(() => {});
+      }
+    };
+  }, [workspace.folders]);
+
+  // Reconcile an open tab with a file that changed on disk
+  const handleExternalFileChange = useCallback(async (tab: TabData) => {
+    try {
+      const result = await window.fileSystem.readFile(tab.filePath, tab.encoding);
+      if (!result.success) return;
+
+      if (result.kind === "image") {
+        const { dataUrl, version } = result;
+        setTabs((prev) =>
+          prev.map((t) =>
+            t.id === tab.id ? { ...t, imageSrc: dataUrl, diskVersion: version } : t
+          )
+        );
+        return;
+      }
+      if (result.kind !== "text") return;
+
+      const diskContent = result.content;
+      const diskVersion = result.version;
+      const localContent = editorHtmlToFileContent(
+        tab.filePath,
+        tab.content || ""
+      );
+      if (diskContent === localContent) {
+        setTabs((prev) =>
+          prev.map((t) => (t.id === tab.id ? { ...t, diskVersion } : t))
+        );
+        return;
+      }
+
+      if (tab.isModified) {
+        // Hold back the pending auto-save so it cannot clobber the disk copy
+        const pendingSave = saveTimeouts.current.get(tab.id);
+        if (pendingSave) {
+          clearTimeout(pendingSave);
+          saveTimeouts.current.delete(tab.id);
+        }
+        setFileConflict({ tabId: tab.id, diskContent, diskVersion });
+        return;
+      }
+
+      // Clean buffer: silently pick up the new content
+      const content = fileContentToEditorHtml(tab.filePath, diskContent);
+      setTabs((prev) =>
+        prev.map((t) =>
+          t.id === tab.id ? { ...t, content, diskVersion } : t
+        )
+      );
+    } catch (error) {
+      console.error("Error reloading changed file:", error);
+    }
+  }, []);
+
+  // Apply file watcher events to the tree and open tabs
+  useEffect(() => {
+    if (workspace.folders.length === 0 || !window.fileSystem?.onWatchEvent) return;
+    // With several roots the top-level items are the roots themselves
+    const treeRoot = workspace.folders.length === 1 ? workspace.folders[0] : undefined;
+
+    const handleEvent = (event: FileWatchEvent) => {
+      if (event.type === "unlink") {
+        setFiles((prev) => removeFileItem(prev, event.path));
+
+        // Tabs of deleted files keep their content, but stop saving it back
+        const deletedIds = new Set(
+          tabsRef.current
+            .filter((t) => t.filePath === event.path || isPathInside(event.path, t.filePath))
+            .map((t) => t.id)
+        );
+        if (deletedIds.size === 0) return;
+        deletedIds.forEach((id) => {
+          const pendingSave = saveTimeouts.current.get(id);
+          if (pendingSave) {
+            clearTimeout(pendingSave);
+            saveTimeouts.current.delete(id);
+          }
+        });
+        setTabs((prev) =>
+          prev.map((t) => (deletedIds.has(t.id) ? { ...t, isDeleted: true } : t))
+        );
+        return;
+      }
+
+      if (event.type === "add") {
+        // Added folders arrive unloaded and are read when expanded
+        setFiles((prev) =>
+          findFileItem(prev, event.path)
+            ? prev
+            : insertFileItem(
+                prev,
+                treeRoot,
+                createFileItem(event.path, event.itemType)
+              )
+        );
+        if (event.itemType === "folder") return;
+      }
+
+      // 'add' also covers editors that save by replacing the file, and
+      // deleted files coming back
+      const tab = tabsRef.current.find((t) => t.filePath === event.path);
+      if (tab) {
+        if (tab.isDeleted) {
+          setTabs((prev) =>
+            prev.map((t) => (t.id === tab.id ? { ...t, isDeleted: false } : t))
+          );
+        }
+        void handleExternalFileChange(tab);
+      }
+    };
+
+    return window.fileSystem.onWatchEvent((events) => {
+      events
+        .filter((event) => findWorkspaceRoot(workspace.folders, event.path))
+        .forEach(handleEvent);
+    });
+  }, [workspace.folders, handleExternalFileChange]);
+
+  // Load the workspace bibliography, again whenever its file changes
+  useEffect(() => {
+    if (workspace.folders.length === 0 || !window.citations) {
+      setBibliography(null);
+      return;
+    }
+
+    let isCancelled = false;
+    window.citations
+      .loadBibliography(workspace.folders, workspace.settings.bibliography)
+      .then((result) => {
+        if (!isCancelled) setBibliography(unwrapFsResult(result).bibliography);
+      })
+      .catch((error) => {
+        console.error("Error loading bibliography:", error);
+        if (!isCancelled) setBibliography(null);
+      });
+    return () => {
+      isCancelled = true;
+    };
+  }, [workspace.folders, workspace.settings.bibliography, bibliographyRevision]);
+
+  const bibliographyPath = bibliography?.filePath;
+  useEffect(() => {
+    if (!bibliographyPath || !window.fileSystem?.onWatchEvent) return;
+    return window.fileSystem.onWatchEvent((events) => {
+      if (events.some((event) => event.path === bibliographyPath)) {
+        setBibliographyRevision((n) => n + 1);
+      }
+    });
+  }, [bibliographyPath]);
+
+  // Saves made in the app are not reported by the watcher
+  const isBibliographyOpen = tabs.some((t) => t.filePath === bibliographyPath);
+  useEffect(() => {
+    if (isBibliographyOpen && lastSaved) {
+      setBibliographyRevision((n) => n + 1);
+    }
+  }, [isBibliographyOpen, lastSaved]);
+
+  // Resolve a conflict between unsaved edits and a newer disk copy
+  const handleConflictKeepMine = useCallback(async () => {
+    if (!fileConflict) return;
+    const tab = tabs.find((t) => t.id === fileConflict.tabId);
+    setFileConflict(null);
+    if (!tab) return;
+
+    try {
+      // Overwrite: deliberately no expected version
+      const result = unwrapFsResult(
+        await window.fileSystem.writeFile(
+          tab.filePath,
+          editorHtmlToFileContent(tab.filePath, tab.content || ""),
+          undefined,
+          tab.encoding
+        )
+      );
+      setTabs((prev) =>
+        prev.map((t) =>
+          t.id === tab.id
+            ? { ...t, isModified: false, diskVersion: result.version }
+            : t
+        )
+      );
+      setLastSaved(new Date());
+    } catch (error) {
+      console.error("Error saving file:", error);
+      alert(`Failed to save file: ${getErrorMessage(error)}`);
+    }
+  }, [fileConflict, tabs]);
+
+  const handleConflictLoadDisk = useCallback(() => {
+    if (!fileConflict) return;
+    const { tabId, diskContent, diskVersion } = fileConflict;
+    setFileConflict(null);
+
+    setTabs((prev) =>
+      prev.map((t) =>
+        t.id === tabId
+          ? {
+              ...t,
+              content: fileContentToEditorHtml(t.filePath, diskContent),
+              isModified: false,
+              diskVersion,
+            }
+          : t
+      )
+    );
+  }, [fileConflict]);
+
+  // Read the active file again, decoding it in the chosen encoding
+  const handleReopenWithEncoding = useCallback(
+    async (encoding: TextEncoding) => {
+      const tab = tabsRef.current.find((t) => t.id === activeTabId);
+      if (!tab || tab.imageSrc) return;
+      if (
+        tab.isModified &&
+        !confirm(`Discard unsaved changes to "${tab.fileName}" and reopen it?`)
+      ) {
+        return;
+      }
+
+      try {
+        const result = unwrapFsResult(
+          await window.fileSystem.readFile(tab.filePath, encoding)
+        );
+        if (result.kind !== "text") return;
+        const pendingSave = saveTimeouts.current.get(tab.id);
+        if (pendingSave) {
+          clearTimeout(pendingSave);
+          saveTimeouts.current.delete(tab.id);
+        }
+        const content = fileContentToEditorHtml(tab.filePath, result.content);
+        setTabs((prev) =>
+          prev.map((t) =>
+            t.id === tab.id
+              ? {
+                  ...t,
+                  content,
+                  encoding,
+                  isModified: false,
+                  diskVersion: result.version,
+                }
+              : t
+          )
+        );
+      } catch (error) {
+        console.error("Error reopening file:", error);
+        alert(`Failed to reopen file: ${getErrorMessage(error)}`);
+      }
+    },
+    [activeTabId]
+  );
+
+  // Write a local history snapshot back to the active file
+  const handleRestoreHistory = useCallback(
+    async (entry: HistoryEntry) => {
+      const tab = tabsRef.current.find((t) => t.id === activeTabId);
+      if (!tab || tab.imageSrc) return;
+
+      if (
+        tab.isModified &&
+        !confirm(`Discard unsaved changes to "${tab.fileName}" and restore this version?`)
+      ) {
+        return;
+      }
+
+      const pendingSave = saveTimeouts.current.get(tab.id);
+      if (pendingSave) {
+        clearTimeout(pendingSave);
+        saveTimeouts.current.delete(tab.id);
+      }
+      const result = unwrapFsResult(
+        await window.localHistory.restore(
+          tab.filePath,
+          entry.id,
+          tab.diskVersion,
+          tab.encoding
+        )
+      );
+      setTabs((prev) =>
+        prev.map((t) =>
+          t.id === tab.id
+            ? {
+                ...t,
+                content: fileContentToEditorHtml(t.filePath, result.content),
+                isModified: false,
+                isPreview: false,
+                diskVersion: result.version,
+              }
+            : t
+        )
+      );
+      setLastSaved(new Date());
+    },
+    [activeTabId]
+  );
+
+  const getActiveEditor = useCallback(() => editorRef.current, []);
+
+  const getActiveFileContent = useCallback(() => {
+    const tab = tabsRef.current.find((t) => t.id === activeTabId);
+    return tab ? editorHtmlToFileContent(tab.filePath, tab.content || "") : "";
+  }, [activeTabId]);
+
+  // Write the active file in the chosen encoding; later saves keep using it
+  const handleSaveWithEncoding = useCallback(
+    async (encoding: TextEncoding) => {
+      const tab = tabsRef.current.find((t) => t.id === activeTabId);
+      if (!tab || tab.imageSrc) return;
+
+      try {
+        const pendingSave = saveTimeouts.current.get(tab.id);
+        if (pendingSave) {
+          clearTimeout(pendingSave);
+          saveTimeouts.current.delete(tab.id);
+        }
+        const result = await window.fileSystem.writeFile(
+          tab.filePath,
+          editorHtmlToFileContent(tab.filePath, tab.content || ""),
+          tab.diskVersion,
+          encoding
+        );
+        if (!result.success && result.error.code === "CONFLICT") {
+          setFileConflict({
+            tabId: tab.id,
+            diskContent: result.diskContent || "",
+            diskVersion: result.version,
+          });
+          return;
+        }
+        const { version } = unwrapFsResult(result);
+        setTabs((prev) =>
+          prev.map((t) =>
+            t.id === tab.id
+              ? { ...t, encoding, isModified: false, isDeleted: false, diskVersion: version }
+              : t
+          )
+        );
+        setLastSaved(new Date());
+      } catch (error) {
+        console.error("Error saving file:", error);
+        alert(`Failed to save file: ${getErrorMessage(error)}`);
+      }
+    },
+    [activeTabId]
+  );
+
+  const getEncodingMenuItems = (): ContextMenuItem[] => {
+    const encodings = Object.keys(TEXT_ENCODING_LABELS) as TextEncoding[];
+    const current = tabs.find((t) => t.id === activeTabId)?.encoding;
+    return [
+      ...encodings.map((encoding) => ({
+        id: `reopen-${encoding}`,
+        label: `Reopen with ${TEXT_ENCODING_LABELS[encoding]}`,
+        onClick: () => void handleReopenWithEncoding(encoding),
+      })),
+      { id: "encoding-separator", label: "", separator: true, onClick: () => {} },
+      ...encodings.map((encoding) => ({
+        id: `save-${encoding}`,
+        label: `Save with ${TEXT_ENCODING_LABELS[encoding]}`,
+        disabled: encoding === current,
+        onClick: () => void handleSaveWithEncoding(encoding),
+      })),
+    ];
+  };
+
+  // Save pending edits to these files now, so a replace across files starts
+  // from what the user sees
+  const handleBeforeReplace = useCallback(async (filePaths: string[]) => {
+    const dirtyTabs = tabsRef.current.filter(
+      (t) => t.isModified && filePaths.includes(t.filePath)
+    );
+
+    const savedVersions = new Map<string, FileVersion | undefined>();
+    for (const tab of dirtyTabs) {
+      const pendingSave = saveTimeouts.current.get(tab.id);
+      if (pendingSave) {
+        clearTimeout(pendingSave);
+        saveTimeouts.current.delete(tab.id);
+      }
+      const result = unwrapFsResult(
+        await window.fileSystem.writeFile(
+          tab.filePath,
+          editorHtmlToFileContent(tab.filePath, tab.content || ""),
+          tab.diskVersion,
+          tab.encoding
+        )
+      );
+      savedVersions.set(tab.id, result.version);
+    }
+
+    if (savedVersions.size > 0) {
+      setTabs((prev) =>
+        prev.map((t) =>
+          savedVersions.has(t.id)
+            ? { ...t, isModified: false, diskVersion: savedVersions.get(t.id) }
+            : t
+        )
+      );
+      setLastSaved(new Date());
+    }
+  }, []);
+
+  // Pick up files rewritten by a replace across files (or its undo)
+  const handleFilesReplaced = useCallback(
+    (filePaths: string[]) => {
+      tabsRef.current
+        .filter((t) => filePaths.includes(t.filePath))
+        .forEach((tab) => void handleExternalFileChange(tab));
+    },
+    [handleExternalFileChange]
+  );
+
+  // Keep wiki-links pointing at notes renamed or moved in the explorer
+  const updateWikiLinks = useCallback(
+    async (renames: PathRename[]) => {
+      const rootPaths = workspaceRef.current.folders;
+      try {
+        let { writes } = unwrapFsResult(
+          await window.wikiLinks.planRenames(rootPaths, renames)
+        );
+        // Unsaved edits to the linking notes are saved first, then kept
+        const filePaths = writes.map((write) => write.filePath);
+        if (tabsRef.current.some((t) => t.isModified && filePaths.includes(t.filePath))) {
+          await handleBeforeReplace(filePaths);
+          ({ writes } = unwrapFsResult(
+            await window.wikiLinks.planRenames(rootPaths, renames)
+          ));
+        }
+        if (writes.length === 0) return;
+
+        unwrapFsResult(await window.fileSystem.writeFiles(writes));
+        handleFilesReplaced(writes.map((write) => write.filePath));
+      } catch (error) {
+        console.error("Error updating links:", error);
+        alert(`Failed to update links to the renamed notes: ${getErrorMessage(error)}`);
+      }
+    },
+    [handleBeforeReplace, handleFilesReplaced]
+  );
+  updateWikiLinksRef.current = updateWikiLinks;
+
+  // Notes that can be linked to, for [[link]] autocomplete
+  const getWikiLinkNotes = useCallback(async () => {
+    const result = unwrapFsResult(
+      await window.wikiLinks.listNotes(workspaceRef.current.folders)
+    );
+    return result.notes;
+  }, []);
+
+  // Cleanup timeouts on unmount
+  useEffect(() => {
+    return () => {
+      saveTimeouts.current.forEach((timeout) => clearTimeout(timeout));
+      saveTimeouts.current.clear();
+    };
+  }, []);
 
   // Handle chat panel insert/replace actions
   const handleChatInsert = useCallback(
@@ -516,39 +2011,268 @@ function App() {
     [activeTabId]
   );
 
-  // Tab operations
-  const handleTabSelect = useCallback((tabId: string) => {
-    setActiveTabId(tabId);
+  // Tab operations. They act on the active editor group unless given another one.
+  const handleTabSelect = useCallback((tabId: string, groupId?: string) => {
+    setEditorLayout((prev) =>
+      openTabsInGroup(prev, groupId ?? prev.activeGroupId, [tabId])
+    );
   }, []);
 
+  // Take tabs out of a group; tabs no longer shown in any group are closed
+  const closeTabsInEditorGroup = useCallback(
+    (groupId: string, tabIds: string[]) => {
+      const group = editorLayoutRef.current.groups.find((g) => g.id === groupId);
+      const next = closeTabsInGroup(editorLayoutRef.current, groupId, tabIds);
+      editorLayoutRef.current = next;
+      setEditorLayout(next);
+
+      const stillOpen = getOpenTabIds(next);
+      tabsRef.current
+        .filter((tab) => tabIds.includes(tab.id) && !stillOpen.has(tab.id))
+        .forEach((tab) => {
+          closedTabs.current.push({
+            tab,
+            groupId,
+            index: group?.tabIds.indexOf(tab.id) ?? -1,
+            viewState: tabViewStates.current.get(getPaneKey(groupId, tab.id)),
+          });
+        });
+      closedTabs.current.splice(0, closedTabs.current.length - MAX_CLOSED_TABS);
+
+      setTabs((prev) => prev.filter((tab) => stillOpen.has(tab.id)));
+    },
+    []
+  );
+
+  // Reopen the most recently closed tab where it was, with its cursor position
+  const handleReopenClosedTab = useCallback(async () => {
+    const closed = closedTabs.current.pop();
+    if (!closed) return;
+
+    const openTab = tabsRef.current.find((t) => t.filePath === closed.tab.filePath);
+    if (openTab) {
+      showTab(openTab.id);
+      return;
+    }
+
+    try {
+      // A save still pending from before the close will write the unsaved edits,
+      // so keep them; otherwise read the file again in case it changed since
+      const tab = saveTimeouts.current.has(closed.tab.id)
+        ? closed.tab
+        : await readFileIntoTab(closed.tab.filePath, closed.tab.encoding);
+      if (!tab) return;
+      const reopened: TabData = {
+        ...tab,
+        id: closed.tab.id,
+        isPinned: closed.tab.isPinned,
+        isSourceMode: closed.tab.isSourceMode,
+        isPreview: false,
+      };
+
+      const layout = editorLayoutRef.current;
+      const group =
+        layout.groups.find((g) => g.id === closed.groupId) ?? getActiveGroup(layout);
+      if (closed.viewState) {
+        tabViewStates.current.set(getPaneKey(group.id, reopened.id), closed.viewState);
+      }
+      setTabs((prev) => [...prev, reopened]);
+      setEditorLayout((prev) =>
+        placeTabInGroup(prev, group.id, reopened.id, group.tabIds[closed.index] ?? null)
+      );
+    } catch (error) {
+      console.error("Error reopening tab:", error);
+      alert(`Failed to reopen tab: ${getErrorMessage(error)}`);
+    }
+  }, [readFileIntoTab, showTab]);
+
   const handleTabClose = useCallback(
-    (tabId: string) => {
-      setTabs((prev) => {
-        const newTabs = prev.filter((tab) => tab.id !== tabId);
-        // If closing active tab, switch to another tab
-        if (tabId === activeTabId) {
-          if (newTabs.length > 0) {
-            setActiveTabId(newTabs[newTabs.length - 1].id);
-          } else {
-            setActiveTabId(null);
-          }
-        }
-        return newTabs;
-      });
+    (tabId: string, groupId = editorLayoutRef.current.activeGroupId) => {
+      closeTabsInEditorGroup(groupId, [tabId]);
     },
-    [activeTabId]
+    [closeTabsInEditorGroup]
   );
 
-  const handleTabCloseOthers = useCallback((tabId: string) => {
-    setTabs((prev) => prev.filter((tab) => tab.id === tabId));
-    setActiveTabId(tabId);
+  const handleTabCloseOthers = useCallback(
+    (tabId: string, groupId = editorLayoutRef.current.activeGroupId) => {
+      const group = editorLayoutRef.current.groups.find((g) => g.id === groupId);
+      if (!group) return;
+      const pinnedIds = new Set(
+        tabsRef.current.filter((t) => t.isPinned).map((t) => t.id)
+      );
+      closeTabsInEditorGroup(
+        groupId,
+        group.tabIds.filter((id) => id !== tabId && !pinnedIds.has(id))
+      );
+      handleTabSelect(tabId, groupId);
+    },
+    [closeTabsInEditorGroup, handleTabSelect]
+  );
+
+  const handleTabCloseAll = useCallback(
+    (groupId = editorLayoutRef.current.activeGroupId) => {
+      const group = editorLayoutRef.current.groups.find((g) => g.id === groupId);
+      if (group) {
+        const pinnedIds = new Set(
+          tabsRef.current.filter((t) => t.isPinned).map((t) => t.id)
+        );
+        closeTabsInEditorGroup(
+          groupId,
+          group.tabIds.filter((id) => !pinnedIds.has(id))
+        );
+      }
+    },
+    [closeTabsInEditorGroup]
+  );
+
+  const handleTabTogglePin = useCallback((tabId: string) => {
+    setTabs((prev) =>
+      prev.map((t) =>
+        t.id === tabId ? { ...t, isPinned: !t.isPinned, isPreview: false } : t
+      )
+    );
+  }, []);
+
+  // Switch the active markdown tab between the rich editor and its source,
+  // keeping the cursor roughly in place. The rich editor stays mounted (hidden)
+  // in source mode, so positions can be mapped both ways.
+  const handleToggleSourceMode = useCallback(() => {
+    const layout = editorLayoutRef.current;
+    const tab = tabsRef.current.find(
+      (t) => t.id === getActiveGroup(layout).activeTabId
+    );
+    if (!tab || tab.imageSrc || !isMarkdownFile(tab.filePath)) return;
+
+    const paneKey = getPaneKey(layout.activeGroupId, tab.id);
+    const editor = editorRef.current;
+    if (editor) {
+      const markdown = editorHtmlToFileContent(tab.filePath, tab.content || "");
+      const { doc } = editor.state;
+      if (tab.isSourceMode) {
+        const selection = sourceSelections.current.get(paneKey);
+        if (selection) {
+          const from = sourceOffsetToEditorPosition(doc, selection.from, markdown);
+          const to =
+            selection.to === selection.from
+              ? from
+              : sourceOffsetToEditorPosition(doc, selection.to, markdown);
+          editor.commands.setTextSelection({ from, to });
+        }
+        // Scroll once the editor is shown again
+        setTimeout(() => editor.chain().focus().scrollIntoView().run(), 0);
+      } else {
+        const { from, to } = editor.state.selection;
+        const sourceFrom = editorPositionToSourceOffset(doc, from, markdown);
+        sourceSelections.current.set(paneKey, {
+          from: sourceFrom,
+          to: to === from ? sourceFrom : editorPositionToSourceOffset(doc, to, markdown),
+        });
+      }
+    }
+
+    setTabs((prev) =>
+      prev.map((t) =>
+        t.id === tab.id ? { ...t, isSourceMode: !t.isSourceMode } : t
+      )
+    );
+  }, []);
+
+  const handleTabKeepOpen = useCallback((tabId: string) => {
+    setTabs((prev) =>
+      prev.map((t) => (t.id === tabId ? { ...t, isPreview: false } : t))
+    );
+  }, []);
+
+  // Remember the order tabs were activated in, for Ctrl+Tab
+  useEffect(() => {
+    if (!activeTabId) return;
+    mruTabIds.current = [
+      activeTabId,
+      ...mruTabIds.current.filter((id) => id !== activeTabId),
+    ];
+  }, [activeTabId]);
+
+  // Open tabs, most recently used first
+  const getTabsByRecentUse = useCallback((): TabData[] => {
+    const open = tabsRef.current;
+    const used = mruTabIds.current
+      .map((id) => open.find((t) => t.id === id))
+      .filter((t): t is TabData => t !== undefined);
+    return [...used, ...open.filter((t) => !used.includes(t))];
+  }, []);
+
+  // While the switcher is showing, releasing Ctrl opens the highlighted tab
+  useEffect(() => {
+    if (tabSwitcherIndex === null) return;
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.key !== "Control") return;
+      const tab = getTabsByRecentUse()[tabSwitcherIndex];
+      setTabSwitcherIndex(null);
+      if (tab) handleTabSelect(tab.id);
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        e.preventDefault();
+        setTabSwitcherIndex(null);
+      }
+    };
+
+    window.addEventListener("keyup", handleKeyUp);
+    window.addEventListener("keydown", handleKeyDown);
+    return () => {
+      window.removeEventListener("keyup", handleKeyUp);
+      window.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [tabSwitcherIndex, getTabsByRecentUse, handleTabSelect]);
+
+  // Open the active tab in a new editor group beside or below the active one
+  const handleSplitEditor = useCallback((direction: SplitDirection) => {
+    if (!getActiveGroup(editorLayoutRef.current).activeTabId) return;
+    setEditorLayout((prev) => splitGroup(prev, direction));
   }, []);
 
-  const handleTabCloseAll = useCallback(() => {
-    setTabs([]);
-    setActiveTabId(null);
+  const handleFocusEditorGroup = useCallback((groupId: string) => {
+    setEditorLayout((prev) => focusGroup(prev, groupId));
   }, []);
 
+  // Tabs dragged from another group's tab strip move there, or are shown in
+  // both groups with the copy modifier held
+  const handleTabDragOver = (e: React.DragEvent, groupId: string) => {
+    if (!e.dataTransfer.types.includes(TAB_DRAG_MIME)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = isCopyDrag(e) ? "copy" : "move";
+    setTabDropGroupId(groupId);
+  };
+
+  const handleTabDrop = (e: React.DragEvent, groupId: string) => {
+    const data = e.dataTransfer.getData(TAB_DRAG_MIME);
+    setTabDropGroupId(null);
+    if (!data) return;
+    e.preventDefault();
+
+    const source = JSON.parse(data) as TabDragData;
+    if (source.groupId === groupId) return;
+    setEditorLayout((prev) =>
+      moveTabToGroup(prev, source.tabId, source.groupId, groupId, isCopyDrag(e))
+    );
+  };
+
+  // A tab dropped on a tab strip goes where it was dropped: reordered within
+  // its group, or moved (or copied) from another group
+  const handleTabDropInStrip = (
+    groupId: string,
+    source: TabDragData,
+    beforeTabId: string | null,
+    copy: boolean
+  ) => {
+    setTabDropGroupId(null);
+    if (source.tabId === beforeTabId) return;
+    setEditorLayout((prev) =>
+      moveTabToGroup(prev, source.tabId, source.groupId, groupId, copy, beforeTabId)
+    );
+  };
+
   const handleTabRevealInExplorer = useCallback(async (filePath: string) => {
     // TODO: Implement reveal in explorer (requires Electron shell API)
     console.log("Reveal in explorer:", filePath);
@@ -557,37 +2281,16 @@ function App() {
 
   const handleTabRename = useCallback(
     async (tabId: string, newName: string) => {
-      const tab = tabs.find((t) => t.id === tabId);
+      const tab = tabsRef.current.find((t) => t.id === tabId);
       if (!tab) return;
-
-      try {
-        // Rename file on disk
-        if (window.fileSystem) {
-          await window.fileSystem.rename(tab.filePath, newName);
-
-          // Update tab
-          const newPath = tab.filePath.replace(tab.fileName, newName);
-          setTabs((prev) =>
-            prev.map((t) =>
-              t.id === tabId
-                ? { ...t, fileName: newName, filePath: newPath }
-                : t
-            )
-          );
-
-          // Reload folder to reflect changes
-          if (currentFolder) {
-            await loadFolder(currentFolder);
-          }
-        }
-      } catch (error) {
-        console.error("Error renaming file:", error);
-        alert(`Failed to rename file: ${error}`);
-      }
+      await renameItem(tab.filePath, newName);
     },
-    [tabs, currentFolder, loadFolder]
+    [renameItem]
   );
 
+  // Tab whose timeline, outline or backlinks the side panels show
+  const historyTab = tabs.find((t) => t.id === activeTabId);
+
   // Define commands for command palette
   const commands: Command[] = [
     {
@@ -598,6 +2301,39 @@ function App() {
       shortcut: "⌘O",
       action: handleOpenFolder,
     },
+    {
+      id: "open-workspace",
+      label: "Open Workspace",
+      description: "Open a saved set of folders",
+      category: "File",
+      action: handleOpenWorkspace,
+    },
+    {
+      id: "add-workspace-folder",
+      label: "Add Folder to Workspace",
+      description: "Show another folder alongside the open ones",
+      category: "File",
+      action: () => {
+        if (currentFolder) {
+          void handleAddWorkspaceFolder();
+        } else {
+          void handleOpenFolder();
+        }
+      },
+    },
+    {
+      id: "save-workspace-as",
+      label: "Save Workspace As",
+      description: "Save the open folders and workspace settings to a file",
+      category: "File",
+      action: () => {
+        if (currentFolder) {
+          void handleSaveWorkspaceAs();
+        } else {
+          alert("Please open a folder first");
+        }
+      },
+    },
     {
       id: "new-file",
       label: "New File",
@@ -625,6 +2361,141 @@ function App() {
         }
       },
     },
+    {
+      id: "change-encoding",
+      label: "Reopen or Save with Encoding",
+      description: "Decode or write the current file in another encoding",
+      category: "File",
+      action: () => {
+        if (activeTabId) {
+          setEncodingMenu({ x: window.innerWidth, y: window.innerHeight });
+        }
+      },
+    },
+    {
+      id: "recently-deleted",
+      label: "Recently Deleted",
+      description: "Restore files and folders moved to the trash",
+      category: "File",
+      action: () => {
+        setIsRecentlyDeletedOpen(true);
+      },
+    },
+    {
+      id: "open-timeline",
+      label: "Open Timeline",
+      description: "Browse and restore saved versions of the current file",
+      category: "File",
+      action: () => {
+        setIsSearchPanelOpen(false);
+        setIsOutlinePanelOpen(false);
+        setIsBacklinksPanelOpen(false);
+        setIsHistoryPanelOpen(true);
+      },
+    },
+    {
+      id: "show-outline",
+      label: "Show Outline",
+      description: "Browse and reorder the sections of the current document",
+      category: "View",
+      action: () => {
+        setIsSearchPanelOpen(false);
+        setIsHistoryPanelOpen(false);
+        setIsBacklinksPanelOpen(false);
+        setIsOutlinePanelOpen(true);
+      },
+    },
+    {
+      id: "show-backlinks",
+      label: "Show Backlinks",
+      description: "List the notes that link to the current file",
+      category: "View",
+      action: () => {
+        setIsSearchPanelOpen(false);
+        setIsHistoryPanelOpen(false);
+        setIsOutlinePanelOpen(false);
+        setIsBacklinksPanelOpen(true);
+      },
+    },
+    {
+      id: "add-properties",
+      label: "Add Properties",
+      description: "Add YAML front matter to the current markdown file",
+      category: "Editor",
+      action: () => {
+        const editor = editorRef.current;
+        const tab = tabs.find((t) => t.id === activeTabId);
+        if (!editor || !tab || !isMarkdownFile(tab.filePath)) return;
+        // Files that already have front matter show it in the properties panel
+        if (getFrontMatterSource(editor.state.doc) === null) {
+          setFrontMatterSource(editor);
+        }
+      },
+    },
+    {
+      id: "insert-bibliography",
+      label: "Insert Bibliography",
+      description: "Write the cited sources under the document's References heading",
+      category: "Editor",
+      action: () => {
+        const editor = editorRef.current;
+        const tab = tabs.find((t) => t.id === activeTabId);
+        if (!editor || !tab || !isMarkdownFile(tab.filePath)) return;
+        if (!bibliography) {
+          alert(NO_BIBLIOGRAPHY_MESSAGE);
+          return;
+        }
+        const entries = new Map(bibliography.entries.map((entry) => [entry.id, entry]));
+        if (!getCitedKeys(editor.state.doc).some((key) => entries.has(key))) {
+          alert("This document does not cite any source from the bibliography yet.");
+          return;
+        }
+        insertBibliography(
+          editor,
+          entries,
+          workspace.settings.citationStyle ?? DEFAULT_CITATION_STYLE
+        );
+      },
+    },
+    {
+      id: "check-citations",
+      label: "Check Citations",
+      description: "Find citations of keys missing from the bibliography",
+      category: "Editor",
+      action: () => {
+        const editor = editorRef.current;
+        const tab = tabs.find((t) => t.id === activeTabId);
+        if (!editor || !tab || !isMarkdownFile(tab.filePath)) return;
+        if (!bibliography) {
+          alert(NO_BIBLIOGRAPHY_MESSAGE);
+          return;
+        }
+        const fileName = getBaseName(bibliography.filePath);
+        const unknown = findUnknownCitations(
+          editor.state.doc,
+          new Map(bibliography.entries.map((entry) => [entry.id, entry]))
+        );
+        if (unknown.length === 0) {
+          alert(`Every citation is in ${fileName}.`);
+          return;
+        }
+        editor.chain().focus().setNodeSelection(unknown[0].pos).scrollIntoView().run();
+        const keys = [...new Set(unknown.flatMap((citation) => citation.keys))];
+        alert(
+          `${unknown.length} citation${unknown.length === 1 ? "" : "s"} cite keys missing from ${fileName}: ${keys.join(", ")}`
+        );
+      },
+    },
+    {
+      id: "find-in-files",
+      label: "Find in Files",
+      description: "Search across all files in the workspace",
+      category: "Search",
+      shortcut: "⌘⇧F",
+      action: () => {
+        setIsSearchPanelOpen(true);
+      },
+    },
     {
       id: "toggle-sidebar",
       label: "Toggle Sidebar",
@@ -646,6 +2517,48 @@ function App() {
         setIsChatCollapsed(!isChatCollapsed);
       },
     },
+    {
+      id: "reopen-closed-tab",
+      label: "Reopen Closed Tab",
+      description: "Open the most recently closed tab again",
+      category: "Editor",
+      shortcut: "⌘⇧T",
+      action: () => void handleReopenClosedTab(),
+    },
+    {
+      id: "toggle-pin-tab",
+      label: "Pin / Unpin Tab",
+      description: "Keep the current tab at the start of the tab strip",
+      category: "Editor",
+      action: () => {
+        if (activeTabId) {
+          handleTabTogglePin(activeTabId);
+        }
+      },
+    },
+    {
+      id: "toggle-source-mode",
+      label: "Toggle Markdown Source",
+      description: "Edit the current markdown file as plain source text",
+      category: "Editor",
+      shortcut: "⌘/",
+      action: handleToggleSourceMode,
+    },
+    {
+      id: "split-editor-right",
+      label: "Split Editor Right",
+      description: "Show the current file in a new group beside this one",
+      category: "Editor",
+      shortcut: "⌘\\",
+      action: () => handleSplitEditor("row"),
+    },
+    {
+      id: "split-editor-down",
+      label: "Split Editor Down",
+      description: "Show the current file in a new group below this one",
+      category: "Editor",
+      action: () => handleSplitEditor("column"),
+    },
     {
       id: "close-tab",
       label: "Close Tab",
@@ -674,7 +2587,7 @@ function App() {
       label: "Close All Tabs",
       description: "Close all open tabs",
       category: "Editor",
-      action: handleTabCloseAll,
+      action: () => handleTabCloseAll(),
     },
     {
       id: "command-palette",
@@ -695,6 +2608,13 @@ function App() {
         setIsSettingsOpen(true);
       },
     },
+    ...recentItems.map((item) => ({
+      id: `open-recent:${item.path}`,
+      label: `Open Recent: ${getBaseName(item.path)}`,
+      description: item.path,
+      category: item.pinned ? "Recent (pinned)" : "Recent",
+      action: () => void handleOpenRecent(item),
+    })),
   ];
 
   // Handle keyboard shortcuts
@@ -707,6 +2627,47 @@ function App() {
         return;
       }
 
+      // Cmd/Ctrl+Shift+F opens Find in Files, even from the editor
+      if (
+        (e.metaKey || e.ctrlKey) &&
+        e.shiftKey &&
+        e.key.toLowerCase() === "f"
+      ) {
+        e.preventDefault();
+        setIsSearchPanelOpen(true);
+        return;
+      }
+
+      // Ctrl+Tab (Ctrl+Shift+Tab backwards) steps through tabs by most recent
+      // use; the switcher opens the highlighted tab when Ctrl is released
+      if (e.ctrlKey && e.key === "Tab") {
+        e.preventDefault();
+        const count = tabsRef.current.length;
+        if (count < 2) return;
+        setTabSwitcherIndex(
+          (prev) => ((prev ?? 0) + (e.shiftKey ? count - 1 : 1)) % count
+        );
+        return;
+      }
+
+      // Cmd/Ctrl+Shift+T reopens the last closed tab, even from the editor
+      if (
+        (e.metaKey || e.ctrlKey) &&
+        e.shiftKey &&
+        e.key.toLowerCase() === "t"
+      ) {
+        e.preventDefault();
+        void handleReopenClosedTab();
+        return;
+      }
+
+      // Cmd/Ctrl+/ switches between rich text and markdown source, from either
+      if ((e.metaKey || e.ctrlKey) && e.key === "/") {
+        e.preventDefault();
+        handleToggleSourceMode();
+        return;
+      }
+
       // Don't trigger shortcuts when typing in input/textarea
       const target = e.target as HTMLElement;
       if (
@@ -741,6 +2702,9 @@ function App() {
         if (activeTabId) {
           handleTabClose(activeTabId);
         }
+      } else if ((e.metaKey || e.ctrlKey) && e.key === "\\") {
+        e.preventDefault();
+        handleSplitEditor("row");
       }
     };
 
@@ -754,74 +2718,258 @@ function App() {
     currentFolder,
     activeTabId,
     handleTabClose,
+    handleSplitEditor,
+    handleReopenClosedTab,
+    handleToggleSourceMode,
   ]);
 
   return (
     <div className="w-full h-screen flex flex-col bg-[var(--bg-primary)] text-[var(--text-primary)] overflow-hidden">
-      <TopBar onOpenSettings={() => setIsSettingsOpen(true)} />
+      <TopBar
+        onOpenSettings={() => setIsSettingsOpen(true)}
+        onSearch={(query) => {
+          setSearchPanelQuery(query);
+          setIsSearchPanelOpen(true);
+        }}
+      />
       <div className="flex-1 flex overflow-hidden">
+        {isSearchPanelOpen ? (
+          <SearchPanel
+            rootPaths={workspace.folders}
+            defaultExclude={workspace.settings.searchExclude}
+            initialQuery={searchPanelQuery}
+            onClose={() => setIsSearchPanelOpen(false)}
+            onOpenMatch={handleOpenSearchMatch}
+            onBeforeReplace={handleBeforeReplace}
+            onFilesReplaced={handleFilesReplaced}
+          />
+        ) : isHistoryPanelOpen ? (
+          <HistoryPanel
+            filePath={historyTab?.imageSrc ? undefined : historyTab?.filePath}
+            fileName={historyTab?.fileName}
+            refreshKey={lastSaved}
+            getCurrentContent={getActiveFileContent}
+            onRestore={handleRestoreHistory}
+            onClose={() => setIsHistoryPanelOpen(false)}
+          />
+        ) : isOutlinePanelOpen ? (
+          <OutlinePanel
+            getEditor={getActiveEditor}
+            documentKey={
+              historyTab && getPaneKey(editorLayout.activeGroupId, historyTab.id)
+            }
+            filePath={historyTab?.imageSrc ? undefined : historyTab?.filePath}
+            fileName={historyTab?.fileName}
+            isSourceMode={historyTab?.isSourceMode}
+            onClose={() => setIsOutlinePanelOpen(false)}
+          />
+        ) : isBacklinksPanelOpen ? (
+          <BacklinksPanel
+            rootPaths={workspace.folders}
+            filePath={historyTab?.imageSrc ? undefined : historyTab?.filePath}
+            fileName={historyTab?.fileName}
+            refreshKey={lastSaved}
+            onOpenLink={(match, occurrence) =>
+              void handleOpenBacklink(match, occurrence)
+            }
+            onClose={() => setIsBacklinksPanelOpen(false)}
+          />
+        ) : (
         <Sidebar
           currentFolder={currentFolder}
+          rootFolders={workspace.folders}
+          workspaceName={
+            workspace.filePath
+              ? getBaseName(workspace.filePath).replace(/\.intellirite-workspace$/, "")
+              : undefined
+          }
+          onRemoveRootFolder={handleRemoveWorkspaceFolder}
           files={files}
+          hasMoreFiles={hasMoreFiles}
           selectedFileId={selectedFileId}
           onFileSelect={handleFileSelect}
+          onLoadFolderChildren={loadFolderChildren}
           onOpenFolder={handleOpenFolder}
           onNewFile={handleNewFile}
           onNewFolder={handleNewFolder}
           onRename={handleRename}
           onDelete={handleDelete}
+          onShowRecentlyDeleted={() => setIsRecentlyDeletedOpen(true)}
+          onMoveItems={handleMoveItems}
         />
-        <div className="flex-1 flex flex-col overflow-hidden">
-          {/* Tab Strip */}
-          <TabStrip
-            tabs={tabs}
-            activeTabId={activeTabId}
-            onTabSelect={handleTabSelect}
-            onTabClose={handleTabClose}
-            onTabCloseOthers={handleTabCloseOthers}
-            onTabCloseAll={handleTabCloseAll}
-            onTabRevealInExplorer={handleTabRevealInExplorer}
-            onTabRename={handleTabRename}
-          />
-
-          {/* Editor Area */}
-          <div className="flex-1 flex flex-col overflow-hidden bg-[var(--bg-primary)]">
-            {activeTabId ? (
-              (() => {
-                const activeTab = tabs.find((t) => t.id === activeTabId);
-                return activeTab ? (
-                  <Editor
-                    ref={editorRef}
-                    content={activeTab.content || ""}
-                    onChange={(content) =>
-                      handleEditorChange(activeTab.id, content)
-                    }
-                    onUpdate={(isModified) =>
-                      handleEditorUpdate(activeTab.id, isModified)
-                    }
-                    onCursorChange={(line, column) => {
-                      setCursorPosition({ line, column });
-                    }}
-                    editable={true}
-                  />
-                ) : null;
-              })()
-            ) : (
-              <div className="flex-1 flex flex-col items-center justify-center gap-4 p-8">
-                <h1 className="text-xl font-semibold text-[var(--text-white)]">
-                  Intellirite
-                </h1>
-                <p className="text-md text-[var(--text-secondary)]">
-                  Desktop Writing IDE
-                </p>
-                <p className="text-sm text-[var(--text-tertiary)] mt-4">
-                  Click a file in the sidebar to open it
-                </p>
+        )}
+        {/* Editor groups, side by side or stacked */}
+        <div
+          className={`flex-1 flex ${
+            editorLayout.direction === "row" ? "flex-row" : "flex-col"
+          } overflow-hidden`}
+        >
+          {editorLayout.groups.map((group: EditorGroup, index) => {
+            const groupTabs = group.tabIds
+              .map((id) => tabs.find((t) => t.id === id))
+              .filter((t): t is TabData => t !== undefined);
+            // Pinned tabs come first, in their own order
+            groupTabs.sort((a, b) => Number(!!b.isPinned) - Number(!!a.isPinned));
+            const activeTab = tabs.find((t) => t.id === group.activeTabId);
+            const isActiveGroup = group.id === editorLayout.activeGroupId;
+            const paneKey = activeTab && getPaneKey(group.id, activeTab.id);
+
+            return (
+              <div
+                key={group.id}
+                className={`flex-1 min-w-0 min-h-0 flex flex-col overflow-hidden ${
+                  index > 0
+                    ? editorLayout.direction === "row"
+                      ? "border-l border-[var(--border-primary)]"
+                      : "border-t border-[var(--border-primary)]"
+                    : ""
+                } ${
+                  tabDropGroupId === group.id
+                    ? "ring-2 ring-inset ring-[var(--accent-primary)]"
+                    : ""
+                }`}
+                onMouseDownCapture={() => handleFocusEditorGroup(group.id)}
+                onDragOver={(e) => handleTabDragOver(e, group.id)}
+                onDragLeave={(e) => {
+                  if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+                    setTabDropGroupId(null);
+                  }
+                }}
+                onDrop={(e) => handleTabDrop(e, group.id)}
+              >
+                {/* Tab Strip */}
+                <TabStrip
+                  tabs={groupTabs}
+                  activeTabId={group.activeTabId}
+                  groupId={group.id}
+                  onTabSelect={(tabId) => handleTabSelect(tabId, group.id)}
+                  onTabClose={(tabId) => handleTabClose(tabId, group.id)}
+                  onTabCloseOthers={(tabId) =>
+                    handleTabCloseOthers(tabId, group.id)
+                  }
+                  onTabCloseAll={() => handleTabCloseAll(group.id)}
+                  onTabRevealInExplorer={handleTabRevealInExplorer}
+                  onTabRename={handleTabRename}
+                  onTabTogglePin={handleTabTogglePin}
+                  onTabKeepOpen={handleTabKeepOpen}
+                  onTabDrop={(source, beforeTabId, copy) =>
+                    handleTabDropInStrip(group.id, source, beforeTabId, copy)
+                  }
+                  onSplit={() => {
+                    handleFocusEditorGroup(group.id);
+                    handleSplitEditor(editorLayout.direction);
+                  }}
+                />
+
+                {/* Editor Area */}
+                <div className="flex-1 flex flex-col overflow-hidden bg-[var(--bg-primary)]">
+                  {activeTab?.imageSrc ? (
+                    <ImagePreview
+                      src={activeTab.imageSrc}
+                      fileName={activeTab.fileName}
+                    />
+                  ) : activeTab && paneKey ? (
+                    <>
+                      {activeTab.isSourceMode && (
+                        <SourceEditor
+                          key={paneKey}
+                          content={activeTab.content || ""}
+                          filePath={activeTab.filePath}
+                          onChange={(content) =>
+                            handleEditorChange(activeTab.id, content)
+                          }
+                          initialSelection={sourceSelections.current.get(paneKey)}
+                          onSelectionChange={(selection) =>
+                            sourceSelections.current.set(paneKey, selection)
+                          }
+                          onCursorChange={
+                            isActiveGroup
+                              ? (line, column) => {
+                                  setCursorPosition({ line, column });
+                                }
+                              : undefined
+                          }
+                        />
+                      )}
+                      {/* Kept mounted in source mode to map the cursor back */}
+                      <div
+                        className={
+                          activeTab.isSourceMode
+                            ? "hidden"
+                            : "flex-1 flex flex-col overflow-hidden"
+                        }
+                      >
+                        <Editor
+                          ref={isActiveGroup ? editorRef : undefined}
+                          isActive={isActiveGroup}
+                          content={activeTab.content || ""}
+                          onChange={(content) =>
+                            handleEditorChange(activeTab.id, content)
+                          }
+                          onUpdate={(isModified) =>
+                            handleEditorUpdate(activeTab.id, isModified)
+                          }
+                          onCursorChange={
+                            isActiveGroup
+                              ? (line, column) => {
+                                  setCursorPosition({ line, column });
+                                }
+                              : undefined
+                          }
+                          editable={true}
+                          documentKey={paneKey}
+                          getWikiLinkNotes={
+                            isMarkdownFile(activeTab.filePath) && workspace.folders.length > 0
+                              ? getWikiLinkNotes
+                              : undefined
+                          }
+                          onOpenWikiLink={(link) =>
+                            void handleOpenWikiLink(activeTab.filePath, link)
+                          }
+                          bibliography={
+                            isMarkdownFile(activeTab.filePath) ? bibliography : null
+                          }
+                          citationStyle={workspace.settings.citationStyle}
+                          onExportDiagram={(svg) =>
+                            void handleExportDiagram(activeTab.filePath, svg)
+                          }
+                          viewState={tabViewStates.current.get(paneKey)}
+                          onViewStateChange={(viewState) => {
+                            tabViewStates.current.set(paneKey, viewState);
+                            scheduleSessionSave();
+                          }}
+                        />
+                      </div>
+                    </>
+                  ) : (
+                    <WelcomeScreen
+                      recentItems={recentItems}
+                      hasWorkspace={workspace.folders.length > 0}
+                      onOpenFolder={handleOpenFolder}
+                      onOpenWorkspace={handleOpenWorkspace}
+                      onOpenRecent={handleOpenRecent}
+                      onTogglePin={handleToggleRecentPin}
+                      onRemoveRecent={handleRemoveRecent}
+                    />
+                  )}
+                </div>
               </div>
-            )}
-          </div>
+            );
+          })}
         </div>
 
+        {/* Ctrl+Tab switcher */}
+        {tabSwitcherIndex !== null && (
+          <TabSwitcher
+            tabs={getTabsByRecentUse()}
+            selectedIndex={tabSwitcherIndex}
+            onSelect={(tabId) => {
+              setTabSwitcherIndex(null);
+              handleTabSelect(tabId);
+            }}
+          />
+        )}
+
         {/* Chat Panel */}
         <ChatPanel
           isCollapsed={isChatCollapsed}
@@ -847,11 +2995,32 @@ function App() {
                 .pop()
             : undefined
         }
+        encoding={(() => {
+          const encoding = tabs.find((t) => t.id === activeTabId)?.encoding;
+          return encoding ? TEXT_ENCODING_LABELS[encoding] : undefined;
+        })()}
+        onEncodingClick={(e) => setEncodingMenu({ x: e.clientX, y: e.clientY })}
+        viewMode={(() => {
+          const tab = tabs.find((t) => t.id === activeTabId);
+          if (!tab || tab.imageSrc || !isMarkdownFile(tab.filePath)) return undefined;
+          return tab.isSourceMode ? "Source" : "Rich Text";
+        })()}
+        onViewModeClick={handleToggleSourceMode}
         lastSaved={lastSaved}
         editorMode="Insert"
         isAIConnected={true}
       />
 
+      {/* Encoding Menu */}
+      {encodingMenu && activeTabId && (
+        <ContextMenu
+          items={getEncodingMenuItems()}
+          x={encodingMenu.x}
+          y={encodingMenu.y}
+          onClose={() => setEncodingMenu(null)}
+        />
+      )}
+
       {/* Command Palette */}
       <CommandPalette
         isOpen={isCommandPaletteOpen}
@@ -863,8 +3032,55 @@ function App() {
       <SettingsModal
         isOpen={isSettingsOpen}
         onClose={() => setIsSettingsOpen(false)}
+        workspaceSettings={currentFolder ? workspace.settings : undefined}
+        onWorkspaceSettingsChange={handleWorkspaceSettingsChange}
+      />
+
+      {/* Recently Deleted */}
+      <RecentlyDeletedDialog
+        isOpen={isRecentlyDeletedOpen}
+        rootPaths={workspace.folders}
+        onClose={() => setIsRecentlyDeletedOpen(false)}
+        onRestore={handleRestoreDeleted}
       />
 
+      <RecoveryDialog
+        buffers={recoveredBuffers}
+        onRestore={handleRecoverBuffer}
+        onDiscard={handleDiscardRecoveredBuffer}
+        onClose={() => setRecoveredBuffers([])}
+      />
+
+      {/* Undo for the last delete */}
+      {deletedItem && (
+        <UndoToast
+          message={`Moved "${deletedItem.name}" to the trash`}
+          onAction={handleUndoDelete}
+          onDismiss={handleDismissDeleteToast}
+        />
+      )}
+
+      {/* External Change Conflict Dialog */}
+      {fileConflict &&
+        (() => {
+          const conflictTab = tabs.find((t) => t.id === fileConflict.tabId);
+          return conflictTab ? (
+            <FileConflictDialog
+              isOpen={true}
+              fileName={conflictTab.fileName}
+              localContent={editorHtmlToFileContent(
+                conflictTab.filePath,
+                conflictTab.content || ""
+              )}
+              diskContent={fileConflict.diskContent}
+              keepLabel="Overwrite"
+              loadLabel="Reload"
+              onKeepMine={handleConflictKeepMine}
+              onLoadDisk={handleConflictLoadDisk}
+            />
+          ) : null;
+        })()}
+
       {/* Input Dialog */}
       <InputDialog
         isOpen={inputDialog.isOpen}
@@ -2,7 +2,7 @@
 // Connects the AI engine with the TipTap editor
 
 import { Editor } from '@tiptap/react';
-import { ValidatedPatch, PatchResult } from '../types/ai-context';
+import { ValidatedPatch, PatchResult, DocumentMetadata } from '../types/ai-context';
 import { patchProcessor } from './patch-processor';
 import {
     lineNumbersToOffsets,
@@ -10,6 +10,9 @@ import {
     insertAtLine,
     deleteLineRange
 } from '../utils/file-utils';
+import { frontMatterToMetadata } from '../utils/front-matter';
+import { getCitationEntries } from '../renderer/utils/citations';
+import { describeCitationEntry } from '../renderer/utils/citationStyles';
 
 /**
  * Editor context extracted from TipTap
@@ -34,6 +37,10 @@ export interface EditorContext {
         line: number;
         column: number;
     };
+    /** Properties from the document's YAML front matter (if any) */
+    metadata?: DocumentMetadata;
+    /** Sources the document can cite, as "@key: Author (Year) Title" */
+    bibliography?: string[];
 }
 
 /**
@@ -77,12 +84,24 @@ export class EditorBridge {
         // Cursor position
         const cursorPosition = cursorInfo || { line: 1, column: 1 };
 
+        // Front matter is kept as a source block at the top of markdown documents
+        // and is not part of the text content
+        const firstNode = editor.state.doc.firstChild;
+        const metadata = firstNode?.type.name === 'rawMarkdownBlock' && firstNode.attrs.kind === 'front-matter'
+            ? frontMatterToMetadata(String(firstNode.attrs.raw))
+            : undefined;
+
+        const bibliography = getCitationEntries(editor)
+            ?.map((entry) => `@${entry.id}: ${describeCitationEntry(entry)}`);
+
         return {
             content: textContent,
             lines,
             lineCount,
             selection,
             cursorPosition,
+            metadata,
+            bibliography,
         };
     }
 
@@ -7,7 +7,7 @@ import {
     PATCH_TAGS,
     SINGLE_PATCH_TEMPLATE
 } from '../config/ai-config';
-import { AIContext, AITaskType } from '../types/ai-context';
+import { AIContext, AITaskType, FileContext } from '../types/ai-context';
 
 /**
  * System Prompt Builder
@@ -153,6 +153,8 @@ export class PromptBuilder {
         prompt += `File: ${context.activeFile.fileName}\n`;
         prompt += `Path: ${context.activeFile.filePath}\n`;
         prompt += `Lines: ${context.activeFile.lineCount}\n\n`;
+        prompt += this.buildMetadataSection(context.activeFile);
+        prompt += this.buildBibliographySection(context.activeFile);
         prompt += '```\n';
         prompt += context.activeFile.content;
         prompt += '\n```\n\n';
@@ -219,6 +221,8 @@ export class PromptBuilder {
         }
         
         section += `# CURRENT FILE (${context.activeFile.fileName})\n`;
+        section += this.buildMetadataSection(context.activeFile);
+        section += this.buildBibliographySection(context.activeFile);
 
         // Use summary if available and file is large
         if (context.activeFile.summary && context.activeFile.lineCount > 500) {
@@ -233,6 +237,46 @@ export class PromptBuilder {
         return section;
     }
 
+    /**
+     * Build the document metadata section from a file's front matter
+     * (empty when the file has none)
+     */
+    private buildMetadataSection(file: FileContext): string {
+        const entries = Object.entries(file.metadata ?? {});
+        if (entries.length === 0) {
+            return '';
+        }
+
+        let section = '## Document Metadata (front matter)\n';
+        entries.forEach(([key, value]) => {
+            const text = Array.isArray(value) ? value.join(', ') : String(value);
+            section += `- ${key}: ${text.replace(/\n/g, '\n  ')}\n`;
+        });
+        return section + '\n';
+    }
+
+    /**
+     * Build the list of sources the document can cite, so citations use real
+     * keys (empty when the workspace has no bibliography)
+     */
+    private buildBibliographySection(file: FileContext): string {
+        if (!file.bibliography?.length) {
+            return '';
+        }
+
+        const MAX_SOURCES = 200;
+        let section = '## Bibliography\n';
+        section += 'Cite sources as [@key] (several as [@key1; @key2], a page as [@key, p. 4]). ';
+        section += 'Only cite keys from this list:\n';
+        file.bibliography.slice(0, MAX_SOURCES).forEach((source) => {
+            section += `- ${source}\n`;
+        });
+        if (file.bibliography.length > MAX_SOURCES) {
+            section += `- ... ${file.bibliography.length - MAX_SOURCES} more\n`;
+        }
+        return section + '\n';
+    }
+
     /**
      * Build selection section
      */
@@ -1,6 +1,7 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App.tsx'
+import 'katex/dist/katex.min.css'
 import './renderer/styles/theme.css'
 import './renderer/styles/global.css'
 import './index.css'
@@ -0,0 +1,156 @@
+import { useState, useEffect, useCallback } from "react";
+import { ChevronRightIcon, FileIcon } from "./Icons";
+import { getRelativePath } from "../utils/fileTree";
+import { isMarkdownFile } from "../utils/fileContent";
+import { getErrorMessage, unwrapFsResult } from "../utils/fsResult";
+import type { SearchMatch } from "../../shared/types";
+
+interface BacklinksPanelProps {
+  /** Workspace root folders whose notes are scanned */
+  rootPaths: string[];
+  /** File whose backlinks are shown; the active tab's file */
+  filePath?: string;
+  fileName?: string;
+  /** Changes whenever a file is saved, so new links show up */
+  refreshKey?: unknown;
+  /** Open a linking note at the link; occurrence counts links written the same way before it */
+  onOpenLink: (match: SearchMatch, occurrence: number) => void;
+  onClose: () => void;
+}
+
+/**
+ * BacklinksPanel - Notes with [[wiki-links]] to the active file, each link
+ * shown in its line
+ */
+export function BacklinksPanel({
+  rootPaths,
+  filePath,
+  fileName,
+  refreshKey,
+  onOpenLink,
+  onClose,
+}: BacklinksPanelProps) {
+  const [matches, setMatches] = useState<SearchMatch[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const hasBacklinks = !!filePath && isMarkdownFile(filePath) && rootPaths.length > 0;
+
+  const loadBacklinks = useCallback(async () => {
+    if (!filePath || !hasBacklinks) {
+      setMatches([]);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const result = unwrapFsResult(await window.wikiLinks.backlinks(rootPaths, filePath));
+      setMatches(result.matches);
+      setError(null);
+    } catch (err) {
+      console.error("Error loading backlinks:", err);
+      setError(getErrorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [rootPaths, filePath, hasBacklinks]);
+
+  useEffect(() => {
+    void loadBacklinks();
+  }, [loadBacklinks, refreshKey]);
+
+  // Linking notes in the order they were found, each with its links
+  const files = new Map<string, SearchMatch[]>();
+  for (const match of matches) {
+    files.set(match.filePath, [...(files.get(match.filePath) ?? []), match]);
+  }
+
+  return (
+    <div className="w-72 bg-[var(--bg-secondary)] border-r border-[var(--border-primary)] flex flex-col h-full">
+      {/* Header */}
+      <div className="h-10 flex items-center justify-between px-3 border-b border-[var(--border-primary)] shrink-0">
+        <span className="text-sm font-medium text-[var(--text-primary)] truncate">
+          Backlinks{fileName ? `: ${fileName}` : ""}
+        </span>
+        <button
+          onClick={onClose}
+          className="w-6 h-6 flex items-center justify-center hover:bg-[var(--bg-hover)] rounded transition-colors shrink-0"
+          aria-label="Close backlinks"
+          title="Back to Explorer"
+        >
+          <ChevronRightIcon className="w-3 h-3 text-[var(--text-secondary)] rotate-180" />
+        </button>
+      </div>
+
+      {error && <p className="px-3 pt-2 text-xs text-red-500">{error}</p>}
+
+      <div className="overflow-y-auto flex-1 py-1">
+        {!hasBacklinks ? (
+          <p className="px-3 py-6 text-xs text-center text-[var(--text-tertiary)]">
+            Open a markdown file in a workspace to see what links to it
+          </p>
+        ) : isLoading && matches.length === 0 ? (
+          <p className="px-3 py-6 text-xs text-center text-[var(--text-tertiary)]">
+            Loading…
+          </p>
+        ) : matches.length === 0 ? (
+          <p className="px-3 py-6 text-xs text-center text-[var(--text-tertiary)]">
+            No notes link here yet
+          </p>
+        ) : (
+          Array.from(files, ([linkingPath, links]) => {
+            const relativePath = getRelativePath(rootPaths, linkingPath);
+            const linkingName = relativePath.split(/[/\\]/).pop() || relativePath;
+            const folder = relativePath.slice(0, relativePath.length - linkingName.length);
+
+            return (
+              <div key={linkingPath}>
+                <div className="flex gap-1 items-center px-3 py-1" title={linkingPath}>
+                  <FileIcon
+                    extension={linkingName.split(".").pop()}
+                    className="w-4 h-4 shrink-0"
+                  />
+                  <span className="text-xs text-[var(--text-primary)] truncate">
+                    {linkingName}
+                  </span>
+                  <span className="text-xs text-[var(--text-tertiary)] truncate flex-1">
+                    {folder}
+                  </span>
+                </div>
+
+                {links.map((match, index) => (
+                  <div
+                    key={`${match.line}:${match.column}`}
+                    className="flex gap-2 items-baseline pl-8 pr-2 py-0.5 cursor-pointer hover:bg-[var(--bg-hover)] transition-colors"
+                    onClick={() =>
+                      onOpenLink(
+                        match,
+                        links
+                          .slice(0, index)
+                          .filter((link) => link.matchText === match.matchText).length
+                      )
+                    }
+                  >
+                    <span className="text-[10px] text-[var(--text-tertiary)] font-mono shrink-0 w-6 text-right">
+                      {match.line}
+                    </span>
+                    <span className="text-xs text-[var(--text-secondary)] truncate whitespace-pre">
+                      {match.preview.slice(0, match.previewStart).trimStart()}
+                      <span className="text-[var(--accent-primary)]">
+                        {match.preview.slice(
+                          match.previewStart,
+                          match.previewStart + match.length
+                        )}
+                      </span>
+                      {match.preview.slice(match.previewStart + match.length)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
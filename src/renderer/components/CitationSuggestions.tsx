@@ -0,0 +1,149 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { Editor } from "@tiptap/react";
+import { findCitationQuery, insertCitation } from "../utils/citations";
+import { describeCitationEntry } from "../utils/citationStyles";
+import type { CitationEntry } from "../../shared/types";
+
+interface CitationSuggestionsProps {
+  editor: Editor;
+  /** Entries of the workspace bibliography */
+  entries: CitationEntry[];
+}
+
+const MAX_SUGGESTIONS = 8;
+
+/**
+ * Entries matching a query: keys starting with it first, then keys, authors,
+ * titles and years containing it
+ */
+function filterEntries(entries: CitationEntry[], query: string): CitationEntry[] {
+  const wanted = query.trim().toLowerCase();
+  if (!wanted) return entries.slice(0, MAX_SUGGESTIONS);
+
+  const rank = (entry: CitationEntry) => {
+    const key = entry.id.toLowerCase();
+    if (key.startsWith(wanted)) return 0;
+    if (key.includes(wanted)) return 1;
+    return describeCitationEntry(entry).toLowerCase().includes(wanted) ? 2 : -1;
+  };
+  return entries
+    .map((entry) => ({ entry, rank: rank(entry) }))
+    .filter(({ rank }) => rank !== -1)
+    .sort((a, b) => a.rank - b.rank || a.entry.id.localeCompare(b.entry.id))
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ entry }) => entry);
+}
+
+/**
+ * CitationSuggestions - Picker of bibliography entries while a [@citation] is
+ * typed in the editor
+ */
+export function CitationSuggestions({ editor, entries }: CitationSuggestionsProps) {
+  const [query, setQuery] = useState<ReturnType<typeof findCitationQuery>>(null);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  // Follow the text before the cursor
+  useEffect(() => {
+    const update = () => {
+      // Not for content set while the editor is in the background
+      const next = editor.isFocused ? findCitationQuery(editor) : null;
+      setQuery((previous) =>
+        previous?.from === next?.from && previous?.query === next?.query ? previous : next
+      );
+    };
+    editor.on("transaction", update);
+    return () => {
+      editor.off("transaction", update);
+    };
+  }, [editor]);
+
+  const suggestions = useMemo(
+    () => (query ? filterEntries(entries, query.query) : []),
+    [entries, query]
+  );
+
+  useEffect(() => {
+    setSelectedIndex(0);
+  }, [query?.query]);
+
+  const select = (entry: CitationEntry) => {
+    if (!query) return;
+    insertCitation(editor, query, entry.id);
+    setQuery(null);
+  };
+
+  // Keys go to the list before the editor while it is open
+  const keyHandlerRef = useRef<(event: KeyboardEvent) => boolean>(() => false);
+  keyHandlerRef.current = (event) => {
+    if (!query || suggestions.length === 0) return false;
+    switch (event.key) {
+      case "ArrowDown":
+        setSelectedIndex((index) => (index + 1) % suggestions.length);
+        return true;
+      case "ArrowUp":
+        setSelectedIndex((index) => (index - 1 + suggestions.length) % suggestions.length);
+        return true;
+      case "Enter":
+      case "Tab":
+        select(suggestions[Math.min(selectedIndex, suggestions.length - 1)]);
+        return true;
+      case "Escape":
+        setQuery(null);
+        return true;
+      default:
+        return false;
+    }
+  };
+
+  useEffect(() => {
+    const dom = editor.view.dom;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (keyHandlerRef.current(event)) {
+        event.preventDefault();
+        // Runs before ProseMirror's own handler on the same element
+        event.stopImmediatePropagation();
+      }
+    };
+    dom.addEventListener("keydown", handleKeyDown, true);
+    return () => {
+      dom.removeEventListener("keydown", handleKeyDown, true);
+    };
+  }, [editor]);
+
+  if (!query) return null;
+
+  const coords = editor.view.coordsAtPos(query.from);
+
+  return (
+    <div
+      className="fixed z-50 w-80 py-1 bg-[var(--bg-secondary)] border border-[var(--border-primary)] rounded-lg shadow-xl"
+      style={{ left: coords.left, top: coords.bottom + 4 }}
+      onMouseDown={(e) => e.preventDefault()}
+    >
+      {suggestions.length === 0 ? (
+        <p className="px-3 py-1.5 text-xs text-[var(--text-tertiary)]">
+          No matching sources in the bibliography
+        </p>
+      ) : (
+        suggestions.map((entry, index) => (
+          <button
+            key={entry.id}
+            type="button"
+            onClick={() => select(entry)}
+            onMouseEnter={() => setSelectedIndex(index)}
+            className={`w-full flex flex-col px-3 py-1.5 text-left transition-colors ${
+              index === selectedIndex
+                ? "bg-[var(--bg-hover)] text-[var(--text-primary)]"
+                : "text-[var(--text-secondary)]"
+            }`}
+          >
+            <span className="text-sm font-mono truncate w-full">@{entry.id}</span>
+            <span className="text-xs text-[var(--text-tertiary)] truncate w-full">
+              {describeCitationEntry(entry)}
+            </span>
+          </button>
+        ))
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,9 @@
 import { useEditor, EditorContent } from "@tiptap/react";
 import StarterKit from "@tiptap/starter-kit";
-import CodeBlockLowlight from "@tiptap/extension-code-block-lowlight";
 import { Table } from "@tiptap/extension-table";
 import { TableRow } from "@tiptap/extension-table-row";
 import { TableCell } from "@tiptap/extension-table-cell";
 import { TableHeader } from "@tiptap/extension-table-header";
-import { Link } from "@tiptap/extension-link";
 import { Image } from "@tiptap/extension-image";
 import { TaskList } from "@tiptap/extension-task-list";
 import { TaskItem } from "@tiptap/extension-task-item";
@@ -28,6 +26,43 @@ import {
   forwardRef,
   useImperativeHandle,
 } from "react";
+import type {
+  Bibliography,
+  CitationStyle,
+  EditorViewState,
+  WikiNote,
+} from "../../shared/types";
+import {
+  MarkdownLink,
+  MarkdownSource,
+  RawMarkdownBlock,
+  RawMarkdownInline,
+  getFrontMatterSource,
+  setFrontMatterSource,
+} from "../utils/markdownNodes";
+import { WikiLink } from "../utils/wikiLinks";
+import { Citation, CitationContext } from "../utils/citations";
+import { DEFAULT_CITATION_STYLE } from "../utils/citationStyles";
+import { MathBlock, MathInline } from "../utils/math";
+import { DiagramCodeBlock } from "../utils/diagrams";
+import { createSearchRegex } from "../utils/editorText";
+import {
+  EditorSearch,
+  getEditorSearch,
+  replaceAllSearchMatches,
+  replaceSearchMatch,
+  revealCurrentMatch,
+  selectSearchMatch,
+  setEditorSearch,
+  setEditorSearchScope,
+  type SearchRange,
+} from "../utils/editorSearch";
+import type { WikiLinkParts } from "../utils/markdown";
+import { parseFrontMatter } from "../../utils/front-matter";
+import { PropertiesPanel } from "./PropertiesPanel";
+import { WikiLinkSuggestions } from "./WikiLinkSuggestions";
+import { CitationSuggestions } from "./CitationSuggestions";
+import { ChevronRightIcon } from "./Icons";
 
 // Import languages for syntax highlighting
 import javascript from "highlight.js/lib/languages/javascript";
@@ -76,13 +111,72 @@ interface EditorProps {
   onUpdate?: (isModified: boolean) => void;
   onCursorChange?: (line: number, column: number) => void;
   editable?: boolean;
+  /** Identifies the document shown (e.g. the tab id); viewState is applied when it changes */
+  documentKey?: string;
+  /** Selection and scroll position to restore for the document */
+  viewState?: EditorViewState;
+  onViewStateChange?: (viewState: EditorViewState) => void;
+  /** Notes offered while typing a [[wiki-link]]; no autocomplete without it */
+  getWikiLinkNotes?: () => Promise<WikiNote[]>;
+  onOpenWikiLink?: (link: WikiLinkParts) => void;
+  /** Sources [@citations] are shown from and picked from; null when there is none */
+  bibliography?: Bibliography | null;
+  citationStyle?: CitationStyle;
+  /** Saves a mermaid or dot diagram drawn in the document as SVG */
+  onExportDiagram?: (svg: string, language: string) => void;
+  /** Whether this is the active pane; only the active pane answers Ctrl+F and Escape */
+  isActive?: boolean;
+}
+
+/**
+ * SearchOptionButton - Toggle for a search bar option (match case, regex...)
+ */
+function SearchOptionButton({
+  isActive,
+  onClick,
+  title,
+  children,
+}: {
+  isActive: boolean;
+  onClick: () => void;
+  title: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      title={title}
+      className={`px-2 py-1 rounded text-xs font-mono transition-colors ${
+        isActive
+          ? "text-white bg-[var(--accent-primary)]"
+          : "text-[var(--text-secondary)] hover:bg-[var(--bg-hover)] hover:text-[var(--text-primary)]"
+      }`}
+    >
+      {children}
+    </button>
+  );
 }
 
 /**
  * Advanced Editor component using TipTap with extensive features
  */
 export const Editor = forwardRef<any, EditorProps>(function Editor(
-  { content, onChange, onUpdate, onCursorChange, editable = true },
+  {
+    content,
+    onChange,
+    onUpdate,
+    onCursorChange,
+    editable = true,
+    documentKey,
+    viewState,
+    onViewStateChange,
+    getWikiLinkNotes,
+    onOpenWikiLink,
+    bibliography = null,
+    citationStyle = DEFAULT_CITATION_STYLE,
+    onExportDiagram,
+    isActive = true,
+  },
   ref
 ) {
   const [linkUrl, setLinkUrl] = useState("");
@@ -94,27 +188,44 @@ export const Editor = forwardRef<any, EditorProps>(function Editor(
   const editorContentRef = useRef<HTMLDivElement>(null);
   const lineNumbersRef = useRef<HTMLDivElement>(null);
 
-  // Search state
+  // Search state; matches are found and highlighted by the EditorSearch extension
   const [isSearchOpen, setIsSearchOpen] = useState(false);
   const [searchTerm, setSearchTerm] = useState("");
-  const [searchMatches, setSearchMatches] = useState<
-    Array<{ start: number; end: number }>
-  >([]);
+  const [searchMatches, setSearchMatches] = useState<SearchRange[]>([]);
   const [currentMatchIndex, setCurrentMatchIndex] = useState(-1);
   const [caseSensitive, setCaseSensitive] = useState(false);
+  const [wholeWord, setWholeWord] = useState(false);
+  const [isRegex, setIsRegex] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const [isFindInSelection, setIsFindInSelection] = useState(false);
+  const [isReplaceOpen, setIsReplaceOpen] = useState(false);
+  const [replaceText, setReplaceText] = useState("");
+  const [preserveCase, setPreserveCase] = useState(false);
   const searchInputRef = useRef<HTMLInputElement>(null);
+  // Selection when the search bar was opened, for find in selection
+  const searchSelectionRef = useRef<SearchRange | null>(null);
+
+  // Latest handler, for the wiki-link extension configured once below
+  const onOpenWikiLinkRef = useRef(onOpenWikiLink);
+  onOpenWikiLinkRef.current = onOpenWikiLink;
+  const onExportDiagramRef = useRef(onExportDiagram);
+  onExportDiagramRef.current = onExportDiagram;
+
+  // Bibliography and style citations are drawn with, shared with their node views
+  const [citationContext] = useState(() => new CitationContext());
 
   const editor = useEditor({
     extensions: [
       StarterKit.configure({
-        codeBlock: false, // We'll use CodeBlockLowlight instead
+        codeBlock: false, // We'll use DiagramCodeBlock (CodeBlockLowlight) instead
         heading: {
           levels: [1, 2, 3, 4, 5, 6],
         },
       }),
-      CodeBlockLowlight.configure({
+      DiagramCodeBlock.configure({
         lowlight,
         defaultLanguage: "plaintext",
+        onExport: (svg, language) => onExportDiagramRef.current?.(svg, language),
       }),
       Table.configure({
         resizable: true,
@@ -125,7 +236,7 @@ export const Editor = forwardRef<any, EditorProps>(function Editor(
       TableRow,
       TableHeader,
       TableCell,
-      Link.configure({
+      MarkdownLink.configure({
         openOnClick: false,
         HTMLAttributes: {
           class: "editor-link",
@@ -172,6 +283,16 @@ export const Editor = forwardRef<any, EditorProps>(function Editor(
         width: 2,
       }),
       Gapcursor,
+      MarkdownSource,
+      RawMarkdownBlock,
+      RawMarkdownInline,
+      WikiLink.configure({
+        onOpen: (link) => onOpenWikiLinkRef.current?.(link),
+      }),
+      Citation.configure({ context: citationContext }),
+      MathInline,
+      MathBlock,
+      EditorSearch,
     ],
     content: content || "",
     editable,
@@ -336,11 +457,33 @@ export const Editor = forwardRef<any, EditorProps>(function Editor(
     };
   }, [editor, onCursorChange]);
 
+  // Document whose content was last put into the editor
+  const documentKeyRef = useRef(documentKey);
+  documentKeyRef.current = documentKey;
+  const syncedDocumentKey = useRef<string | undefined>(undefined);
+
   useEffect(() => {
     if (editor) {
       const currentContent = editor.getHTML();
       // Only update if content actually changed (avoid infinite loops)
       if (content !== currentContent && content !== undefined) {
+        // Same document edited elsewhere (e.g. in another pane): keep this
+        // pane's selection and scroll position instead of jumping to the end
+        const isSameDocument = syncedDocumentKey.current === documentKeyRef.current;
+        const { from, to } = editor.state.selection;
+        const scrollTop = editorContentRef.current?.scrollTop ?? 0;
+        // Loading a file or an edit made in another pane is no edit in this
+        // one, so it is kept out of this pane's undo history
+        const setContent = (value: string) =>
+          editor
+            .chain()
+            .command(({ tr }) => {
+              tr.setMeta("addToHistory", false);
+              return true;
+            })
+            .setContent(value, { emitUpdate: false })
+            .run();
+
         // If content is markdown (doesn't start with <), parse it
         if (
           content &&
@@ -348,55 +491,138 @@ export const Editor = forwardRef<any, EditorProps>(function Editor(
           content.trim().length > 0
         ) {
           // TipTap can parse markdown directly
-          editor.commands.setContent(content);
+          setContent(content);
         } else {
-          editor.commands.setContent(content || "");
+          setContent(content || "");
+        }
+
+        if (isSameDocument) {
+          const docSize = editor.state.doc.content.size;
+          editor.commands.setTextSelection({
+            from: Math.min(from, docSize),
+            to: Math.min(to, docSize),
+          });
+          if (editorContentRef.current) {
+            editorContentRef.current.scrollTop = scrollTop;
+          }
         }
       }
+      syncedDocumentKey.current = documentKeyRef.current;
     }
   }, [content, editor]);
 
+  // Latest view state props, read when the document changes rather than on every render
+  const viewStateRef = useRef(viewState);
+  viewStateRef.current = viewState;
+  const onViewStateChangeRef = useRef(onViewStateChange);
+  onViewStateChangeRef.current = onViewStateChange;
+
+  // Report selection and scroll changes so the parent can keep them per document
   useEffect(() => {
+    if (!editor) return;
+    const scrollElement = editorContentRef.current;
+
+    const report = () => {
+      const { from, to } = editor.state.selection;
+      onViewStateChangeRef.current?.({
+        selection: { from, to },
+        scrollTop: scrollElement?.scrollTop ?? 0,
+      });
+    };
+
+    editor.on("selectionUpdate", report);
+    scrollElement?.addEventListener("scroll", report, { passive: true });
     return () => {
-      editor?.destroy();
+      editor.off("selectionUpdate", report);
+      scrollElement?.removeEventListener("scroll", report);
     };
   }, [editor]);
 
-  // Re-apply highlights when editor content updates (if search is active)
+  // Put back the selection and scroll position of a newly shown document.
+  // Runs after the content effect above, so the positions refer to the new content.
   useEffect(() => {
-    if (
-      !editor ||
-      !isSearchOpen ||
-      !searchTerm.trim() ||
-      searchMatches.length === 0
-    ) {
-      return;
+    const saved = viewStateRef.current;
+    if (!editor || !saved) return;
+
+    const docSize = editor.state.doc.content.size;
+    const clamp = (pos: number) => Math.max(0, Math.min(pos, docSize));
+    try {
+      editor.commands.setTextSelection({
+        from: clamp(saved.selection.from),
+        to: clamp(saved.selection.to),
+      });
+    } catch (error) {
+      console.warn("Could not restore selection:", error);
     }
+    if (editorContentRef.current) {
+      editorContentRef.current.scrollTop = saved.scrollTop;
+    }
+  }, [editor, documentKey]);
 
-    const handleUpdate = () => {
-      // Re-apply highlights after a short delay to let ProseMirror finish updating
-      setTimeout(() => {
-        if (
-          currentMatchIndex >= 0 &&
-          currentMatchIndex < searchMatches.length
-        ) {
-          highlightAllMatches(searchMatches, currentMatchIndex);
-        }
-      }, 50);
+  // Draw citations from the workspace's bibliography, in its style
+  useEffect(() => {
+    if (!editor) return;
+    citationContext.setBibliography(
+      bibliography?.entries ?? null,
+      citationStyle,
+      editor.state.doc
+    );
+  }, [editor, citationContext, bibliography, citationStyle]);
+
+  // YAML front matter, shown in the properties panel instead of as source
+  const [frontMatter, setFrontMatter] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!editor) return;
+
+    const readFrontMatter = () => {
+      const source = getFrontMatterSource(editor.state.doc);
+      setFrontMatter(source !== null && parseFrontMatter(source) ? source : null);
+    };
+
+    // Transactions also cover content replaced without an update event
+    editor.on("transaction", readFrontMatter);
+    readFrontMatter();
+    return () => {
+      editor.off("transaction", readFrontMatter);
     };
+  }, [editor]);
 
-    editor.on("update", handleUpdate);
+  useEffect(() => {
     return () => {
-      editor.off("update", handleUpdate);
+      editor?.destroy();
     };
-  }, [editor, isSearchOpen, searchTerm, searchMatches, currentMatchIndex]);
+  }, [editor]);
+
+  // Follow the matches as the document changes
+  useEffect(() => {
+    if (!editor) return;
+
+    const update = () => {
+      const { matches, current } = getEditorSearch(editor);
+      setSearchMatches(matches);
+      setCurrentMatchIndex(current);
+    };
+
+    editor.on("transaction", update);
+    return () => {
+      editor.off("transaction", update);
+    };
+  }, [editor]);
 
   // Handle Cmd+F / Ctrl+F keyboard shortcut
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      // Not in other panes, nor while hidden behind the markdown source view
+      if (!isActive || editorContentRef.current?.offsetParent === null) return;
+
       // Cmd+F on Mac, Ctrl+F on Windows/Linux
       if ((e.metaKey || e.ctrlKey) && e.key === "f") {
         e.preventDefault();
+        if (editor) {
+          const { from, to } = editor.state.selection;
+          searchSelectionRef.current = { from, to };
+        }
         setIsSearchOpen(true);
         // Focus search input after a brief delay to ensure it's rendered
         setTimeout(() => {
@@ -409,9 +635,7 @@ export const Editor = forwardRef<any, EditorProps>(function Editor(
       if (e.key === "Escape" && isSearchOpen) {
         setIsSearchOpen(false);
         setSearchTerm("");
-        setSearchMatches([]);
-        setCurrentMatchIndex(-1);
-        clearSearchHighlights();
+        setIsFindInSelection(false);
         editor?.commands.focus();
       }
     };
@@ -420,202 +644,74 @@ export const Editor = forwardRef<any, EditorProps>(function Editor(
     return () => {
       window.removeEventListener("keydown", handleKeyDown);
     };
-  }, [editor, isSearchOpen]);
+  }, [editor, isSearchOpen, isActive]);
 
-  // Perform search when search term changes and highlight matches
+  // Search again when the query or its options change; closing the bar clears the search
   useEffect(() => {
-    if (!editor || !searchTerm.trim()) {
-      setSearchMatches([]);
-      setCurrentMatchIndex(-1);
-      clearSearchHighlights();
+    if (!editor) return;
+    if (!isSearchOpen || !searchTerm) {
+      setSearchError(null);
+      setEditorSearch(editor, null);
       return;
     }
 
-    const text = editor.getText();
-    const flags = caseSensitive ? "g" : "gi";
-    const escapedTerm = searchTerm.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-    const regex = new RegExp(escapedTerm, flags);
-    const matches: Array<{ start: number; end: number }> = [];
-    let match;
-
-    // Find all matches
-    while ((match = regex.exec(text)) !== null) {
-      matches.push({
-        start: match.index,
-        end: match.index + match[0].length,
-      });
-    }
-
-    setSearchMatches(matches);
-
-    // Highlight all matches
-    if (matches.length > 0) {
-      setCurrentMatchIndex(0);
-      highlightAllMatches(matches, 0);
-      scrollToMatch(matches[0].start, matches[0].end);
-    } else {
-      setCurrentMatchIndex(-1);
-      clearSearchHighlights();
+    try {
+      setEditorSearch(editor, createSearchRegex(searchTerm, { isRegex, caseSensitive, wholeWord }));
+      setSearchError(null);
+      revealCurrentMatch(editor);
+    } catch (error) {
+      setSearchError(error instanceof Error ? error.message : String(error));
+      setEditorSearch(editor, null);
     }
-  }, [editor, searchTerm, caseSensitive]);
-
-  // Clear all search highlights using TipTap's API
-  const clearSearchHighlights = () => {
-    if (!editor) return;
+  }, [editor, isSearchOpen, searchTerm, caseSensitive, wholeWord, isRegex]);
 
-    // Remove all highlight marks from the entire document
-    const { state } = editor.view;
-    const { tr } = state;
-    const highlightType = state.schema.marks.highlight;
-
-    // Remove all highlight marks
-    state.doc.descendants((node, pos) => {
-      if (node.isText && node.marks) {
-        node.marks.forEach((mark) => {
-          if (mark.type === highlightType) {
-            // Check if it's a search highlight (yellow or orange)
-            const color = mark.attrs?.color;
-            if (color === "#ffff00" || color === "#ffa500") {
-              tr.removeMark(pos, pos + node.nodeSize, highlightType);
-            }
-          }
-        });
-      }
-    });
-
-    editor.view.dispatch(tr);
+  const closeSearch = () => {
+    setIsSearchOpen(false);
+    setSearchTerm("");
+    setIsFindInSelection(false);
+    editor?.commands.focus();
   };
 
-  // Convert text position to ProseMirror document position
-  const textPosToDocPos = (textPos: number): number => {
-    if (!editor) return 1;
-
-    const { state } = editor.view;
-    let docPos = 1; // Start after the document start
-
-    // Walk through the document and count text positions
-    let textOffset = 0;
-    state.doc.descendants((node, pos) => {
-      if (node.isText && textOffset <= textPos) {
-        const nodeText = node.text || "";
-        if (textOffset + nodeText.length >= textPos) {
-          // Found the node containing this position
-          const offsetInNode = textPos - textOffset;
-          docPos = pos + offsetInNode + 1; // +1 for the node start
-          return false; // Stop iteration
-        }
-        textOffset += nodeText.length;
-      }
-      return true;
-    });
-
-    return docPos;
-  };
-
-  // Highlight all matches using TipTap's Highlight extension
-  const highlightAllMatches = (
-    matches: Array<{ start: number; end: number }>,
-    currentIndex: number
-  ) => {
-    if (!editor || matches.length === 0) return;
-
-    // Clear existing highlights first
-    clearSearchHighlights();
-
-    // Use TipTap's transaction system
-    const { state } = editor.view;
-    const { tr } = state;
-    const highlightType = state.schema.marks.highlight;
-
-    // Process matches in reverse order to avoid position shifting
-    for (let i = matches.length - 1; i >= 0; i--) {
-      const match = matches[i];
-      const isCurrent = i === currentIndex;
-      const color = isCurrent ? "#ffa500" : "#ffff00"; // Orange for current, yellow for others
-
-      try {
-        // Convert text positions to document positions
-        const docStart = textPosToDocPos(match.start);
-        const docEnd = textPosToDocPos(match.end);
-
-        if (docStart < docEnd && docStart > 0) {
-          // Create highlight mark
-          const mark = highlightType.create({ color });
-
-          // Add mark to the transaction
-          tr.addMark(docStart, docEnd, mark);
-        }
-      } catch (error) {
-        console.warn(`Error highlighting match ${i}:`, error);
-      }
+  // Limit the search to the text selected when the bar was opened (or now)
+  const toggleFindInSelection = () => {
+    if (!editor) return;
+    if (isFindInSelection) {
+      setEditorSearchScope(editor, null);
+      setIsFindInSelection(false);
+      return;
     }
 
-    // Dispatch the transaction if there are changes
-    if (tr.steps.length > 0) {
-      editor.view.dispatch(tr);
-      console.log(
-        `✅ Highlighted ${matches.length} matches (current: ${
-          currentIndex + 1
-        })`
-      );
-    }
-  };
-
-  // Scroll to a specific match position and highlight it
-  const scrollToMatch = (from: number, to: number) => {
-    if (!editor) return;
-
-    const { state } = editor.view;
-    const docSize = state.doc.content.size;
-    const safeFrom = Math.min(Math.max(0, from), docSize);
-    const safeTo = Math.min(Math.max(safeFrom, to), docSize);
-
-    // Set selection to highlight the match (this will visually highlight it)
-    editor.commands.setTextSelection({ from: safeFrom, to: safeTo });
-
-    // Scroll into view
-    setTimeout(() => {
-      try {
-        const domPos = editor.view.domAtPos(safeFrom);
-        if (domPos.node) {
-          const element =
-            domPos.node instanceof HTMLElement
-              ? domPos.node
-              : domPos.node.parentElement;
-          if (element) {
-            element.scrollIntoView({ behavior: "smooth", block: "center" });
-          }
-        }
-      } catch (error) {
-        // Fallback: scroll the editor container
-        const editorElement = editorContentRef.current;
-        if (editorElement) {
-          editorElement.scrollTop =
-            editorElement.scrollHeight * (safeFrom / docSize);
-        }
-      }
-    }, 50);
+    const size = editor.state.doc.content.size;
+    const opened = searchSelectionRef.current;
+    const { from, to } =
+      opened && opened.to > opened.from ? opened : editor.state.selection;
+    if (to <= from) return;
+    setEditorSearchScope(editor, { from: Math.min(from, size), to: Math.min(to, size) });
+    setIsFindInSelection(true);
   };
 
   // Navigate to next match
   const goToNextMatch = () => {
-    if (searchMatches.length === 0) return;
-    const nextIndex = (currentMatchIndex + 1) % searchMatches.length;
-    setCurrentMatchIndex(nextIndex);
-    highlightAllMatches(searchMatches, nextIndex);
-    const match = searchMatches[nextIndex];
-    scrollToMatch(match.start, match.end);
+    if (!editor || searchMatches.length === 0) return;
+    selectSearchMatch(editor, currentMatchIndex + 1);
   };
 
   // Navigate to previous match
   const goToPreviousMatch = () => {
-    if (searchMatches.length === 0) return;
-    const prevIndex =
-      currentMatchIndex <= 0 ? searchMatches.length - 1 : currentMatchIndex - 1;
-    setCurrentMatchIndex(prevIndex);
-    highlightAllMatches(searchMatches, prevIndex);
-    const match = searchMatches[prevIndex];
-    scrollToMatch(match.start, match.end);
+    if (!editor || searchMatches.length === 0) return;
+    selectSearchMatch(editor, currentMatchIndex - 1);
+  };
+
+  // Replace the current match and go to the next one
+  const handleReplace = () => {
+    if (!editor) return;
+    replaceSearchMatch(editor, replaceText, { isRegex, preserveCase });
+  };
+
+  // Replace every match as one undoable change
+  const handleReplaceAll = () => {
+    if (!editor) return;
+    replaceAllSearchMatches(editor, replaceText, { isRegex, preserveCase });
   };
 
   if (!editor) {
@@ -1281,28 +1377,18 @@ export const Editor = forwardRef<any, EditorProps>(function Editor(
       {isSearchOpen && (
         <div className="absolute top-0 right-0 z-50 bg-[var(--bg-secondary)] border-b border-l border-[var(--border-primary)] rounded-bl-lg shadow-xl">
           <div className="flex gap-2 items-center px-3 py-2">
-            <svg
-              width="16"
-              height="16"
-              viewBox="0 0 16 16"
-              fill="none"
-              className="w-4 h-4 text-[var(--text-secondary)] flex-shrink-0"
+            <button
+              onClick={() => setIsReplaceOpen(!isReplaceOpen)}
+              className="w-5 h-6 flex items-center justify-center hover:bg-[var(--bg-hover)] rounded transition-colors flex-shrink-0"
+              aria-label="Toggle replace"
+              title="Toggle Replace"
             >
-              <path
-                d="M7 12C9.76142 12 12 9.76142 12 7C12 4.23858 9.76142 2 7 2C4.23858 2 2 4.23858 2 7C2 9.76142 4.23858 12 7 12Z"
-                stroke="currentColor"
-                strokeWidth="1.5"
-                strokeLinecap="round"
-                strokeLinejoin="round"
-              />
-              <path
-                d="M10 10L14 14"
-                stroke="currentColor"
-                strokeWidth="1.5"
-                strokeLinecap="round"
-                strokeLinejoin="round"
+              <ChevronRightIcon
+                className={`w-3 h-3 text-[var(--text-secondary)] transition-transform duration-150 ${
+                  isReplaceOpen ? "rotate-90" : ""
+                }`}
               />
-            </svg>
+            </button>
             <input
               ref={searchInputRef}
               type="text"
@@ -1316,29 +1402,60 @@ export const Editor = forwardRef<any, EditorProps>(function Editor(
                   e.preventDefault();
                   goToPreviousMatch();
                 } else if (e.key === "Escape") {
-                  setIsSearchOpen(false);
-                  setSearchTerm("");
-                  setSearchMatches([]);
-                  setCurrentMatchIndex(-1);
-                  editor?.commands.focus();
+                  closeSearch();
                 }
               }}
               placeholder="Search..."
-              className="w-64 px-2 py-1.5 bg-[var(--bg-primary)] border border-[var(--border-primary)] rounded text-sm text-[var(--text-primary)] focus:outline-none focus:ring-2 focus:ring-[var(--accent-primary)]"
+              title={searchError ?? undefined}
+              className={`w-64 px-2 py-1.5 bg-[var(--bg-primary)] border rounded text-sm text-[var(--text-primary)] focus:outline-none focus:ring-2 ${
+                searchError
+                  ? "border-red-500 focus:ring-red-500"
+                  : "border-[var(--border-primary)] focus:ring-[var(--accent-primary)]"
+              }`}
               autoFocus
             />
             <div className="flex gap-1 items-center">
-              <button
+              <SearchOptionButton
+                isActive={caseSensitive}
                 onClick={() => setCaseSensitive(!caseSensitive)}
-                className={`px-2 py-1 rounded text-xs transition-colors ${
-                  caseSensitive
-                    ? "text-white bg-[var(--accent-primary)]"
-                    : "text-[var(--text-secondary)] hover:bg-[var(--bg-hover)] hover:text-[var(--text-primary)]"
-                }`}
-                title="Case sensitive"
+                title="Match case"
               >
                 Aa
-              </button>
+              </SearchOptionButton>
+              <SearchOptionButton
+                isActive={wholeWord}
+                onClick={() => setWholeWord(!wholeWord)}
+                title="Match whole word"
+              >
+                ab
+              </SearchOptionButton>
+              <SearchOptionButton
+                isActive={isRegex}
+                onClick={() => setIsRegex(!isRegex)}
+                title="Use regular expression"
+              >
+                .*
+              </SearchOptionButton>
+              <SearchOptionButton
+                isActive={isFindInSelection}
+                onClick={toggleFindInSelection}
+                title="Find in selection"
+              >
+                <svg
+                  width="16"
+                  height="16"
+                  viewBox="0 0 16 16"
+                  fill="none"
+                  className="w-4 h-4"
+                >
+                  <path
+                    d="M2 4H14M2 8H10M2 12H12"
+                    stroke="currentColor"
+                    strokeWidth="1.5"
+                    strokeLinecap="round"
+                  />
+                </svg>
+              </SearchOptionButton>
               <button
                 onClick={goToPreviousMatch}
                 disabled={searchMatches.length === 0}
@@ -1383,20 +1500,26 @@ export const Editor = forwardRef<any, EditorProps>(function Editor(
                   />
                 </svg>
               </button>
-              {searchMatches.length > 0 && (
+              {searchError ? (
+                <span
+                  className="px-2 py-1 text-xs text-red-500 whitespace-nowrap"
+                  title={searchError}
+                >
+                  Invalid pattern
+                </span>
+              ) : searchMatches.length > 0 ? (
                 <span className="px-2 py-1 text-xs text-[var(--text-secondary)] whitespace-nowrap">
                   {currentMatchIndex + 1} / {searchMatches.length}
                 </span>
+              ) : (
+                searchTerm && (
+                  <span className="px-2 py-1 text-xs text-[var(--text-tertiary)] whitespace-nowrap">
+                    No results
+                  </span>
+                )
               )}
               <button
-                onClick={() => {
-                  setIsSearchOpen(false);
-                  setSearchTerm("");
-                  setSearchMatches([]);
-                  setCurrentMatchIndex(-1);
-                  clearSearchHighlights();
-                  editor?.commands.focus();
-                }}
+                onClick={closeSearch}
                 className="px-2 py-1 rounded text-[var(--text-secondary)] hover:bg-[var(--bg-hover)] hover:text-[var(--text-primary)] transition-colors"
                 title="Close (Esc)"
               >
@@ -1418,9 +1541,67 @@ export const Editor = forwardRef<any, EditorProps>(function Editor(
               </button>
             </div>
           </div>
+          {isReplaceOpen && (
+            <div className="flex gap-2 items-center px-3 pb-2 pl-10">
+              <input
+                type="text"
+                value={replaceText}
+                onChange={(e) => setReplaceText(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+                    e.preventDefault();
+                    handleReplaceAll();
+                  } else if (e.key === "Enter") {
+                    e.preventDefault();
+                    handleReplace();
+                  } else if (e.key === "Escape") {
+                    closeSearch();
+                  }
+                }}
+                placeholder={isRegex ? "Replace ($1 for groups)" : "Replace"}
+                className="w-64 px-2 py-1.5 bg-[var(--bg-primary)] border border-[var(--border-primary)] rounded text-sm text-[var(--text-primary)] focus:outline-none focus:ring-2 focus:ring-[var(--accent-primary)]"
+              />
+              <div className="flex gap-1 items-center">
+                <SearchOptionButton
+                  isActive={preserveCase}
+                  onClick={() => setPreserveCase(!preserveCase)}
+                  title="Preserve case"
+                >
+                  AB
+                </SearchOptionButton>
+                <button
+                  onClick={handleReplace}
+                  disabled={!editable || searchMatches.length === 0}
+                  className="px-2 py-1 rounded text-xs text-[var(--text-secondary)] hover:bg-[var(--bg-hover)] hover:text-[var(--text-primary)] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  title="Replace (Enter)"
+                >
+                  Replace
+                </button>
+                <button
+                  onClick={handleReplaceAll}
+                  disabled={!editable || searchMatches.length === 0}
+                  className="px-2 py-1 rounded text-xs text-white bg-[var(--accent-primary)] hover:bg-[var(--accent-hover)] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  title={`Replace all ${searchMatches.length} match${
+                    searchMatches.length === 1 ? "" : "es"
+                  } (⌘Enter)`}
+                >
+                  All
+                </button>
+              </div>
+            </div>
+          )}
         </div>
       )}
 
+      {/* Front Matter Properties */}
+      {frontMatter !== null && (
+        <PropertiesPanel
+          source={frontMatter}
+          onChange={(source) => setFrontMatterSource(editor, source)}
+          editable={editable}
+        />
+      )}
+
       {/* Editor Content with Line Numbers */}
       <div className="flex overflow-hidden flex-1">
         {/* Line Numbers Gutter */}
@@ -1465,7 +1646,9 @@ export const Editor = forwardRef<any, EditorProps>(function Editor(
         {/* Editor Content Area */}
         <div
           ref={editorContentRef}
-          className="overflow-x-auto overflow-y-auto relative flex-1"
+          className={`overflow-x-auto overflow-y-auto relative flex-1 ${
+            frontMatter !== null ? "editor-front-matter-panel" : ""
+          }`}
           onScroll={(e) => {
             // Sync line numbers scroll with editor scroll
             const lineNumbersContent = lineNumbersRef.current?.querySelector(
@@ -1477,6 +1660,12 @@ export const Editor = forwardRef<any, EditorProps>(function Editor(
           }}
         >
           <EditorContent editor={editor} />
+          {getWikiLinkNotes && (
+            <WikiLinkSuggestions editor={editor} getNotes={getWikiLinkNotes} />
+          )}
+          {bibliography && (
+            <CitationSuggestions editor={editor} entries={bibliography.entries} />
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,117 @@
+import { useState, useEffect } from "react";
+import { DiffViewer } from "./DiffViewer";
+
+interface FileConflictDialogProps {
+  isOpen: boolean;
+  fileName: string;
+  title?: string;
+  message?: string;
+  /** Content of the editor buffer, in the file's on-disk format */
+  localContent: string;
+  /** Content currently on disk */
+  diskContent: string;
+  keepLabel?: string;
+  loadLabel?: string;
+  onKeepMine: () => void;
+  onLoadDisk: () => void;
+}
+
+/**
+ * FileConflictDialog - Shown when a file with unsaved edits changed on disk.
+ * Lets the user keep the buffer, load the disk copy, or compare both first.
+ */
+export function FileConflictDialog({
+  isOpen,
+  fileName,
+  title = "File changed on disk",
+  message,
+  localContent,
+  diskContent,
+  keepLabel = "Keep Mine",
+  loadLabel = "Load from Disk",
+  onKeepMine,
+  onLoadDisk,
+}: FileConflictDialogProps) {
+  const [showDiff, setShowDiff] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setShowDiff(false);
+    }
+  }, [isOpen, fileName]);
+
+  if (!isOpen) return null;
+
+  return (
+    <>
+      {/* Overlay */}
+      <div className="fixed inset-0 z-50 backdrop-blur-sm bg-black/50 fade-in" />
+
+      {/* Dialog */}
+      <div
+        className={`fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 ${
+          showDiff ? "w-[900px]" : "w-[440px]"
+        } max-w-[90vw] bg-[var(--bg-secondary)] border border-[var(--border-primary)] rounded-lg shadow-2xl z-50 overflow-hidden scale-in`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="px-4 py-3 border-b border-[var(--border-primary)]">
+          <h3 className="text-sm font-semibold text-[var(--text-primary)]">
+            {title}
+          </h3>
+        </div>
+
+        {/* Content */}
+        <div className="p-4">
+          <p className="text-sm text-[var(--text-secondary)]">
+            {message ?? (
+              <>
+                <span className="font-medium text-[var(--text-primary)]">
+                  {fileName}
+                </span>{" "}
+                was modified outside Intellirite while you have unsaved
+                changes.
+              </>
+            )}
+          </p>
+
+          {showDiff && (
+            <div className="mt-4">
+              <DiffViewer
+                originalContent={localContent}
+                modifiedContent={diskContent}
+                fileName={fileName}
+                showActions={false}
+              />
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="flex gap-2 justify-end items-center mt-4">
+            <button
+              type="button"
+              onClick={() => setShowDiff(!showDiff)}
+              className="px-4 py-2 text-sm text-[var(--text-secondary)] hover:text-[var(--text-primary)] transition-colors mr-auto"
+            >
+              {showDiff ? "Hide Diff" : "Compare"}
+            </button>
+            <button
+              type="button"
+              onClick={onKeepMine}
+              className="px-4 py-2 text-sm text-[var(--text-primary)] border border-[var(--border-primary)] hover:bg-[var(--bg-hover)] rounded transition-colors"
+            >
+              {keepLabel}
+            </button>
+            <button
+              type="button"
+              onClick={onLoadDisk}
+              className="px-4 py-2 bg-[var(--accent-primary)] hover:bg-[var(--accent-hover)] text-white rounded text-sm font-medium transition-colors"
+            >
+              {loadLabel}
+            </button>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,240 @@
+import { useState, useEffect, useCallback } from "react";
+import { ChevronRightIcon } from "./Icons";
+import { DiffViewer } from "./DiffViewer";
+import { getErrorMessage, unwrapFsResult } from "../utils/fsResult";
+import type { HistoryEntry } from "../../shared/types";
+
+interface HistoryPanelProps {
+  /** File whose timeline is shown; the active tab's file */
+  filePath?: string;
+  fileName?: string;
+  /** Changes whenever a file is saved, so new snapshots show up */
+  refreshKey?: unknown;
+  /** The editor buffer, in the file's on-disk format */
+  getCurrentContent: () => string;
+  onRestore: (entry: HistoryEntry) => Promise<void>;
+  onClose: () => void;
+}
+
+/**
+ * Format a snapshot time: relative for the last day, date and time before that
+ */
+function formatSnapshotTime(timestamp: number): string {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  return new Date(timestamp).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
+/**
+ * HistoryPanel - Timeline of a file's local history, with a diff of each
+ * snapshot against the editor and restore
+ */
+export function HistoryPanel({
+  filePath,
+  fileName,
+  refreshKey,
+  getCurrentContent,
+  onRestore,
+  onClose,
+}: HistoryPanelProps) {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  // Snapshot being compared with the editor
+  const [comparison, setComparison] = useState<{
+    entry: HistoryEntry;
+    snapshot: string;
+    current: string;
+  } | null>(null);
+
+  const loadEntries = useCallback(async () => {
+    if (!filePath) {
+      setEntries([]);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const result = unwrapFsResult(await window.localHistory.list(filePath));
+      setEntries(result.entries);
+      setError(null);
+    } catch (err) {
+      console.error("Error loading local history:", err);
+      setError(getErrorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filePath]);
+
+  useEffect(() => {
+    void loadEntries();
+  }, [loadEntries, refreshKey]);
+
+  const handleCompare = async (entry: HistoryEntry) => {
+    if (!filePath) return;
+    try {
+      const result = unwrapFsResult(
+        await window.localHistory.read(filePath, entry.id)
+      );
+      setComparison({
+        entry,
+        snapshot: result.content,
+        current: getCurrentContent(),
+      });
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  const handleRestore = async (entry: HistoryEntry) => {
+    setRestoringId(entry.id);
+    setError(null);
+    try {
+      await onRestore(entry);
+      setComparison(null);
+      await loadEntries();
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <div className="w-72 bg-[var(--bg-secondary)] border-r border-[var(--border-primary)] flex flex-col h-full">
+      {/* Header */}
+      <div className="h-10 flex items-center justify-between px-3 border-b border-[var(--border-primary)] shrink-0">
+        <span className="text-sm font-medium text-[var(--text-primary)] truncate">
+          Timeline{fileName ? `: ${fileName}` : ""}
+        </span>
+        <button
+          onClick={onClose}
+          className="w-6 h-6 flex items-center justify-center hover:bg-[var(--bg-hover)] rounded transition-colors shrink-0"
+          aria-label="Close timeline"
+          title="Back to Explorer"
+        >
+          <ChevronRightIcon className="w-3 h-3 text-[var(--text-secondary)] rotate-180" />
+        </button>
+      </div>
+
+      {error && <p className="px-3 pt-2 text-xs text-red-500">{error}</p>}
+
+      {/* Snapshots, newest first */}
+      <div className="overflow-y-auto flex-1 py-1">
+        {!filePath ? (
+          <p className="px-3 py-6 text-xs text-center text-[var(--text-tertiary)]">
+            Open a file to see its history
+          </p>
+        ) : isLoading && entries.length === 0 ? (
+          <p className="px-3 py-6 text-xs text-center text-[var(--text-tertiary)]">
+            Loading…
+          </p>
+        ) : entries.length === 0 ? (
+          <p className="px-3 py-6 text-xs text-center text-[var(--text-tertiary)]">
+            No saved versions yet
+          </p>
+        ) : (
+          entries.map((entry, index) => {
+            const previous = entries[index + 1];
+            const delta = previous ? entry.wordCount - previous.wordCount : null;
+            return (
+              <div
+                key={entry.id}
+                className="group flex items-center gap-2 px-3 py-1.5 hover:bg-[var(--bg-hover)] cursor-pointer transition-colors"
+                onClick={() => void handleCompare(entry)}
+                title="Compare with the editor"
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="text-xs text-[var(--text-primary)] truncate">
+                    {formatSnapshotTime(entry.timestamp)}
+                  </div>
+                  <div className="text-xs text-[var(--text-tertiary)]">
+                    {entry.wordCount} words
+                    {delta !== null && delta !== 0 && (
+                      <span
+                        className={`ml-1.5 ${
+                          delta > 0 ? "text-green-500" : "text-red-500"
+                        }`}
+                      >
+                        {delta > 0 ? `+${delta}` : delta}
+                      </span>
+                    )}
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    void handleRestore(entry);
+                  }}
+                  disabled={restoringId !== null}
+                  className="px-2 py-0.5 text-xs text-[var(--text-secondary)] border border-[var(--border-primary)] hover:bg-[var(--bg-primary)] hover:text-[var(--text-primary)] rounded opacity-0 group-hover:opacity-100 transition-opacity disabled:opacity-50 shrink-0"
+                >
+                  {restoringId === entry.id ? "Restoring…" : "Restore"}
+                </button>
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      {/* Comparison with the editor */}
+      {comparison && (
+        <>
+          <div
+            className="fixed inset-0 z-50 backdrop-blur-sm bg-black/50 fade-in"
+            onClick={() => setComparison(null)}
+          />
+          <div className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-[900px] max-w-[90vw] max-h-[85vh] flex flex-col bg-[var(--bg-secondary)] border border-[var(--border-primary)] rounded-lg shadow-2xl z-50 overflow-hidden scale-in">
+            <div className="flex justify-between items-center px-4 py-3 border-b border-[var(--border-primary)]">
+              <h3 className="text-sm font-semibold text-[var(--text-primary)]">
+                {fileName} — {formatSnapshotTime(comparison.entry.timestamp)} ↔
+                current
+              </h3>
+              <button
+                type="button"
+                onClick={() => setComparison(null)}
+                className="text-[var(--text-tertiary)] hover:text-[var(--text-primary)] transition-colors"
+                aria-label="Close"
+              >
+                ×
+              </button>
+            </div>
+            <div className="p-4 overflow-y-auto flex-1">
+              <DiffViewer
+                originalContent={comparison.snapshot}
+                modifiedContent={comparison.current}
+                fileName={fileName}
+                showActions={false}
+              />
+            </div>
+            <div className="flex gap-2 justify-end px-4 py-3 border-t border-[var(--border-primary)]">
+              <button
+                type="button"
+                onClick={() => setComparison(null)}
+                className="px-4 py-2 text-sm text-[var(--text-primary)] border border-[var(--border-primary)] hover:bg-[var(--bg-hover)] rounded transition-colors"
+              >
+                Close
+              </button>
+              <button
+                type="button"
+                onClick={() => void handleRestore(comparison.entry)}
+                disabled={restoringId !== null}
+                className="px-4 py-2 bg-[var(--accent-primary)] hover:bg-[var(--accent-hover)] text-white rounded text-sm font-medium transition-colors disabled:opacity-50"
+              >
+                {restoringId ? "Restoring…" : "Restore This Version"}
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
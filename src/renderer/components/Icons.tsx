@@ -255,3 +255,27 @@ export function TrashIcon({ className = "" }: IconProps) {
   );
 }
 
+
+/**
+ * Pin Icon - For keeping items at the top of a list
+ */
+export function PinIcon({ className = "" }: IconProps) {
+  return (
+    <svg
+      className={className}
+      width="14"
+      height="14"
+      viewBox="0 0 14 14"
+      fill="none"
+      aria-hidden="true"
+    >
+      <path
+        d="M5 2H9M5.5 2V6L3.5 8.5H10.5L8.5 6V2M7 8.5V12.5"
+        stroke="currentColor"
+        strokeWidth="1.5"
+        strokeLinecap="round"
+        strokeLinejoin="round"
+      />
+    </svg>
+  );
+}
@@ -0,0 +1,45 @@
+import { useState } from "react";
+
+interface ImagePreviewProps {
+  src: string;
+  fileName: string;
+}
+
+/**
+ * ImagePreview - Read-only view of an image file, shown in place of the editor
+ */
+export function ImagePreview({ src, fileName }: ImagePreviewProps) {
+  const [size, setSize] = useState<{ width: number; height: number } | null>(
+    null
+  );
+  const [fitToWindow, setFitToWindow] = useState(true);
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      <div className="flex-1 overflow-auto flex items-center justify-center p-6">
+        <img
+          src={src}
+          alt={fileName}
+          onLoad={(e) =>
+            setSize({
+              width: e.currentTarget.naturalWidth,
+              height: e.currentTarget.naturalHeight,
+            })
+          }
+          onClick={() => setFitToWindow((fit) => !fit)}
+          className={`${
+            fitToWindow ? "max-w-full max-h-full cursor-zoom-in" : "cursor-zoom-out"
+          } object-contain border border-[var(--border-primary)] bg-[var(--bg-secondary)]`}
+        />
+      </div>
+      <div className="h-8 flex items-center justify-center gap-3 border-t border-[var(--border-primary)] text-xs text-[var(--text-tertiary)] shrink-0">
+        {size && (
+          <span>
+            {size.width} × {size.height}
+          </span>
+        )}
+        <span>Read-only preview</span>
+      </div>
+    </div>
+  );
+}
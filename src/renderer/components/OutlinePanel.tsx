@@ -0,0 +1,222 @@
+import { useEffect, useRef, useState } from "react";
+import type { Editor } from "@tiptap/react";
+import { ChevronRightIcon } from "./Icons";
+import { editorHtmlToFileContent, isMarkdownFile } from "../utils/fileContent";
+import {
+  getActiveHeadingIndex,
+  getOutline,
+  moveSection,
+  type OutlineHeading,
+} from "../utils/outline";
+
+interface OutlinePanelProps {
+  /** The active editor; read after each render so split groups are followed */
+  getEditor: () => Editor | null;
+  /** Changes whenever another document is shown in the active editor */
+  documentKey?: string;
+  /** File of the active tab; outlines are shown for markdown files */
+  filePath?: string;
+  fileName?: string;
+  isSourceMode?: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Outline of the editor's document
+ */
+function readOutline(editor: Editor, filePath: string): OutlineHeading[] {
+  return getOutline(
+    editor.state.doc,
+    editorHtmlToFileContent(filePath, editor.getHTML())
+  );
+}
+
+/**
+ * OutlinePanel - Heading tree of the active document, following the cursor,
+ * with click to jump and drag and drop to reorder whole sections
+ */
+export function OutlinePanel({
+  getEditor,
+  documentKey,
+  filePath,
+  fileName,
+  isSourceMode = false,
+  onClose,
+}: OutlinePanelProps) {
+  const [outline, setOutline] = useState<OutlineHeading[]>([]);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  // Heading being dragged, and the heading it would land in front of
+  // (outline.length for the end of the document)
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const hasOutline = !!filePath && isMarkdownFile(filePath) && !isSourceMode;
+
+  // Follow the document and the cursor
+  useEffect(() => {
+    const editor = getEditor();
+    if (!editor || !filePath || !hasOutline) {
+      setOutline([]);
+      setActiveIndex(-1);
+      return;
+    }
+
+    let current: OutlineHeading[] = [];
+    let refreshTimeout: ReturnType<typeof setTimeout> | undefined;
+    const refresh = () => {
+      current = readOutline(editor, filePath);
+      setOutline(current);
+      setActiveIndex(getActiveHeadingIndex(current, editor.state.selection.from));
+    };
+    // Typing only re-reads the outline once it pauses
+    const handleTransaction = ({ transaction }: { transaction: { docChanged: boolean } }) => {
+      if (transaction.docChanged) {
+        clearTimeout(refreshTimeout);
+        refreshTimeout = setTimeout(refresh, 200);
+      } else {
+        setActiveIndex(getActiveHeadingIndex(current, editor.state.selection.from));
+      }
+    };
+
+    refresh();
+    editor.on("transaction", handleTransaction);
+    return () => {
+      clearTimeout(refreshTimeout);
+      editor.off("transaction", handleTransaction);
+    };
+  }, [getEditor, documentKey, filePath, hasOutline]);
+
+  // Keep the current section's heading in view
+  useEffect(() => {
+    if (activeIndex === -1) return;
+    listRef.current
+      ?.querySelector(`[data-outline-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex]);
+
+  const handleSelect = (heading: OutlineHeading) => {
+    const editor = getEditor();
+    if (!editor || heading.pos >= editor.state.doc.content.size) return;
+    editor.chain().focus().setTextSelection(heading.pos + 1).run();
+    const element = editor.view.nodeDOM(heading.pos);
+    if (element instanceof HTMLElement) {
+      element.scrollIntoView({ block: "start" });
+    }
+  };
+
+  const handleDrop = () => {
+    const editor = getEditor();
+    if (editor && filePath && draggedIndex !== null && dropIndex !== null) {
+      // Work on the current document rather than one read before a pause in typing
+      const latest = readOutline(editor, filePath);
+      if (latest.length === outline.length) {
+        moveSection(editor, latest, draggedIndex, dropIndex);
+      }
+    }
+    setDraggedIndex(null);
+    setDropIndex(null);
+  };
+
+  const minLevel = Math.min(...outline.map((heading) => heading.level));
+
+  return (
+    <div className="w-72 bg-[var(--bg-secondary)] border-r border-[var(--border-primary)] flex flex-col h-full">
+      {/* Header */}
+      <div className="h-10 flex items-center justify-between px-3 border-b border-[var(--border-primary)] shrink-0">
+        <span className="text-sm font-medium text-[var(--text-primary)] truncate">
+          Outline{fileName ? `: ${fileName}` : ""}
+        </span>
+        <button
+          onClick={onClose}
+          className="w-6 h-6 flex items-center justify-center hover:bg-[var(--bg-hover)] rounded transition-colors shrink-0"
+          aria-label="Close outline"
+          title="Back to Explorer"
+        >
+          <ChevronRightIcon className="w-3 h-3 text-[var(--text-secondary)] rotate-180" />
+        </button>
+      </div>
+
+      {/* Headings, in document order */}
+      <div
+        ref={listRef}
+        className="overflow-y-auto flex-1 py-1"
+        onDragOver={(e) => {
+          if (draggedIndex === null) return;
+          e.preventDefault();
+          // Below the last heading: move to the end of the document
+          if (e.target === e.currentTarget) setDropIndex(outline.length);
+        }}
+        onDrop={(e) => {
+          e.preventDefault();
+          handleDrop();
+        }}
+      >
+        {!filePath || !isMarkdownFile(filePath) ? (
+          <p className="px-3 py-6 text-xs text-center text-[var(--text-tertiary)]">
+            Open a markdown file to see its outline
+          </p>
+        ) : isSourceMode ? (
+          <p className="px-3 py-6 text-xs text-center text-[var(--text-tertiary)]">
+            Switch to rich text to use the outline
+          </p>
+        ) : outline.length === 0 ? (
+          <p className="px-3 py-6 text-xs text-center text-[var(--text-tertiary)]">
+            No headings in this document
+          </p>
+        ) : (
+          <>
+            {outline.map((heading, index) => (
+              <div
+                key={`${heading.index}:${heading.text}`}
+                data-outline-index={index}
+                draggable
+                onClick={() => handleSelect(heading)}
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = "move";
+                  e.dataTransfer.setData("text/plain", heading.text);
+                  setDraggedIndex(index);
+                }}
+                onDragOver={(e) => {
+                  if (draggedIndex === null) return;
+                  e.preventDefault();
+                  // Upper half: in front of this heading; lower half: after it
+                  const rect = e.currentTarget.getBoundingClientRect();
+                  setDropIndex(e.clientY < rect.top + rect.height / 2 ? index : index + 1);
+                }}
+                onDragEnd={() => {
+                  setDraggedIndex(null);
+                  setDropIndex(null);
+                }}
+                className={`py-1 pr-3 text-xs truncate cursor-pointer transition-colors border-t-2 ${
+                  dropIndex === index ? "border-[var(--accent-primary)]" : "border-transparent"
+                } ${
+                  index === activeIndex
+                    ? "bg-[var(--bg-hover)] text-[var(--text-primary)] font-medium"
+                    : "text-[var(--text-secondary)] hover:bg-[var(--bg-hover)] hover:text-[var(--text-primary)]"
+                } ${draggedIndex === index ? "opacity-50" : ""}`}
+                style={{ paddingLeft: `${12 + (heading.level - minLevel) * 12}px` }}
+                title={heading.text}
+              >
+                {heading.text}
+              </div>
+            ))}
+            {/* End of the document */}
+            <div
+              className={`h-4 border-t-2 ${
+                dropIndex === outline.length
+                  ? "border-[var(--accent-primary)]"
+                  : "border-transparent"
+              }`}
+              onDragOver={(e) => {
+                if (draggedIndex === null) return;
+                e.preventDefault();
+                setDropIndex(outline.length);
+              }}
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
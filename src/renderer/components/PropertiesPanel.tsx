@@ -0,0 +1,374 @@
+import { useState } from "react";
+import { ChevronRightIcon, PlusIcon, TrashIcon } from "./Icons";
+import {
+  getFrontMatterYaml,
+  parseFrontMatter,
+  removeFrontMatterProperty,
+  renameFrontMatterProperty,
+  setFrontMatterProperty,
+  setFrontMatterYaml,
+  type FrontMatterProperty,
+  type FrontMatterType,
+  type FrontMatterValue,
+} from "../../utils/front-matter";
+
+interface PropertiesPanelProps {
+  /** The document's YAML front matter, fences included */
+  source: string;
+  /** Called with the updated front matter after each edit */
+  onChange: (source: string) => void;
+  editable?: boolean;
+}
+
+const TYPE_LABELS: Record<Exclude<FrontMatterType, "yaml">, string> = {
+  text: "Text",
+  number: "Number",
+  date: "Date",
+  boolean: "Checkbox",
+  list: "List",
+};
+
+/**
+ * Value a new property of a type starts with
+ */
+function getDefaultValue(type: FrontMatterType): FrontMatterValue {
+  switch (type) {
+    case "number":
+      return 0;
+    case "date":
+      return new Date().toISOString().slice(0, 10);
+    case "boolean":
+      return false;
+    case "list":
+      return [];
+    default:
+      return "";
+  }
+}
+
+const inputClassName =
+  "w-full min-w-0 px-1.5 py-0.5 text-sm bg-transparent text-[var(--text-primary)] border border-transparent hover:border-[var(--border-primary)] focus:border-[var(--accent-primary)] rounded outline-none transition-colors";
+
+/**
+ * Commit an input's value on Enter (and undo the edit on Escape)
+ */
+function handleInputKeyDown(
+  e: React.KeyboardEvent<HTMLInputElement>,
+  initialValue: string
+) {
+  if (e.key === "Enter") {
+    e.currentTarget.blur();
+  } else if (e.key === "Escape") {
+    e.currentTarget.value = initialValue;
+    e.currentTarget.blur();
+  }
+}
+
+function ListValue({
+  items,
+  editable,
+  onChange,
+}: {
+  items: string[];
+  editable: boolean;
+  onChange: (items: string[]) => void;
+}) {
+  const addItems = (input: HTMLInputElement) => {
+    const added = input.value
+      .split(",")
+      .map((item) => item.trim())
+      .filter(Boolean);
+    input.value = "";
+    if (added.length > 0) onChange([...items, ...added]);
+  };
+
+  return (
+    <div className="flex flex-wrap gap-1 items-center px-1.5 py-0.5">
+      {items.map((item, index) => (
+        <span
+          key={`${index}:${item}`}
+          className="flex gap-1 items-center px-1.5 py-0.5 text-xs text-[var(--text-primary)] bg-[var(--bg-hover)] rounded"
+        >
+          {item}
+          {editable && (
+            <button
+              type="button"
+              onClick={() => onChange(items.filter((_, i) => i !== index))}
+              className="text-[var(--text-tertiary)] hover:text-[var(--text-primary)]"
+              title={`Remove ${item}`}
+            >
+              ×
+            </button>
+          )}
+        </span>
+      ))}
+      {editable && (
+        <input
+          type="text"
+          placeholder={items.length === 0 ? "Add items…" : ""}
+          className="flex-1 min-w-[80px] text-sm bg-transparent text-[var(--text-primary)] outline-none"
+          onKeyDown={(e) => {
+            if (e.key === "Enter" || e.key === ",") {
+              e.preventDefault();
+              addItems(e.currentTarget);
+            } else if (
+              e.key === "Backspace" &&
+              !e.currentTarget.value &&
+              items.length > 0
+            ) {
+              onChange(items.slice(0, -1));
+            }
+          }}
+          onBlur={(e) => addItems(e.currentTarget)}
+        />
+      )}
+    </div>
+  );
+}
+
+function PropertyValue({
+  property,
+  editable,
+  onChange,
+}: {
+  property: FrontMatterProperty;
+  editable: boolean;
+  onChange: (value: FrontMatterValue) => void;
+}) {
+  const { type, value } = property;
+
+  switch (type) {
+    case "boolean":
+      return (
+        <input
+          type="checkbox"
+          checked={value === true}
+          disabled={!editable}
+          onChange={(e) => onChange(e.target.checked)}
+          className="mx-1.5 accent-[var(--accent-primary)]"
+        />
+      );
+    case "list":
+      return (
+        <ListValue
+          items={value as string[]}
+          editable={editable}
+          onChange={onChange}
+        />
+      );
+    case "yaml":
+      return (
+        <pre
+          className="px-1.5 py-0.5 font-mono text-xs text-[var(--text-secondary)] whitespace-pre-wrap"
+          title="Edit as YAML to change this property"
+        >
+          {String(value)}
+        </pre>
+      );
+    case "date":
+      return (
+        <input
+          type="date"
+          defaultValue={String(value)}
+          disabled={!editable}
+          onChange={(e) => {
+            if (e.target.value) onChange(e.target.value);
+          }}
+          className={inputClassName}
+        />
+      );
+    case "number":
+      return (
+        <input
+          type="number"
+          defaultValue={String(value)}
+          disabled={!editable}
+          onKeyDown={(e) => handleInputKeyDown(e, String(value))}
+          onBlur={(e) => {
+            const number = e.target.valueAsNumber;
+            if (Number.isNaN(number)) {
+              e.target.value = String(value);
+            } else if (number !== value) {
+              onChange(number);
+            }
+          }}
+          className={inputClassName}
+        />
+      );
+    default:
+      return (
+        <input
+          type="text"
+          defaultValue={String(value)}
+          disabled={!editable}
+          placeholder="Empty"
+          onKeyDown={(e) => handleInputKeyDown(e, String(value))}
+          onBlur={(e) => {
+            if (e.target.value !== value) onChange(e.target.value);
+          }}
+          className={inputClassName}
+        />
+      );
+  }
+}
+
+/**
+ * PropertiesPanel - Typed view of a markdown file's YAML front matter, edited
+ * inline or as YAML and written back into the front matter
+ */
+export function PropertiesPanel({
+  source,
+  onChange,
+  editable = true,
+}: PropertiesPanelProps) {
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  const [isEditingYaml, setIsEditingYaml] = useState(false);
+  const [newKey, setNewKey] = useState("");
+  const [newType, setNewType] = useState<Exclude<FrontMatterType, "yaml">>("text");
+
+  const properties = parseFrontMatter(source);
+  if (!properties) return null;
+
+  const handleAddProperty = () => {
+    const key = newKey.trim();
+    if (!key || properties.some((property) => property.key === key)) return;
+    onChange(setFrontMatterProperty(source, key, getDefaultValue(newType), newType));
+    setNewKey("");
+  };
+
+  const handleRename = (property: FrontMatterProperty, input: HTMLInputElement) => {
+    const key = input.value.trim();
+    if (!key || key === property.key || properties.some((p) => p.key === key)) {
+      input.value = property.key;
+      return;
+    }
+    onChange(renameFrontMatterProperty(source, property.key, key));
+  };
+
+  return (
+    <div className="border-b border-[var(--border-primary)] bg-[var(--bg-secondary)] shrink-0">
+      {/* Header */}
+      <div className="flex gap-2 items-center px-3 h-8">
+        <button
+          type="button"
+          onClick={() => setIsCollapsed((collapsed) => !collapsed)}
+          className="flex gap-1.5 items-center text-xs font-medium text-[var(--text-secondary)] hover:text-[var(--text-primary)] transition-colors"
+        >
+          <ChevronRightIcon
+            className={`w-3 h-3 transition-transform ${isCollapsed ? "" : "rotate-90"}`}
+          />
+          Properties
+          <span className="text-[var(--text-tertiary)]">{properties.length}</span>
+        </button>
+        <div className="flex-1" />
+        {!isCollapsed && editable && (
+          <button
+            type="button"
+            onClick={() => setIsEditingYaml((editing) => !editing)}
+            className="px-2 py-0.5 text-xs text-[var(--text-secondary)] hover:bg-[var(--bg-hover)] hover:text-[var(--text-primary)] rounded transition-colors"
+          >
+            {isEditingYaml ? "Done" : "Edit YAML"}
+          </button>
+        )}
+      </div>
+
+      {!isCollapsed && isEditingYaml && (
+        <textarea
+          key={source}
+          defaultValue={getFrontMatterYaml(source)}
+          onBlur={(e) => {
+            const updated = setFrontMatterYaml(source, e.target.value);
+            if (updated !== source) onChange(updated);
+          }}
+          spellCheck={false}
+          rows={Math.min(16, Math.max(3, source.split("\n").length))}
+          className="block px-3 py-2 w-full font-mono text-xs text-[var(--text-primary)] bg-[var(--bg-primary)] border-t border-[var(--border-primary)] outline-none resize-y"
+        />
+      )}
+
+      {!isCollapsed && !isEditingYaml && (
+        <div className="px-3 pb-2">
+          {properties.map((property) => (
+            <div
+              // Remount on outside changes so inputs show the new value
+              key={`${property.key}:${JSON.stringify(property.value)}`}
+              className="group flex gap-2 items-start py-0.5"
+            >
+              <input
+                type="text"
+                defaultValue={property.key}
+                disabled={!editable}
+                onKeyDown={(e) => handleInputKeyDown(e, property.key)}
+                onBlur={(e) => handleRename(property, e.target)}
+                className={`${inputClassName} !w-36 shrink-0 text-[var(--text-secondary)]`}
+                title={
+                  property.type === "yaml"
+                    ? property.key
+                    : `${property.key} (${TYPE_LABELS[property.type]})`
+                }
+              />
+              <div className="flex-1 min-w-0">
+                <PropertyValue
+                  property={property}
+                  editable={editable}
+                  onChange={(value) =>
+                    onChange(setFrontMatterProperty(source, property.key, value))
+                  }
+                />
+              </div>
+              {editable && (
+                <button
+                  type="button"
+                  onClick={() => onChange(removeFrontMatterProperty(source, property.key))}
+                  className="p-1 text-[var(--text-tertiary)] hover:text-[var(--text-primary)] rounded opacity-0 group-hover:opacity-100 transition-opacity shrink-0"
+                  title={`Remove ${property.key}`}
+                >
+                  <TrashIcon className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </div>
+          ))}
+
+          {/* Add property */}
+          {editable && (
+            <div className="flex gap-2 items-center pt-1">
+              <PlusIcon className="w-3.5 h-3.5 text-[var(--text-tertiary)] shrink-0" />
+              <input
+                type="text"
+                value={newKey}
+                onChange={(e) => setNewKey(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleAddProperty();
+                }}
+                placeholder="Add property"
+                className={`${inputClassName} !w-36 shrink-0`}
+              />
+              <select
+                value={newType}
+                onChange={(e) =>
+                  setNewType(e.target.value as Exclude<FrontMatterType, "yaml">)
+                }
+                className="px-1.5 py-0.5 text-xs text-[var(--text-secondary)] bg-[var(--bg-primary)] border border-[var(--border-primary)] rounded outline-none"
+              >
+                {Object.entries(TYPE_LABELS).map(([type, label]) => (
+                  <option key={type} value={type}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              {newKey.trim() && (
+                <button
+                  type="button"
+                  onClick={handleAddProperty}
+                  className="px-2 py-0.5 text-xs text-[var(--text-primary)] border border-[var(--border-primary)] hover:bg-[var(--bg-hover)] rounded transition-colors"
+                >
+                  Add
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+import { useState, useEffect, useCallback } from "react";
+import { FileIcon, FolderIcon } from "./Icons";
+import { isPathInside } from "../utils/fileTree";
+import { getErrorMessage, unwrapFsResult } from "../utils/fsResult";
+import type { DeletedItem } from "../../shared/types";
+
+interface RecentlyDeletedDialogProps {
+  isOpen: boolean;
+  /** Only items deleted from inside these folders are listed, when any are given */
+  rootPaths?: string[];
+  onClose: () => void;
+  onRestore: (item: DeletedItem) => Promise<void>;
+}
+
+/**
+ * Format a deletion time relative to now
+ */
+function formatDeletedAt(deletedAt: number): string {
+  const minutes = Math.floor((Date.now() - deletedAt) / 60000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  return new Date(deletedAt).toLocaleDateString();
+}
+
+/**
+ * RecentlyDeletedDialog - Lists items moved to the trash and restores them
+ * to their original path
+ */
+export function RecentlyDeletedDialog({
+  isOpen,
+  rootPaths,
+  onClose,
+  onRestore,
+}: RecentlyDeletedDialogProps) {
+  const [items, setItems] = useState<DeletedItem[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadItems = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const result = unwrapFsResult(await window.fileSystem.listDeleted());
+      setItems(
+        result.items.filter(
+          (item) =>
+            !rootPaths?.length ||
+            rootPaths.some((root) => isPathInside(root, item.originalPath))
+        )
+      );
+    } catch (err) {
+      console.error("Error loading deleted items:", err);
+      setError(getErrorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [rootPaths]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setError(null);
+      void loadItems();
+    }
+  }, [isOpen, loadItems]);
+
+  const handleRestore = async (item: DeletedItem) => {
+    setRestoringId(item.id);
+    setError(null);
+    try {
+      await onRestore(item);
+      setItems((prev) => prev.filter((i) => i.id !== item.id));
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <>
+      {/* Overlay */}
+      <div
+        className="fixed inset-0 z-50 backdrop-blur-sm bg-black/50 fade-in"
+        onClick={onClose}
+      />
+
+      {/* Dialog */}
+      <div
+        className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-[560px] max-w-[90vw] max-h-[70vh] flex flex-col bg-[var(--bg-secondary)] border border-[var(--border-primary)] rounded-lg shadow-2xl z-50 overflow-hidden scale-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex justify-between items-center px-4 py-3 border-b border-[var(--border-primary)]">
+          <h3 className="text-sm font-semibold text-[var(--text-primary)]">
+            Recently deleted
+          </h3>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-[var(--text-tertiary)] hover:text-[var(--text-primary)] transition-colors"
+            aria-label="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        {error && (
+          <p className="px-4 pt-3 text-sm text-red-500">{error}</p>
+        )}
+
+        {/* Items */}
+        <div className="overflow-y-auto flex-1 py-2">
+          {isLoading ? (
+            <p className="px-4 py-6 text-sm text-center text-[var(--text-secondary)]">
+              Loading…
+            </p>
+          ) : items.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-center text-[var(--text-secondary)]">
+              Nothing has been deleted recently
+            </p>
+          ) : (
+            items.map((item) => (
+              <div
+                key={item.id}
+                className="flex gap-3 items-center px-4 py-2 hover:bg-[var(--bg-hover)] transition-colors"
+              >
+                {item.itemType === "folder" ? (
+                  <FolderIcon className="w-4 h-4 text-[var(--text-secondary)] shrink-0" />
+                ) : (
+                  <FileIcon
+                    extension={item.name.split(".").pop()}
+                    className="w-4 h-4 shrink-0"
+                  />
+                )}
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm text-[var(--text-primary)] truncate">
+                    {item.name}
+                  </div>
+                  <div
+                    className="text-xs text-[var(--text-tertiary)] truncate"
+                    title={item.originalPath}
+                  >
+                    {item.originalPath}
+                  </div>
+                  {!item.trashPath && (
+                    <div className="text-xs text-[var(--text-tertiary)]">
+                      Restore it from the system trash
+                    </div>
+                  )}
+                </div>
+                <span className="text-xs text-[var(--text-tertiary)] shrink-0">
+                  {formatDeletedAt(item.deletedAt)}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => void handleRestore(item)}
+                  disabled={restoringId !== null || !item.trashPath}
+                  title={
+                    item.trashPath
+                      ? undefined
+                      : "Where this item is in the system trash is not known"
+                  }
+                  className="px-3 py-1 text-xs text-[var(--text-primary)] border border-[var(--border-primary)] hover:bg-[var(--bg-primary)] rounded transition-colors disabled:opacity-50 shrink-0"
+                >
+                  {restoringId === item.id ? "Restoring…" : "Restore"}
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
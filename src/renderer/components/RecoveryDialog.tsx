@@ -0,0 +1,156 @@
+import { useState } from "react";
+import { FileIcon } from "./Icons";
+import { getErrorMessage } from "../utils/fsResult";
+import type { UnsavedBuffer } from "../../shared/types";
+
+interface RecoveryDialogProps {
+  /** Buffers left unsaved by a crash or forced quit; the dialog shows while any remain */
+  buffers: UnsavedBuffer[];
+  onRestore: (buffer: UnsavedBuffer) => Promise<void>;
+  onDiscard: (buffer: UnsavedBuffer) => Promise<void>;
+  /** Decide later: the buffers stay journaled and are offered again next launch */
+  onClose: () => void;
+}
+
+/**
+ * Format an edit time relative to now
+ */
+function formatModifiedAt(modifiedAt: number): string {
+  const minutes = Math.floor((Date.now() - modifiedAt) / 60000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  return new Date(modifiedAt).toLocaleDateString();
+}
+
+/**
+ * RecoveryDialog - Offers to restore or discard each buffer that had unsaved
+ * edits when the app last exited
+ */
+export function RecoveryDialog({
+  buffers,
+  onRestore,
+  onDiscard,
+  onClose,
+}: RecoveryDialogProps) {
+  const [busyPath, setBusyPath] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (
+    action: (buffer: UnsavedBuffer) => Promise<void>,
+    targets: UnsavedBuffer[]
+  ) => {
+    setError(null);
+    try {
+      for (const buffer of targets) {
+        setBusyPath(buffer.filePath);
+        await action(buffer);
+      }
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setBusyPath(null);
+    }
+  };
+
+  if (buffers.length === 0) return null;
+
+  return (
+    <>
+      {/* Overlay */}
+      <div className="fixed inset-0 z-50 backdrop-blur-sm bg-black/50 fade-in" />
+
+      {/* Dialog */}
+      <div className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-[560px] max-w-[90vw] max-h-[70vh] flex flex-col bg-[var(--bg-secondary)] border border-[var(--border-primary)] rounded-lg shadow-2xl z-50 overflow-hidden scale-in">
+        {/* Header */}
+        <div className="px-4 py-3 border-b border-[var(--border-primary)]">
+          <h3 className="text-sm font-semibold text-[var(--text-primary)]">
+            Recover unsaved changes
+          </h3>
+          <p className="mt-1 text-xs text-[var(--text-secondary)]">
+            These files had unsaved changes when the app last closed.
+          </p>
+        </div>
+
+        {error && <p className="px-4 pt-3 text-sm text-red-500">{error}</p>}
+
+        {/* Buffers */}
+        <div className="overflow-y-auto flex-1 py-2">
+          {buffers.map((buffer) => {
+            const fileName = buffer.filePath.split("/").pop() || buffer.filePath;
+            return (
+              <div
+                key={buffer.filePath}
+                className="flex gap-3 items-center px-4 py-2 hover:bg-[var(--bg-hover)] transition-colors"
+              >
+                <FileIcon
+                  extension={fileName.split(".").pop()}
+                  className="w-4 h-4 shrink-0"
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm text-[var(--text-primary)] truncate">
+                    {fileName}
+                  </div>
+                  <div
+                    className="text-xs text-[var(--text-tertiary)] truncate"
+                    title={buffer.filePath}
+                  >
+                    {buffer.filePath}
+                  </div>
+                </div>
+                <span className="text-xs text-[var(--text-tertiary)] shrink-0">
+                  {formatModifiedAt(buffer.modifiedAt)}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => void run(onDiscard, [buffer])}
+                  disabled={busyPath !== null}
+                  className="px-3 py-1 text-xs text-[var(--text-secondary)] hover:bg-[var(--bg-primary)] hover:text-[var(--text-primary)] rounded transition-colors disabled:opacity-50 shrink-0"
+                >
+                  Discard
+                </button>
+                <button
+                  type="button"
+                  onClick={() => void run(onRestore, [buffer])}
+                  disabled={busyPath !== null}
+                  className="px-3 py-1 text-xs text-[var(--text-primary)] border border-[var(--border-primary)] hover:bg-[var(--bg-primary)] rounded transition-colors disabled:opacity-50 shrink-0"
+                >
+                  {busyPath === buffer.filePath ? "Working…" : "Restore"}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Actions */}
+        <div className="flex gap-2 justify-end px-4 py-3 border-t border-[var(--border-primary)]">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={busyPath !== null}
+            className="px-4 py-2 text-sm text-[var(--text-secondary)] hover:text-[var(--text-primary)] transition-colors disabled:opacity-50"
+          >
+            Decide Later
+          </button>
+          <button
+            type="button"
+            onClick={() => void run(onDiscard, buffers)}
+            disabled={busyPath !== null}
+            className="px-4 py-2 text-sm text-[var(--text-primary)] border border-[var(--border-primary)] hover:bg-[var(--bg-hover)] rounded transition-colors disabled:opacity-50"
+          >
+            Discard All
+          </button>
+          <button
+            type="button"
+            onClick={() => void run(onRestore, buffers)}
+            disabled={busyPath !== null}
+            className="px-4 py-2 bg-[var(--accent-primary)] hover:bg-[var(--accent-hover)] text-white rounded text-sm font-medium transition-colors disabled:opacity-50"
+          >
+            Restore All
+          </button>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,90 @@
+import { DiffViewer } from "./DiffViewer";
+import type { ReplacePreview } from "../../shared/types";
+
+interface ReplacePreviewDialogProps {
+  isOpen: boolean;
+  fileName: string;
+  /** Null while the preview is being computed */
+  preview: ReplacePreview | null;
+  error?: string | null;
+  onClose: () => void;
+  /** Untick every occurrence in this file */
+  onExcludeFile: () => void;
+}
+
+/**
+ * ReplacePreviewDialog - Shows one file's pending replace as a diff.
+ * Accepting keeps the file in the batch; rejecting unticks all of its occurrences.
+ */
+export function ReplacePreviewDialog({
+  isOpen,
+  fileName,
+  preview,
+  error,
+  onClose,
+  onExcludeFile,
+}: ReplacePreviewDialogProps) {
+  if (!isOpen) return null;
+
+  return (
+    <>
+      {/* Overlay */}
+      <div
+        className="fixed inset-0 z-50 backdrop-blur-sm bg-black/50 fade-in"
+        onClick={onClose}
+      />
+
+      {/* Dialog */}
+      <div
+        className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-[900px] max-w-[90vw] bg-[var(--bg-secondary)] border border-[var(--border-primary)] rounded-lg shadow-2xl z-50 overflow-hidden scale-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex justify-between items-center px-4 py-3 border-b border-[var(--border-primary)]">
+          <h3 className="text-sm font-semibold text-[var(--text-primary)]">
+            Replace preview
+          </h3>
+          {preview && (
+            <span className="text-xs text-[var(--text-tertiary)]">
+              {preview.replacedCount} replacement
+              {preview.replacedCount === 1 ? "" : "s"}
+              {preview.skippedCount > 0 &&
+                ` · ${preview.skippedCount} no longer found`}
+            </span>
+          )}
+        </div>
+
+        {/* Content */}
+        <div className="p-4">
+          {error ? (
+            <p className="text-sm text-red-500">{error}</p>
+          ) : !preview ? (
+            <p className="text-sm text-[var(--text-secondary)]">
+              Preparing preview…
+            </p>
+          ) : (
+            <DiffViewer
+              originalContent={preview.originalContent}
+              modifiedContent={preview.newContent}
+              fileName={fileName}
+              onAccept={onClose}
+              onReject={onExcludeFile}
+            />
+          )}
+
+          {(error || !preview) && (
+            <div className="flex justify-end mt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm text-[var(--text-primary)] border border-[var(--border-primary)] hover:bg-[var(--bg-hover)] rounded transition-colors"
+              >
+                Close
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
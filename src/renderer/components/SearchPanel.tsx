@@ -0,0 +1,530 @@
+import { useState, useEffect, useRef } from "react";
+import { ChevronRightIcon, FileIcon } from "./Icons";
+import { ReplacePreviewDialog } from "./ReplacePreviewDialog";
+import { useWorkspaceSearch } from "../hooks/useWorkspaceSearch";
+import { useWorkspaceReplace } from "../hooks/useWorkspaceReplace";
+import { getRelativePath } from "../utils/fileTree";
+import type {
+  ReplacePreview,
+  SearchMatch,
+  SearchOptions,
+} from "../../shared/types";
+
+/**
+ * Everything the editor needs to find a search match again after opening the file
+ */
+export interface SearchNavigationTarget {
+  match: SearchMatch;
+  /** Index of this match among the file's matches with the same text */
+  occurrence: number;
+  caseSensitive: boolean;
+  wholeWord: boolean;
+}
+
+interface SearchPanelProps {
+  /** Workspace root folders, all searched; empty when no folder is open */
+  rootPaths: string[];
+  /** Initial "files to exclude", from the workspace settings */
+  defaultExclude?: string;
+  /** Query to run when the panel is opened, e.g. from the TopBar search box */
+  initialQuery?: string;
+  onClose: () => void;
+  onOpenMatch: (target: SearchNavigationTarget) => void;
+  /** Flush unsaved editor changes to these files before replacing in them */
+  onBeforeReplace?: (filePaths: string[]) => Promise<void>;
+  /** Called after a replace or its undo rewrote these files */
+  onFilesReplaced?: (filePaths: string[]) => void;
+}
+
+// Wait this long after the last keystroke before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+/**
+ * Approximate the replacement for one match, for display in the results list
+ */
+function getReplacementPreview(
+  match: SearchMatch,
+  options: SearchOptions,
+  replaceText: string
+): string {
+  if (!options.isRegex) return replaceText;
+  try {
+    const regex = new RegExp(options.query, options.caseSensitive ? "" : "i");
+    return match.matchText.replace(regex, replaceText);
+  } catch {
+    return replaceText;
+  }
+}
+
+/**
+ * SearchPanel - Find in Files across the workspace
+ */
+export function SearchPanel({
+  rootPaths,
+  defaultExclude = "",
+  initialQuery = "",
+  onClose,
+  onOpenMatch,
+  onBeforeReplace,
+  onFilesReplaced,
+}: SearchPanelProps) {
+  const [query, setQuery] = useState(initialQuery);
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [wholeWord, setWholeWord] = useState(false);
+  const [isRegex, setIsRegex] = useState(false);
+  const [showFilters, setShowFilters] = useState(false);
+  const [include, setInclude] = useState("");
+  const [exclude, setExclude] = useState(defaultExclude);
+  const [collapsedFiles, setCollapsedFiles] = useState<Set<string>>(new Set());
+  const [isReplaceMode, setIsReplaceMode] = useState(false);
+  const [replaceText, setReplaceText] = useState("");
+  const [previewState, setPreviewState] = useState<{
+    filePath: string;
+    preview: ReplacePreview | null;
+    error: string | null;
+  } | null>(null);
+  // Bumped to re-run the search after files were rewritten
+  const [searchVersion, setSearchVersion] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const { results, status, summary, search } = useWorkspaceSearch();
+  const {
+    isMatchIncluded,
+    toggleMatch,
+    setFileIncluded,
+    resetSelection,
+    previewFile,
+    apply,
+    undo,
+    lastBatch,
+    isApplying,
+    error: replaceError,
+  } = useWorkspaceReplace(results);
+
+  const searchOptions: SearchOptions = {
+    query,
+    rootPath: rootPaths[0] || "",
+    rootPaths,
+    isRegex,
+    caseSensitive,
+    wholeWord,
+    include,
+    exclude,
+  };
+  const includedCount = results.reduce(
+    (sum, file) => sum + file.matches.filter(isMatchIncluded).length,
+    0
+  );
+
+  // Adopt a new query handed in from outside (TopBar, shortcut)
+  useEffect(() => {
+    setQuery(initialQuery);
+    inputRef.current?.focus();
+    inputRef.current?.select();
+  }, [initialQuery]);
+
+  // Re-run the search whenever the query or an option changes
+  useEffect(() => {
+    if (rootPaths.length === 0) return;
+
+    const timeout = setTimeout(() => {
+      setCollapsedFiles(new Set());
+      resetSelection();
+      void search({
+        query,
+        rootPath: rootPaths[0],
+        rootPaths,
+        isRegex,
+        caseSensitive,
+        wholeWord,
+        include,
+        exclude,
+      });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timeout);
+  }, [query, rootPaths, isRegex, caseSensitive, wholeWord, include, exclude, search, resetSelection, searchVersion]);
+
+  const toggleFile = (filePath: string) => {
+    const next = new Set(collapsedFiles);
+    if (next.has(filePath)) {
+      next.delete(filePath);
+    } else {
+      next.add(filePath);
+    }
+    setCollapsedFiles(next);
+  };
+
+  const handleMatchClick = (matches: SearchMatch[], match: SearchMatch) => {
+    const sameText = (m: SearchMatch) =>
+      caseSensitive
+        ? m.matchText === match.matchText
+        : m.matchText.toLowerCase() === match.matchText.toLowerCase();
+
+    onOpenMatch({
+      match,
+      occurrence: matches.filter(sameText).indexOf(match),
+      caseSensitive,
+      wholeWord,
+    });
+  };
+
+  const handleReplaceAll = async () => {
+    const batch = await apply(searchOptions, replaceText, onBeforeReplace);
+    if (batch) {
+      onFilesReplaced?.(batch.filePaths);
+      setSearchVersion((v) => v + 1);
+    }
+  };
+
+  const handleUndoReplace = async () => {
+    const filePaths = await undo();
+    if (filePaths) {
+      onFilesReplaced?.(filePaths);
+      setSearchVersion((v) => v + 1);
+    }
+  };
+
+  const handlePreviewFile = async (filePath: string) => {
+    const file = results.find((r) => r.filePath === filePath);
+    if (!file) return;
+
+    setPreviewState({ filePath, preview: null, error: null });
+    try {
+      const preview = await previewFile(file, searchOptions, replaceText);
+      setPreviewState((prev) =>
+        prev?.filePath === filePath ? { ...prev, preview } : prev
+      );
+    } catch (err) {
+      setPreviewState((prev) =>
+        prev?.filePath === filePath
+          ? { ...prev, error: err instanceof Error ? err.message : String(err) }
+          : prev
+      );
+    }
+  };
+
+  const OptionButton = ({
+    isActive,
+    onClick,
+    title,
+    children,
+  }: {
+    isActive: boolean;
+    onClick: () => void;
+    title: string;
+    children: React.ReactNode;
+  }) => (
+    <button
+      onClick={onClick}
+      title={title}
+      className={`px-1.5 py-0.5 rounded text-xs font-mono transition-colors ${
+        isActive
+          ? "text-white bg-[var(--accent-primary)]"
+          : "text-[var(--text-secondary)] hover:bg-[var(--bg-hover)] hover:text-[var(--text-primary)]"
+      }`}
+    >
+      {children}
+    </button>
+  );
+
+  const inputClassName =
+    "w-full px-2 py-1.5 bg-[var(--bg-primary)] border border-[var(--border-primary)] rounded text-xs text-[var(--text-primary)] placeholder-[var(--text-tertiary)] focus:outline-none focus:ring-2 focus:ring-[var(--accent-primary)]";
+
+  return (
+    <div className="w-72 bg-[var(--bg-secondary)] border-r border-[var(--border-primary)] flex flex-col h-full">
+      {/* Header */}
+      <div className="h-10 flex items-center justify-between px-3 border-b border-[var(--border-primary)] shrink-0">
+        <span className="text-sm font-medium text-[var(--text-primary)]">
+          Search
+        </span>
+        <button
+          onClick={onClose}
+          className="w-6 h-6 flex items-center justify-center hover:bg-[var(--bg-hover)] rounded transition-colors shrink-0"
+          aria-label="Close search"
+          title="Back to Explorer"
+        >
+          <ChevronRightIcon className="w-3 h-3 text-[var(--text-secondary)] rotate-180" />
+        </button>
+      </div>
+
+      {/* Query and options */}
+      <div className="p-3 flex flex-col gap-2 border-b border-[var(--border-primary)] shrink-0">
+        <div className="flex gap-1 items-center">
+          <button
+            onClick={() => setIsReplaceMode(!isReplaceMode)}
+            className="w-5 h-6 flex items-center justify-center hover:bg-[var(--bg-hover)] rounded transition-colors shrink-0"
+            aria-label="Toggle replace"
+            title="Toggle Replace"
+          >
+            <ChevronRightIcon
+              className={`w-3 h-3 text-[var(--text-secondary)] transition-transform duration-150 ${
+                isReplaceMode ? "rotate-90" : ""
+              }`}
+            />
+          </button>
+          <input
+            ref={inputRef}
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Escape") {
+                onClose();
+              }
+            }}
+            placeholder="Search in files..."
+            className={inputClassName}
+            autoFocus
+          />
+        </div>
+        {isReplaceMode && (
+          <div className="flex gap-1 items-center pl-6">
+            <input
+              type="text"
+              value={replaceText}
+              onChange={(e) => setReplaceText(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+                  void handleReplaceAll();
+                }
+              }}
+              placeholder={isRegex ? "Replace ($1 for groups)" : "Replace"}
+              className={inputClassName}
+            />
+            <button
+              onClick={() => void handleReplaceAll()}
+              disabled={isApplying || includedCount === 0 || status === "searching"}
+              className="px-2 py-1.5 rounded text-xs text-white bg-[var(--accent-primary)] hover:bg-[var(--accent-hover)] disabled:opacity-50 disabled:cursor-not-allowed transition-colors shrink-0"
+              title={`Replace ${includedCount} selected occurrence${includedCount === 1 ? "" : "s"} (⌘Enter)`}
+            >
+              All
+            </button>
+          </div>
+        )}
+        <div className="flex gap-1 items-center">
+          <OptionButton
+            isActive={caseSensitive}
+            onClick={() => setCaseSensitive(!caseSensitive)}
+            title="Match case"
+          >
+            Aa
+          </OptionButton>
+          <OptionButton
+            isActive={wholeWord}
+            onClick={() => setWholeWord(!wholeWord)}
+            title="Match whole word"
+          >
+            ab
+          </OptionButton>
+          <OptionButton
+            isActive={isRegex}
+            onClick={() => setIsRegex(!isRegex)}
+            title="Use regular expression"
+          >
+            .*
+          </OptionButton>
+          <button
+            onClick={() => setShowFilters(!showFilters)}
+            className="ml-auto px-1.5 py-0.5 rounded text-xs text-[var(--text-secondary)] hover:bg-[var(--bg-hover)] hover:text-[var(--text-primary)] transition-colors"
+            title="Toggle include/exclude filters"
+          >
+            ···
+          </button>
+        </div>
+        {showFilters && (
+          <>
+            <input
+              type="text"
+              value={include}
+              onChange={(e) => setInclude(e.target.value)}
+              placeholder="Files to include (e.g. *.md, chapters/)"
+              className={inputClassName}
+            />
+            <input
+              type="text"
+              value={exclude}
+              onChange={(e) => setExclude(e.target.value)}
+              placeholder="Files to exclude (e.g. drafts/**)"
+              className={inputClassName}
+            />
+          </>
+        )}
+      </div>
+
+      {/* Status */}
+      <div className="px-3 py-1.5 text-xs text-[var(--text-tertiary)] shrink-0">
+        {rootPaths.length === 0
+          ? "Open a folder to search"
+          : status === "searching"
+          ? "Searching…"
+          : summary?.error
+          ? <span className="text-red-500">{summary.error}</span>
+          : status === "done" && summary
+          ? summary.matchCount === 0
+            ? "No results"
+            : `${summary.matchCount} result${summary.matchCount === 1 ? "" : "s"} in ${summary.fileCount} file${summary.fileCount === 1 ? "" : "s"}${summary.limitHit ? " (limit reached)" : ""}`
+          : null}
+      </div>
+
+      {/* Last replace, with undo */}
+      {(lastBatch || replaceError) && (
+        <div className="mx-3 mb-2 px-2 py-1.5 rounded bg-[var(--bg-primary)] border border-[var(--border-primary)] text-xs flex gap-2 items-center shrink-0">
+          {replaceError ? (
+            <span className="text-red-500 flex-1">{replaceError}</span>
+          ) : (
+            lastBatch && (
+              <span className="text-[var(--text-secondary)] flex-1">
+                Replaced {lastBatch.replacedCount} in {lastBatch.fileCount} file
+                {lastBatch.fileCount === 1 ? "" : "s"}
+                {lastBatch.skippedCount > 0 &&
+                  ` (${lastBatch.skippedCount} skipped)`}
+              </span>
+            )
+          )}
+          {lastBatch && (
+            <button
+              onClick={() => void handleUndoReplace()}
+              disabled={isApplying}
+              className="text-[var(--accent-primary)] hover:underline disabled:opacity-50 shrink-0"
+            >
+              Undo
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Results */}
+      <div className="overflow-y-auto flex-1 pb-2">
+        {results.map(({ filePath, matches }) => {
+          const isCollapsed = collapsedFiles.has(filePath);
+          const relativePath = getRelativePath(rootPaths, filePath);
+          const fileName = relativePath.split(/[/\\]/).pop() || relativePath;
+          const folder = relativePath.slice(0, relativePath.length - fileName.length);
+          const fileIncludedCount = matches.filter(isMatchIncluded).length;
+
+          return (
+            <div key={filePath}>
+              <div
+                className="flex gap-1 items-center px-2 py-1 cursor-pointer select-none hover:bg-[var(--bg-hover)] transition-colors"
+                onClick={() => toggleFile(filePath)}
+                title={filePath}
+              >
+                <ChevronRightIcon
+                  className={`shrink-0 transition-transform duration-150 ${
+                    isCollapsed ? "" : "rotate-90"
+                  }`}
+                />
+                {isReplaceMode && (
+                  <input
+                    type="checkbox"
+                    checked={fileIncludedCount > 0}
+                    ref={(el) => {
+                      if (el) {
+                        el.indeterminate =
+                          fileIncludedCount > 0 &&
+                          fileIncludedCount < matches.length;
+                      }
+                    }}
+                    onClick={(e) => e.stopPropagation()}
+                    onChange={() =>
+                      setFileIncluded(matches, fileIncludedCount === 0)
+                    }
+                    className="shrink-0"
+                    title="Include this file"
+                  />
+                )}
+                <FileIcon
+                  extension={fileName.split(".").pop()}
+                  className="w-4 h-4 shrink-0"
+                />
+                <span className="text-xs text-[var(--text-primary)] truncate">
+                  {fileName}
+                </span>
+                <span className="text-xs text-[var(--text-tertiary)] truncate flex-1">
+                  {folder}
+                </span>
+                {isReplaceMode && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      void handlePreviewFile(filePath);
+                    }}
+                    disabled={fileIncludedCount === 0}
+                    className="px-1 text-[10px] rounded text-[var(--text-secondary)] hover:bg-[var(--bg-primary)] hover:text-[var(--text-primary)] disabled:opacity-40 shrink-0"
+                    title="Preview changes in this file"
+                  >
+                    Diff
+                  </button>
+                )}
+                <span className="px-1.5 text-[10px] rounded-full bg-[var(--bg-hover)] text-[var(--text-secondary)] shrink-0">
+                  {isReplaceMode && fileIncludedCount !== matches.length
+                    ? `${fileIncludedCount}/${matches.length}`
+                    : matches.length}
+                </span>
+              </div>
+
+              {!isCollapsed &&
+                matches.map((match) => (
+                  <div
+                    key={`${match.line}:${match.column}`}
+                    className="flex gap-2 items-baseline pl-8 pr-2 py-0.5 cursor-pointer hover:bg-[var(--bg-hover)] transition-colors"
+                    onClick={() => handleMatchClick(matches, match)}
+                  >
+                    {isReplaceMode && (
+                      <input
+                        type="checkbox"
+                        checked={isMatchIncluded(match)}
+                        onClick={(e) => e.stopPropagation()}
+                        onChange={() => toggleMatch(match)}
+                        className="shrink-0 self-center"
+                      />
+                    )}
+                    <span className="text-[10px] text-[var(--text-tertiary)] font-mono shrink-0 w-6 text-right">
+                      {match.line}
+                    </span>
+                    <span className="text-xs text-[var(--text-secondary)] truncate whitespace-pre">
+                      {match.preview.slice(0, match.previewStart).trimStart()}
+                      <span
+                        className={`bg-yellow-400/30 text-[var(--text-primary)] rounded-sm ${
+                          isReplaceMode && isMatchIncluded(match)
+                            ? "line-through bg-red-500/20"
+                            : ""
+                        }`}
+                      >
+                        {match.preview.slice(
+                          match.previewStart,
+                          match.previewStart + match.length
+                        )}
+                      </span>
+                      {isReplaceMode && isMatchIncluded(match) && (
+                        <span className="bg-green-500/20 text-[var(--text-primary)] rounded-sm">
+                          {getReplacementPreview(match, searchOptions, replaceText)}
+                        </span>
+                      )}
+                      {match.preview.slice(match.previewStart + match.length)}
+                    </span>
+                  </div>
+                ))}
+            </div>
+          );
+        })}
+      </div>
+
+      <ReplacePreviewDialog
+        isOpen={previewState !== null}
+        fileName={previewState ? getRelativePath(rootPaths, previewState.filePath) : ""}
+        preview={previewState?.preview ?? null}
+        error={previewState?.error}
+        onClose={() => setPreviewState(null)}
+        onExcludeFile={() => {
+          const file = results.find((r) => r.filePath === previewState?.filePath);
+          if (file) {
+            setFileIncluded(file.matches, false);
+          }
+          setPreviewState(null);
+        }}
+      />
+    </div>
+  );
+}
@@ -1,4 +1,6 @@
 import { useState, useEffect } from "react";
+import type { CitationStyle, WorkspaceSettings } from "../../shared/types";
+import { CITATION_STYLES, DEFAULT_CITATION_STYLE } from "../utils/citationStyles";
 
 export type Theme = "dark" | "light" | "grey";
 
@@ -7,8 +9,14 @@ export type Theme = "dark" | "light" | "grey";
 interface SettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
+  /** Settings of the open workspace; the Workspace section is hidden without one */
+  workspaceSettings?: WorkspaceSettings;
+  onWorkspaceSettingsChange?: (settings: WorkspaceSettings) => void;
 }
 
+// Auto-save delays offered per workspace, in milliseconds
+const AUTO_SAVE_DELAYS = [500, 1000, 3000, 10000];
+
 interface KeyboardShortcut {
   command: string;
   shortcut: string;
@@ -23,6 +31,7 @@ const shortcuts: KeyboardShortcut[] = [
   { command: "Toggle Sidebar", shortcut: "⌘B / Ctrl+B", category: "View" },
   { command: "Toggle Chat Panel", shortcut: "⌘⇧I / Ctrl+Shift+I", category: "View" },
   { command: "Close Tab", shortcut: "⌘W / Ctrl+W", category: "Editor" },
+  { command: "Split Editor Right", shortcut: "⌘\\ / Ctrl+\\", category: "Editor" },
   { command: "Bold", shortcut: "⌘B / Ctrl+B", category: "Editor" },
   { command: "Italic", shortcut: "⌘I / Ctrl+I", category: "Editor" },
 ];
@@ -30,7 +39,12 @@ const shortcuts: KeyboardShortcut[] = [
 /**
  * SettingsModal - Settings modal with theme selection and keyboard shortcuts
  */
-export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
+export function SettingsModal({
+  isOpen,
+  onClose,
+  workspaceSettings,
+  onWorkspaceSettingsChange,
+}: SettingsModalProps) {
   const [theme, setTheme] = useState<Theme>("dark");
   const [activeTab, setActiveTab] = useState<"general" | "shortcuts">("general");
 
@@ -227,6 +241,98 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
                   </div>
                 </div>
               </div>
+
+              {/* Workspace Settings */}
+              {workspaceSettings && (
+                <div>
+                  <h3 className="text-sm font-semibold text-[var(--text-primary)] mb-3">
+                    Workspace
+                  </h3>
+                  <div className="space-y-4">
+                    <div>
+                      <label className="text-sm text-[var(--text-secondary)] mb-2 block">
+                        Auto-save delay
+                      </label>
+                      <select
+                        value={workspaceSettings.autoSaveDelay ?? 1000}
+                        onChange={(e) =>
+                          onWorkspaceSettingsChange?.({
+                            ...workspaceSettings,
+                            autoSaveDelay: Number(e.target.value),
+                          })
+                        }
+                        className="px-3 py-2 text-sm bg-[var(--bg-primary)] border border-[var(--border-primary)] rounded text-[var(--text-primary)] focus:outline-none focus:border-[var(--accent-primary)]"
+                      >
+                        {AUTO_SAVE_DELAYS.map((delay) => (
+                          <option key={delay} value={delay}>
+                            {delay < 1000 ? `${delay} ms` : `${delay / 1000} s`}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="text-sm text-[var(--text-secondary)] mb-2 block">
+                        Files to exclude from Find in Files
+                      </label>
+                      <input
+                        type="text"
+                        defaultValue={workspaceSettings.searchExclude ?? ""}
+                        onBlur={(e) =>
+                          onWorkspaceSettingsChange?.({
+                            ...workspaceSettings,
+                            searchExclude: e.target.value.trim() || undefined,
+                          })
+                        }
+                        placeholder="e.g. drafts/**, *.bak"
+                        className="w-full px-3 py-2 text-sm bg-[var(--bg-primary)] border border-[var(--border-primary)] rounded text-[var(--text-primary)] placeholder-[var(--text-tertiary)] focus:outline-none focus:border-[var(--accent-primary)]"
+                      />
+                    </div>
+                    <div>
+                      <label className="text-sm text-[var(--text-secondary)] mb-2 block">
+                        Bibliography file (BibTeX or CSL-JSON)
+                      </label>
+                      <input
+                        type="text"
+                        defaultValue={workspaceSettings.bibliography ?? ""}
+                        onBlur={(e) =>
+                          onWorkspaceSettingsChange?.({
+                            ...workspaceSettings,
+                            bibliography: e.target.value.trim() || undefined,
+                          })
+                        }
+                        placeholder="First .bib or .csl.json file in the folder"
+                        className="w-full px-3 py-2 text-sm bg-[var(--bg-primary)] border border-[var(--border-primary)] rounded text-[var(--text-primary)] placeholder-[var(--text-tertiary)] focus:outline-none focus:border-[var(--accent-primary)]"
+                      />
+                    </div>
+                    <div>
+                      <label className="text-sm text-[var(--text-secondary)] mb-2 block">
+                        Citation style
+                      </label>
+                      <select
+                        value={workspaceSettings.citationStyle ?? DEFAULT_CITATION_STYLE}
+                        onChange={(e) =>
+                          onWorkspaceSettingsChange?.({
+                            ...workspaceSettings,
+                            citationStyle: e.target.value as CitationStyle,
+                          })
+                        }
+                        className="px-3 py-2 text-sm bg-[var(--bg-primary)] border border-[var(--border-primary)] rounded text-[var(--text-primary)] focus:outline-none focus:border-[var(--accent-primary)]"
+                      >
+                        {CITATION_STYLES.map((style) => (
+                          <option key={style.id} value={style.id}>
+                            {style.label}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <p className="text-xs text-[var(--text-tertiary)]">
+                      Saved in the workspace file when the workspace has one.
+                      Styles follow the main rules of each guide only; check
+                      references against it before publishing.
+                    </p>
+                  </div>
+                </div>
+              )}
             </div>
           )}
 
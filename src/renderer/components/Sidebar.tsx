@@ -1,19 +1,35 @@
-import { useState } from "react";
+import { useState, useEffect, useRef } from "react";
 import { ChevronRightIcon, FolderIcon, FileIcon, PlusIcon, EditIcon, TrashIcon } from "./Icons";
 import { ContextMenu, type ContextMenuItem } from "./ContextMenu";
 import { NewFileDialog } from "./NewFileDialog";
+import { getParentPath } from "../utils/fileTree";
+import { isCopyDrag } from "../utils/dragAndDrop";
 import type { FileItem } from "../../shared/types";
 
+// Drag payload: JSON array of the dragged items' paths
+const DRAG_MIME = "application/x-intellirite-paths";
+
 interface SidebarProps {
   currentFolder?: string;
+  /** Workspace roots; with more than one, each is a top-level folder in the tree */
+  rootFolders?: string[];
+  /** Name of the saved workspace, shown in the header */
+  workspaceName?: string;
+  onRemoveRootFolder?: (folderPath: string) => void;
   files?: FileItem[];
+  hasMoreFiles?: boolean;
   selectedFileId?: string;
-  onFileSelect?: (fileId: string) => void;
+  /** Single click previews a file; double click opens it for good */
+  onFileSelect?: (fileId: string, options?: { preview?: boolean }) => void;
+  onLoadFolderChildren?: (folderPath: string, offset?: number) => void;
   onOpenFolder?: () => void;
   onNewFile?: (parentPath: string, fileName?: string) => void;
   onNewFolder?: (parentPath: string) => void;
   onRename?: (itemId: string, newName: string) => void;
   onDelete?: (itemId: string) => void;
+  onShowRecentlyDeleted?: () => void;
+  /** Items dropped on a folder: moved, or copied when the copy modifier is held */
+  onMoveItems?: (paths: string[], targetFolder: string, copy: boolean) => void;
 }
 
 /**
@@ -21,14 +37,21 @@ interface SidebarProps {
  */
 export function Sidebar({
   currentFolder,
+  rootFolders,
+  workspaceName,
+  onRemoveRootFolder,
   files = [],
+  hasMoreFiles = false,
   selectedFileId,
   onFileSelect,
+  onLoadFolderChildren,
   onOpenFolder,
   onNewFile,
   onNewFolder,
   onRename,
   onDelete,
+  onShowRecentlyDeleted,
+  onMoveItems,
 }: SidebarProps) {
   const [isCollapsed, setIsCollapsed] = useState(false);
   const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set());
@@ -38,6 +61,51 @@ export function Sidebar({
     item: FileItem;
   } | null>(null);
   const [showNewFileDialog, setShowNewFileDialog] = useState(false);
+  // Items picked with Cmd/Ctrl-click, dragged together
+  const [selectedPaths, setSelectedPaths] = useState<Set<string>>(new Set());
+  // Folder highlighted while something is dragged over it
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  // Folders whose children have been requested but not arrived yet
+  const pendingLoads = useRef<Set<string>>(new Set());
+
+  const isMultiRoot = (rootFolders?.length ?? 0) > 1;
+  const isRootFolder = (item: FileItem) =>
+    isMultiRoot && item.type === "folder" && rootFolders!.includes(item.path);
+
+  // Workspace roots start out expanded; collapsing one sticks until it is re-added
+  const seenRoots = useRef<Set<string>>(new Set());
+  useEffect(() => {
+    if (!rootFolders || rootFolders.length < 2) return;
+    const added = rootFolders.filter((root) => !seenRoots.current.has(root));
+    seenRoots.current = new Set(rootFolders);
+    if (added.length > 0) {
+      setExpandedFolders((prev) => new Set([...prev, ...added]));
+    }
+  }, [rootFolders]);
+
+  // Load children of expanded folders that are not loaded, e.g. after the tree was refreshed
+  useEffect(() => {
+    if (!onLoadFolderChildren) return;
+
+    const visit = (items: FileItem[]) => {
+      for (const item of items) {
+        if (item.type !== "folder" || !expandedFolders.has(item.id)) continue;
+
+        if (item.children === undefined) {
+          if (!pendingLoads.current.has(item.path)) {
+            pendingLoads.current.add(item.path);
+            onLoadFolderChildren(item.path);
+          }
+        } else {
+          pendingLoads.current.delete(item.path);
+          visit(item.children);
+        }
+      }
+    };
+
+    visit(files);
+  }, [files, expandedFolders, onLoadFolderChildren]);
 
   const toggleCollapse = () => {
     setIsCollapsed(!isCollapsed);
@@ -49,12 +117,61 @@ export function Sidebar({
       newExpanded.delete(folderId);
     } else {
       newExpanded.add(folderId);
+      pendingLoads.current.delete(folderId);
     }
     setExpandedFolders(newExpanded);
   };
 
   const handleFileClick = (fileId: string) => {
-    onFileSelect?.(fileId);
+    onFileSelect?.(fileId, { preview: true });
+  };
+
+  const toggleSelected = (itemPath: string) => {
+    setSelectedPaths((prev) => {
+      const next = new Set(prev);
+      if (next.has(itemPath)) {
+        next.delete(itemPath);
+      } else {
+        next.add(itemPath);
+      }
+      return next;
+    });
+  };
+
+  const handleDragStart = (e: React.DragEvent, item: FileItem) => {
+    // Dragging a selected item takes the whole selection along
+    const paths = selectedPaths.has(item.path) ? [...selectedPaths] : [item.path];
+    if (!selectedPaths.has(item.path)) {
+      setSelectedPaths(new Set());
+    }
+    e.dataTransfer.setData(DRAG_MIME, JSON.stringify(paths));
+    e.dataTransfer.effectAllowed = "copyMove";
+  };
+
+  const handleDragOver = (e: React.DragEvent, folderPath: string) => {
+    if (!onMoveItems || !e.dataTransfer.types.includes(DRAG_MIME)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    e.dataTransfer.dropEffect = isCopyDrag(e) ? "copy" : "move";
+    setDropTarget(folderPath);
+  };
+
+  const handleDrop = (e: React.DragEvent, folderPath: string) => {
+    const data = e.dataTransfer.getData(DRAG_MIME);
+    setDropTarget(null);
+    if (!onMoveItems || !data) return;
+    e.preventDefault();
+    e.stopPropagation();
+
+    try {
+      const paths = JSON.parse(data) as string[];
+      if (paths.length > 0) {
+        onMoveItems(paths, folderPath, isCopyDrag(e));
+        setSelectedPaths(new Set());
+      }
+    } catch (error) {
+      console.error("Invalid drag data:", error);
+    }
   };
 
   const handleContextMenu = (e: React.MouseEvent, item: FileItem) => {
@@ -81,6 +198,7 @@ export function Sidebar({
 
   const getContextMenuItems = (item: FileItem): ContextMenuItem[] => {
     const items: ContextMenuItem[] = [];
+    const isRoot = isRootFolder(item);
 
     if (item.type === "folder") {
       items.push(
@@ -104,6 +222,19 @@ export function Sidebar({
       );
     }
 
+    if (isRoot) {
+      // Roots are removed from the workspace, never renamed or deleted from here
+      items.push({
+        id: "remove-root",
+        label: "Remove Folder from Workspace",
+        icon: <TrashIcon />,
+        onClick: () => {
+          onRemoveRootFolder?.(item.path);
+        },
+      });
+      return items;
+    }
+
     items.push(
       {
         id: "rename",
@@ -118,7 +249,7 @@ export function Sidebar({
         label: "Delete",
         icon: <TrashIcon />,
         onClick: () => {
-          if (confirm(`Are you sure you want to delete "${item.name}"?`)) {
+          if (confirm(`Move "${item.name}" to the trash?`)) {
             onDelete?.(item.id);
           }
         },
@@ -128,30 +259,59 @@ export function Sidebar({
     return items;
   };
 
+  const renderLoadMore = (folderPath: string, offset: number, depth: number) => (
+    <button
+      key={`${folderPath}-load-more`}
+      className="w-full text-left px-2 py-1 text-xs text-[var(--accent-primary)] hover:bg-[var(--bg-hover)] transition-colors"
+      style={{ paddingLeft: `${8 + depth * 16 + 20}px` }}
+      onClick={() => onLoadFolderChildren?.(folderPath, offset)}
+    >
+      Load more…
+    </button>
+  );
+
   const renderFileItem = (item: FileItem, depth: number = 0) => {
     const isExpanded = expandedFolders.has(item.id);
     const isSelected = selectedFileId === item.id;
     const hasChildren = item.children && item.children.length > 0;
+    const isMultiSelected = selectedPaths.has(item.path);
+    // Dropping on a file drops into the folder that holds it
+    const dropFolder = item.type === "folder" ? item.path : getParentPath(item.path);
 
-
-    
     return (
       <div key={item.id}>
         <div
           className={`
             group flex items-center gap-1 px-2 py-1 cursor-pointer select-none
             hover:bg-[var(--bg-hover)] transition-all duration-200 ease-in-out relative
-            ${isSelected ? "bg-[var(--bg-active)] shadow-sm" : ""}
+            ${isSelected || isMultiSelected ? "bg-[var(--bg-active)] shadow-sm" : ""}
+            ${item.type === "folder" && dropTarget === item.path ? "ring-1 ring-inset ring-[var(--accent-primary)]" : ""}
             rounded-sm
           `}
           style={{ paddingLeft: `${8 + depth * 16}px` }}
-          onClick={() => {
+          draggable={!!onMoveItems && !isRootFolder(item)}
+          onDragStart={(e) => handleDragStart(e, item)}
+          onDragOver={(e) => handleDragOver(e, dropFolder)}
+          onDragLeave={() => setDropTarget((prev) => (prev === dropFolder ? null : prev))}
+          onDrop={(e) => handleDrop(e, dropFolder)}
+          onDragEnd={() => setDropTarget(null)}
+          onClick={(e) => {
+            if (e.metaKey || e.ctrlKey) {
+              toggleSelected(item.path);
+              return;
+            }
+            setSelectedPaths(new Set());
             if (item.type === "folder") {
               toggleFolder(item.id);
             } else {
               handleFileClick(item.id);
             }
           }}
+          onDoubleClick={() => {
+            if (item.type === "file") {
+              onFileSelect?.(item.id, { preview: false });
+            }
+          }}
           onContextMenu={(e) => handleContextMenu(e, item)}
         >
           {/* Expand/Collapse Icon for Folders */}
@@ -176,6 +336,7 @@ export function Sidebar({
             className={`
               text-sm flex-1 truncate
               ${isSelected ? "text-[var(--text-primary)]" : "text-[var(--text-secondary)]"}
+              ${isRootFolder(item) ? "font-semibold" : ""}
             `}
           >
             {item.name}
@@ -214,6 +375,18 @@ export function Sidebar({
         {item.type === "folder" && isExpanded && hasChildren && (
           <div className="animate-in fade-in slide-down duration-200">
             {item.children!.map((child) => renderFileItem(child, depth + 1))}
+            {item.hasMoreChildren &&
+              renderLoadMore(item.path, item.children!.length, depth + 1)}
+          </div>
+        )}
+
+        {/* Children requested but not arrived yet */}
+        {item.type === "folder" && isExpanded && item.children === undefined && (
+          <div
+            className="px-2 py-1 text-xs text-[var(--text-tertiary)] select-none"
+            style={{ paddingLeft: `${8 + (depth + 1) * 16 + 20}px` }}
+          >
+            Loading…
           </div>
         )}
       </div>
@@ -244,7 +417,10 @@ export function Sidebar({
               <>
                 <FolderIcon className="w-4 h-4 text-[var(--text-secondary)] shrink-0" />
                 <span className="text-sm font-medium text-[var(--text-primary)] truncate">
-                  {currentFolder.split("/").pop() || currentFolder}
+                  {workspaceName ||
+                    (isMultiRoot
+                      ? "Untitled Workspace"
+                      : currentFolder.split("/").pop() || currentFolder)}
                 </span>
               </>
             ) : (
@@ -279,6 +455,17 @@ export function Sidebar({
                 >
                   <FolderIcon className="w-4 h-4" />
                 </button>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onShowRecentlyDeleted?.();
+                  }}
+                  className="w-6 h-6 flex items-center justify-center hover:bg-[var(--bg-hover)] rounded transition-all duration-200 ease-in-out shrink-0 text-[var(--text-secondary)] hover:text-[var(--text-primary)]"
+                  aria-label="Recently deleted"
+                  title="Recently deleted"
+                >
+                  <TrashIcon className="w-4 h-4" />
+                </button>
               </>
             )}
             <button
@@ -324,7 +511,24 @@ export function Sidebar({
               </p>
             </div>
           ) : (
-            <div className="py-1">{files.map((file) => renderFileItem(file))}</div>
+            <div
+              className={`py-1 min-h-full ${
+                dropTarget === currentFolder
+                  ? "ring-1 ring-inset ring-[var(--accent-primary)]"
+                  : ""
+              }`}
+              // With several roots, items are dropped on one of the root folders instead
+              onDragOver={(e) => !isMultiRoot && handleDragOver(e, currentFolder)}
+              onDragLeave={() =>
+                setDropTarget((prev) => (prev === currentFolder ? null : prev))
+              }
+              onDrop={(e) => !isMultiRoot && handleDrop(e, currentFolder)}
+            >
+              {files.map((file) => renderFileItem(file))}
+              {hasMoreFiles &&
+                currentFolder &&
+                renderLoadMore(currentFolder, files.length, 0)}
+            </div>
           )}
         </div>
       </div>
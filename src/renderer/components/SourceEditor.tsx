@@ -0,0 +1,320 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import hljs from "highlight.js/lib/core";
+import markdownLanguage from "highlight.js/lib/languages/markdown";
+import { ChevronRightIcon } from "./Icons";
+import {
+  editorHtmlToFileContent,
+  fileContentToEditorHtml,
+} from "../utils/fileContent";
+import { createLiteralSearchRegex } from "../utils/editorText";
+
+hljs.registerLanguage("markdown", markdownLanguage);
+
+interface SourceSelection {
+  from: number;
+  to: number;
+}
+
+interface SourceEditorProps {
+  /** The tab's editor HTML; shown and edited as the file's markdown */
+  content: string;
+  filePath: string;
+  /** Called with the editor HTML for the edited markdown */
+  onChange: (content: string) => void;
+  /** Selection to start with, as offsets into the markdown */
+  initialSelection?: SourceSelection;
+  onSelectionChange?: (selection: SourceSelection) => void;
+  onCursorChange?: (line: number, column: number) => void;
+  editable?: boolean;
+}
+
+/**
+ * Highlight markdown and split the HTML into lines, closing and reopening the
+ * spans that cross line breaks
+ */
+function highlightLines(text: string): string[] {
+  const html = hljs.highlight(text, { language: "markdown", ignoreIllegals: true }).value;
+  const lines: string[] = [];
+  const openSpans: string[] = [];
+  let line = "";
+  for (const part of html.split(/(<span[^>]*>|<\/span>|\n)/)) {
+    if (part === "\n") {
+      lines.push(line + "</span>".repeat(openSpans.length));
+      line = openSpans.join("");
+    } else if (part.startsWith("<span")) {
+      openSpans.push(part);
+      line += part;
+    } else if (part === "</span>") {
+      openSpans.pop();
+      line += part;
+    } else {
+      line += part;
+    }
+  }
+  lines.push(line);
+  return lines;
+}
+
+/**
+ * SourceEditor - Plain-text markdown editor with syntax highlighting, line
+ * numbers and search, for editing the exact source of a file
+ */
+export function SourceEditor({
+  content,
+  filePath,
+  onChange,
+  initialSelection,
+  onSelectionChange,
+  onCursorChange,
+  editable = true,
+}: SourceEditorProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+
+  // Source typed here, kept while the content is the HTML it was converted to,
+  // so edits are not reformatted under the cursor
+  const [draft, setDraft] = useState<{ html: string; text: string } | null>(null);
+  const source = useMemo(
+    () => editorHtmlToFileContent(filePath, content),
+    [filePath, content]
+  );
+  const text = draft?.html === content ? draft.text : source;
+  const lines = useMemo(() => highlightLines(text), [text]);
+  const [currentLine, setCurrentLine] = useState(0);
+
+  // Search state
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  // Match selected with Enter or the arrows; -1 until one is
+  const [currentMatchIndex, setCurrentMatchIndex] = useState(-1);
+  const searchMatches = useMemo(() => {
+    if (!isSearchOpen || !searchTerm) return [];
+    const regex = createLiteralSearchRegex(searchTerm, { caseSensitive });
+    return Array.from(text.matchAll(regex), (match) => ({
+      start: match.index,
+      end: match.index + match[0].length,
+    }));
+  }, [text, isSearchOpen, searchTerm, caseSensitive]);
+
+  const scrollToOffset = (offset: number) => {
+    const scrollElement = scrollRef.current;
+    const lineIndex = text.slice(0, offset).split("\n").length - 1;
+    const lineElement = scrollElement?.querySelectorAll(".source-editor-line")[lineIndex];
+    if (scrollElement && lineElement instanceof HTMLElement) {
+      const top = lineElement.offsetTop;
+      if (
+        top < scrollElement.scrollTop ||
+        top > scrollElement.scrollTop + scrollElement.clientHeight - 40
+      ) {
+        scrollElement.scrollTop = top - scrollElement.clientHeight / 3;
+      }
+    }
+  };
+
+  const reportSelection = () => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const { selectionStart, selectionEnd } = textarea;
+    const linesBefore = textarea.value.slice(0, selectionStart).split("\n");
+    setCurrentLine(linesBefore.length - 1);
+    onSelectionChange?.({ from: selectionStart, to: selectionEnd });
+    onCursorChange?.(linesBefore.length, linesBefore[linesBefore.length - 1].length + 1);
+  };
+
+  // Start where the rich editor's cursor was
+  const initialSelectionRef = useRef(initialSelection);
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    const selection = initialSelectionRef.current;
+    if (!textarea) return;
+    textarea.focus({ preventScroll: true });
+    if (!selection) return;
+
+    textarea.setSelectionRange(selection.from, selection.to);
+    const lineIndex = textarea.value.slice(0, selection.from).split("\n").length - 1;
+    setCurrentLine(lineIndex);
+    const lineElement = scrollRef.current?.querySelectorAll(".source-editor-line")[lineIndex];
+    if (scrollRef.current && lineElement instanceof HTMLElement) {
+      scrollRef.current.scrollTop = lineElement.offsetTop - scrollRef.current.clientHeight / 3;
+    }
+  }, []);
+
+  const handleChange = (value: string) => {
+    const html = fileContentToEditorHtml(filePath, value);
+    setDraft({ html, text: value });
+    onChange(html);
+  };
+
+  const selectMatch = (index: number) => {
+    const match = searchMatches[index];
+    const textarea = textareaRef.current;
+    if (!match || !textarea) return;
+    setCurrentMatchIndex(index);
+    textarea.setSelectionRange(match.start, match.end);
+    scrollToOffset(match.start);
+    reportSelection();
+  };
+
+  const goToMatch = (step: 1 | -1) => {
+    const count = searchMatches.length;
+    if (count === 0) return;
+    selectMatch(
+      currentMatchIndex === -1
+        ? step === 1 ? 0 : count - 1
+        : (Math.min(currentMatchIndex, count - 1) + step + count) % count
+    );
+  };
+
+  const openSearch = () => {
+    const textarea = textareaRef.current;
+    const selected = textarea?.value.slice(textarea.selectionStart, textarea.selectionEnd);
+    if (selected && !selected.includes("\n")) {
+      setSearchTerm(selected);
+    }
+    setIsSearchOpen(true);
+    setTimeout(() => {
+      searchInputRef.current?.focus();
+      searchInputRef.current?.select();
+    }, 0);
+  };
+
+  const closeSearch = () => {
+    setIsSearchOpen(false);
+    textareaRef.current?.focus();
+  };
+
+  const matchIndex = Math.min(currentMatchIndex, searchMatches.length - 1);
+
+  return (
+    <div
+      className="relative flex-1 flex flex-col overflow-hidden bg-[var(--bg-primary)]"
+      onKeyDown={(e) => {
+        if ((e.metaKey || e.ctrlKey) && !e.shiftKey && e.key.toLowerCase() === "f") {
+          e.preventDefault();
+          openSearch();
+        } else if (e.key === "Escape" && isSearchOpen) {
+          closeSearch();
+        }
+      }}
+    >
+      {/* Search Bar */}
+      {isSearchOpen && (
+        <div className="absolute top-0 right-0 z-50 bg-[var(--bg-secondary)] border-b border-l border-[var(--border-primary)] rounded-bl-lg shadow-xl">
+          <div className="flex gap-2 items-center px-3 py-2">
+            <input
+              ref={searchInputRef}
+              type="text"
+              value={searchTerm}
+              onChange={(e) => {
+                setSearchTerm(e.target.value);
+                setCurrentMatchIndex(-1);
+              }}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  goToMatch(e.shiftKey ? -1 : 1);
+                }
+              }}
+              placeholder="Search source..."
+              className="w-64 px-2 py-1.5 bg-[var(--bg-primary)] border border-[var(--border-primary)] rounded text-sm text-[var(--text-primary)] focus:outline-none focus:ring-2 focus:ring-[var(--accent-primary)]"
+            />
+            <button
+              type="button"
+              onClick={() => {
+                setCaseSensitive((value) => !value);
+                setCurrentMatchIndex(-1);
+              }}
+              className={`px-2 py-1 rounded text-xs transition-colors ${
+                caseSensitive
+                  ? "bg-[var(--accent-primary)] text-white"
+                  : "text-[var(--text-secondary)] hover:bg-[var(--bg-hover)]"
+              }`}
+              title="Case sensitive"
+            >
+              Aa
+            </button>
+            <button
+              type="button"
+              onClick={() => goToMatch(-1)}
+              disabled={searchMatches.length === 0}
+              className="px-2 py-1 rounded text-[var(--text-secondary)] hover:bg-[var(--bg-hover)] hover:text-[var(--text-primary)] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              title="Previous match (Shift+Enter)"
+            >
+              <ChevronRightIcon className="w-3 h-3 -rotate-90" />
+            </button>
+            <button
+              type="button"
+              onClick={() => goToMatch(1)}
+              disabled={searchMatches.length === 0}
+              className="px-2 py-1 rounded text-[var(--text-secondary)] hover:bg-[var(--bg-hover)] hover:text-[var(--text-primary)] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              title="Next match (Enter)"
+            >
+              <ChevronRightIcon className="w-3 h-3 rotate-90" />
+            </button>
+            {searchTerm && (
+              <span className="px-2 py-1 text-xs text-[var(--text-secondary)] whitespace-nowrap">
+                {searchMatches.length === 0
+                  ? "No results"
+                  : matchIndex === -1
+                    ? `${searchMatches.length} matches`
+                    : `${matchIndex + 1} of ${searchMatches.length}`}
+              </span>
+            )}
+            <button
+              type="button"
+              onClick={closeSearch}
+              className="px-2 py-1 rounded text-[var(--text-secondary)] hover:bg-[var(--bg-hover)] hover:text-[var(--text-primary)] transition-colors"
+              title="Close (Esc)"
+            >
+              ×
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div ref={scrollRef} className="overflow-y-auto flex-1">
+        <div className="source-editor">
+          {/* Highlighted source, one element per line for the line numbers */}
+          <pre className="source-editor-highlight" aria-hidden="true">
+            {lines.map((html, index) => (
+              <div
+                key={index}
+                className={`source-editor-line ${
+                  index === currentLine ? "is-current" : ""
+                }`}
+                dangerouslySetInnerHTML={{ __html: html }}
+              />
+            ))}
+          </pre>
+
+          {/* Search matches, laid out like the text */}
+          {searchMatches.length > 0 && (
+            <pre className="source-editor-matches" aria-hidden="true">
+              {searchMatches.map((match, index) => (
+                <span key={match.start}>
+                  {text.slice(index === 0 ? 0 : searchMatches[index - 1].end, match.start)}
+                  <mark className={index === matchIndex ? "is-current" : ""}>
+                    {text.slice(match.start, match.end)}
+                  </mark>
+                </span>
+              ))}
+              {text.slice(searchMatches[searchMatches.length - 1].end)}
+            </pre>
+          )}
+
+          <textarea
+            ref={textareaRef}
+            value={text}
+            readOnly={!editable}
+            onChange={(e) => handleChange(e.target.value)}
+            onSelect={reportSelection}
+            spellCheck={false}
+            className="source-editor-input"
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -10,6 +10,12 @@ export interface CursorPosition {
 export interface StatusBarProps {
   cursorPosition?: CursorPosition;
   fileType?: string;
+  /** Display name of the active file's encoding */
+  encoding?: string;
+  onEncodingClick?: (e: React.MouseEvent) => void;
+  /** How a markdown file is shown; the button switches between the two */
+  viewMode?: "Rich Text" | "Source";
+  onViewModeClick?: () => void;
   lastSaved?: Date | null;
   editorMode?: "Insert" | "Overwrite";
   isAIConnected?: boolean;
@@ -21,6 +27,10 @@ export interface StatusBarProps {
 export function StatusBar({
   cursorPosition = { line: 1, column: 1 },
   fileType,
+  encoding,
+  onEncodingClick,
+  viewMode,
+  onViewModeClick,
   lastSaved,
   editorMode = "Insert",
   isAIConnected = true,
@@ -99,13 +109,33 @@ export function StatusBar({
         </span>
       </div>
 
-      {/* Middle: File Type */}
-      <div className="flex items-center">
+      {/* Middle: File Type and Encoding */}
+      <div className="flex gap-2 items-center">
         {fileType && (
           <span className="px-2 py-0.5 rounded bg-[var(--bg-primary)] border border-[var(--border-primary)]">
             {getFileTypeDisplay(fileType)}
           </span>
         )}
+        {encoding && (
+          <button
+            type="button"
+            onClick={onEncodingClick}
+            className="px-2 py-0.5 rounded hover:bg-[var(--bg-hover)] hover:text-[var(--text-primary)] transition-colors"
+            title="Reopen or save with encoding"
+          >
+            {encoding}
+          </button>
+        )}
+        {viewMode && (
+          <button
+            type="button"
+            onClick={onViewModeClick}
+            className="px-2 py-0.5 rounded hover:bg-[var(--bg-hover)] hover:text-[var(--text-primary)] transition-colors"
+            title="Switch between rich text and markdown source (⌘/)"
+          >
+            {viewMode}
+          </button>
+        )}
       </div>
 
       {/* Right: Saved Time, Editor Mode, AI Status */}
@@ -1,5 +1,6 @@
 import { useState, useRef, useEffect } from "react";
-import { FileIcon } from "./Icons";
+import { FileIcon, PinIcon } from "./Icons";
+import type { FileVersion, TextEncoding } from "../../shared/types";
 
 
 
@@ -10,6 +11,20 @@ export interface TabData {
   fileName: string;
   isModified: boolean;
   content?: string;
+  /** Version of the file on disk when it was last read or saved */
+  diskVersion?: FileVersion;
+  /** Encoding the file was read in and is saved back in (text tabs) */
+  encoding?: TextEncoding;
+  /** Data URL of the image shown by a read-only image preview tab */
+  imageSrc?: string;
+  /** Opened with a single click; replaced by the next file opened that way until edited or kept */
+  isPreview?: boolean;
+  /** Kept at the start of the strip and left open by Close Others / Close All */
+  isPinned?: boolean;
+  /** Markdown shown as source text instead of in the rich editor */
+  isSourceMode?: boolean;
+  /** The file was deleted from disk; its content is kept but no longer auto-saved */
+  isDeleted?: boolean;
 }
 
 interface TabProps {
@@ -21,6 +36,8 @@ interface TabProps {
   onCloseAll: () => void;
   onRevealInExplorer: () => void;
   onRename: (newName: string) => void;
+  onTogglePin: () => void;
+  onKeepOpen: () => void;
 }
 
 /**
@@ -35,6 +52,8 @@ export function Tab({
   onCloseAll,
   onRevealInExplorer,
   onRename,
+  onTogglePin,
+  onKeepOpen,
 }: TabProps) {
   const [isRenaming, setIsRenaming] = useState(false);
   const [renameValue, setRenameValue] = useState(tab.fileName);
@@ -62,7 +81,12 @@ export function Tab({
     };
   }, [contextMenu]);
 
+  // Double-clicking a preview tab keeps it open; otherwise it starts a rename
   const handleDoubleClick = () => {
+    if (tab.isPreview) {
+      onKeepOpen();
+      return;
+    }
     setIsRenaming(true);
     setRenameValue(tab.fileName);
   };
@@ -132,7 +156,12 @@ export function Tab({
             onClick={(e) => e.stopPropagation()}
           />
         ) : (
-          <span className="flex-1 min-w-0 text-xs text-[var(--text-primary)] truncate">
+          <span
+            className={`flex-1 min-w-0 text-xs text-[var(--text-primary)] truncate ${
+              tab.isPreview ? "italic" : ""
+            } ${tab.isDeleted ? "line-through" : ""}`}
+            title={tab.isDeleted ? "Deleted from disk" : undefined}
+          >
             {tab.fileName}
           </span>
         )}
@@ -142,8 +171,23 @@ export function Tab({
           <div className="w-1.5 h-1.5 rounded-full bg-[var(--accent-primary)] flex-shrink-0" />
         )}
 
+        {/* Pinned tabs show an unpin button in place of the close button */}
+        {tab.isPinned && !isRenaming && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onTogglePin();
+            }}
+            className="w-4 h-4 flex items-center justify-center rounded hover:bg-[var(--bg-active)] text-[var(--text-secondary)] flex-shrink-0"
+            aria-label="Unpin tab"
+            title="Unpin"
+          >
+            <PinIcon className="w-3 h-3" />
+          </button>
+        )}
+
         {/* Close Button */}
-        {!isRenaming && (
+        {!isRenaming && !tab.isPinned && (
           <button
             onClick={handleClose}
             className="w-4 h-4 flex items-center justify-center rounded hover:bg-[var(--bg-active)] opacity-0 group-hover:opacity-100 transition-opacity flex-shrink-0"
@@ -202,6 +246,26 @@ export function Tab({
             Close All
           </button>
           <div className="border-t border-[var(--border-primary)] my-1" />
+          <button
+            className="flex items-center w-full px-3 py-1.5 text-sm text-[var(--text-primary)] hover:bg-[var(--bg-hover)] transition-colors"
+            onClick={() => {
+              onTogglePin();
+              setContextMenu(null);
+            }}
+          >
+            {tab.isPinned ? "Unpin" : "Pin"}
+          </button>
+          {tab.isPreview && (
+            <button
+              className="flex items-center w-full px-3 py-1.5 text-sm text-[var(--text-primary)] hover:bg-[var(--bg-hover)] transition-colors"
+              onClick={() => {
+                onKeepOpen();
+                setContextMenu(null);
+              }}
+            >
+              Keep Open
+            </button>
+          )}
           <button
             className="flex items-center w-full px-3 py-1.5 text-sm text-[var(--text-primary)] hover:bg-[var(--bg-hover)] transition-colors"
             onClick={() => {
@@ -1,15 +1,31 @@
-import { useRef, useEffect } from "react";
+import { useState, useRef, useEffect } from "react";
 import { Tab, type TabData } from "./Tab";
+import { isCopyDrag } from "../utils/dragAndDrop";
+
+// Drag data of a tab dragged to another editor group: { groupId, tabId }
+export const TAB_DRAG_MIME = "application/x-intellirite-tab";
+
+export interface TabDragData {
+  groupId: string;
+  tabId: string;
+}
 
 interface TabStripProps {
   tabs: TabData[];
   activeTabId: string | null;
+  /** Editor group the strip belongs to; its tabs can be dragged to other groups */
+  groupId?: string;
   onTabSelect: (tabId: string) => void;
   onTabClose: (tabId: string) => void;
   onTabCloseOthers: (tabId: string) => void;
   onTabCloseAll: () => void;
   onTabRevealInExplorer: (filePath: string) => void;
   onTabRename: (tabId: string, newName: string) => void;
+  onTabTogglePin: (tabId: string) => void;
+  onTabKeepOpen: (tabId: string) => void;
+  /** A tab dragged onto the strip, to go before beforeTabId (or at the end when null) */
+  onTabDrop?: (source: TabDragData, beforeTabId: string | null, copy: boolean) => void;
+  onSplit?: () => void;
 }
 
 /**
@@ -18,15 +34,40 @@ interface TabStripProps {
 export function TabStrip({
   tabs,
   activeTabId,
+  groupId,
   onTabSelect,
   onTabClose,
   onTabCloseOthers,
   onTabCloseAll,
   onTabRevealInExplorer,
   onTabRename,
+  onTabTogglePin,
+  onTabKeepOpen,
+  onTabDrop,
+  onSplit,
 }: TabStripProps) {
   const stripRef = useRef<HTMLDivElement>(null);
   const activeTabRef = useRef<HTMLDivElement>(null);
+  // Where a dragged tab would be dropped: before this tab, or at the end when null
+  const [dropBefore, setDropBefore] = useState<string | null | undefined>(undefined);
+
+  const handleDragOver = (e: React.DragEvent, beforeTabId: string | null) => {
+    if (!onTabDrop || !e.dataTransfer.types.includes(TAB_DRAG_MIME)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    e.dataTransfer.dropEffect = isCopyDrag(e) ? "copy" : "move";
+    setDropBefore(beforeTabId);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    const data = e.dataTransfer.getData(TAB_DRAG_MIME);
+    const beforeTabId = dropBefore ?? null;
+    setDropBefore(undefined);
+    if (!onTabDrop || !data) return;
+    e.preventDefault();
+    e.stopPropagation();
+    onTabDrop(JSON.parse(data) as TabDragData, beforeTabId, isCopyDrag(e));
+  };
 
   // Scroll active tab into view
   useEffect(() => {
@@ -58,15 +99,40 @@ export function TabStrip({
     <div className="h-9 bg-[var(--bg-secondary)] border-b border-[var(--border-primary)] flex items-center overflow-x-auto overflow-y-hidden scrollbar-thin scrollbar-thumb-[var(--border-primary)] scrollbar-track-transparent">
       <div
         ref={stripRef}
-        className="flex items-center h-full min-w-full"
+        className={`flex items-center h-full min-w-full ${
+          dropBefore === null ? "shadow-[inset_-2px_0_0_var(--accent-primary)]" : ""
+        }`}
         style={{ scrollbarWidth: "thin" }}
+        onDragOver={(e) => handleDragOver(e, null)}
+        onDragLeave={(e) => {
+          if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+            setDropBefore(undefined);
+          }
+        }}
+        onDrop={handleDrop}
       >
         {tabs.map((tab, index) => (
           <div
             key={tab.id}
             ref={tab.id === activeTabId ? activeTabRef : null}
-            className="slide-in-right"
+            className={`slide-in-right ${
+              dropBefore === tab.id ? "shadow-[inset_2px_0_0_var(--accent-primary)]" : ""
+            }`}
             style={{ animationDelay: `${index * 20}ms` }}
+            draggable={groupId !== undefined}
+            onDragStart={(e) => {
+              if (groupId === undefined) return;
+              const data: TabDragData = { groupId, tabId: tab.id };
+              e.dataTransfer.setData(TAB_DRAG_MIME, JSON.stringify(data));
+              e.dataTransfer.effectAllowed = "copyMove";
+            }}
+            onDragOver={(e) => {
+              // Drop before this tab over its left half, before the next one over its right half
+              const rect = e.currentTarget.getBoundingClientRect();
+              const isLeftHalf = e.clientX < rect.left + rect.width / 2;
+              handleDragOver(e, isLeftHalf ? tab.id : tabs[index + 1]?.id ?? null);
+            }}
+            onDragEnd={() => setDropBefore(undefined)}
           >
             <Tab
               tab={tab}
@@ -80,10 +146,34 @@ export function TabStrip({
               onCloseAll={onTabCloseAll}
               onRevealInExplorer={() => onTabRevealInExplorer(tab.filePath)}
               onRename={(newName) => onTabRename(tab.id, newName)}
+              onTogglePin={() => onTabTogglePin(tab.id)}
+              onKeepOpen={() => onTabKeepOpen(tab.id)}
             />
           </div>
         ))}
       </div>
+      {onSplit && (
+        <button
+          type="button"
+          onClick={onSplit}
+          className="sticky right-0 h-full px-2 flex items-center shrink-0 bg-[var(--bg-secondary)] text-[var(--text-tertiary)] hover:text-[var(--text-primary)] transition-colors"
+          title="Split Editor"
+          aria-label="Split Editor"
+        >
+          <svg width="14" height="14" viewBox="0 0 14 14" fill="none">
+            <rect
+              x="1.5"
+              y="2"
+              width="11"
+              height="10"
+              rx="1"
+              stroke="currentColor"
+              strokeWidth="1.2"
+            />
+            <path d="M7 2V12" stroke="currentColor" strokeWidth="1.2" />
+          </svg>
+        </button>
+      )}
     </div>
   );
 }
@@ -0,0 +1,60 @@
+import { FileIcon } from "./Icons";
+import type { TabData } from "./Tab";
+
+interface TabSwitcherProps {
+  /** Open tabs, most recently used first */
+  tabs: TabData[];
+  selectedIndex: number;
+  onSelect: (tabId: string) => void;
+}
+
+/**
+ * TabSwitcher - Ctrl+Tab overlay listing open tabs by most recent use; the
+ * highlighted tab is opened when Ctrl is released
+ */
+export function TabSwitcher({ tabs, selectedIndex, onSelect }: TabSwitcherProps) {
+  return (
+    <div className="fixed top-16 left-1/2 -translate-x-1/2 w-[420px] max-w-[90vw] max-h-[60vh] overflow-y-auto py-1 bg-[var(--bg-secondary)] border border-[var(--border-primary)] rounded-lg shadow-2xl z-50 scale-in">
+      {tabs.map((tab, index) => {
+        const parts = tab.fileName.split(".");
+        const folder = tab.filePath.split("/").slice(-2, -1)[0];
+        return (
+          <button
+            key={tab.id}
+            type="button"
+            // Selected on mouse down so the switch happens before Ctrl is released
+            onMouseDown={(e) => {
+              e.preventDefault();
+              onSelect(tab.id);
+            }}
+            className={`w-full flex items-center gap-2 px-3 py-1.5 text-left transition-colors ${
+              index === selectedIndex
+                ? "bg-[var(--bg-active)]"
+                : "hover:bg-[var(--bg-hover)]"
+            }`}
+          >
+            <FileIcon
+              extension={parts.length > 1 ? parts[parts.length - 1] : ""}
+              className="w-4 h-4 shrink-0"
+            />
+            <span
+              className={`text-sm text-[var(--text-primary)] truncate ${
+                tab.isPreview ? "italic" : ""
+              }`}
+            >
+              {tab.fileName}
+            </span>
+            {folder && (
+              <span className="text-xs text-[var(--text-tertiary)] truncate">
+                {folder}
+              </span>
+            )}
+            {tab.isModified && (
+              <span className="ml-auto w-1.5 h-1.5 rounded-full bg-[var(--accent-primary)] shrink-0" />
+            )}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
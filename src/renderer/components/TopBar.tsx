@@ -108,6 +108,8 @@ const CloseIcon = () => (
 
 interface TopBarProps {
   onOpenSettings?: () => void;
+  /** Called with the query when Enter is pressed in the search box */
+  onSearch?: (query: string) => void;
 }
 
 
@@ -119,7 +121,7 @@ interface TopBarProps {
 /**
  * TopBar component - Custom title bar with app branding, search, and window controls
  */
-export function TopBar({ onOpenSettings }: TopBarProps = {}) {
+export function TopBar({ onOpenSettings, onSearch }: TopBarProps = {}) {
   const [searchValue, setSearchValue] = useState("");
   const [isMaximized, setIsMaximized] = useState(false);
 
@@ -246,9 +248,14 @@ export function TopBar({ onOpenSettings }: TopBarProps = {}) {
           <input
             type="text"
             className="flex-1 text-xs text-[var(--text-primary)] bg-transparent border-none outline-none p-0 placeholder:text-[var(--text-tertiary)]"
-            placeholder="Search..."
+            placeholder="Search in files..."
             value={searchValue}
             onChange={(e) => setSearchValue(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && searchValue.trim()) {
+                onSearch?.(searchValue.trim());
+              }
+            }}
             aria-label="Search"
           />
         </div>
@@ -0,0 +1,52 @@
+import { useEffect } from "react";
+
+interface UndoToastProps {
+  message: string;
+  actionLabel?: string;
+  /** Dismiss automatically after this many milliseconds */
+  duration?: number;
+  onAction: () => void;
+  onDismiss: () => void;
+}
+
+/**
+ * UndoToast - Short-lived notice at the bottom of the window with an undo action
+ */
+export function UndoToast({
+  message,
+  actionLabel = "Undo",
+  duration = 8000,
+  onAction,
+  onDismiss,
+}: UndoToastProps) {
+  useEffect(() => {
+    const timeout = setTimeout(onDismiss, duration);
+    return () => clearTimeout(timeout);
+  }, [message, duration, onDismiss]);
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-10 left-1/2 -translate-x-1/2 z-50 flex items-center gap-4 px-4 py-2 bg-[var(--bg-secondary)] border border-[var(--border-primary)] rounded-lg shadow-2xl slide-up"
+    >
+      <span className="text-sm text-[var(--text-primary)] max-w-[400px] truncate">
+        {message}
+      </span>
+      <button
+        type="button"
+        onClick={onAction}
+        className="text-sm font-medium text-[var(--accent-primary)] hover:underline"
+      >
+        {actionLabel}
+      </button>
+      <button
+        type="button"
+        onClick={onDismiss}
+        className="text-[var(--text-tertiary)] hover:text-[var(--text-primary)] transition-colors"
+        aria-label="Dismiss"
+      >
+        ×
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import { FileIcon, FolderIcon, PinIcon } from "./Icons";
+import { getBaseName } from "../utils/fileTree";
+import type { RecentItem } from "../../shared/types";
+
+interface WelcomeScreenProps {
+  recentItems: RecentItem[];
+  /** A folder is open, so files can be picked from the sidebar */
+  hasWorkspace: boolean;
+  onOpenFolder: () => void;
+  onOpenWorkspace: () => void;
+  onOpenRecent: (item: RecentItem) => void;
+  onTogglePin: (item: RecentItem) => void;
+  onRemoveRecent: (item: RecentItem) => void;
+}
+
+/**
+ * Display name of a recent item: workspace files without their extension
+ */
+function getRecentItemName(item: RecentItem): string {
+  const name = getBaseName(item.path);
+  return item.kind === "workspace" ? name.replace(/\.[^.]+$/, "") : name;
+}
+
+/**
+ * WelcomeScreen - Empty editor state with the recent workspaces and files
+ */
+export function WelcomeScreen({
+  recentItems,
+  hasWorkspace,
+  onOpenFolder,
+  onOpenWorkspace,
+  onOpenRecent,
+  onTogglePin,
+  onRemoveRecent,
+}: WelcomeScreenProps) {
+  const recentWorkspaces = recentItems.filter((item) => item.kind !== "file");
+  const recentFiles = recentItems.filter((item) => item.kind === "file");
+
+  const renderItem = (item: RecentItem) => (
+    <li
+      key={item.path}
+      className="group flex items-center gap-2 rounded hover:bg-[var(--bg-hover)] transition-colors"
+    >
+      <button
+        type="button"
+        onClick={() => onOpenRecent(item)}
+        className="flex-1 min-w-0 flex items-center gap-2 px-2 py-1.5 text-left"
+        title={item.path}
+      >
+        {item.kind === "file" ? (
+          <FileIcon
+            extension={item.path.split(".").pop()}
+            className="w-4 h-4 shrink-0"
+          />
+        ) : (
+          <FolderIcon className="w-4 h-4 text-[var(--text-secondary)] shrink-0" />
+        )}
+        <span className="text-sm text-[var(--accent-primary)] truncate">
+          {getRecentItemName(item)}
+        </span>
+        <span className="text-xs text-[var(--text-tertiary)] truncate">
+          {item.path}
+        </span>
+      </button>
+      <button
+        type="button"
+        onClick={() => onTogglePin(item)}
+        className={`p-1 rounded transition-colors hover:text-[var(--text-primary)] ${
+          item.pinned
+            ? "text-[var(--text-secondary)]"
+            : "text-[var(--text-tertiary)] opacity-0 group-hover:opacity-100"
+        }`}
+        title={item.pinned ? "Unpin" : "Pin"}
+        aria-label={item.pinned ? "Unpin" : "Pin"}
+      >
+        <PinIcon className="w-3.5 h-3.5" />
+      </button>
+      <button
+        type="button"
+        onClick={() => onRemoveRecent(item)}
+        className="p-1 mr-1 rounded text-[var(--text-tertiary)] hover:text-[var(--text-primary)] opacity-0 group-hover:opacity-100 transition-colors"
+        title="Remove from list"
+        aria-label="Remove from list"
+      >
+        ×
+      </button>
+    </li>
+  );
+
+  return (
+    <div className="flex-1 overflow-y-auto">
+      <div className="max-w-2xl mx-auto px-8 py-16 flex flex-col gap-8 fade-in">
+        <div>
+          <h1 className="text-xl font-semibold text-[var(--text-white)]">
+            Intellirite
+          </h1>
+          <p className="text-md text-[var(--text-secondary)]">
+            Desktop Writing IDE
+          </p>
+          {hasWorkspace && (
+            <p className="text-sm text-[var(--text-tertiary)] mt-4">
+              Click a file in the sidebar to open it
+            </p>
+          )}
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={onOpenFolder}
+            className="px-4 py-2 text-sm bg-[var(--accent-primary)] hover:bg-[var(--accent-hover)] text-white rounded transition-colors"
+          >
+            Open Folder
+          </button>
+          <button
+            type="button"
+            onClick={onOpenWorkspace}
+            className="px-4 py-2 text-sm text-[var(--text-primary)] border border-[var(--border-primary)] hover:bg-[var(--bg-hover)] rounded transition-colors"
+          >
+            Open Workspace
+          </button>
+        </div>
+
+        {recentWorkspaces.length > 0 && (
+          <section>
+            <h2 className="text-xs font-semibold uppercase tracking-wide text-[var(--text-tertiary)] mb-2">
+              Recent workspaces
+            </h2>
+            <ul>{recentWorkspaces.map(renderItem)}</ul>
+          </section>
+        )}
+
+        {recentFiles.length > 0 && (
+          <section>
+            <h2 className="text-xs font-semibold uppercase tracking-wide text-[var(--text-tertiary)] mb-2">
+              Recent files
+            </h2>
+            <ul>{recentFiles.map(renderItem)}</ul>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+}
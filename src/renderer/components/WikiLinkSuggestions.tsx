@@ -0,0 +1,177 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { Editor } from "@tiptap/react";
+import { FileIcon } from "./Icons";
+import { findWikiLinkQuery, insertWikiLink } from "../utils/wikiLinks";
+import type { WikiNote } from "../../shared/types";
+
+interface WikiLinkSuggestionsProps {
+  editor: Editor;
+  /** Notes that can be linked to; fetched each time a [[ is typed */
+  getNotes: () => Promise<WikiNote[]>;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+/**
+ * Notes matching a query: names starting with it first, then names and
+ * folders containing it
+ */
+function filterNotes(notes: WikiNote[], query: string): WikiNote[] {
+  const wanted = query.trim().toLowerCase();
+  if (!wanted) return notes.slice(0, MAX_SUGGESTIONS);
+
+  const rank = (note: WikiNote) => {
+    const name = note.name.toLowerCase();
+    if (name.startsWith(wanted)) return 0;
+    if (name.includes(wanted)) return 1;
+    return note.linkTarget.toLowerCase().includes(wanted) ||
+      note.folder.toLowerCase().includes(wanted)
+      ? 2
+      : -1;
+  };
+  return notes
+    .map((note) => ({ note, rank: rank(note) }))
+    .filter(({ rank }) => rank !== -1)
+    .sort((a, b) => a.rank - b.rank || a.note.name.localeCompare(b.note.name))
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ note }) => note);
+}
+
+/**
+ * WikiLinkSuggestions - Autocomplete of workspace notes while a [[link]] is
+ * typed in the editor
+ */
+export function WikiLinkSuggestions({ editor, getNotes }: WikiLinkSuggestionsProps) {
+  const [query, setQuery] = useState<ReturnType<typeof findWikiLinkQuery>>(null);
+  const [notes, setNotes] = useState<WikiNote[] | null>(null);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const isOpen = query !== null;
+
+  // Follow the text before the cursor
+  useEffect(() => {
+    const update = () => {
+      // Not for content set while the editor is in the background
+      const next = editor.isFocused ? findWikiLinkQuery(editor) : null;
+      setQuery((previous) =>
+        previous?.from === next?.from && previous?.query === next?.query ? previous : next
+      );
+    };
+    editor.on("transaction", update);
+    return () => {
+      editor.off("transaction", update);
+    };
+  }, [editor]);
+
+  // Fetch the notes when a link is started, so new files are included
+  useEffect(() => {
+    if (!isOpen) {
+      setNotes(null);
+      return;
+    }
+    let isCancelled = false;
+    getNotes()
+      .then((result) => {
+        if (!isCancelled) setNotes(result);
+      })
+      .catch((error) => {
+        console.error("Error listing notes:", error);
+        if (!isCancelled) setNotes([]);
+      });
+    return () => {
+      isCancelled = true;
+    };
+  }, [isOpen, getNotes]);
+
+  const suggestions = useMemo(
+    () => (notes && query ? filterNotes(notes, query.query) : []),
+    [notes, query]
+  );
+
+  useEffect(() => {
+    setSelectedIndex(0);
+  }, [query?.query]);
+
+  const select = (note: WikiNote) => {
+    if (!query) return;
+    insertWikiLink(editor, query, note.linkTarget);
+    setQuery(null);
+  };
+
+  // Keys go to the list before the editor while it is open
+  const keyHandlerRef = useRef<(event: KeyboardEvent) => boolean>(() => false);
+  keyHandlerRef.current = (event) => {
+    if (!query || suggestions.length === 0) return false;
+    switch (event.key) {
+      case "ArrowDown":
+        setSelectedIndex((index) => (index + 1) % suggestions.length);
+        return true;
+      case "ArrowUp":
+        setSelectedIndex((index) => (index - 1 + suggestions.length) % suggestions.length);
+        return true;
+      case "Enter":
+      case "Tab":
+        select(suggestions[Math.min(selectedIndex, suggestions.length - 1)]);
+        return true;
+      case "Escape":
+        setQuery(null);
+        return true;
+      default:
+        return false;
+    }
+  };
+
+  useEffect(() => {
+    const dom = editor.view.dom;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (keyHandlerRef.current(event)) {
+        event.preventDefault();
+        // Runs before ProseMirror's own handler on the same element
+        event.stopImmediatePropagation();
+      }
+    };
+    dom.addEventListener("keydown", handleKeyDown, true);
+    return () => {
+      dom.removeEventListener("keydown", handleKeyDown, true);
+    };
+  }, [editor]);
+
+  if (!query || !notes) return null;
+
+  const coords = editor.view.coordsAtPos(query.from);
+
+  return (
+    <div
+      className="fixed z-50 w-72 py-1 bg-[var(--bg-secondary)] border border-[var(--border-primary)] rounded-lg shadow-xl"
+      style={{ left: coords.left, top: coords.bottom + 4 }}
+      onMouseDown={(e) => e.preventDefault()}
+    >
+      {suggestions.length === 0 ? (
+        <p className="px-3 py-1.5 text-xs text-[var(--text-tertiary)]">
+          No matching notes; type ]] to link anyway
+        </p>
+      ) : (
+        suggestions.map((note, index) => (
+          <button
+            key={note.filePath}
+            type="button"
+            onClick={() => select(note)}
+            onMouseEnter={() => setSelectedIndex(index)}
+            className={`w-full flex items-center gap-2 px-3 py-1.5 text-left text-sm transition-colors ${
+              index === selectedIndex
+                ? "bg-[var(--bg-hover)] text-[var(--text-primary)]"
+                : "text-[var(--text-secondary)]"
+            }`}
+          >
+            <FileIcon className="w-3.5 h-3.5 shrink-0" extension="md" />
+            <span className="truncate">{note.name}</span>
+            {note.folder && (
+              <span className="ml-auto text-xs text-[var(--text-tertiary)] truncate">
+                {note.folder}
+              </span>
+            )}
+          </button>
+        ))
+      )}
+    </div>
+  );
+}
@@ -1,16 +1,30 @@
 // Component exports for easier imports
 export { TopBar } from './TopBar'
 export { Sidebar } from './Sidebar'
-export { ContextMenu } from './ContextMenu'
+export { ContextMenu, type ContextMenuItem } from './ContextMenu'
 export { NewFileDialog } from './NewFileDialog'
-export { TabStrip } from './TabStrip'
+export { TabSwitcher } from './TabSwitcher'
+export { TabStrip, TAB_DRAG_MIME, type TabDragData } from './TabStrip'
 export { Tab, type TabData } from './Tab'
 export { Editor } from './Editor'
+export { SourceEditor } from './SourceEditor'
 export { ChatPanel } from './ChatPanel'
 export { StatusBar, type CursorPosition, type StatusBarProps } from './StatusBar'
 export { CommandPalette, type Command } from './CommandPalette'
 export { SettingsModal } from './SettingsModal'
 export { InputDialog } from './InputDialog'
+export { FileConflictDialog } from './FileConflictDialog'
+export { SearchPanel, type SearchNavigationTarget } from './SearchPanel'
+export { ReplacePreviewDialog } from './ReplacePreviewDialog'
+export { UndoToast } from './UndoToast'
+export { RecentlyDeletedDialog } from './RecentlyDeletedDialog'
+export { HistoryPanel } from './HistoryPanel'
+export { OutlinePanel } from './OutlinePanel'
+export { BacklinksPanel } from './BacklinksPanel'
+export { PropertiesPanel } from './PropertiesPanel'
+export { RecoveryDialog } from './RecoveryDialog'
+export { ImagePreview } from './ImagePreview'
+export { WelcomeScreen } from './WelcomeScreen'
 export { DiffViewer } from './DiffViewer'
 export { PatchPreview, type Patch } from './PatchPreview'
 export * from './Icons'
@@ -189,6 +189,8 @@ export function useAIChat() {
                     currentFileName,
                     editorContext.content
                 );
+                activeFile.metadata = editorContext.metadata;
+                activeFile.bibliography = editorContext.bibliography;
 
                 // Add selection if exists
                 if (editorContext.selection) {
@@ -0,0 +1,190 @@
+// Workspace Replace Hook
+// Replace across files on top of workspace search: per-occurrence selection,
+// per-file previews and a batch apply that can be undone as a unit
+
+import { useState, useCallback } from 'react';
+import type { BatchFileWrite, ReplacePreview, SearchMatch, SearchOptions } from '../../shared/types';
+import type { FileSearchResult } from './useWorkspaceSearch';
+import { getErrorMessage, unwrapFsResult } from '../utils/fsResult';
+
+export interface ReplaceBatchSummary {
+    filePaths: string[];
+    fileCount: number;
+    replacedCount: number;
+    skippedCount: number;
+}
+
+interface AppliedBatch extends ReplaceBatchSummary {
+    // Writes that put every file back the way it was
+    undoWrites: BatchFileWrite[];
+}
+
+function getMatchKey(match: SearchMatch): string {
+    return `${match.filePath}:${match.line}:${match.column}`;
+}
+
+/**
+ * Hook for replacing search results across files
+ */
+export function useWorkspaceReplace(results: FileSearchResult[]) {
+    const [excludedMatches, setExcludedMatches] = useState<Set<string>>(new Set());
+    const [isApplying, setIsApplying] = useState(false);
+    const [lastBatch, setLastBatch] = useState<AppliedBatch | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const isMatchIncluded = useCallback((match: SearchMatch) => {
+        return !excludedMatches.has(getMatchKey(match));
+    }, [excludedMatches]);
+
+    /**
+     * Tick or untick a single occurrence
+     */
+    const toggleMatch = useCallback((match: SearchMatch) => {
+        setExcludedMatches(prev => {
+            const next = new Set(prev);
+            const key = getMatchKey(match);
+            if (next.has(key)) {
+                next.delete(key);
+            } else {
+                next.add(key);
+            }
+            return next;
+        });
+    }, []);
+
+    /**
+     * Tick or untick every occurrence in a file
+     */
+    const setFileIncluded = useCallback((matches: SearchMatch[], included: boolean) => {
+        setExcludedMatches(prev => {
+            const next = new Set(prev);
+            matches.forEach(match => {
+                if (included) {
+                    next.delete(getMatchKey(match));
+                } else {
+                    next.add(getMatchKey(match));
+                }
+            });
+            return next;
+        });
+    }, []);
+
+    /**
+     * Forget which occurrences were unticked (e.g. when a new search starts)
+     */
+    const resetSelection = useCallback(() => {
+        setExcludedMatches(new Set());
+    }, []);
+
+    /**
+     * Work out a file's content after replacing its ticked occurrences
+     */
+    const previewFile = useCallback(async (
+        file: FileSearchResult,
+        options: SearchOptions,
+        replaceText: string
+    ): Promise<ReplacePreview> => {
+        const result = unwrapFsResult(await window.workspaceSearch.previewReplace({
+            filePath: file.filePath,
+            matches: file.matches.filter(isMatchIncluded),
+            options,
+            replaceText,
+        }));
+        return result.preview;
+    }, [isMatchIncluded]);
+
+    /**
+     * Replace every ticked occurrence, writing all files as one batch
+     * @param beforeApply - Called with the affected files before they are read,
+     *                      so unsaved editor changes can be flushed first
+     */
+    const apply = useCallback(async (
+        options: SearchOptions,
+        replaceText: string,
+        beforeApply?: (filePaths: string[]) => Promise<void>
+    ): Promise<ReplaceBatchSummary | null> => {
+        const files = results.filter(file => file.matches.some(isMatchIncluded));
+        if (files.length === 0) return null;
+
+        setIsApplying(true);
+        setError(null);
+
+        try {
+            await beforeApply?.(files.map(file => file.filePath));
+
+            const previews = await Promise.all(files.map(file => previewFile(file, options, replaceText)));
+            const changed = previews.filter(preview => preview.newContent !== preview.originalContent);
+
+            const result = await window.fileSystem.writeFiles(changed.map(preview => ({
+                filePath: preview.filePath,
+                expectedContent: preview.originalContent,
+                content: preview.newContent,
+            })));
+            if (!result.success) {
+                setError(result.error.message);
+                return null;
+            }
+
+            const batch: AppliedBatch = {
+                filePaths: changed.map(preview => preview.filePath),
+                fileCount: changed.length,
+                replacedCount: previews.reduce((sum, preview) => sum + preview.replacedCount, 0),
+                skippedCount: previews.reduce((sum, preview) => sum + preview.skippedCount, 0),
+                undoWrites: changed.map(preview => ({
+                    filePath: preview.filePath,
+                    expectedContent: preview.newContent,
+                    content: preview.originalContent,
+                })),
+            };
+            setLastBatch(batch);
+            setExcludedMatches(new Set());
+            return batch;
+        } catch (err) {
+            console.error('Error replacing in files:', err);
+            setError(getErrorMessage(err));
+            return null;
+        } finally {
+            setIsApplying(false);
+        }
+    }, [results, isMatchIncluded, previewFile]);
+
+    /**
+     * Revert the last applied batch. Refused if any of its files changed since.
+     * @returns The reverted files, or null when nothing was undone
+     */
+    const undo = useCallback(async (): Promise<string[] | null> => {
+        if (!lastBatch) return null;
+
+        setIsApplying(true);
+        setError(null);
+
+        try {
+            const result = await window.fileSystem.writeFiles(lastBatch.undoWrites);
+            if (!result.success) {
+                setError(`Cannot undo: ${result.error.message}`);
+                return null;
+            }
+            setLastBatch(null);
+            return lastBatch.filePaths;
+        } catch (err) {
+            console.error('Error undoing replace:', err);
+            setError(getErrorMessage(err));
+            return null;
+        } finally {
+            setIsApplying(false);
+        }
+    }, [lastBatch]);
+
+    return {
+        isMatchIncluded,
+        toggleMatch,
+        setFileIncluded,
+        resetSelection,
+        previewFile,
+        apply,
+        undo,
+        lastBatch,
+        isApplying,
+        error,
+    };
+}
@@ -0,0 +1,115 @@
+// Workspace Search Hook
+// Runs Find in Files in the main process and collects the streamed results
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { SearchMatch, SearchOptions, SearchSummary } from '../../shared/types';
+
+export interface FileSearchResult {
+    filePath: string;
+    matches: SearchMatch[];
+}
+
+export type SearchStatus = 'idle' | 'searching' | 'done';
+
+/**
+ * Hook for workspace-wide search
+ * Results arrive per file while the search is running; starting a new
+ * search replaces the previous one.
+ */
+export function useWorkspaceSearch() {
+    const [results, setResults] = useState<FileSearchResult[]>([]);
+    const [status, setStatus] = useState<SearchStatus>('idle');
+    const [summary, setSummary] = useState<SearchSummary | null>(null);
+    const activeSearchId = useRef<string | null>(null);
+    const nextSearchId = useRef(1);
+
+    // Subscribe to streamed batches for the lifetime of the component
+    useEffect(() => {
+        if (!window.workspaceSearch) return;
+
+        const offResults = window.workspaceSearch.onResults((batch) => {
+            if (batch.searchId !== activeSearchId.current) return;
+            setResults(prev => [...prev, { filePath: batch.filePath, matches: batch.matches }]);
+        });
+
+        const offDone = window.workspaceSearch.onDone((done) => {
+            if (done.searchId !== activeSearchId.current) return;
+            activeSearchId.current = null;
+            setSummary(done);
+            setStatus('done');
+        });
+
+        return () => {
+            offResults();
+            offDone();
+        };
+    }, []);
+
+    /**
+     * Start a new search, cancelling any search still running
+     */
+    const search = useCallback(async (options: SearchOptions) => {
+        if (!window.workspaceSearch) {
+            console.error('Workspace search API not available');
+            return;
+        }
+
+        if (activeSearchId.current) {
+            await window.workspaceSearch.cancel(activeSearchId.current);
+        }
+
+        setResults([]);
+        setSummary(null);
+
+        if (!options.query) {
+            activeSearchId.current = null;
+            setStatus('idle');
+            return;
+        }
+
+        const searchId = `search-${Date.now()}-${nextSearchId.current++}`;
+        activeSearchId.current = searchId;
+        setStatus('searching');
+
+        try {
+            const result = await window.workspaceSearch.start(searchId, options);
+            if (!result.success) {
+                activeSearchId.current = null;
+                setSummary({ searchId, matchCount: 0, fileCount: 0, limitHit: false, cancelled: false, error: result.error.message });
+                setStatus('done');
+            }
+        } catch (error) {
+            console.error('Error starting search:', error);
+            activeSearchId.current = null;
+            setStatus('done');
+        }
+    }, []);
+
+    /**
+     * Stop the running search, keeping the results found so far
+     */
+    const cancel = useCallback(async () => {
+        if (!activeSearchId.current || !window.workspaceSearch) return;
+        await window.workspaceSearch.cancel(activeSearchId.current);
+    }, []);
+
+    /**
+     * Forget the current results
+     */
+    const clear = useCallback(() => {
+        void cancel();
+        activeSearchId.current = null;
+        setResults([]);
+        setSummary(null);
+        setStatus('idle');
+    }, [cancel]);
+
+    return {
+        results,
+        status,
+        summary,
+        search,
+        cancel,
+        clear,
+    };
+}
@@ -1,5 +1,35 @@
 // Type declarations for Electron APIs exposed to renderer
 
+import type {
+    BatchFileWrite,
+    Bibliography,
+    DeletedItem,
+    FileContents,
+    FileVersion,
+    FileWriteResult,
+    FileWatchEvent,
+    FolderListing,
+    FsResult,
+    HistoryEntry,
+    PathRename,
+    ReadFolderOptions,
+    RecentItem,
+    RecentOpenResult,
+    ReplacePreview,
+    ReplacePreviewRequest,
+    SearchMatch,
+    SearchOptions,
+    SearchResultBatch,
+    SearchSummary,
+    TextEncoding,
+    TransferOptions,
+    TransferResult,
+    UnsavedBuffer,
+    Workspace,
+    WikiNote,
+    WorkspaceSession,
+} from '../../shared/types';
+
 interface WindowState {
     isMaximized: boolean;
 }
@@ -19,15 +49,117 @@ interface WindowControls {
     onStateChange: (callback: (state: WindowState) => void) => () => void;
 }
 
+/**
+ * File-system calls resolve with { success: false, error } (an FsError with a
+ * code and a message fit for the user) instead of rejecting
+ */
 interface FileSystem {
     openFolder: () => Promise<string | null>;
-    readFolder: (path: string) => Promise<any[]>;
-    readFile: (filePath: string) => Promise<{ success: boolean; content: string }>;
-    writeFile: (filePath: string, content: string) => Promise<{ success: boolean }>;
-    createFile: (path: string, name: string) => Promise<{ success: boolean; path: string }>;
-    createFolder: (path: string, name: string) => Promise<{ success: boolean; path: string }>;
-    rename: (oldPath: string, newName: string) => Promise<{ success: boolean; path: string }>;
-    delete: (path: string) => Promise<{ success: boolean }>;
+    readFolder: (path: string, options?: ReadFolderOptions) => Promise<FsResult<FolderListing>>;
+    /** With an encoding, always decodes as text in it (reopen with encoding) */
+    readFile: (filePath: string, encoding?: TextEncoding) => Promise<FsResult<FileContents>>;
+    /**
+     * With expectedVersion, fails with a CONFLICT error (and writes nothing) if the file changed on disk.
+     * Writes UTF-8 unless an encoding is given.
+     */
+    writeFile: (filePath: string, content: string, expectedVersion?: FileVersion, encoding?: TextEncoding) => Promise<FileWriteResult>;
+    writeFiles: (writes: BatchFileWrite[]) => Promise<FsResult<{ count: number }>>;
+    createFile: (path: string, name: string) => Promise<FsResult<{ path: string }>>;
+    createFolder: (path: string, name: string) => Promise<FsResult<{ path: string }>>;
+    rename: (oldPath: string, newName: string) => Promise<FsResult<{ path: string }>>;
+    move: (sourcePaths: string[], targetFolder: string, options?: TransferOptions) => Promise<FsResult<TransferResult>>;
+    copy: (sourcePaths: string[], targetFolder: string, options?: TransferOptions) => Promise<FsResult<TransferResult>>;
+    delete: (path: string, rootPath?: string) => Promise<FsResult<{ item: DeletedItem }>>;
+    listDeleted: () => Promise<FsResult<{ items: DeletedItem[] }>>;
+    restoreDeleted: (id: string) => Promise<FsResult<{ item: DeletedItem }>>;
+    watchFolder: (path: string) => Promise<FsResult>;
+    unwatchFolder: (path: string) => Promise<{ success: boolean }>;
+    onWatchEvent: (callback: (events: FileWatchEvent[]) => void) => () => void;
+}
+
+interface WorkspaceApi {
+    /** Pick and open a workspace file; folders that no longer exist are left out and listed */
+    open: () => Promise<FsResult<{ workspace: Workspace | null; missingFolders?: string[] }>>;
+    /** Resolves with a null filePath when the save dialog was cancelled */
+    save: (workspace: Workspace, saveAs?: boolean) => Promise<FsResult<{ filePath: string | null }>>;
+}
+
+interface RecentApi {
+    list: () => Promise<FsResult<{ items: RecentItem[] }>>;
+    /** Reopen a recent item; its folder becomes a workspace root again without a dialog */
+    open: (itemPath: string) => Promise<FsResult<RecentOpenResult>>;
+    addFile: (filePath: string, rootPath?: string) => Promise<FsResult<{ items: RecentItem[] }>>;
+    setPinned: (itemPath: string, pinned: boolean) => Promise<FsResult<{ items: RecentItem[] }>>;
+    remove: (itemPath: string) => Promise<FsResult<{ items: RecentItem[] }>>;
+}
+
+interface LocalHistoryApi {
+    /** Snapshots of a file, newest first */
+    list: (filePath: string) => Promise<FsResult<{ entries: HistoryEntry[] }>>;
+    read: (filePath: string, entryId: string) => Promise<FsResult<{ content: string }>>;
+    /** Write a snapshot back to the file; fails with CONFLICT if it changed since expectedVersion */
+    restore: (
+        filePath: string,
+        entryId: string,
+        expectedVersion?: FileVersion,
+        encoding?: TextEncoding
+    ) => Promise<FsResult<{ content: string; version: FileVersion }>>;
+}
+
+interface HotExitApi {
+    write: (buffer: UnsavedBuffer) => Promise<FsResult>;
+    discard: (filePath: string) => Promise<FsResult>;
+    /** Buffers left unsaved by a crash or forced quit, most recently edited first */
+    list: () => Promise<FsResult<{ buffers: UnsavedBuffer[] }>>;
+    /** Names of the files with unsaved edits, for the confirmation on close */
+    setUnsavedFiles: (fileNames: string[]) => void;
+    /** Called when the user chooses to save everything before closing */
+    onSaveAll: (callback: () => void) => () => void;
+    /** Report the result of a save-all; the window closes only when it succeeded */
+    savedAll: (saved: boolean) => void;
+}
+
+interface SessionApi {
+    save: (session: WorkspaceSession) => Promise<FsResult>;
+    load: (workspace: Workspace) => Promise<FsResult<{ session: WorkspaceSession | null }>>;
+    /** Session of the last open workspace, with its folders allowed again; null when there is none */
+    restoreLast: () => Promise<FsResult<{ session: WorkspaceSession | null }>>;
+}
+
+interface WorkspaceSearchApi {
+    start: (searchId: string, options: SearchOptions) => Promise<FsResult>;
+    cancel: (searchId: string) => Promise<{ success: boolean }>;
+    previewReplace: (request: ReplacePreviewRequest) => Promise<FsResult<{ preview: ReplacePreview }>>;
+    onResults: (callback: (batch: SearchResultBatch) => void) => () => void;
+    onDone: (callback: (summary: SearchSummary) => void) => () => void;
+}
+
+interface WikiLinksApi {
+    /** Markdown files in the workspace roots */
+    listNotes: (rootPaths: string[]) => Promise<FsResult<{ notes: WikiNote[] }>>;
+    /** The note a [[target]] in fromPath points to; null when there is none */
+    resolve: (rootPaths: string[], target: string, fromPath: string) => Promise<FsResult<{ filePath: string | null }>>;
+    /** Links in other notes that point to a file */
+    backlinks: (rootPaths: string[], filePath: string) => Promise<FsResult<{ matches: SearchMatch[] }>>;
+    /** Writes that update links to renamed or moved notes, for fileSystem.writeFiles */
+    planRenames: (rootPaths: string[], renames: PathRename[]) => Promise<FsResult<{ writes: BatchFileWrite[] }>>;
+}
+
+interface CitationsApi {
+    /**
+     * The workspace bibliography: bibliographyPath (relative to the first root)
+     * or the first .bib / .csl.json file at the top of a root; null when there is none
+     */
+    loadBibliography: (rootPaths: string[], bibliographyPath?: string) => Promise<FsResult<{ bibliography: Bibliography | null }>>;
+}
+
+interface FileExportApi {
+    /** Ask where to save content, starting at defaultPath; filePath is null when cancelled */
+    save: (
+        defaultPath: string,
+        content: string,
+        filter: { name: string; extensions: string[] }
+    ) => Promise<FsResult<{ filePath: string | null }>>;
 }
 
 declare global {
@@ -35,6 +167,15 @@ declare global {
         platform: PlatformInfo;
         windowControls: WindowControls;
         fileSystem: FileSystem;
+        workspace: WorkspaceApi;
+        recent: RecentApi;
+        localHistory: LocalHistoryApi;
+        hotExit: HotExitApi;
+        session: SessionApi;
+        workspaceSearch: WorkspaceSearchApi;
+        wikiLinks: WikiLinksApi;
+        citations: CitationsApi;
+        fileExport: FileExportApi;
         ipcRenderer: {
             on: (channel: string, listener: (event: any, ...args: any[]) => void) => void;
             off: (channel: string, listener?: (...args: any[]) => void) => void;
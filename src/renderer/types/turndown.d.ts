@@ -1,7 +0,0 @@
-declare module 'turndown' {
-  export default class TurndownService {
-    constructor(options?: any)
-    turndown(html: string): string
-  }
-}
-
@@ -0,0 +1,343 @@
+import type { CitationEntry, CitationName, CitationStyle } from '../../shared/types';
+import type { CitationItem } from './markdown';
+
+/**
+ * Citation styles
+ * In-text citations and bibliography entries formatted from CSL-JSON entries.
+ * The styles are simplified versions of APA, Chicago author-date and IEEE,
+ * written by hand rather than run through a CSL processor: they cover
+ * articles, books (with theses and reports), chapters and conference papers,
+ * and the fields of CitationEntry, not every rule of the published styles.
+ * src/tests/citation-styles-test.ts shows what each entry type looks like.
+ * Bibliography entries are markdown, so they can be inserted into a document
+ * as they are.
+ */
+
+export const CITATION_STYLES: Array<{ id: CitationStyle; label: string }> = [
+  { id: 'apa', label: 'APA 7th edition (simplified)' },
+  { id: 'chicago-author-date', label: 'Chicago author-date (simplified)' },
+  { id: 'ieee', label: 'IEEE (simplified)' },
+];
+
+export const DEFAULT_CITATION_STYLE: CitationStyle = 'apa';
+
+/**
+ * Whether a style numbers sources in the order they are first cited
+ */
+export function isNumericStyle(style: CitationStyle): boolean {
+  return style === 'ieee';
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_[\]<>]/g, '\\$&');
+}
+
+function italic(text: string): string {
+  return `*${escapeMarkdown(text)}*`;
+}
+
+/**
+ * The entry's year, or "n.d." when it has none
+ */
+function getYear(entry: CitationEntry): string {
+  const year = entry.issued?.['date-parts']?.[0]?.[0];
+  return year != null ? String(year) : entry.issued?.literal ?? 'n.d.';
+}
+
+function getFamily(name: CitationName): string {
+  return name.literal ?? name.family ?? name.given ?? '';
+}
+
+/**
+ * "John Ronald" → "J. R.", "Jean-Paul" → "J.-P."
+ */
+function getInitials(given: string): string {
+  return given
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) =>
+      word
+        .split('-')
+        .map((part) => (part.endsWith('.') && part.length <= 3 ? part : `${part[0]}.`))
+        .join('-')
+    )
+    .join(' ');
+}
+
+/**
+ * Join names as "A, B, and C" (or "A, B, & C"); two names take a comma only
+ * when the style asks for it
+ */
+function joinNames(names: string[], conjunction: string, commaForTwo = false): string {
+  if (names.length <= 1) return names[0] ?? '';
+  if (names.length === 2) return `${names[0]}${commaForTwo ? ',' : ''} ${conjunction} ${names[1]}`;
+  return `${names.slice(0, -1).join(', ')}, ${conjunction} ${names[names.length - 1]}`;
+}
+
+function getNames(entry: CitationEntry): CitationName[] {
+  return entry.author?.length ? entry.author : entry.editor ?? [];
+}
+
+/**
+ * Authors as named in the text: "Smith", "Smith & Lee", "Smith et al."
+ */
+function getInTextAuthors(entry: CitationEntry, style: CitationStyle): string {
+  const families = getNames(entry).map(getFamily);
+  if (families.length === 0) return entry.title ? `“${entry.title}”` : entry.id;
+  if (style === 'apa') {
+    return families.length > 2 ? `${families[0]} et al.` : families.join(' & ');
+  }
+  return families.length > 3 ? `${families[0]} et al.` : joinNames(families, 'and');
+}
+
+/**
+ * Short description of an entry, for pickers and tooltips: "Smith et al. (2020) Title"
+ */
+export function describeCitationEntry(entry: CitationEntry): string {
+  const authors = getInTextAuthors(entry, 'apa');
+  return `${authors} (${getYear(entry)})${entry.title ? ` ${entry.title}` : ''}`;
+}
+
+/**
+ * In-text form of a citation: "(Smith, 2020, p. 4; Lee & Kim, 2019)" or "[1], [3]".
+ * Keys missing from the bibliography are shown as "key?".
+ * @param numbers - Numbers of the cited keys, for numeric styles
+ */
+export function formatCitation(
+  items: CitationItem[],
+  entries: Map<string, CitationEntry>,
+  style: CitationStyle,
+  numbers: Map<string, number>
+): string {
+  if (isNumericStyle(style)) {
+    return items
+      .map((item) => {
+        const label = `[${numbers.get(item.key) ?? `${item.key}?`}${item.suffix ? `, ${item.suffix}` : ''}]`;
+        return item.prefix ? `${item.prefix} ${label}` : label;
+      })
+      .join(', ');
+  }
+
+  const parts = items.map((item) => {
+    const entry = entries.get(item.key);
+    let text: string;
+    if (!entry) {
+      text = `${item.key}?`;
+    } else if (item.suppressAuthor) {
+      text = getYear(entry);
+    } else {
+      const separator = style === 'apa' ? ', ' : ' ';
+      text = `${getInTextAuthors(entry, style)}${separator}${getYear(entry)}`;
+    }
+    if (item.suffix) text += `, ${item.suffix}`;
+    return item.prefix ? `${item.prefix} ${text}` : text;
+  });
+  return `(${parts.join('; ')})`;
+}
+
+function getEdition(entry: CitationEntry): string | null {
+  if (!entry.edition) return null;
+  const number = Number(entry.edition);
+  if (!Number.isInteger(number)) return `${entry.edition} ed.`;
+  const suffix = number % 100 >= 11 && number % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][number % 10] ?? 'th';
+  return `${number}${suffix} ed.`;
+}
+
+function getPageLabel(page: string): string {
+  return /[-–,]/.test(page) ? `pp. ${page}` : `p. ${page}`;
+}
+
+function getLink(entry: CitationEntry): string | null {
+  if (entry.DOI) return `https://doi.org/${entry.DOI.replace(/^https?:\/\/(dx\.)?doi\.org\//, '')}`;
+  return entry.URL ?? null;
+}
+
+function isArticle(entry: CitationEntry): boolean {
+  return ['article-journal', 'article-magazine', 'article-newspaper', 'article'].includes(entry.type);
+}
+
+function isBookPart(entry: CitationEntry): boolean {
+  return ['chapter', 'paper-conference', 'entry-encyclopedia', 'entry-dictionary'].includes(entry.type);
+}
+
+function isBook(entry: CitationEntry): boolean {
+  return ['book', 'thesis', 'report', 'pamphlet', 'manuscript'].includes(entry.type);
+}
+
+/**
+ * Finish a sentence with a period unless it already ends in punctuation
+ */
+function sentence(text: string): string {
+  return /[.?!]$/.test(text) ? text : `${text}.`;
+}
+
+function formatApa(entry: CitationEntry): string {
+  const names = getNames(entry).map((name) =>
+    name.literal ?? (name.given ? `${name.family ?? ''}, ${getInitials(name.given)}` : getFamily(name))
+  );
+  const authors = escapeMarkdown(joinNames(names, '&', true));
+  const edited = !entry.author?.length && entry.editor?.length ? ` (${entry.editor.length > 1 ? 'Eds.' : 'Ed.'})` : '';
+  const title = entry.title ?? '';
+  const container = entry['container-title'];
+  const link = getLink(entry);
+  const parts: string[] = [];
+
+  parts.push(`${sentence(authors ? `${authors}${edited}` : italic(title))} (${getYear(entry)}).`);
+  if (isArticle(entry)) {
+    if (authors) parts.push(sentence(escapeMarkdown(title)));
+    let source = container ? italic(container) : '';
+    if (entry.volume) source += `, ${italic(entry.volume)}`;
+    if (entry.issue) source += `(${escapeMarkdown(entry.issue)})`;
+    if (entry.page) source += `, ${escapeMarkdown(entry.page)}`;
+    if (source) parts.push(sentence(source));
+  } else if (isBookPart(entry)) {
+    if (authors) parts.push(sentence(escapeMarkdown(title)));
+    if (container) {
+      const editors = (entry.author?.length ? entry.editor ?? [] : []).map((name) =>
+        name.literal ?? `${name.given ? `${getInitials(name.given)} ` : ''}${name.family ?? ''}`
+      );
+      const editedBy = editors.length
+        ? `${escapeMarkdown(joinNames(editors, '&', editors.length > 2))} (${editors.length > 1 ? 'Eds.' : 'Ed.'}), `
+        : '';
+      parts.push(sentence(`In ${editedBy}${italic(container)}${entry.page ? ` (${getPageLabel(entry.page)})` : ''}`));
+    }
+    if (entry.publisher) parts.push(sentence(escapeMarkdown(entry.publisher)));
+  } else {
+    const edition = getEdition(entry);
+    if (authors) parts.push(sentence(`${italic(title)}${edition ? ` (${edition})` : ''}`));
+    if (container) parts.push(sentence(escapeMarkdown(container)));
+    if (entry.publisher) parts.push(sentence(escapeMarkdown(entry.publisher)));
+  }
+  if (link) parts.push(link);
+  return parts.join(' ');
+}
+
+function formatChicago(entry: CitationEntry): string {
+  const names = getNames(entry).map((name, index) => {
+    if (name.literal || !name.given) return getFamily(name);
+    return index === 0 ? `${name.family ?? ''}, ${name.given}` : `${name.given} ${name.family ?? ''}`;
+  });
+  const authors = escapeMarkdown(joinNames(names, 'and', true));
+  const edited = !entry.author?.length && entry.editor?.length ? `, ${entry.editor.length > 1 ? 'eds' : 'ed'}` : '';
+  const title = entry.title ?? '';
+  const container = entry['container-title'];
+  const place = entry['publisher-place'];
+  const publisher = entry.publisher
+    ? escapeMarkdown(place ? `${place}: ${entry.publisher}` : entry.publisher)
+    : null;
+  const link = getLink(entry);
+  const parts: string[] = [];
+
+  // Without authors the title leads, followed by the year
+  const quotedTitle = `“${sentence(escapeMarkdown(title))}”`;
+  const leadTitle = isArticle(entry) || isBookPart(entry) ? quotedTitle : sentence(italic(title));
+  parts.push(authors ? sentence(`${authors}${edited}`) : leadTitle);
+  parts.push(sentence(getYear(entry)));
+  if (isArticle(entry)) {
+    if (authors) parts.push(quotedTitle);
+    let source = container ? italic(container) : '';
+    if (entry.volume) source += ` ${escapeMarkdown(entry.volume)}`;
+    if (entry.issue) source += ` (${escapeMarkdown(entry.issue)})`;
+    if (entry.page) source += `: ${escapeMarkdown(entry.page)}`;
+    if (source) parts.push(sentence(source));
+  } else if (isBookPart(entry)) {
+    if (authors) parts.push(quotedTitle);
+    if (container) {
+      const editors = (entry.author?.length ? entry.editor ?? [] : []).map((name) =>
+        name.literal ?? `${name.given ? `${name.given} ` : ''}${name.family ?? ''}`
+      );
+      const editedBy = editors.length ? `, edited by ${escapeMarkdown(joinNames(editors, 'and'))}` : '';
+      parts.push(sentence(`In ${italic(container)}${editedBy}${entry.page ? `, ${escapeMarkdown(entry.page)}` : ''}`));
+    }
+    if (publisher) parts.push(sentence(publisher));
+  } else {
+    if (authors) parts.push(leadTitle);
+    const edition = getEdition(entry);
+    if (edition) parts.push(edition);
+    if (container && !isBook(entry)) parts.push(sentence(escapeMarkdown(container)));
+    if (publisher) parts.push(sentence(publisher));
+  }
+  if (link) parts.push(sentence(link));
+  return parts.join(' ');
+}
+
+function formatIeee(entry: CitationEntry, number: number): string {
+  const names = getNames(entry).map((name) =>
+    name.literal ?? (name.given ? `${getInitials(name.given)} ${name.family ?? ''}` : getFamily(name))
+  );
+  const authors = escapeMarkdown(names.length > 6 ? `${names[0]} et al.` : joinNames(names, 'and', names.length > 2));
+  const title = entry.title ?? '';
+  const container = entry['container-title'];
+  const place = entry['publisher-place'];
+  const year = getYear(entry);
+  const fields: string[] = [];
+
+  if (isArticle(entry) || isBookPart(entry)) {
+    fields.push(`“${escapeMarkdown(title)},”`);
+    if (container) fields.push(isBookPart(entry) ? `in ${italic(container)},` : `${italic(container)},`);
+    const editors = isBookPart(entry) && entry.author?.length ? entry.editor ?? [] : [];
+    if (editors.length) {
+      const editorNames = editors.map((name) =>
+        name.literal ?? (name.given ? `${getInitials(name.given)} ${name.family ?? ''}` : getFamily(name))
+      );
+      fields.push(`${escapeMarkdown(joinNames(editorNames, 'and'))}, ${editors.length > 1 ? 'Eds.' : 'Ed.'}`);
+    }
+    if (isBookPart(entry) && entry.publisher) {
+      fields.push(`${escapeMarkdown(place ? `${place}: ${entry.publisher}` : entry.publisher)},`);
+    }
+    if (entry.volume) fields.push(`vol. ${escapeMarkdown(entry.volume)},`);
+    if (entry.issue) fields.push(`no. ${escapeMarkdown(entry.issue)},`);
+    if (isArticle(entry) && entry.page) fields.push(`${getPageLabel(escapeMarkdown(entry.page))},`);
+    fields.push(isBookPart(entry) && entry.page ? `${year}, ${getPageLabel(escapeMarkdown(entry.page))}` : year);
+  } else {
+    const edition = getEdition(entry);
+    fields.push(`${italic(title)},${edition ? ` ${edition}` : ''}`);
+    if (entry.publisher) fields.push(`${escapeMarkdown(place ? `${place}: ${entry.publisher}` : entry.publisher)},`);
+    fields.push(year);
+  }
+
+  let text = `\\[${number}\\] ${authors ? `${authors}, ` : ''}${sentence(fields.join(' '))}`;
+  if (entry.DOI) text += ` doi: ${entry.DOI}.`;
+  else if (entry.URL) text += ` [Online]. Available: ${entry.URL}`;
+  return text;
+}
+
+/**
+ * A bibliography entry in a style, as markdown
+ * @param number - The entry's number, for numeric styles
+ */
+export function formatReference(entry: CitationEntry, style: CitationStyle, number = 0): string {
+  switch (style) {
+    case 'chicago-author-date':
+      return formatChicago(entry);
+    case 'ieee':
+      return formatIeee(entry, number);
+    default:
+      return formatApa(entry);
+  }
+}
+
+/**
+ * Bibliography of the cited entries in a style, one markdown paragraph each:
+ * in citation order for numeric styles, otherwise by author and year
+ * @param citedKeys - Keys in the order they are first cited
+ */
+export function formatBibliography(
+  citedKeys: string[],
+  entries: Map<string, CitationEntry>,
+  style: CitationStyle
+): string[] {
+  const cited = citedKeys
+    .map((key) => entries.get(key))
+    .filter((entry): entry is CitationEntry => !!entry);
+
+  if (isNumericStyle(style)) {
+    return cited.map((entry, index) => formatReference(entry, style, index + 1));
+  }
+
+  const sortKey = (entry: CitationEntry) =>
+    `${getNames(entry).map(getFamily).join(' ') || entry.title || entry.id} ${getYear(entry)}`.toLowerCase();
+  return [...cited]
+    .sort((a, b) => sortKey(a).localeCompare(sortKey(b)))
+    .map((entry) => formatReference(entry, style));
+}
@@ -0,0 +1,290 @@
+import { InputRule, Node, mergeAttributes, type Editor } from '@tiptap/react';
+import type { CitationEntry, CitationStyle } from '../../shared/types';
+import { markdownToEditorHtml, parseCitation } from './markdown';
+import {
+  DEFAULT_CITATION_STYLE,
+  describeCitationEntry,
+  formatBibliography,
+  formatCitation,
+  isNumericStyle,
+} from './citationStyles';
+
+type ProseMirrorNode = Editor['state']['doc'];
+
+// Headings a generated bibliography goes under; the first is used for new ones
+const BIBLIOGRAPHY_HEADINGS = ['References', 'Bibliography', 'Works Cited'];
+
+/**
+ * Keys cited in a document, in the order they are first cited
+ */
+export function getCitedKeys(doc: ProseMirrorNode): string[] {
+  const keys = new Set<string>();
+  doc.descendants((node) => {
+    if (node.type.name === 'citation') {
+      parseCitation(String(node.attrs.source))?.forEach((item) => keys.add(item.key));
+    }
+    return true;
+  });
+  return [...keys];
+}
+
+/**
+ * What an editor's citations are shown with: the workspace bibliography, the
+ * style, and for numeric styles the numbers of the cited sources. Citations
+ * are drawn again whenever it changes.
+ */
+export class CitationContext {
+  /** Null when the workspace has no bibliography */
+  entries: Map<string, CitationEntry> | null = null;
+  style: CitationStyle = DEFAULT_CITATION_STYLE;
+  numbers = new Map<string, number>();
+  private listeners = new Set<() => void>();
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  setBibliography(entries: CitationEntry[] | null, style: CitationStyle, doc: ProseMirrorNode): void {
+    this.entries = entries && new Map(entries.map((entry) => [entry.id, entry]));
+    this.style = style;
+    this.updateNumbers(doc, true);
+  }
+
+  /**
+   * Number sources by their first citation, after the document changed
+   */
+  updateNumbers(doc: ProseMirrorNode, isChanged = false): void {
+    const numbers = new Map<string, number>();
+    if (isNumericStyle(this.style)) {
+      getCitedKeys(doc)
+        .filter((key) => this.entries?.has(key))
+        .forEach((key, index) => numbers.set(key, index + 1));
+    }
+
+    const isSame =
+      numbers.size === this.numbers.size &&
+      [...numbers].every(([key, number]) => this.numbers.get(key) === number);
+    if (isSame && !isChanged) return;
+    this.numbers = numbers;
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export interface CitationOptions {
+  context: CitationContext | null;
+}
+
+/**
+ * Pandoc citation, written [@key] or [see @key, p. 4; -@other] (see
+ * utils/markdown.ts), shown formatted in the workspace's citation style.
+ * Keys missing from the bibliography are flagged.
+ */
+export const Citation = Node.create<CitationOptions>({
+  name: 'citation',
+  group: 'inline',
+  inline: true,
+  atom: true,
+  selectable: true,
+
+  addOptions() {
+    return { context: null };
+  },
+
+  addAttributes() {
+    return {
+      source: {
+        default: '',
+        parseHTML: (element) => element.getAttribute('data-source') ?? '',
+        renderHTML: (attributes) => ({ 'data-source': attributes.source }),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'span[data-type="citation"]' }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return [
+      'span',
+      mergeAttributes(HTMLAttributes, { 'data-type': 'citation', class: 'editor-citation' }),
+      String(node.attrs.source),
+    ];
+  },
+
+  renderText({ node }) {
+    return String(node.attrs.source);
+  },
+
+  addNodeView() {
+    return ({ node }) => {
+      const source = String(node.attrs.source);
+      const items = parseCitation(source) ?? [];
+      const context = this.options.context;
+      const dom = document.createElement('span');
+      dom.className = 'editor-citation';
+      dom.dataset.type = 'citation';
+
+      const render = () => {
+        const entries = context?.entries;
+        if (!context || !entries) {
+          dom.textContent = source;
+          dom.title = 'No bibliography found for this workspace';
+          dom.classList.remove('editor-citation-unknown');
+          return;
+        }
+        dom.textContent = formatCitation(items, entries, context.style, context.numbers);
+        dom.classList.toggle('editor-citation-unknown', items.some((item) => !entries.has(item.key)));
+        dom.title = items
+          .map((item) => {
+            const entry = entries.get(item.key);
+            return entry ? describeCitationEntry(entry) : `@${item.key} is not in the bibliography`;
+          })
+          .join('\n');
+      };
+
+      render();
+      const unsubscribe = context?.subscribe(render);
+      return {
+        dom,
+        destroy: () => unsubscribe?.(),
+      };
+    };
+  },
+
+  onTransaction({ transaction }) {
+    if (transaction.docChanged) {
+      this.options.context?.updateNumbers(this.editor.state.doc);
+    }
+  },
+
+  addInputRules() {
+    return [
+      new InputRule({
+        find: /\[[^[\]\n]*@[^[\]\n]*\]$/,
+        handler: ({ state, range, match }) => {
+          if (!parseCitation(match[0])) return null;
+          state.tr.replaceWith(range.from, range.to, this.type.create({ source: match[0] }));
+        },
+      }),
+    ];
+  },
+});
+
+/**
+ * A citation key being typed before the cursor ([@ or [see @smi), for
+ * autocomplete. `text` is the citation up to the key.
+ */
+export function findCitationQuery(
+  editor: Editor
+): { from: number; to: number; text: string; query: string } | null {
+  const { selection } = editor.state;
+  const { $from } = selection;
+  if (!selection.empty || !$from.parent.isTextblock || $from.parent.type.spec.code) return null;
+  if ($from.marks().some((mark) => mark.type.name === 'code')) return null;
+
+  const textBefore = $from.parent.textBetween(0, $from.parentOffset, undefined, '\ufffc');
+  const match = /\[((?:[^[\]\n]*[\s;])?-?@)([\w:.#$%&+?<>~/-]*)$/.exec(textBefore);
+  if (!match) return null;
+  return {
+    from: $from.pos - match[0].length,
+    to: $from.pos,
+    text: `[${match[1]}`,
+    query: match[2],
+  };
+}
+
+/**
+ * Complete a typed citation with a key, closing it (and eating a ] right
+ * after it) so it becomes a citation node
+ */
+export function insertCitation(
+  editor: Editor,
+  range: { from: number; to: number; text: string },
+  key: string
+): void {
+  const end = editor.state.doc.resolve(range.to).end();
+  const after = editor.state.doc.textBetween(range.to, Math.min(range.to + 1, end));
+  editor
+    .chain()
+    .focus()
+    .insertContentAt(
+      { from: range.from, to: after === ']' ? range.to + 1 : range.to },
+      { type: 'citation', attrs: { source: `${range.text}${key}]` } }
+    )
+    .run();
+}
+
+/**
+ * Citations citing keys missing from the bibliography, in document order
+ */
+export function findUnknownCitations(
+  doc: ProseMirrorNode,
+  entries: Map<string, CitationEntry>
+): Array<{ pos: number; keys: string[] }> {
+  const unknown: Array<{ pos: number; keys: string[] }> = [];
+  doc.descendants((node, pos) => {
+    if (node.type.name === 'citation') {
+      const keys = (parseCitation(String(node.attrs.source)) ?? [])
+        .map((item) => item.key)
+        .filter((key) => !entries.has(key));
+      if (keys.length > 0) unknown.push({ pos, keys });
+    }
+    return true;
+  });
+  return unknown;
+}
+
+/**
+ * Write the bibliography of the document's citations under its References
+ * (or Bibliography) heading, replacing what was there; a document without
+ * one gets a References section at the end
+ * @returns the number of entries written
+ */
+export function insertBibliography(
+  editor: Editor,
+  entries: Map<string, CitationEntry>,
+  style: CitationStyle
+): number {
+  const { doc } = editor.state;
+  const references = formatBibliography(getCitedKeys(doc), entries, style);
+  const body = markdownToEditorHtml(references.join('\n\n'));
+
+  // The existing section, up to the next heading of the same or a higher level
+  let section = null as { from: number; to: number; level: number } | null;
+  doc.forEach((node, pos) => {
+    if (node.type.name !== 'heading') return;
+    const level = Number(node.attrs.level);
+    if (section && section.to === doc.content.size && level <= section.level) {
+      section.to = pos;
+    } else if (
+      !section &&
+      BIBLIOGRAPHY_HEADINGS.some((name) => name.toLowerCase() === node.textContent.trim().toLowerCase())
+    ) {
+      section = { from: pos + node.nodeSize, to: doc.content.size, level };
+    }
+  });
+
+  const chain = editor.chain().focus();
+  if (section) {
+    const { from, to } = section;
+    chain.insertContentAt({ from, to }, body);
+  } else {
+    chain.insertContentAt(doc.content.size, `<h2>${BIBLIOGRAPHY_HEADINGS[0]}</h2>${body}`);
+  }
+  chain.scrollIntoView().run();
+  return references.length;
+}
+
+/**
+ * Entries of the bibliography an editor's citations are drawn from, or null
+ * when the workspace has none
+ */
+export function getCitationEntries(editor: Editor): CitationEntry[] | null {
+  const citation = editor.extensionManager.extensions.find((extension) => extension.name === 'citation');
+  const entries = (citation?.options as CitationOptions | undefined)?.context?.entries;
+  return entries ? [...entries.values()] : null;
+}
@@ -0,0 +1,220 @@
+import CodeBlockLowlight, { type CodeBlockLowlightOptions } from '@tiptap/extension-code-block-lowlight';
+import type { Editor } from '@tiptap/react';
+import type { Viz } from '@viz-js/viz';
+import DOMPurify from 'dompurify';
+import type { Mermaid } from 'mermaid';
+
+type ProseMirrorNode = Editor['state']['doc'];
+
+// Fenced code languages drawn as diagrams, and what draws them
+const DIAGRAM_RENDERERS: Record<string, { label: string; render: (source: string) => Promise<string> }> = {
+  mermaid: { label: 'Mermaid', render: renderMermaid },
+  dot: { label: 'Graphviz', render: renderGraphviz },
+  graphviz: { label: 'Graphviz', render: renderGraphviz },
+};
+
+// Wait after the last keystroke before drawing again
+const RENDER_DELAY = 300;
+
+/**
+ * Whether code blocks in a language are drawn as diagrams
+ */
+export function isDiagramLanguage(language: unknown): boolean {
+  return typeof language === 'string' && language.toLowerCase() in DIAGRAM_RENDERERS;
+}
+
+// The renderers are large, so they are loaded the first time a diagram is drawn
+let mermaidLoader: Promise<Mermaid> | null = null;
+let vizLoader: Promise<Viz> | null = null;
+let mermaidCount = 0;
+
+async function renderMermaid(source: string): Promise<string> {
+  mermaidLoader ??= import('mermaid').then((module) => module.default);
+  const mermaid = await mermaidLoader;
+  mermaid.initialize({
+    startOnLoad: false,
+    securityLevel: 'strict',
+    suppressErrorRendering: true,
+    // Plain SVG text, so exported diagrams open outside a browser
+    htmlLabels: false,
+    theme: document.documentElement.dataset.theme === 'light' ? 'default' : 'dark',
+  });
+  mermaidCount += 1;
+  const { svg } = await mermaid.render(`mermaid-diagram-${mermaidCount}`, source);
+  return svg;
+}
+
+async function renderGraphviz(source: string): Promise<string> {
+  vizLoader ??= import('@viz-js/viz').then((module) => module.instance());
+  const viz = await vizLoader;
+  return viz.renderString(source, { format: 'svg' });
+}
+
+/**
+ * Strip scripts, event handlers, links and embedded HTML from a drawn diagram.
+ * Diagram sources can set link targets (Graphviz URL, mermaid click), which
+ * would otherwise be live in the editor.
+ */
+function sanitizeSvg(svg: string): string {
+  return DOMPurify.sanitize(svg, {
+    USE_PROFILES: { svg: true, svgFilters: true },
+    FORBID_TAGS: ['a', 'foreignObject'],
+    FORBID_ATTR: ['href', 'xlink:href'],
+  });
+}
+
+export interface DiagramCodeBlockOptions extends CodeBlockLowlightOptions {
+  /** Called with the SVG of a diagram to export; no export button without it */
+  onExport: ((svg: string, language: string) => void) | null;
+}
+
+function createButton(label: string, onClick: () => void): HTMLButtonElement {
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.textContent = label;
+  button.addEventListener('mousedown', (event) => event.preventDefault());
+  button.addEventListener('click', (event) => {
+    event.preventDefault();
+    onClick();
+  });
+  return button;
+}
+
+/**
+ * Code block with syntax highlighting; mermaid and dot (Graphviz) blocks are
+ * also drawn as diagrams, offline, with a toggle back to their source and an
+ * SVG export. Blocks start out drawn unless they are empty.
+ */
+export const DiagramCodeBlock = CodeBlockLowlight.extend<DiagramCodeBlockOptions>({
+  addOptions() {
+    return {
+      ...this.parent!(),
+      onExport: null,
+    };
+  },
+
+  addNodeView() {
+    return ({ node, HTMLAttributes }) => {
+      let current = node;
+      const language = () => String(current.attrs.language ?? '');
+      const pre = document.createElement('pre');
+      Object.entries(HTMLAttributes).forEach(([name, value]) => {
+        if (value != null) pre.setAttribute(name, String(value));
+      });
+      const code = document.createElement('code');
+      const setLanguageClass = () => {
+        code.className = language() ? `${this.options.languageClassPrefix}${language()}` : '';
+      };
+      setLanguageClass();
+      pre.append(code);
+
+      // Other code blocks look as they would without a node view
+      if (!isDiagramLanguage(language())) {
+        return {
+          dom: pre,
+          contentDOM: code,
+          update: (updated: ProseMirrorNode) => {
+            if (updated.type !== current.type || isDiagramLanguage(updated.attrs.language)) return false;
+            current = updated;
+            setLanguageClass();
+            return true;
+          },
+        };
+      }
+
+      const renderer = DIAGRAM_RENDERERS[language().toLowerCase()];
+      const dom = document.createElement('div');
+      dom.className = 'editor-diagram';
+      const toolbar = document.createElement('div');
+      toolbar.className = 'editor-diagram-toolbar';
+      toolbar.contentEditable = 'false';
+      const label = document.createElement('span');
+      label.textContent = renderer.label;
+      const preview = document.createElement('div');
+      preview.className = 'editor-diagram-preview';
+      preview.contentEditable = 'false';
+      dom.append(toolbar, pre, preview);
+
+      let isShowingSource = !current.textContent.trim();
+      let svg: string | null = null;
+      let renderedSource: string | null = null;
+      let renderCount = 0;
+      let renderTimer: ReturnType<typeof setTimeout> | null = null;
+
+      const toggleButton = createButton('', () => {
+        isShowingSource = !isShowingSource;
+        showMode();
+      });
+      const exportButton = createButton('Export SVG', () => {
+        if (svg) this.options.onExport?.(svg, language());
+      });
+      toolbar.append(label, toggleButton);
+      if (this.options.onExport) toolbar.append(exportButton);
+
+      const render = async () => {
+        const source = current.textContent;
+        if (source === renderedSource) return;
+        renderedSource = source;
+        renderCount += 1;
+        const renderId = renderCount;
+        svg = null;
+        exportButton.disabled = true;
+        if (!source.trim()) {
+          preview.className = 'editor-diagram-preview editor-diagram-empty';
+          preview.textContent = 'Empty diagram';
+          return;
+        }
+        try {
+          const drawn = sanitizeSvg(await renderer.render(source));
+          if (renderId !== renderCount) return;
+          svg = drawn;
+          preview.className = 'editor-diagram-preview';
+          preview.innerHTML = drawn;
+          exportButton.disabled = false;
+        } catch (error) {
+          if (renderId !== renderCount) return;
+          preview.className = 'editor-diagram-preview editor-diagram-error';
+          preview.textContent = error instanceof Error ? error.message : String(error);
+        }
+      };
+
+      const showMode = () => {
+        pre.hidden = !isShowingSource;
+        preview.hidden = isShowingSource;
+        toggleButton.textContent = isShowingSource ? 'Show diagram' : 'Show source';
+        toggleButton.title = isShowingSource ? 'Draw the diagram' : 'Edit the diagram source';
+        if (!isShowingSource) void render();
+      };
+
+      // Double-clicking the drawing opens its source
+      preview.addEventListener('dblclick', () => {
+        isShowingSource = true;
+        showMode();
+      });
+
+      showMode();
+
+      return {
+        dom,
+        contentDOM: code,
+        update: (updated: ProseMirrorNode) => {
+          if (updated.type !== current.type || updated.attrs.language !== current.attrs.language) return false;
+          current = updated;
+          if (!isShowingSource) {
+            if (renderTimer) clearTimeout(renderTimer);
+            renderTimer = setTimeout(() => void render(), RENDER_DELAY);
+          }
+          return true;
+        },
+        stopEvent: (event: Event) =>
+          toolbar.contains(event.target as globalThis.Node) || preview.contains(event.target as globalThis.Node),
+        ignoreMutation: (mutation) =>
+          mutation.type !== 'selection' && !code.contains(mutation.target),
+        destroy: () => {
+          if (renderTimer) clearTimeout(renderTimer);
+          renderCount += 1;
+        },
+      };
+    };
+  },
+});
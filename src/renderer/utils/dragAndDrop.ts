@@ -0,0 +1,8 @@
+import type React from 'react';
+
+/**
+ * Whether a drag should copy rather than move: Option on macOS, Ctrl elsewhere
+ */
+export function isCopyDrag(e: React.DragEvent): boolean {
+  return window.platform?.isMac ? e.altKey : e.ctrlKey;
+}
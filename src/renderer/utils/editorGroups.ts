@@ -0,0 +1,174 @@
+/**
+ * Editor group helpers
+ * The editor area is split into groups, each with its own tab strip and active
+ * tab. Groups refer to open tabs by id, so a file shown in two groups is one
+ * tab (one buffer) and edits in either pane show up in both.
+ */
+
+export type SplitDirection = 'row' | 'column';
+
+export interface EditorGroup {
+  id: string;
+  tabIds: string[];
+  activeTabId: string | null;
+}
+
+export interface EditorLayout {
+  groups: EditorGroup[];
+  activeGroupId: string;
+  /** Groups sit side by side ('row') or stacked ('column') */
+  direction: SplitDirection;
+}
+
+function createEditorGroup(tabIds: string[] = [], activeTabId: string | null = null): EditorGroup {
+  return { id: `group-${Date.now()}-${Math.random()}`, tabIds, activeTabId };
+}
+
+export function createEditorLayout(): EditorLayout {
+  const group = createEditorGroup();
+  return { groups: [group], activeGroupId: group.id, direction: 'row' };
+}
+
+export function getActiveGroup(layout: EditorLayout): EditorGroup {
+  return layout.groups.find((group) => group.id === layout.activeGroupId) ?? layout.groups[0];
+}
+
+/**
+ * Ids of the tabs shown in any group
+ */
+export function getOpenTabIds(layout: EditorLayout): Set<string> {
+  return new Set(layout.groups.flatMap((group) => group.tabIds));
+}
+
+/**
+ * Key for state kept per pane, such as the editor's scroll position
+ */
+export function getPaneKey(groupId: string, tabId: string): string {
+  return `${groupId}:${tabId}`;
+}
+
+function updateGroup(
+  layout: EditorLayout,
+  groupId: string,
+  update: (group: EditorGroup) => EditorGroup
+): EditorLayout {
+  return {
+    ...layout,
+    groups: layout.groups.map((group) => (group.id === groupId ? update(group) : group)),
+  };
+}
+
+export function focusGroup(layout: EditorLayout, groupId: string): EditorLayout {
+  return layout.activeGroupId === groupId ? layout : { ...layout, activeGroupId: groupId };
+}
+
+/**
+ * Show tabs in a group, adding the ones it does not have yet, and make the group active
+ */
+export function openTabsInGroup(
+  layout: EditorLayout,
+  groupId: string,
+  tabIds: string[],
+  activeTabId: string | null = tabIds[tabIds.length - 1] ?? null
+): EditorLayout {
+  const updated = updateGroup(layout, groupId, (group) => ({
+    ...group,
+    tabIds: [...new Set([...group.tabIds, ...tabIds])],
+    activeTabId: activeTabId ?? group.activeTabId,
+  }));
+  return focusGroup(updated, groupId);
+}
+
+/**
+ * Remove tabs from one group, activating the neighbour of the active tab when it
+ * goes. An emptied group is removed unless it is the last one.
+ */
+export function closeTabsInGroup(layout: EditorLayout, groupId: string, tabIds: string[]): EditorLayout {
+  const group = layout.groups.find((g) => g.id === groupId);
+  if (!group) return layout;
+
+  const remaining = group.tabIds.filter((id) => !tabIds.includes(id));
+  if (remaining.length === 0 && layout.groups.length > 1) {
+    const index = layout.groups.indexOf(group);
+    const groups = layout.groups.filter((g) => g !== group);
+    const activeGroupId =
+      layout.activeGroupId === groupId ? groups[Math.max(0, index - 1)].id : layout.activeGroupId;
+    return { ...layout, groups, activeGroupId };
+  }
+
+  let activeTabId = group.activeTabId;
+  if (activeTabId && !remaining.includes(activeTabId)) {
+    const index = group.tabIds.indexOf(activeTabId);
+    const before = group.tabIds.slice(0, index).filter((id) => remaining.includes(id));
+    activeTabId = before[before.length - 1] ?? remaining[0] ?? null;
+  }
+  return updateGroup(layout, groupId, () => ({ ...group, tabIds: remaining, activeTabId }));
+}
+
+/**
+ * Put a tab in a group just before another of its tabs (at the end when
+ * beforeTabId is null), moving it if the group has it already, and activate it
+ */
+export function placeTabInGroup(
+  layout: EditorLayout,
+  groupId: string,
+  tabId: string,
+  beforeTabId: string | null
+): EditorLayout {
+  const updated = updateGroup(layout, groupId, (group) => {
+    const tabIds = group.tabIds.filter((id) => id !== tabId);
+    const index = beforeTabId ? tabIds.indexOf(beforeTabId) : -1;
+    tabIds.splice(index === -1 ? tabIds.length : index, 0, tabId);
+    return { ...group, tabIds, activeTabId: tabId };
+  });
+  return focusGroup(updated, groupId);
+}
+
+/**
+ * Swap a tab for another in the same position, e.g. when a preview tab is reused
+ */
+export function replaceTabInGroup(
+  layout: EditorLayout,
+  groupId: string,
+  oldTabId: string,
+  newTabId: string
+): EditorLayout {
+  const updated = updateGroup(layout, groupId, (group) => ({
+    ...group,
+    tabIds: group.tabIds.map((id) => (id === oldTabId ? newTabId : id)),
+    activeTabId: newTabId,
+  }));
+  return focusGroup(updated, groupId);
+}
+
+/**
+ * Move a tab within its group or to another group, or show it in the other
+ * group as well when copy is set
+ */
+export function moveTabToGroup(
+  layout: EditorLayout,
+  tabId: string,
+  fromGroupId: string,
+  toGroupId: string,
+  copy = false,
+  beforeTabId: string | null = null
+): EditorLayout {
+  const placed = placeTabInGroup(layout, toGroupId, tabId, beforeTabId);
+  return copy || fromGroupId === toGroupId
+    ? placed
+    : closeTabsInGroup(placed, fromGroupId, [tabId]);
+}
+
+/**
+ * Open a new group next to the active one, showing the active tab, and make it active
+ */
+export function splitGroup(layout: EditorLayout, direction: SplitDirection): EditorLayout {
+  const source = getActiveGroup(layout);
+  const group = createEditorGroup(
+    source.activeTabId ? [source.activeTabId] : [],
+    source.activeTabId
+  );
+  const groups = [...layout.groups];
+  groups.splice(groups.indexOf(source) + 1, 0, group);
+  return { groups, activeGroupId: group.id, direction };
+}
@@ -0,0 +1,264 @@
+import { Extension, type Editor } from '@tiptap/react';
+import { Plugin, PluginKey, TextSelection, type Transaction } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+import { buildEditorTextIndex, findTextMatches, textRangeToDocRange } from './editorText';
+
+type ProseMirrorNode = Editor['state']['doc'];
+
+export interface SearchRange {
+  from: number;
+  to: number;
+}
+
+/** A match, in the document and in its text index (see utils/editorText.ts) */
+interface SearchMatch extends SearchRange {
+  start: number;
+  end: number;
+}
+
+interface SearchState {
+  regex: RegExp | null;
+  /** Range searched by find in selection, kept in step with edits */
+  scope: SearchRange | null;
+  matches: SearchMatch[];
+  /** Index of the current match; -1 when there is none */
+  current: number;
+  decorations: DecorationSet;
+}
+
+type SearchMeta =
+  | { type: 'query'; regex: RegExp | null }
+  | { type: 'scope'; scope: SearchRange | null }
+  | { type: 'current'; index: number }
+  /** Make the first match at or after a position current */
+  | { type: 'after'; pos: number };
+
+export interface ReplaceOptions {
+  /** Expand $1, $& etc. in the replacement */
+  isRegex: boolean;
+  /** Give the replacement the case of the text it replaces */
+  preserveCase: boolean;
+}
+
+const searchPluginKey = new PluginKey<SearchState>('editorSearch');
+
+/**
+ * Matches of a regex in a document. Matches running across blocks, line
+ * breaks or inline nodes (wiki-links, citations, math) are left out: they
+ * cannot be replaced as text.
+ */
+function findMatches(doc: ProseMirrorNode, regex: RegExp, scope: SearchRange | null): SearchMatch[] {
+  const index = buildEditorTextIndex(doc);
+  return findTextMatches(index, regex)
+    .map(({ start, end }) => ({ ...textRangeToDocRange(index, start, end), start, end }))
+    .filter((match) => match.to - match.from === match.end - match.start)
+    .filter((match) => !scope || (match.from >= scope.from && match.to <= scope.to));
+}
+
+function firstMatchAfter(matches: SearchMatch[], pos: number): number {
+  if (matches.length === 0) return -1;
+  const index = matches.findIndex((match) => match.from >= pos);
+  return index === -1 ? 0 : index;
+}
+
+function createSearchState(
+  doc: ProseMirrorNode,
+  regex: RegExp | null,
+  scope: SearchRange | null,
+  matches: SearchMatch[],
+  current: number
+): SearchState {
+  const decorations = matches.map((match, index) =>
+    Decoration.inline(match.from, match.to, {
+      class: index === current ? 'editor-search-match editor-search-match-current' : 'editor-search-match',
+    })
+  );
+  if (scope && scope.to > scope.from) {
+    decorations.push(Decoration.inline(scope.from, scope.to, { class: 'editor-search-scope' }));
+  }
+  return { regex, scope, matches, current, decorations: DecorationSet.create(doc, decorations) };
+}
+
+function applySearchTransaction(tr: Transaction, state: SearchState): SearchState {
+  const meta = tr.getMeta(searchPluginKey) as SearchMeta | undefined;
+  if (!meta && !tr.docChanged) return state;
+
+  const regex = meta?.type === 'query' ? meta.regex : state.regex;
+  const scope =
+    meta?.type === 'scope'
+      ? meta.scope
+      : state.scope && { from: tr.mapping.map(state.scope.from, -1), to: tr.mapping.map(state.scope.to, 1) };
+  if (!regex) return createSearchState(tr.doc, null, scope, [], -1);
+
+  const matches = tr.docChanged || meta?.type === 'query' || meta?.type === 'scope'
+    ? findMatches(tr.doc, regex, scope)
+    : state.matches;
+
+  let current: number;
+  if (meta?.type === 'current') {
+    current = matches.length === 0 ? -1 : ((meta.index % matches.length) + matches.length) % matches.length;
+  } else if (meta?.type === 'after') {
+    current = firstMatchAfter(matches, meta.pos);
+  } else if (meta?.type === 'query' || meta?.type === 'scope' || state.current === -1) {
+    // A new search starts at the cursor
+    current = firstMatchAfter(matches, tr.selection.from);
+  } else {
+    // Stay at the match that was current, or the next one if it is gone
+    current = firstMatchAfter(matches, tr.mapping.map(state.matches[state.current].from, -1));
+  }
+  return createSearchState(tr.doc, regex, scope, matches, current);
+}
+
+/**
+ * Highlights the matches of the editor search bar with decorations, which
+ * follow edits without touching the document
+ */
+export const EditorSearch = Extension.create({
+  name: 'editorSearch',
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<SearchState>({
+        key: searchPluginKey,
+        state: {
+          init: () => ({ regex: null, scope: null, matches: [], current: -1, decorations: DecorationSet.empty }),
+          apply: applySearchTransaction,
+        },
+        props: {
+          decorations: (state) => searchPluginKey.getState(state)?.decorations,
+        },
+      }),
+    ];
+  },
+});
+
+/**
+ * Matches of the current search, the index of the current one and the
+ * find-in-selection range
+ */
+export function getEditorSearch(editor: Editor): {
+  matches: SearchRange[];
+  current: number;
+  scope: SearchRange | null;
+} {
+  const state = searchPluginKey.getState(editor.state);
+  return { matches: state?.matches ?? [], current: state?.current ?? -1, scope: state?.scope ?? null };
+}
+
+function dispatchSearchMeta(editor: Editor, meta: SearchMeta): void {
+  editor.view.dispatch(editor.state.tr.setMeta(searchPluginKey, meta));
+}
+
+/**
+ * Search the document for a regex; null clears the search
+ */
+export function setEditorSearch(editor: Editor, regex: RegExp | null): void {
+  dispatchSearchMeta(editor, { type: 'query', regex });
+}
+
+/**
+ * Limit the search to a range (find in selection); null searches the whole document
+ */
+export function setEditorSearchScope(editor: Editor, scope: SearchRange | null): void {
+  dispatchSearchMeta(editor, { type: 'scope', scope });
+}
+
+/**
+ * Make a match current, then select and scroll to it
+ */
+export function selectSearchMatch(editor: Editor, index: number): void {
+  dispatchSearchMeta(editor, { type: 'current', index });
+  revealCurrentMatch(editor);
+}
+
+/**
+ * Select and scroll to the current match
+ */
+export function revealCurrentMatch(editor: Editor): void {
+  const { matches, current } = getEditorSearch(editor);
+  const match = matches[current];
+  if (!match) return;
+  const { tr } = editor.state;
+  editor.view.dispatch(tr.setSelection(TextSelection.create(tr.doc, match.from, match.to)).scrollIntoView());
+}
+
+/**
+ * Give a replacement the case of the text it replaces: all capitals, all
+ * lowercase or a capital first letter
+ */
+function matchCase(replacement: string, matched: string): string {
+  const letters = matched.replace(/[^\p{L}]/gu, '');
+  if (!letters || letters.toUpperCase() === letters.toLowerCase()) return replacement;
+  if (letters.length > 1 && letters === letters.toUpperCase()) return replacement.toUpperCase();
+  if (letters === letters.toLowerCase()) return replacement.toLowerCase();
+  if (letters[0] === letters[0].toUpperCase()) {
+    return replacement.charAt(0).toUpperCase() + replacement.slice(1);
+  }
+  return replacement;
+}
+
+/**
+ * The text a match is replaced with. Regex replacements see the whole text,
+ * so lookarounds and \b behave as they did when searching.
+ */
+function getReplacement(
+  text: string,
+  match: SearchMatch,
+  regex: RegExp,
+  replaceText: string,
+  options: ReplaceOptions
+): string {
+  let replacement = replaceText;
+  if (options.isRegex) {
+    // Sticky and non-global, so replace only looks at lastIndex
+    const sticky = new RegExp(regex.source, `${regex.flags.replace('g', '')}y`);
+    sticky.lastIndex = match.start;
+    const replaced = text.replace(sticky, replaceText);
+    replacement = replaced.slice(match.start, replaced.length - (text.length - match.end));
+  }
+  return options.preserveCase ? matchCase(replacement, text.slice(match.start, match.end)) : replacement;
+}
+
+function replaceRange(tr: Transaction, range: SearchRange, replacement: string): void {
+  if (replacement) tr.insertText(replacement, range.from, range.to);
+  else tr.delete(range.from, range.to);
+}
+
+/**
+ * Replace the current match and move on to the next one
+ * @returns false when there is no current match
+ */
+export function replaceSearchMatch(editor: Editor, replaceText: string, options: ReplaceOptions): boolean {
+  const state = searchPluginKey.getState(editor.state);
+  const match = state?.matches[state.current];
+  if (!state?.regex || !match) return false;
+
+  const { text } = buildEditorTextIndex(editor.state.doc);
+  const replacement = getReplacement(text, match, state.regex, replaceText, options);
+  const { tr } = editor.state;
+  replaceRange(tr, match, replacement);
+  const meta: SearchMeta = { type: 'after', pos: match.from + replacement.length };
+  tr.setMeta(searchPluginKey, meta);
+  editor.view.dispatch(tr);
+  revealCurrentMatch(editor);
+  return true;
+}
+
+/**
+ * Replace every match in one transaction, so a single undo brings them back
+ * @returns the number of matches replaced
+ */
+export function replaceAllSearchMatches(editor: Editor, replaceText: string, options: ReplaceOptions): number {
+  const state = searchPluginKey.getState(editor.state);
+  const regex = state?.regex;
+  if (!state || !regex || state.matches.length === 0) return 0;
+
+  const { text } = buildEditorTextIndex(editor.state.doc);
+  const { tr } = editor.state;
+  // Last to first, so earlier positions stay valid
+  [...state.matches].reverse().forEach((match) => {
+    replaceRange(tr, match, getReplacement(text, match, regex, replaceText, options));
+  });
+  editor.view.dispatch(tr);
+  return state.matches.length;
+}
@@ -0,0 +1,128 @@
+import type { Editor } from '@tiptap/react';
+
+type ProseMirrorNode = Editor['state']['doc'];
+
+/**
+ * Plain-text view of a ProseMirror document with a map back to document positions.
+ * Text blocks are separated by "\n", as are hard breaks inside a block.
+ */
+export interface EditorTextIndex {
+  text: string;
+  /** Document position of each character in text */
+  positions: number[];
+}
+
+/**
+ * Build a text index for a document
+ */
+export function buildEditorTextIndex(doc: ProseMirrorNode): EditorTextIndex {
+  let text = '';
+  const positions: number[] = [];
+  let isFirstBlock = true;
+
+  doc.descendants((node, pos) => {
+    if (node.isTextblock) {
+      if (!isFirstBlock) {
+        text += '\n';
+        positions.push(pos);
+      }
+      isFirstBlock = false;
+      return true;
+    }
+
+    if (node.isText) {
+      const nodeText = node.text || '';
+      text += nodeText;
+      for (let i = 0; i < nodeText.length; i++) {
+        positions.push(pos + i);
+      }
+      return false;
+    }
+
+    if (node.type.name === 'hardBreak') {
+      text += '\n';
+      positions.push(pos);
+    }
+
+    return true;
+  });
+
+  return { text, positions };
+}
+
+/**
+ * Convert a [start, end) range in the index text to document positions
+ */
+export function textRangeToDocRange(
+  index: EditorTextIndex,
+  start: number,
+  end: number
+): { from: number; to: number } {
+  const from = index.positions[start] ?? index.positions[index.positions.length - 1] ?? 0;
+  const to = end > start ? (index.positions[end - 1] ?? from) + 1 : from;
+  return { from, to };
+}
+
+/**
+ * Find every match of a regex in the index text
+ */
+export function findTextMatches(index: EditorTextIndex, regex: RegExp): Array<{ start: number; end: number }> {
+  const matches: Array<{ start: number; end: number }> = [];
+  const globalRegex = regex.global ? regex : new RegExp(regex.source, `${regex.flags}g`);
+  globalRegex.lastIndex = 0;
+
+  let match: RegExpExecArray | null;
+  while ((match = globalRegex.exec(index.text)) !== null) {
+    if (match[0].length === 0) {
+      globalRegex.lastIndex++;
+      continue;
+    }
+    matches.push({ start: match.index, end: match.index + match[0].length });
+  }
+
+  return matches;
+}
+
+/**
+ * Select and scroll to the nth match of a regex in the editor.
+ * Falls back to the last match when there are fewer than n + 1.
+ * @returns false when the regex does not match at all
+ */
+export function revealEditorMatch(editor: Editor, regex: RegExp, occurrence: number): boolean {
+  const index = buildEditorTextIndex(editor.state.doc);
+  const matches = findTextMatches(index, regex);
+  if (matches.length === 0) return false;
+
+  const match = matches[Math.min(Math.max(0, occurrence), matches.length - 1)];
+  const { from, to } = textRangeToDocRange(index, match.start, match.end);
+
+  editor.chain().focus().setTextSelection({ from, to }).scrollIntoView().run();
+  return true;
+}
+
+/**
+ * Build a global regex for a literal string with the usual search options
+ */
+export function createLiteralSearchRegex(
+  text: string,
+  options: { caseSensitive?: boolean; wholeWord?: boolean } = {}
+): RegExp {
+  let source = text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  if (options.wholeWord) {
+    source = `\\b${source}\\b`;
+  }
+  return new RegExp(source, options.caseSensitive ? 'g' : 'gi');
+}
+
+/**
+ * Build a global regex for a search query, literal unless isRegex is set
+ * @throws SyntaxError when isRegex is set and the query is not a valid pattern
+ */
+export function createSearchRegex(
+  query: string,
+  options: { isRegex?: boolean; caseSensitive?: boolean; wholeWord?: boolean } = {}
+): RegExp {
+  if (!options.isRegex) return createLiteralSearchRegex(query, options);
+  const source = options.wholeWord ? `\\b(?:${query})\\b` : query;
+  return new RegExp(source, options.caseSensitive ? 'g' : 'gi');
+}
@@ -0,0 +1,69 @@
+import { editorHtmlToMarkdown, markdownToEditorHtml } from './markdown';
+import type { TextEncoding } from '../../shared/types';
+
+/**
+ * Display names of the encodings files can be reopened and saved in
+ */
+export const TEXT_ENCODING_LABELS: Record<TextEncoding, string> = {
+  utf8: 'UTF-8',
+  utf8bom: 'UTF-8 with BOM',
+  utf16le: 'UTF-16 LE',
+  utf16be: 'UTF-16 BE',
+  latin1: 'Western (ISO 8859-1)',
+};
+
+/**
+ * Get the lower-cased extension of a file path
+ */
+function getExtension(filePath: string): string | undefined {
+  return filePath.split('.').pop()?.toLowerCase();
+}
+
+/**
+ * Check whether a file is edited as markdown
+ */
+export function isMarkdownFile(filePath: string): boolean {
+  const extension = getExtension(filePath);
+  return extension === 'md' || extension === 'markdown';
+}
+
+/**
+ * Convert file content read from disk into HTML for TipTap
+ */
+export function fileContentToEditorHtml(filePath: string, content: string): string {
+  if (isMarkdownFile(filePath)) {
+    // Convert markdown to HTML for TipTap, keeping the source of each block
+    return markdownToEditorHtml(content);
+  }
+
+  // For non-markdown files, convert plain text to HTML paragraphs
+  if (!content.trim().startsWith('<')) {
+    const lines = content.split('\n').filter((line) => line.trim());
+    if (lines.length > 0) {
+      return lines.map((line) => `<p>${line}</p>`).join('');
+    }
+    return '<p></p>'; // Empty paragraph for empty files
+  }
+
+  return content;
+}
+
+/**
+ * Convert TipTap HTML back into the content written to disk
+ */
+export function editorHtmlToFileContent(filePath: string, html: string): string {
+  if (isMarkdownFile(filePath)) {
+    // Convert HTML to markdown; unchanged blocks are written as they were read
+    return editorHtmlToMarkdown(html);
+  }
+
+  if (getExtension(filePath) === 'txt') {
+    // Extract plain text from HTML
+    const div = document.createElement('div');
+    div.innerHTML = html;
+    return div.textContent || div.innerText || '';
+  }
+
+  // For other file types, save as HTML
+  return html;
+}
@@ -0,0 +1,198 @@
+import type { FileItem } from '../../shared/types';
+
+/**
+ * Get the parent directory of a path (handles both / and \ separators)
+ */
+export function getParentPath(itemPath: string): string {
+  const index = Math.max(itemPath.lastIndexOf('/'), itemPath.lastIndexOf('\\'));
+  return index > 0 ? itemPath.slice(0, index) : itemPath;
+}
+
+/**
+ * Get the last segment of a path
+ */
+export function getBaseName(itemPath: string): string {
+  const index = Math.max(itemPath.lastIndexOf('/'), itemPath.lastIndexOf('\\'));
+  return itemPath.slice(index + 1);
+}
+
+/**
+ * Sort items the same way the main process does: folders first, then alphabetically
+ */
+export function sortFileItems(items: FileItem[]): FileItem[] {
+  return [...items].sort((a, b) => {
+    if (a.type !== b.type) {
+      return a.type === 'folder' ? -1 : 1;
+    }
+    return a.name.localeCompare(b.name);
+  });
+}
+
+/**
+ * Find an item anywhere in the tree by path
+ */
+export function findFileItem(items: FileItem[], itemPath: string): FileItem | null {
+  for (const item of items) {
+    if (item.path === itemPath) {
+      return item;
+    }
+    if (item.children) {
+      const found = findFileItem(item.children, itemPath);
+      if (found) return found;
+    }
+  }
+  return null;
+}
+
+/**
+ * Build a FileItem for a path reported by the main process.
+ * Folders start unloaded (children undefined) like those from fs-read-folder.
+ */
+export function createFileItem(itemPath: string, type: 'file' | 'folder'): FileItem {
+  const name = getBaseName(itemPath);
+  const dotIndex = name.lastIndexOf('.');
+
+  return {
+    id: itemPath,
+    name,
+    path: itemPath,
+    type,
+    extension: type === 'file' && dotIndex > 0 ? name.slice(dotIndex + 1) : undefined,
+  };
+}
+
+/**
+ * Insert an item under its parent folder, returning a new tree.
+ * Items whose parent is not in the tree or not loaded yet are ignored;
+ * existing items are replaced.
+ * @param rootPath - Path of the opened folder (parent of the top-level items);
+ *   undefined when the top-level items are the roots of a multi-root workspace
+ */
+export function insertFileItem(items: FileItem[], rootPath: string | undefined, newItem: FileItem): FileItem[] {
+  const parentPath = getParentPath(newItem.path);
+
+  if (parentPath === rootPath) {
+    return sortFileItems([...items.filter((item) => item.path !== newItem.path), newItem]);
+  }
+
+  let changed = false;
+  const next = items.map((item) => {
+    if (item.type !== 'folder' || !item.children) {
+      return item;
+    }
+    if (item.path === parentPath) {
+      changed = true;
+      return {
+        ...item,
+        children: sortFileItems([
+          ...item.children.filter((child) => child.path !== newItem.path),
+          newItem,
+        ]),
+      };
+    }
+    if (isPathInside(item.path, parentPath)) {
+      const children = insertFileItem(item.children, item.path, newItem);
+      if (children !== item.children) {
+        changed = true;
+        return { ...item, children };
+      }
+    }
+    return item;
+  });
+
+  return changed ? next : items;
+}
+
+/**
+ * Store a page of loaded children on a folder, returning a new tree
+ * @param append - Add to the already loaded children instead of replacing them
+ */
+export function setFolderChildren(
+  items: FileItem[],
+  folderPath: string,
+  children: FileItem[],
+  hasMore: boolean,
+  append: boolean = false
+): FileItem[] {
+  return items.map((item) => {
+    if (item.path === folderPath) {
+      return {
+        ...item,
+        children: append ? [...(item.children || []), ...children] : children,
+        hasMoreChildren: hasMore,
+      };
+    }
+    if (item.children && isPathInside(item.path, folderPath)) {
+      return {
+        ...item,
+        children: setFolderChildren(item.children, folderPath, children, hasMore, append),
+      };
+    }
+    return item;
+  });
+}
+
+/**
+ * Remove an item (and its subtree) by path, returning a new tree
+ */
+export function removeFileItem(items: FileItem[], itemPath: string): FileItem[] {
+  let changed = false;
+  const next: FileItem[] = [];
+
+  for (const item of items) {
+    if (item.path === itemPath) {
+      changed = true;
+      continue;
+    }
+    if (item.children && isPathInside(item.path, itemPath)) {
+      const children = removeFileItem(item.children, itemPath);
+      if (children !== item.children) {
+        changed = true;
+        next.push({ ...item, children });
+        continue;
+      }
+    }
+    next.push(item);
+  }
+
+  return changed ? next : items;
+}
+
+/**
+ * Check whether candidate is a strict descendant of folderPath
+ */
+export function isPathInside(folderPath: string, candidate: string): boolean {
+  return (
+    candidate.length > folderPath.length &&
+    candidate.startsWith(folderPath) &&
+    (candidate[folderPath.length] === '/' || candidate[folderPath.length] === '\\')
+  );
+}
+
+/**
+ * Where a path ends up after the item at `from` moved to `to`: the path itself
+ * or anything inside it is rebased, other paths give null
+ */
+export function rebasePath(itemPath: string, from: string, to: string): string | null {
+  if (itemPath === from) return to;
+  return isPathInside(from, itemPath) ? to + itemPath.slice(from.length) : null;
+}
+
+/**
+ * The workspace root a path belongs to (the root itself included)
+ */
+export function findWorkspaceRoot(rootPaths: string[], itemPath: string): string | undefined {
+  return rootPaths.find((root) => root === itemPath || isPathInside(root, itemPath));
+}
+
+/**
+ * Get a path relative to its workspace root for display, led by the root's
+ * name when the workspace has several
+ */
+export function getRelativePath(rootPaths: string[], filePath: string): string {
+  const rootPath = rootPaths.find((root) => isPathInside(root, filePath));
+  if (!rootPath) return filePath;
+
+  const relative = filePath.slice(rootPath.length + 1);
+  return rootPaths.length > 1 ? `${getBaseName(rootPath)}/${relative}` : relative;
+}
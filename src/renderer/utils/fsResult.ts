@@ -0,0 +1,34 @@
+import type { FsError, FsErrorCode, FsResult } from '../../shared/types';
+
+/**
+ * A failed file-system call, carrying the typed error from the main process
+ */
+export class FileSystemError extends Error {
+  readonly code: FsErrorCode;
+  readonly path?: string;
+
+  constructor(error: FsError) {
+    super(error.message);
+    this.name = 'FileSystemError';
+    this.code = error.code;
+    this.path = error.path;
+  }
+}
+
+/**
+ * Return a successful result, or throw its error as a FileSystemError so
+ * callers can handle every failure in one catch block
+ */
+export function unwrapFsResult<T>(result: FsResult<T>): { success: true } & T {
+  if (!result.success) {
+    throw new FileSystemError(result.error);
+  }
+  return result;
+}
+
+/**
+ * Message to show the user for an error caught around a file-system call
+ */
+export function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
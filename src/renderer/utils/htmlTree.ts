@@ -0,0 +1,110 @@
+/**
+ * Minimal HTML tree
+ * Parses the well-formed HTML that the editor and the markdown renderer produce
+ * without needing a DOM, so markdown serialization also runs outside the
+ * renderer (e.g. in the round-trip tests).
+ */
+
+export interface HtmlElement {
+  type: 'element';
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+}
+
+export interface HtmlText {
+  type: 'text';
+  text: string;
+}
+
+export type HtmlNode = HtmlElement | HtmlText;
+
+const VOID_TAGS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr',
+]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  copy: '©', reg: '®', trade: '™', hellip: '…', mdash: '—', ndash: '–',
+  lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', laquo: '«', raquo: '»',
+  times: '×', divide: '÷', deg: '°', plusmn: '±', middot: '·', bull: '•',
+  euro: '€', pound: '£', yen: '¥', cent: '¢', sect: '§', para: '¶',
+};
+
+// Comments and doctypes, tags (with their attributes) and the text between them
+const TOKEN_PATTERN =
+  /<!--[\s\S]*?-->|<![^>]*>|<(\/?)([a-zA-Z][\w-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*(\/?)>/g;
+const ATTRIBUTE_PATTERN = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|[a-z]+\d*);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1] === 'x' || name[1] === 'X'
+        ? parseInt(name.slice(2), 16)
+        : parseInt(name.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+    attrs[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attrs;
+}
+
+/**
+ * Parse HTML into a tree under a root element. Unmatched closing tags are
+ * ignored and elements left open are closed at the end.
+ */
+export function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = { type: 'element', tag: '#root', attrs: {}, children: [] };
+  const stack: HtmlElement[] = [root];
+  const current = () => stack[stack.length - 1];
+  const addText = (text: string) => {
+    if (text) current().children.push({ type: 'text', text: decodeEntities(text) });
+  };
+
+  let lastIndex = 0;
+  for (const match of html.matchAll(TOKEN_PATTERN)) {
+    addText(html.slice(lastIndex, match.index));
+    lastIndex = match.index + match[0].length;
+
+    const [, closing, tagName, attributes, selfClosing] = match;
+    if (!tagName) continue; // Comment or doctype
+
+    const tag = tagName.toLowerCase();
+    if (closing) {
+      const index = stack.map((element) => element.tag).lastIndexOf(tag);
+      if (index > 0) stack.length = index;
+      continue;
+    }
+
+    const element: HtmlElement = { type: 'element', tag, attrs: parseAttributes(attributes), children: [] };
+    current().children.push(element);
+    if (!selfClosing && !VOID_TAGS.has(tag)) {
+      stack.push(element);
+    }
+  }
+  addText(html.slice(lastIndex));
+
+  return root;
+}
+
+/**
+ * The text inside a node, as a DOM's textContent would give it
+ */
+export function getTextContent(node: HtmlNode): string {
+  return node.type === 'text' ? node.text : node.children.map(getTextContent).join('');
+}
@@ -0,0 +1,808 @@
+import { Marked, type Token, type TokenizerAndRendererExtension } from 'marked';
+import { escapeHtml, getTextContent, parseHtml, type HtmlElement, type HtmlNode } from './htmlTree';
+
+/**
+ * Markdown round-tripping
+ * Markdown files are edited as HTML in TipTap. Every top-level block keeps the
+ * exact source it was parsed from (data-md-raw) and a hash of how it serializes
+ * (data-md-hash). On save, blocks that still serialize to the same markdown are
+ * written back verbatim, so untouched parts of a file never change; edited and
+ * new blocks are serialized in the style the file already uses.
+ *
+ * Constructs the editor cannot represent — front matter, HTML blocks and
+ * comments, link definitions and footnotes — are kept as raw nodes holding
+ * their source. Wiki-links ([[note]]) become wiki-link nodes and pandoc
+ * citations ([@key]) citation nodes, both keeping their source. TeX math is
+ * kept as its LaTeX: $inline$ (or $$display$$ within text) as math-inline
+ * spans and $$ blocks on their own lines as math-block divs.
+ */
+
+/** Kinds of raw blocks, shown and kept as source */
+export type RawBlockKind = 'front-matter' | 'html' | 'definition' | 'footnote';
+
+/**
+ * Formatting choices for markdown written by the app
+ */
+interface MarkdownStyle {
+  bullet: '-' | '*' | '+';
+  orderedDelimiter: '.' | ')';
+  emphasis: '*' | '_';
+  strong: '**' | '__';
+  fence: '`' | '~';
+  hr: string;
+  hardBreak: string;
+}
+
+const DEFAULT_STYLE: MarkdownStyle = {
+  bullet: '-',
+  orderedDelimiter: '.',
+  emphasis: '*',
+  strong: '**',
+  fence: '`',
+  hr: '---',
+  hardBreak: '  \n',
+};
+
+interface SerializeContext {
+  style: MarkdownStyle;
+  /** Link definitions by normalized label; reference links are kept only when set */
+  definitions: Map<string, string> | null;
+}
+
+// Hashes use the default style and no definitions, so they depend only on content
+const CANONICAL_CONTEXT: SerializeContext = { style: DEFAULT_STYLE, definitions: null };
+
+const FRONT_MATTER_PATTERN = /^(?:---|\+\+\+)[ \t]*\n[\s\S]*?\n(?:---|\.\.\.|\+\+\+)[ \t]*(?:\n|$)/;
+
+const INLINE_TAGS = new Set([
+  'a', 'b', 'br', 'code', 'del', 'em', 'i', 'img', 'input', 'mark', 's', 'span', 'strike', 'strong', 'sub', 'sup', 'u',
+]);
+
+/**
+ * A link to another note: [[target#heading|alias]]
+ */
+export interface WikiLinkParts {
+  /** Note name or path; empty for a heading in the same note */
+  target: string;
+  heading: string | null;
+  alias: string | null;
+}
+
+const WIKI_LINK_PATTERN = /^\[\[([^[\]|#\n]*)(?:#([^[\]|\n]*))?(?:\|([^[\]\n]*))?\]\]/;
+
+/**
+ * Read a wiki-link at the start of a string
+ */
+export function parseWikiLink(source: string): (WikiLinkParts & { raw: string }) | null {
+  const match = WIKI_LINK_PATTERN.exec(source);
+  if (!match || (!match[1].trim() && match[2] == null)) return null;
+  return { raw: match[0], target: match[1], heading: match[2] ?? null, alias: match[3] ?? null };
+}
+
+export function formatWikiLink({ target, heading, alias }: WikiLinkParts): string {
+  return `[[${target}${heading != null ? `#${heading}` : ''}${alias != null ? `|${alias}` : ''}]]`;
+}
+
+/**
+ * Text a wiki-link shows: its alias, or where it points
+ */
+export function getWikiLinkLabel({ target, heading, alias }: WikiLinkParts): string {
+  if (alias) return alias;
+  if (heading == null) return target;
+  return target ? `${target} › ${heading}` : heading;
+}
+
+/**
+ * A source cited in a pandoc citation: [see @key, p. 33; -@other]
+ */
+export interface CitationItem {
+  key: string;
+  /** Text before the key ("see") */
+  prefix: string;
+  /** Text after the key, usually a locator ("p. 33") */
+  suffix: string;
+  /** Written -@key: the author is named in the sentence, so only the year is shown */
+  suppressAuthor: boolean;
+}
+
+// A citation key: starts and ends with a letter, digit or underscore
+const CITATION_KEY_PATTERN = /(^|\s)(-?)@([A-Za-z0-9_](?:[\w:.#$%&+?<>~/-]*[A-Za-z0-9_])?)/;
+
+/**
+ * Read a bracketed citation; null unless every ;-separated part cites a key
+ */
+export function parseCitation(source: string): CitationItem[] | null {
+  const match = /^\[([^[\]\n]+)\]$/.exec(source);
+  if (!match) return null;
+
+  const items: CitationItem[] = [];
+  for (const part of match[1].split(';')) {
+    const key = CITATION_KEY_PATTERN.exec(part);
+    if (!key) return null;
+    items.push({
+      key: key[3],
+      prefix: part.slice(0, key.index + key[1].length).trim(),
+      suffix: part.slice(key.index + key[0].length).replace(/^\s*,/, '').trim(),
+      suppressAuthor: key[2] === '-',
+    });
+  }
+  return items;
+}
+
+// Pandoc's rules: no space inside the dollars and no digit right after the
+// closing one, so prices like $5 and $10 stay text
+const INLINE_MATH_PATTERN = /^(\${1,2})(?![\s$])((?:\\[\s\S]|[^\\$])+?)(?<!\s)\1(?![\d$])/;
+
+// Lines between $$ and $$, without blank lines
+const MATH_BLOCK_PATTERN = /^ {0,3}\$\$((?:[^\n]|\n(?![ \t]*\n))*?)\$\$[ \t]*(?:\n|$)/;
+
+function rawBlockHtml(raw: string, kind: RawBlockKind): string {
+  return `<div data-type="raw-markdown" data-kind="${kind}" data-raw="${escapeHtml(raw)}"></div>`;
+}
+
+function rawInlineHtml(raw: string): string {
+  return `<span data-type="raw-inline" data-raw="${escapeHtml(raw)}"></span>`;
+}
+
+const footnoteDefinition: TokenizerAndRendererExtension = {
+  name: 'footnoteDefinition',
+  level: 'block',
+  tokenizer(src) {
+    // The first line and any indented continuation lines
+    const match = /^ {0,3}\[\^[^\]\s]+\]:[^\n]*(?:\n(?:[ \t]*\n)*(?: {4}|\t)[^\n]*)*\n?/.exec(src);
+    return match ? { type: 'footnoteDefinition', raw: match[0] } : undefined;
+  },
+  renderer: (token) => rawBlockHtml(token.raw, 'footnote'),
+};
+
+const footnoteReference: TokenizerAndRendererExtension = {
+  name: 'footnoteReference',
+  level: 'inline',
+  start: (src) => {
+    const index = src.indexOf('[^');
+    return index === -1 ? undefined : index;
+  },
+  tokenizer(src) {
+    const match = /^\[\^[^\]\s]+\]/.exec(src);
+    return match ? { type: 'footnoteReference', raw: match[0] } : undefined;
+  },
+  renderer: (token) => rawInlineHtml(token.raw),
+};
+
+const wikiLink: TokenizerAndRendererExtension = {
+  name: 'wikiLink',
+  level: 'inline',
+  start: (src) => {
+    const index = src.indexOf('[[');
+    return index === -1 ? undefined : index;
+  },
+  tokenizer(src) {
+    const link = parseWikiLink(src);
+    return link ? { type: 'wikiLink', ...link } : undefined;
+  },
+  renderer(token) {
+    const link = token as unknown as WikiLinkParts;
+    const attrs = [
+      `data-target="${escapeHtml(link.target)}"`,
+      link.heading != null ? `data-heading="${escapeHtml(link.heading)}"` : '',
+      link.alias != null ? `data-alias="${escapeHtml(link.alias)}"` : '',
+    ].filter(Boolean);
+    return `<span data-type="wiki-link" ${attrs.join(' ')}>${escapeHtml(getWikiLinkLabel(link))}</span>`;
+  },
+};
+
+const citation: TokenizerAndRendererExtension = {
+  name: 'citation',
+  level: 'inline',
+  start: (src) => /\[[^[\]\n]*@/.exec(src)?.index,
+  tokenizer(src) {
+    // Not the text of a link ([text @x](url) or [text @x][ref])
+    const match = /^\[[^[\]\n]*@[^[\]\n]*\](?![[(])/.exec(src);
+    return match && parseCitation(match[0]) ? { type: 'citation', raw: match[0] } : undefined;
+  },
+  renderer: (token) =>
+    `<span data-type="citation" data-source="${escapeHtml(token.raw)}">${escapeHtml(token.raw)}</span>`,
+};
+
+const mathBlock: TokenizerAndRendererExtension = {
+  name: 'mathBlock',
+  level: 'block',
+  start: (src) => /^ {0,3}\$\$/m.exec(src)?.index,
+  tokenizer(src) {
+    const match = MATH_BLOCK_PATTERN.exec(src);
+    return match ? { type: 'mathBlock', raw: match[0], latex: match[1].trim() } : undefined;
+  },
+  renderer: (token) =>
+    `<div data-type="math-block" data-latex="${escapeHtml(token.latex)}"></div>`,
+};
+
+const inlineMath: TokenizerAndRendererExtension = {
+  name: 'inlineMath',
+  level: 'inline',
+  start: (src) => {
+    const index = src.indexOf('$');
+    return index === -1 ? undefined : index;
+  },
+  tokenizer(src) {
+    const match = INLINE_MATH_PATTERN.exec(src);
+    return match
+      ? { type: 'inlineMath', raw: match[0], latex: match[2], display: match[1] === '$$' }
+      : undefined;
+  },
+  renderer: (token) =>
+    `<span data-type="math-inline" data-latex="${escapeHtml(token.latex)}"${
+      token.display ? ' data-display="true"' : ''
+    }>${escapeHtml(token.raw)}</span>`,
+};
+
+const markdown = new Marked({
+  gfm: true,
+  extensions: [footnoteDefinition, footnoteReference, wikiLink, citation, mathBlock, inlineMath],
+  renderer: {
+    html({ text, block }) {
+      return block ? rawBlockHtml(text, 'html') : rawInlineHtml(text);
+    },
+    // Reference links remember their form so edited paragraphs keep it. Titles
+    // are dropped: the editor cannot hold them.
+    link({ href, raw, tokens }) {
+      const text = this.parser.parseInline(tokens);
+      const reference = getLinkReference(raw);
+      const referenceAttr = reference ? ` data-md-ref="${escapeHtml(reference)}"` : '';
+      return `<a href="${escapeHtml(href)}"${referenceAttr}>${text}</a>`;
+    },
+    // Task lists in the shape the editor's task list extension reads
+    list(token) {
+      if (!token.items.length || !token.items.every((item) => item.task)) return false;
+      const items = token.items
+        .map((item) => `<li data-type="taskItem" data-checked="${item.checked ? 'true' : 'false'}">${this.parser.parse(item.tokens)}</li>`)
+        .join('');
+      return `<ul data-type="taskList">${items}</ul>`;
+    },
+    checkbox() {
+      return '';
+    },
+    // No alignment: the editor's tables cannot hold it
+    tablecell(token) {
+      const tag = token.header ? 'th' : 'td';
+      return `<${tag}>${this.parser.parseInline(token.tokens)}</${tag}>`;
+    },
+  },
+});
+
+/**
+ * How a link was written when it is a reference link: "full:label",
+ * "collapsed" ([text][]) or "shortcut" ([text])
+ */
+function getLinkReference(raw: string): string | null {
+  if (raw.endsWith(')')) return null;
+  const full = /\]\[([^\]]+)\]$/.exec(raw);
+  if (full) return `full:${full[1]}`;
+  return raw.endsWith('][]') ? 'collapsed' : 'shortcut';
+}
+
+function normalizeLabel(label: string): string {
+  return label.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Short hash of a string (FNV-1a), to tell whether a block changed
+ */
+function hashText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${text.length.toString(36)}-${(hash >>> 0).toString(36)}`;
+}
+
+interface SourceBlock {
+  raw: string;
+  kind: RawBlockKind | null;
+  token?: Token;
+}
+
+/**
+ * Split markdown (with \n line endings) into the blocks that become top-level
+ * editor nodes. Their sources add up to the whole text.
+ */
+function readMarkdownBlocks(text: string): SourceBlock[] {
+  const blocks: SourceBlock[] = [];
+  const frontMatter = FRONT_MATTER_PATTERN.exec(text);
+  if (frontMatter) {
+    blocks.push({ raw: frontMatter[0], kind: 'front-matter' });
+  }
+
+  // Blank lines belong to the block before them (or the first block)
+  let leadingSpace = '';
+  for (const token of markdown.lexer(text.slice(frontMatter?.[0].length ?? 0))) {
+    const previous = blocks[blocks.length - 1];
+    if (token.type === 'space') {
+      if (previous) previous.raw += token.raw;
+      else leadingSpace += token.raw;
+      continue;
+    }
+
+    const kind: RawBlockKind | null =
+      token.type === 'html' ? 'html'
+        : token.type === 'def' ? 'definition'
+          : token.type === 'footnoteDefinition' ? 'footnote'
+            : null;
+    // Runs of definitions, footnotes or HTML blocks make one raw block
+    if (kind && previous?.kind === kind) {
+      previous.raw += token.raw;
+      continue;
+    }
+    blocks.push({ raw: leadingSpace + token.raw, kind, token });
+    leadingSpace = '';
+  }
+  return blocks;
+}
+
+function getLineEnding(source: string): string {
+  return source.includes('\r\n') ? '\r\n' : '\n';
+}
+
+/**
+ * The source of each top-level block of a markdown file, in order, with the
+ * file's line endings (see readMarkdownBlocks)
+ */
+export function splitMarkdownBlocks(source: string): string[] {
+  const eol = getLineEnding(source);
+  return readMarkdownBlocks(source.replace(/\r\n?/g, '\n')).map((block) =>
+    eol === '\n' ? block.raw : block.raw.replace(/\n/g, eol)
+  );
+}
+
+/**
+ * Convert markdown into HTML for the editor
+ */
+export function markdownToEditorHtml(source: string): string {
+  // Raw sources keep the file's line endings; parsing works on \n
+  const eol = getLineEnding(source);
+  const withEol = (raw: string) => (eol === '\n' ? raw : raw.replace(/\n/g, eol));
+
+  return readMarkdownBlocks(source.replace(/\r\n?/g, '\n'))
+    .map((block) => {
+      if (block.kind || !block.token) {
+        return rawBlockHtml(withEol(block.raw), block.kind ?? 'html');
+      }
+
+      const html = (markdown.parser([block.token]) as string).trim();
+      const element = parseHtml(html).children.find(
+        (node): node is HtmlElement => node.type === 'element'
+      );
+      if (!element) return html;
+
+      const hash = hashText(serializeBlock(element, CANONICAL_CONTEXT));
+      // A function, so $ in the source is not read as a replacement pattern
+      return html.replace(
+        /^<([a-zA-Z][\w-]*)/,
+        (_, tag: string) => `<${tag} data-md-raw="${escapeHtml(withEol(block.raw))}" data-md-hash="${hash}"`
+      );
+    })
+    .join('');
+}
+
+/**
+ * Convert editor HTML back into markdown, keeping the source of unchanged blocks
+ */
+export function editorHtmlToMarkdown(html: string): string {
+  const blocks = parseHtml(html).children.filter(
+    (node): node is HtmlElement => node.type === 'element'
+  );
+
+  const raws = blocks
+    .map((block) => (isRawBlock(block) ? null : block.attrs['data-md-raw']))
+    .filter((raw): raw is string => raw != null);
+  const eol = blocks.some((block) => getBlockSource(block)?.includes('\r\n')) ? '\r\n' : '\n';
+  const style = { ...DEFAULT_STYLE, ...detectStyle(raws) };
+  const definitions = collectDefinitions(blocks);
+
+  const parts: Array<{ content: string; separator: string; verbatim: boolean }> = [];
+  for (const block of blocks) {
+    const source = getBlockSource(block);
+    const isVerbatim =
+      source != null &&
+      (isRawBlock(block) ||
+        block.attrs['data-md-hash'] === hashText(serializeBlock(block, CANONICAL_CONTEXT)));
+    const separator = source?.match(/\s*$/)?.[0] ?? '';
+
+    if (isVerbatim) {
+      parts.push({ content: source.slice(0, source.length - separator.length), separator, verbatim: true });
+      continue;
+    }
+
+    const content = serializeBlock(block, {
+      style: { ...style, ...detectStyle(source ? [source] : []) },
+      definitions,
+    });
+    if (content) {
+      // A new block ends the file with a newline; an edited one keeps what it had
+      parts.push({
+        content: content.replace(/\n/g, eol),
+        separator: source != null ? separator : eol,
+        verbatim: false,
+      });
+    }
+  }
+
+  return parts
+    .map((part, index) => {
+      const next = parts[index + 1];
+      if (!next) return part.content + part.separator;
+      // Blocks that were not next to each other need a blank line between them
+      const newlines = part.separator.split('\n').length - 1;
+      const needsBlankLine = newlines === 0 || (!next.verbatim && newlines < 2);
+      return part.content + (needsBlankLine ? eol + eol : part.separator);
+    })
+    .join('');
+}
+
+function isRawBlock(element: HtmlElement): boolean {
+  return element.attrs['data-type'] === 'raw-markdown';
+}
+
+function getBlockSource(element: HtmlElement): string | undefined {
+  return isRawBlock(element) ? element.attrs['data-raw'] : element.attrs['data-md-raw'];
+}
+
+/**
+ * The style choices a file already makes, from the source of its blocks
+ */
+function detectStyle(sources: string[]): Partial<MarkdownStyle> {
+  const style: Partial<MarkdownStyle> = {};
+  for (const source of sources) {
+    const text = source.replace(/\r\n/g, '\n');
+    const hr = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/.exec(text.trim());
+    if (hr) {
+      if (!style.hr) style.hr = text.trim();
+      continue;
+    }
+    const fence = /^[ \t]{0,3}(`{3,}|~{3,})/.exec(text);
+    if (fence) {
+      // Only the fence: the rest is code
+      if (!style.fence) style.fence = fence[1][0] as MarkdownStyle['fence'];
+      continue;
+    }
+    const bullet = /^[ \t]*([-*+])[ \t]+\S/m.exec(text);
+    if (bullet && !style.bullet) style.bullet = bullet[1] as MarkdownStyle['bullet'];
+    const ordered = /^[ \t]*\d{1,9}([.)])[ \t]+\S/m.exec(text);
+    if (ordered && !style.orderedDelimiter) {
+      style.orderedDelimiter = ordered[1] as MarkdownStyle['orderedDelimiter'];
+    }
+    const strong = /(\*\*|__)(?=[^\s*_])/.exec(text);
+    if (strong && !style.strong) style.strong = strong[1] as MarkdownStyle['strong'];
+    const emphasis = /(?:^|[^*_\\\p{L}\p{N}])([*_])(?=[^\s*_])/mu.exec(text.replace(/\*\*|__/g, ''));
+    if (emphasis && !style.emphasis) style.emphasis = emphasis[1] as MarkdownStyle['emphasis'];
+    if (!style.hardBreak) {
+      if (/\\\n/.test(text)) style.hardBreak = '\\\n';
+      else if (/\S {2,}\n/.test(text)) style.hardBreak = '  \n';
+    }
+  }
+  return style;
+}
+
+function collectDefinitions(blocks: HtmlElement[]): Map<string, string> {
+  const definitions = new Map<string, string>();
+  for (const block of blocks) {
+    if (block.attrs['data-kind'] !== 'definition') continue;
+    const pattern = /^ {0,3}\[([^\]]+)\]:\s*<?([^\s>]*)>?/gm;
+    for (const match of (block.attrs['data-raw'] ?? '').matchAll(pattern)) {
+      const label = normalizeLabel(match[1]);
+      if (!definitions.has(label)) definitions.set(label, match[2]);
+    }
+  }
+  return definitions;
+}
+
+// ============================================================================
+// SERIALIZATION
+// ============================================================================
+
+function isInlineNode(node: HtmlNode): boolean {
+  return node.type === 'text' || INLINE_TAGS.has(node.tag);
+}
+
+/**
+ * Serialize a sequence of blocks; runs of inline content (as in tight list
+ * items) are treated as paragraphs
+ */
+function serializeBlocks(
+  nodes: HtmlNode[],
+  context: SerializeContext,
+  joinWith: (previous: HtmlElement | null, next: HtmlElement | null) => string = () => '\n\n'
+): string {
+  const parts: Array<{ text: string; element: HtmlElement | null }> = [];
+  let inline: HtmlNode[] = [];
+  const flushInline = () => {
+    const text = serializeParagraph(inline, context);
+    if (text) parts.push({ text, element: null });
+    inline = [];
+  };
+
+  for (const node of nodes) {
+    if (isInlineNode(node)) {
+      inline.push(node);
+      continue;
+    }
+    flushInline();
+    const element = node as HtmlElement;
+    const text = serializeBlock(element, context);
+    if (text) parts.push({ text, element });
+  }
+  flushInline();
+
+  return parts
+    .map((part, index) =>
+      index === 0 ? part.text : joinWith(parts[index - 1].element, part.element) + part.text
+    )
+    .join('');
+}
+
+function serializeBlock(element: HtmlElement, context: SerializeContext): string {
+  const { style } = context;
+  const heading = /^h([1-6])$/.exec(element.tag);
+  if (heading) {
+    const text = serializeInline(element.children, context).replace(/\s*\n\s*/g, ' ').trim();
+    return `${'#'.repeat(Number(heading[1]))} ${text}`;
+  }
+
+  switch (element.tag) {
+    case 'p':
+      return serializeParagraph(element.children, context);
+    case 'ul':
+    case 'ol':
+      return serializeList(element, context);
+    case 'blockquote':
+      return serializeBlocks(element.children, context)
+        .split('\n')
+        .map((line) => (line ? `> ${line}` : '>'))
+        .join('\n');
+    case 'pre':
+      return serializeCodeBlock(element, style);
+    case 'hr':
+      return style.hr;
+    case 'table':
+      return serializeTable(element, context);
+    case 'label':
+      return '';
+    case 'div':
+      if (isRawBlock(element)) {
+        return (element.attrs['data-raw'] ?? '').replace(/\r\n/g, '\n').replace(/\s+$/, '');
+      }
+      if (element.attrs['data-type'] === 'math-block') {
+        return `$$\n${element.attrs['data-latex'] ?? ''}\n$$`;
+      }
+      return serializeBlocks(element.children, context);
+    default:
+      return serializeBlocks(element.children, context);
+  }
+}
+
+function serializeParagraph(nodes: HtmlNode[], context: SerializeContext): string {
+  return serializeInline(nodes, context)
+    .replace(/^\s+|\s+$/g, '')
+    .split('\n')
+    .map(escapeLineStart)
+    .join('\n');
+}
+
+/**
+ * Escape text at the start of a line that would otherwise start a block
+ */
+function escapeLineStart(line: string): string {
+  return line
+    .replace(/^([#>+-])(?=\s|$)/, '\\$1')
+    .replace(/^(\d{1,9})([.)])(?=\s|$)/, '$1\\$2');
+}
+
+function serializeList(list: HtmlElement, context: SerializeContext): string {
+  const { style } = context;
+  const items = list.children.filter(
+    (node): node is HtmlElement => node.type === 'element' && node.tag === 'li'
+  );
+  const start = Number(list.attrs.start ?? 1) || 1;
+  const isTaskList = list.attrs['data-type'] === 'taskList';
+
+  const serialized = items.map((item, index) => {
+    const listMarker = list.tag === 'ol' ? `${start + index}${style.orderedDelimiter}` : style.bullet;
+    const marker = isTaskList || item.attrs['data-type'] === 'taskItem'
+      ? `${listMarker} [${item.attrs['data-checked'] === 'true' ? 'x' : ' '}]`
+      : listMarker;
+
+    // Task items wrap their content in a div
+    const children = item.children.flatMap((child) =>
+      child.type === 'element' && child.tag === 'div' && !isRawBlock(child) ? child.children : [child]
+    );
+    // A nested list directly follows the text of its item
+    const body = serializeBlocks(children, context, (_previous, next) =>
+      next && (next.tag === 'ul' || next.tag === 'ol') ? '\n' : '\n\n'
+    );
+    if (!body) return marker;
+
+    const indent = ' '.repeat(listMarker.length + 1);
+    return body
+      .split('\n')
+      .map((line, lineIndex) => (lineIndex === 0 ? `${marker} ${line}` : line ? indent + line : ''))
+      .join('\n');
+  });
+
+  const isLoose = serialized.some((item) => item.includes('\n\n'));
+  return serialized.join(isLoose ? '\n\n' : '\n');
+}
+
+function serializeCodeBlock(pre: HtmlElement, style: MarkdownStyle): string {
+  const code = pre.children.find(
+    (node): node is HtmlElement => node.type === 'element' && node.tag === 'code'
+  );
+  const text = getTextContent(code ?? pre).replace(/\n$/, '');
+  const language = /(?:^|\s)language-(\S+)/.exec(code?.attrs.class ?? '')?.[1];
+
+  const longestRun = Math.max(
+    0,
+    ...(text.match(style.fence === '`' ? /`+/g : /~+/g) ?? []).map((run) => run.length)
+  );
+  const fence = style.fence.repeat(Math.max(3, longestRun + 1));
+  const info = language && language !== 'plaintext' ? language : '';
+  return `${fence}${info}\n${text}${text ? '\n' : ''}${fence}`;
+}
+
+function serializeTable(table: HtmlElement, context: SerializeContext): string {
+  const rows: string[][] = [];
+  const collectRows = (element: HtmlElement) => {
+    for (const child of element.children) {
+      if (child.type !== 'element') continue;
+      if (child.tag === 'tr') {
+        rows.push(
+          child.children
+            .filter((cell): cell is HtmlElement => cell.type === 'element' && (cell.tag === 'th' || cell.tag === 'td'))
+            .map((cell) =>
+              serializeBlocks(cell.children, context, () => '<br>')
+                .replace(/\n/g, ' ')
+                .replace(/\|/g, '\\|')
+            )
+        );
+      } else if (child.tag !== 'colgroup') {
+        collectRows(child);
+      }
+    }
+  };
+  collectRows(table);
+  if (rows.length === 0) return '';
+
+  const columns = Math.max(...rows.map((row) => row.length));
+  const formatRow = (cells: string[]) =>
+    `| ${Array.from({ length: columns }, (_, i) => cells[i] ?? '').join(' | ')} |`;
+  return [
+    formatRow(rows[0]),
+    formatRow(Array.from({ length: columns }, () => '---')),
+    ...rows.slice(1).map(formatRow),
+  ].join('\n');
+}
+
+function serializeInline(nodes: HtmlNode[], context: SerializeContext): string {
+  return nodes.map((node) => serializeInlineNode(node, context)).join('');
+}
+
+/**
+ * Wrap inline content in delimiters, keeping surrounding spaces outside them
+ */
+function wrapInline(content: string, open: string, close = open): string {
+  const match = /^(\s*)([\s\S]*?)(\s*)$/.exec(content);
+  if (!match || !match[2]) return content;
+  return `${match[1]}${open}${match[2]}${close}${match[3]}`;
+}
+
+function serializeInlineNode(node: HtmlNode, context: SerializeContext): string {
+  if (node.type === 'text') {
+    return escapeText(node.text.replace(/[ \t\r\n]+/g, ' '));
+  }
+
+  const { style } = context;
+  const inner = () => serializeInline(node.children, context);
+  switch (node.tag) {
+    case 'strong':
+    case 'b':
+      return wrapInline(inner(), style.strong);
+    case 'em':
+    case 'i':
+      return wrapInline(inner(), style.emphasis);
+    case 's':
+    case 'del':
+    case 'strike':
+      return wrapInline(inner(), '~~');
+    case 'u':
+    case 'mark':
+    case 'sub':
+    case 'sup':
+      return wrapInline(inner(), `<${node.tag}>`, `</${node.tag}>`);
+    case 'code':
+      return serializeCodeSpan(getTextContent(node));
+    case 'br':
+      return style.hardBreak;
+    case 'img':
+      return `![${escapeText(node.attrs.alt ?? '')}](${formatDestination(node.attrs.src ?? '')}${
+        node.attrs.title ? ` "${node.attrs.title.replace(/"/g, '\\"')}"` : ''
+      })`;
+    case 'a':
+      return serializeLink(node, inner(), context);
+    case 'input':
+      return '';
+    case 'span':
+      if (node.attrs['data-type'] === 'raw-inline') return node.attrs['data-raw'] ?? '';
+      if (node.attrs['data-type'] === 'wiki-link') {
+        return formatWikiLink({
+          target: node.attrs['data-target'] ?? '',
+          heading: node.attrs['data-heading'] ?? null,
+          alias: node.attrs['data-alias'] ?? null,
+        });
+      }
+      if (node.attrs['data-type'] === 'citation') return node.attrs['data-source'] ?? '';
+      if (node.attrs['data-type'] === 'math-inline') {
+        const delimiter = node.attrs['data-display'] === 'true' ? '$$' : '$';
+        return `${delimiter}${node.attrs['data-latex'] ?? ''}${delimiter}`;
+      }
+      return inner();
+    default:
+      return inner();
+  }
+}
+
+function serializeCodeSpan(text: string): string {
+  const longestRun = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const ticks = '`'.repeat(longestRun + 1);
+  const padding = /^`|`$/.test(text) || (/^ .*\S.* $/.test(text)) ? ' ' : '';
+  return `${ticks}${padding}${text}${padding}${ticks}`;
+}
+
+function serializeLink(link: HtmlElement, text: string, context: SerializeContext): string {
+  const href = link.attrs.href ?? '';
+  const reference = link.attrs['data-md-ref'];
+  if (reference && context.definitions) {
+    const label = reference.startsWith('full:') ? reference.slice(5) : getTextContent(link);
+    if (context.definitions.get(normalizeLabel(label)) === href) {
+      if (reference.startsWith('full:')) return `[${text}][${label}]`;
+      return reference === 'collapsed' ? `[${text}][]` : `[${text}]`;
+    }
+  }
+
+  const plainText = getTextContent(link);
+  if (href && (plainText === href || `mailto:${plainText}` === href) && !/\s/.test(plainText)) {
+    return `<${plainText}>`;
+  }
+  return `[${text}](${formatDestination(href)})`;
+}
+
+function formatDestination(url: string): string {
+  return /[\s()<>]/.test(url) ? `<${url.replace(/[<>]/g, (c) => encodeURIComponent(c))}>` : url;
+}
+
+/**
+ * Escape the characters in text that markdown would read as syntax
+ */
+function escapeText(text: string): string {
+  const isWordCharacter = (char: string | undefined) => !!char && /[\p{L}\p{N}]/u.test(char);
+  const hasStrikethrough = (text.match(/~/g) ?? []).length > 1;
+  return text.replace(/[\\`*_~[\]<&$]/g, (char, offset: number) => {
+    switch (char) {
+      case '_':
+        // Intraword underscores are literal
+        return isWordCharacter(text[offset - 1]) && isWordCharacter(text[offset + 1]) ? char : '\\_';
+      case '~':
+        return hasStrikethrough ? '\\~' : char;
+      case '[':
+        return text.indexOf(']', offset) === -1 ? char : '\\[';
+      case ']':
+        return text.lastIndexOf('[', offset) === -1 ? char : '\\]';
+      case '<':
+        return /[a-zA-Z/!?]/.test(text[offset + 1] ?? '') ? '\\<' : char;
+      case '&':
+        return /^&#?\w+;/.test(text.slice(offset)) ? '&amp;' : char;
+      case '$':
+        return INLINE_MATH_PATTERN.test(text.slice(offset)) ? '\\$' : char;
+      default:
+        return `\\${char}`;
+    }
+  });
+}
@@ -0,0 +1,173 @@
+import { Extension, Node, mergeAttributes, type Editor } from '@tiptap/react';
+import { Link } from '@tiptap/extension-link';
+import { createFrontMatter } from '../../utils/front-matter';
+
+type ProseMirrorNode = Editor['state']['doc'];
+
+/**
+ * Editor extensions that carry markdown source through TipTap, so markdown
+ * files can be saved back without losing what the editor cannot represent
+ * (see utils/markdown.ts)
+ */
+
+// Top-level blocks that remember the markdown they were parsed from
+const MARKDOWN_BLOCK_TYPES = [
+  'paragraph',
+  'heading',
+  'bulletList',
+  'orderedList',
+  'taskList',
+  'blockquote',
+  'codeBlock',
+  'horizontalRule',
+  'table',
+  'mathBlock',
+];
+
+function dataAttribute(key: string, name: string) {
+  return {
+    default: null,
+    // A block split off an edited one has no source of its own
+    keepOnSplit: false,
+    parseHTML: (element: HTMLElement) => element.getAttribute(name),
+    renderHTML: (attributes: Record<string, unknown>) =>
+      attributes[key] == null ? {} : { [name]: attributes[key] },
+  };
+}
+
+/**
+ * Keeps data-md-raw and data-md-hash on markdown blocks
+ */
+export const MarkdownSource = Extension.create({
+  name: 'markdownSource',
+
+  addGlobalAttributes() {
+    return [
+      {
+        types: MARKDOWN_BLOCK_TYPES,
+        attributes: {
+          mdRaw: dataAttribute('mdRaw', 'data-md-raw'),
+          mdHash: dataAttribute('mdHash', 'data-md-hash'),
+        },
+      },
+    ];
+  },
+});
+
+/**
+ * Markdown the editor cannot represent (front matter, HTML blocks, link
+ * definitions, footnotes), shown as source and saved back unchanged
+ */
+export const RawMarkdownBlock = Node.create({
+  name: 'rawMarkdownBlock',
+  group: 'block',
+  atom: true,
+  selectable: true,
+  draggable: true,
+
+  addAttributes() {
+    return {
+      raw: {
+        default: '',
+        parseHTML: (element) => element.getAttribute('data-raw') ?? '',
+        renderHTML: (attributes) => ({ 'data-raw': attributes.raw }),
+      },
+      kind: {
+        default: 'html',
+        parseHTML: (element) => element.getAttribute('data-kind') ?? 'html',
+        renderHTML: (attributes) => ({ 'data-kind': attributes.kind }),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'div[data-type="raw-markdown"]' }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return [
+      'div',
+      mergeAttributes(HTMLAttributes, { 'data-type': 'raw-markdown', class: 'editor-raw-markdown' }),
+      String(node.attrs.raw).replace(/\s+$/, ''),
+    ];
+  },
+});
+
+/**
+ * Source of the document's front matter (fences included), if it starts with one
+ */
+export function getFrontMatterSource(doc: ProseMirrorNode): string | null {
+  const first = doc.firstChild;
+  return first?.type.name === 'rawMarkdownBlock' && first.attrs.kind === 'front-matter'
+    ? String(first.attrs.raw)
+    : null;
+}
+
+/**
+ * Replace the document's front matter, adding it at the top if there is none.
+ * Undoable, and marks the document modified like any other edit.
+ */
+export function setFrontMatterSource(editor: Editor, source: string = createFrontMatter()): void {
+  editor
+    .chain()
+    .command(({ tr }) => {
+      const first = tr.doc.firstChild;
+      if (getFrontMatterSource(tr.doc) !== null && first) {
+        tr.setNodeMarkup(0, undefined, { ...first.attrs, raw: source });
+      } else {
+        tr.insert(0, editor.schema.nodes.rawMarkdownBlock.create({ kind: 'front-matter', raw: source }));
+      }
+      return true;
+    })
+    .run();
+}
+
+/**
+ * Inline markdown the editor cannot represent (inline HTML, footnote references)
+ */
+export const RawMarkdownInline = Node.create({
+  name: 'rawMarkdownInline',
+  group: 'inline',
+  inline: true,
+  atom: true,
+  selectable: true,
+
+  addAttributes() {
+    return {
+      raw: {
+        default: '',
+        parseHTML: (element) => element.getAttribute('data-raw') ?? '',
+        renderHTML: (attributes) => ({ 'data-raw': attributes.raw }),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'span[data-type="raw-inline"]' }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return [
+      'span',
+      mergeAttributes(HTMLAttributes, { 'data-type': 'raw-inline', class: 'editor-raw-inline' }),
+      String(node.attrs.raw),
+    ];
+  },
+});
+
+/**
+ * Link that remembers being written as a reference link ([text][label])
+ */
+export const MarkdownLink = Link.extend({
+  addAttributes() {
+    return {
+      ...this.parent?.(),
+      mdRef: {
+        default: null,
+        parseHTML: (element) => element.getAttribute('data-md-ref'),
+        renderHTML: (attributes) =>
+          attributes.mdRef == null ? {} : { 'data-md-ref': attributes.mdRef },
+      },
+    };
+  },
+});
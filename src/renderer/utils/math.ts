@@ -0,0 +1,281 @@
+import katex from 'katex';
+import { InputRule, Node, mergeAttributes, type Editor, type NodeViewRenderer } from '@tiptap/react';
+
+type ProseMirrorNode = Editor['state']['doc'];
+
+/**
+ * Draw LaTeX into an element with KaTeX, which works offline
+ * @returns the error for TeX KaTeX cannot read, which is shown as source
+ */
+function renderMath(element: HTMLElement, latex: string, displayMode: boolean): string | null {
+  if (!latex.trim()) {
+    element.textContent = displayMode ? 'Empty equation' : '$ $';
+    return null;
+  }
+  try {
+    katex.render(latex, element, { displayMode, throwOnError: true, strict: 'ignore' });
+    return null;
+  } catch (error) {
+    element.textContent = latex;
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Node view showing an equation, which turns into its LaTeX source for
+ * editing when clicked. Enter (Ctrl+Enter in blocks) or leaving the field
+ * saves it, Escape cancels; saving an empty equation removes it.
+ */
+function createMathView(isBlock: boolean): NodeViewRenderer {
+  return ({ node, getPos, editor }) => {
+    let current = node;
+    const dom = document.createElement(isBlock ? 'div' : 'span');
+    dom.className = isBlock ? 'editor-math-block' : 'editor-math-inline';
+    dom.dataset.type = isBlock ? 'math-block' : 'math-inline';
+    const preview = document.createElement(isBlock ? 'div' : 'span');
+    const message = document.createElement('div');
+    message.className = 'editor-math-message';
+    dom.append(preview);
+
+    let input: HTMLInputElement | HTMLTextAreaElement | null = null;
+    const isDisplay = () => isBlock || current.attrs.display === true;
+
+    const render = (latex: string) => {
+      const error = renderMath(preview, latex, isDisplay());
+      dom.classList.toggle('editor-math-error', !!error);
+      dom.classList.toggle('editor-math-empty', !latex.trim());
+      dom.title = error ?? (input ? '' : 'Click to edit');
+      if (isBlock) {
+        message.textContent = error ?? '';
+        if (error) dom.append(message);
+        else message.remove();
+      }
+    };
+
+    const close = (latex: string | null) => {
+      const field = input;
+      if (!field) return;
+      // Cleared first: removing the field blurs it
+      input = null;
+      field.remove();
+      dom.classList.remove('editor-math-editing');
+
+      const pos = getPos();
+      if (latex === null || typeof pos !== 'number') {
+        render(String(current.attrs.latex));
+        editor.view.focus();
+        return;
+      }
+      const { tr } = editor.state;
+      if (!latex.trim()) {
+        tr.delete(pos, pos + current.nodeSize);
+      } else if (latex !== current.attrs.latex) {
+        tr.setNodeMarkup(pos, undefined, { ...current.attrs, latex });
+      }
+      render(latex);
+      editor.view.dispatch(tr);
+      editor.view.focus();
+    };
+
+    const open = () => {
+      if (input || !editor.isEditable) return;
+      const field = isBlock ? document.createElement('textarea') : document.createElement('input');
+      field.className = 'editor-math-source';
+      field.value = String(current.attrs.latex);
+      field.spellcheck = false;
+      if (field instanceof HTMLTextAreaElement) {
+        field.rows = Math.max(2, field.value.split('\n').length);
+      } else {
+        field.size = Math.max(4, field.value.length + 1);
+      }
+      field.addEventListener('input', () => {
+        if (field instanceof HTMLTextAreaElement) {
+          field.rows = Math.max(2, field.value.split('\n').length);
+        } else {
+          field.size = Math.max(4, field.value.length + 1);
+        }
+        render(field.value);
+      });
+      field.addEventListener('keydown', (event) => {
+        const { key, ctrlKey, metaKey } = event as KeyboardEvent;
+        if (key === 'Escape') {
+          event.preventDefault();
+          close(current.attrs.latex ? null : '');
+        } else if (key === 'Enter' && (!isBlock || ctrlKey || metaKey)) {
+          event.preventDefault();
+          close(field.value);
+        }
+      });
+      field.addEventListener('blur', () => close(field.value));
+
+      input = field;
+      dom.classList.add('editor-math-editing');
+      dom.insertBefore(field, preview);
+      render(field.value);
+      field.focus();
+    };
+
+    dom.addEventListener('click', (event) => {
+      if (input?.contains(event.target as globalThis.Node)) return;
+      event.preventDefault();
+      open();
+    });
+
+    render(String(current.attrs.latex));
+    // Equations just typed as $$ start out being edited
+    if (!current.attrs.latex && editor.isFocused) {
+      requestAnimationFrame(open);
+    }
+
+    return {
+      dom,
+      update: (updated: ProseMirrorNode) => {
+        if (updated.type !== current.type) return false;
+        current = updated;
+        if (!input) render(String(updated.attrs.latex));
+        return true;
+      },
+      stopEvent: (event: Event) => !!input && input.contains(event.target as globalThis.Node),
+      ignoreMutation: () => true,
+    };
+  };
+}
+
+/**
+ * Open the source of a selected equation for editing
+ */
+function editSelectedMath(editor: Editor, name: string): boolean {
+  const { selection, doc } = editor.state;
+  const node = doc.nodeAt(selection.from);
+  if (node?.type.name !== name || selection.to !== selection.from + node.nodeSize) return false;
+  (editor.view.nodeDOM(selection.from) as HTMLElement | null)?.click();
+  return true;
+}
+
+const latexAttribute = {
+  default: '',
+  parseHTML: (element: HTMLElement) => element.getAttribute('data-latex') ?? '',
+  renderHTML: (attributes: Record<string, unknown>) => ({ 'data-latex': attributes.latex }),
+};
+
+/**
+ * TeX equation within text, written $latex$ (or $$latex$$ to display it
+ * full size; see utils/markdown.ts). Typing the closing $ turns the text
+ * into an equation.
+ */
+export const MathInline = Node.create({
+  name: 'mathInline',
+  group: 'inline',
+  inline: true,
+  atom: true,
+  selectable: true,
+
+  addAttributes() {
+    return {
+      latex: latexAttribute,
+      display: {
+        default: false,
+        parseHTML: (element) => element.getAttribute('data-display') === 'true',
+        renderHTML: (attributes) => (attributes.display ? { 'data-display': 'true' } : {}),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'span[data-type="math-inline"]' }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return ['span', mergeAttributes(HTMLAttributes, { 'data-type': 'math-inline' }), getMathSource(node)];
+  },
+
+  renderText({ node }) {
+    return getMathSource(node);
+  },
+
+  addNodeView() {
+    return createMathView(false);
+  },
+
+  addKeyboardShortcuts() {
+    return {
+      Enter: () => editSelectedMath(this.editor, this.name),
+    };
+  },
+
+  addInputRules() {
+    return [
+      new InputRule({
+        find: /(?<![$\\])(\${1,2})((?![\s$])(?:\\.|[^\\$])+?(?<!\s))\1$/,
+        handler: ({ state, range, match }) => {
+          state.tr.replaceWith(
+            range.from,
+            range.to,
+            this.type.create({ latex: match[2], display: match[1] === '$$' })
+          );
+        },
+      }),
+    ];
+  },
+});
+
+/**
+ * TeX equation on its own lines, written between $$ lines. Typing $$ and a
+ * space in an empty paragraph starts one.
+ */
+export const MathBlock = Node.create({
+  name: 'mathBlock',
+  group: 'block',
+  atom: true,
+  selectable: true,
+  draggable: true,
+
+  addAttributes() {
+    return { latex: latexAttribute };
+  },
+
+  parseHTML() {
+    return [{ tag: 'div[data-type="math-block"]' }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['div', mergeAttributes(HTMLAttributes, { 'data-type': 'math-block' })];
+  },
+
+  renderText({ node }) {
+    return getMathSource(node);
+  },
+
+  addNodeView() {
+    return createMathView(true);
+  },
+
+  addKeyboardShortcuts() {
+    return {
+      Enter: () => editSelectedMath(this.editor, this.name),
+    };
+  },
+
+  addInputRules() {
+    return [
+      new InputRule({
+        find: /^\$\$\s$/,
+        handler: ({ state, range }) => {
+          const $from = state.doc.resolve(range.from);
+          if ($from.parent.type.name !== 'paragraph' || $from.parent.textContent !== '$$') return null;
+          state.tr.replaceWith($from.before(), $from.after(), this.type.create());
+        },
+      }),
+    ];
+  },
+});
+
+/**
+ * Markdown source of a math node
+ */
+function getMathSource(node: ProseMirrorNode): string {
+  const latex = String(node.attrs.latex);
+  if (node.type.name === 'mathBlock') return `$$\n${latex}\n$$`;
+  const delimiter = node.attrs.display ? '$$' : '$';
+  return `${delimiter}${latex}${delimiter}`;
+}
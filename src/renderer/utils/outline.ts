@@ -0,0 +1,120 @@
+import type { Editor } from '@tiptap/react';
+import { extractMarkdownHeadings } from '../../utils/file-utils';
+import { splitMarkdownBlocks } from './markdown';
+
+type ProseMirrorNode = Editor['state']['doc'];
+
+/**
+ * A heading of the document outline, located in the editor
+ */
+export interface OutlineHeading {
+  level: number;
+  text: string;
+  /** Index of the heading among the document's top-level nodes */
+  index: number;
+  /** Document position of the heading node */
+  pos: number;
+}
+
+/**
+ * Headings of a markdown document, mapped to the editor's top-level heading
+ * nodes through the document's blocks (see splitMarkdownBlocks)
+ */
+export function getOutline(doc: ProseMirrorNode, markdown: string): OutlineHeading[] {
+  // First line of each block
+  const blockLines: number[] = [];
+  let line = 1;
+  for (const block of splitMarkdownBlocks(markdown)) {
+    blockLines.push(line);
+    line += block.split('\n').length - 1;
+  }
+
+  const positions: number[] = [];
+  doc.forEach((_node, offset) => positions.push(offset));
+
+  const outline: OutlineHeading[] = [];
+  let index = 0;
+  for (const heading of extractMarkdownHeadings(markdown)) {
+    while (index < blockLines.length - 1 && blockLines[index + 1] <= heading.lineNumber) index++;
+    // Blocks and nodes correspond one to one; skip anything that did not become a heading
+    if (index >= positions.length || doc.child(index).type.name !== 'heading') continue;
+    if (outline[outline.length - 1]?.index === index) continue;
+    outline.push({ level: heading.level, text: heading.text, index, pos: positions[index] });
+  }
+  return outline;
+}
+
+/**
+ * Document range of a heading's section: the heading and everything up to
+ * the next heading of the same or a higher level
+ */
+export function getSectionRange(
+  doc: ProseMirrorNode,
+  outline: OutlineHeading[],
+  headingIndex: number
+): { from: number; to: number } {
+  const heading = outline[headingIndex];
+  const next = outline.slice(headingIndex + 1).find((h) => h.level <= heading.level);
+  return { from: heading.pos, to: next ? next.pos : doc.content.size };
+}
+
+/**
+ * Index of the heading whose section holds a document position, or -1 before
+ * the first heading
+ */
+export function getActiveHeadingIndex(outline: OutlineHeading[], pos: number): number {
+  let active = -1;
+  outline.forEach((heading, index) => {
+    if (heading.pos <= pos) active = index;
+  });
+  return active;
+}
+
+/**
+ * Move a heading's section in front of another heading (or to the end of the
+ * document when targetIndex is outline.length), as one undoable edit.
+ * Returns false when the target is inside the section itself.
+ */
+export function moveSection(
+  editor: Editor,
+  outline: OutlineHeading[],
+  headingIndex: number,
+  targetIndex: number
+): boolean {
+  const { from, to } = getSectionRange(editor.state.doc, outline, headingIndex);
+  const target = targetIndex < outline.length ? outline[targetIndex].pos : editor.state.doc.content.size;
+  if (target >= from && target <= to) return false;
+
+  // Where the section starts once it is moved
+  const insertAt = target > to ? target - (to - from) : target;
+  return editor
+    .chain()
+    .command(({ tr }) => {
+      const section = tr.doc.slice(from, to).content;
+      tr.delete(from, to);
+      tr.insert(insertAt, section);
+      return true;
+    })
+    .setTextSelection(insertAt + 1)
+    .scrollIntoView()
+    .run();
+}
+
+/**
+ * Put the cursor in the first heading with the given text (ignoring case)
+ * and scroll to it, as for a [[note#heading]] link
+ * @returns false when there is no such heading
+ */
+export function revealHeading(editor: Editor, text: string): boolean {
+  const wanted = text.trim().toLowerCase();
+  let found = -1;
+  editor.state.doc.forEach((node, pos) => {
+    if (found === -1 && node.type.name === 'heading' && node.textContent.trim().toLowerCase() === wanted) {
+      found = pos;
+    }
+  });
+  if (found === -1) return false;
+
+  editor.chain().focus().setTextSelection(found + 1).scrollIntoView().run();
+  return true;
+}
@@ -0,0 +1,118 @@
+import type { Editor } from '@tiptap/react';
+import { splitMarkdownBlocks } from './markdown';
+
+type ProseMirrorNode = Editor['state']['doc'];
+
+/**
+ * Cursor mapping between the rich editor and the markdown source
+ * Top-level editor nodes and markdown blocks correspond one to one (see
+ * splitMarkdownBlocks). Inside a block, positions are matched by counting the
+ * characters that show as text, skipping markup, so the mapping is close but
+ * not exact for heavily formatted blocks.
+ */
+
+// Line prefixes that are markup: indentation, quotes, headings, list markers, task boxes
+const LINE_PREFIX = /^[ \t]*(?:>[ \t]?)*[ \t]*(?:#{1,6}[ \t]+|(?:[-*+]|\d{1,9}[.)])[ \t]+(?:\[[ xX]\][ \t]+)?)?/;
+// Lines that are only markup: fences, setext underlines, table delimiter rows
+const MARKUP_LINE = /^[ \t]*(?:`{3,}.*|~{3,}.*|=+[ \t]*|-+[ \t]*|\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*)$/;
+const MARKUP_CHARACTERS = '*_`~[]|\r';
+
+/**
+ * Offsets in a block's source of the characters that show as text, with each
+ * line break counted as one character
+ */
+function getTextOffsets(source: string): number[] {
+  const offsets: number[] = [];
+  let lineStart = 0;
+  for (const line of source.split('\n')) {
+    if (line.trim() && !MARKUP_LINE.test(line)) {
+      if (offsets.length > 0) offsets.push(lineStart - 1);
+      for (let i = LINE_PREFIX.exec(line)?.[0].length ?? 0; i < line.length; i++) {
+        const char = line[i];
+        if (char === '\\' && i + 1 < line.length) {
+          offsets.push(lineStart + ++i);
+        } else if (char === ']' && line[i + 1] === '(' && line.indexOf(')', i) !== -1) {
+          // Link destination
+          i = line.indexOf(')', i);
+        } else if (!MARKUP_CHARACTERS.includes(char)) {
+          offsets.push(lineStart + i);
+        }
+      }
+    }
+    lineStart += line.length + 1;
+  }
+  return offsets;
+}
+
+/**
+ * Positions of the top-level nodes of a document
+ */
+function getBlockPositions(doc: ProseMirrorNode): number[] {
+  const positions: number[] = [];
+  doc.forEach((_node, offset) => positions.push(offset));
+  return positions;
+}
+
+/**
+ * Map a position in the rich editor to an offset in the markdown source
+ */
+export function editorPositionToSourceOffset(doc: ProseMirrorNode, pos: number, markdown: string): number {
+  const blocks = splitMarkdownBlocks(markdown);
+  const positions = getBlockPositions(doc);
+  if (blocks.length === 0 || positions.length === 0) return 0;
+
+  let index = positions.length - 1;
+  while (index > 0 && positions[index] > pos) index--;
+  if (index >= blocks.length) return markdown.length;
+
+  const blockStart = blocks.slice(0, index).reduce((sum, block) => sum + block.length, 0);
+  const textOffset = doc.textBetween(positions[index], Math.max(pos, positions[index]), '\n').length;
+  const offsets = getTextOffsets(blocks[index]);
+  if (offsets.length === 0) return blockStart;
+  if (textOffset >= offsets.length) return blockStart + offsets[offsets.length - 1] + 1;
+  return blockStart + offsets[textOffset];
+}
+
+/**
+ * Map an offset in the markdown source to a position in the rich editor
+ */
+export function sourceOffsetToEditorPosition(doc: ProseMirrorNode, offset: number, markdown: string): number {
+  const blocks = splitMarkdownBlocks(markdown);
+  const positions = getBlockPositions(doc);
+  if (positions.length === 0) return 0;
+
+  let index = 0;
+  let blockStart = 0;
+  while (index < blocks.length - 1 && blockStart + blocks[index].length <= offset) {
+    blockStart += blocks[index].length;
+    index++;
+  }
+  if (index >= positions.length) return doc.content.size;
+
+  const offsets = getTextOffsets(blocks[index] ?? '');
+  let textOffset = offsets.findIndex((textPosition) => textPosition >= offset - blockStart);
+  if (textOffset === -1) textOffset = offsets.length;
+
+  // Smallest position in the block with that much text before it
+  const node = doc.child(index);
+  let low = positions[index];
+  let high = positions[index] + node.nodeSize;
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if (doc.textBetween(positions[index], middle, '\n').length < textOffset) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  if (doc.resolve(low).parent.inlineContent) return low;
+
+  // Between nodes (e.g. at the start of a list): move into the next text
+  let textPosition = -1;
+  doc.nodesBetween(low, positions[index] + node.nodeSize, (child, childPos) => {
+    if (textPosition !== -1) return false;
+    if (child.isTextblock && childPos + 1 >= low) textPosition = childPos + 1;
+    return true;
+  });
+  return textPosition === -1 ? positions[index] : textPosition;
+}
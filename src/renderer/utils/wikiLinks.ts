@@ -0,0 +1,146 @@
+import { InputRule, Node, mergeAttributes, type Editor } from '@tiptap/react';
+import { formatWikiLink, getWikiLinkLabel, parseWikiLink, type WikiLinkParts } from './markdown';
+
+export interface WikiLinkOptions {
+  /** Called when a wiki-link is clicked */
+  onOpen: ((link: WikiLinkParts) => void) | null;
+}
+
+function getLinkParts(attrs: Record<string, unknown>): WikiLinkParts {
+  return {
+    target: String(attrs.target ?? ''),
+    heading: attrs.heading == null ? null : String(attrs.heading),
+    alias: attrs.alias == null ? null : String(attrs.alias),
+  };
+}
+
+function linkAttribute(name: string) {
+  return {
+    default: null,
+    parseHTML: (element: HTMLElement) => element.getAttribute(name),
+    renderHTML: (attributes: Record<string, unknown>) => {
+      const key = name.replace('data-', '');
+      return attributes[key] == null ? {} : { [name]: attributes[key] };
+    },
+  };
+}
+
+/**
+ * Link to another note in the workspace, written [[target#heading|alias]]
+ * (see utils/markdown.ts). Typing a closing ]] turns the text into a link.
+ */
+export const WikiLink = Node.create<WikiLinkOptions>({
+  name: 'wikiLink',
+  group: 'inline',
+  inline: true,
+  atom: true,
+  selectable: true,
+
+  addOptions() {
+    return { onOpen: null };
+  },
+
+  addAttributes() {
+    return {
+      target: { ...linkAttribute('data-target'), default: '' },
+      heading: linkAttribute('data-heading'),
+      alias: linkAttribute('data-alias'),
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'span[data-type="wiki-link"]' }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return [
+      'span',
+      mergeAttributes(HTMLAttributes, { 'data-type': 'wiki-link', class: 'editor-wiki-link' }),
+      getWikiLinkLabel(getLinkParts(node.attrs)),
+    ];
+  },
+
+  renderText({ node }) {
+    return formatWikiLink(getLinkParts(node.attrs));
+  },
+
+  addNodeView() {
+    return ({ node }) => {
+      const link = getLinkParts(node.attrs);
+      const dom = document.createElement('span');
+      dom.className = 'editor-wiki-link';
+      dom.dataset.type = 'wiki-link';
+      dom.textContent = getWikiLinkLabel(link);
+      dom.title = formatWikiLink(link);
+      dom.addEventListener('click', (event) => {
+        event.preventDefault();
+        this.options.onOpen?.(link);
+      });
+      return { dom };
+    };
+  },
+
+  addInputRules() {
+    return [
+      new InputRule({
+        find: /\[\[[^[\]\n]*\]\]$/,
+        handler: ({ state, range, match }) => {
+          const link = parseWikiLink(match[0]);
+          if (!link) return null;
+          const { target, heading, alias } = link;
+          state.tr.replaceWith(range.from, range.to, this.type.create({ target, heading, alias }));
+        },
+      }),
+    ];
+  },
+});
+
+/**
+ * A [[ being typed before the cursor, with the text after it, for autocomplete
+ */
+export function findWikiLinkQuery(editor: Editor): { from: number; to: number; query: string } | null {
+  const { selection } = editor.state;
+  const { $from } = selection;
+  if (!selection.empty || !$from.parent.isTextblock || $from.parent.type.spec.code) return null;
+  if ($from.marks().some((mark) => mark.type.name === 'code')) return null;
+
+  const textBefore = $from.parent.textBetween(0, $from.parentOffset, undefined, '\ufffc');
+  const match = /\[\[([^[\]|#\n]*)$/.exec(textBefore);
+  if (!match) return null;
+  return { from: $from.pos - match[0].length, to: $from.pos, query: match[1] };
+}
+
+/**
+ * Replace a typed [[query (and a ]] right after it) with a link to a note
+ */
+export function insertWikiLink(editor: Editor, range: { from: number; to: number }, target: string): void {
+  const end = editor.state.doc.resolve(range.to).end();
+  const after = editor.state.doc.textBetween(range.to, Math.min(range.to + 2, end));
+  editor
+    .chain()
+    .focus()
+    .insertContentAt(
+      { from: range.from, to: after === ']]' ? range.to + 2 : range.to },
+      { type: 'wikiLink', attrs: { target } }
+    )
+    .run();
+}
+
+/**
+ * Select and scroll to the nth wiki-link written as `source` ([[...]])
+ * @returns false when there is no such link
+ */
+export function revealWikiLink(editor: Editor, source: string, occurrence: number): boolean {
+  const positions: number[] = [];
+  editor.state.doc.descendants((node, pos) => {
+    if (node.type.name === 'wikiLink' && formatWikiLink(getLinkParts(node.attrs)) === source) {
+      positions.push(pos);
+    }
+    return true;
+  });
+  if (positions.length === 0) return false;
+
+  const pos = positions[Math.min(occurrence, positions.length - 1)];
+  editor.chain().focus().setNodeSelection(pos).scrollIntoView().run();
+  return true;
+}
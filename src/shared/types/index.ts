@@ -6,8 +6,210 @@ export interface FileItem {
   path: string;
   type: 'file' | 'folder';
   extension?: string;
+  /** Undefined for folders whose contents have not been loaded yet */
   children?: FileItem[];
   isExpanded?: boolean;
+  /** Set on folders whose loaded children are only the first page(s) */
+  hasMoreChildren?: boolean;
+}
+
+export interface FolderListing {
+  items: FileItem[];
+  total: number;
+  hasMore: boolean;
+}
+
+export interface ReadFolderOptions {
+  rootPath?: string;
+  offset?: number;
+  limit?: number;
+}
+
+export interface FileWatchEvent {
+  type: 'add' | 'change' | 'unlink';
+  path: string;
+  itemType: 'file' | 'folder';
+}
+
+/**
+ * Snapshot of a file on disk, recorded when it is read or written and checked
+ * before the next save to detect changes made outside the app
+ */
+export interface FileVersion {
+  mtimeMs: number;
+  size: number;
+  /** SHA-1 of the content */
+  hash: string;
+}
+
+export type FsErrorCode =
+  | 'OUTSIDE_WORKSPACE'
+  | 'INVALID_NAME'
+  | 'NOT_FOUND'
+  | 'ALREADY_EXISTS'
+  | 'PERMISSION_DENIED'
+  | 'CONFLICT'
+  | 'UNENCODABLE'
+  | 'IO_ERROR';
+
+/**
+ * Error returned by file-system IPC calls instead of a raw Node error
+ */
+/**
+ * Text encodings a file can be opened and saved in. utf8bom is UTF-8 written
+ * with a byte order mark; the UTF-16 variants always carry one.
+ */
+export type TextEncoding = 'utf8' | 'utf8bom' | 'utf16le' | 'utf16be' | 'latin1';
+
+/**
+ * What fs-read-file found: text decoded in an encoding, an image to preview,
+ * or another binary file that cannot be edited
+ */
+export type FileContents =
+  | { kind: 'text'; content: string; encoding: TextEncoding; version: FileVersion }
+  | { kind: 'image'; mimeType: string; dataUrl: string; version: FileVersion }
+  | { kind: 'binary'; version: FileVersion };
+
+export interface FsError {
+  code: FsErrorCode;
+  /** Human-readable, safe to show to the user */
+  message: string;
+  path?: string;
+}
+
+export interface FsFailure {
+  success: false;
+  error: FsError;
+}
+
+export type FsResult<T = object> = ({ success: true } & T) | FsFailure;
+
+/**
+ * On a CONFLICT failure the file changed since it was read; nothing was written
+ * and the newer disk copy is returned alongside the error
+ */
+export type FileWriteResult =
+  | { success: true; version: FileVersion }
+  | (FsFailure & { diskContent?: string; version?: FileVersion });
+
+export interface TransferOptions {
+  /**
+   * What to do when the target folder already has an item with the same name:
+   * 'fail' (default) transfers nothing, 'rename' keeps both, 'skip' leaves it out
+   */
+  onCollision?: 'fail' | 'rename' | 'skip';
+}
+
+export interface TransferResult {
+  /** Source path and where it ended up, for every item moved or copied */
+  items: Array<{ from: string; to: string }>;
+  /** Source paths left where they were */
+  skipped: string[];
+}
+
+export interface DeletedItem {
+  id: string;
+  name: string;
+  originalPath: string;
+  itemType: 'file' | 'folder';
+  deletedAt: number;
+  /** 'system' for the OS trash, 'app' for the workspace's .intellirite/trash fallback */
+  location: 'system' | 'app';
+  /**
+   * Where the item now lives. Unset when it is somewhere in the OS trash that
+   * could not be found (always on Windows), so it cannot be restored from the app.
+   */
+  trashPath?: string;
+}
+
+export interface SearchOptions {
+  query: string;
+  rootPath: string;
+  /** Every workspace root to search, in order; only rootPath when unset */
+  rootPaths?: string[];
+  isRegex?: boolean;
+  caseSensitive?: boolean;
+  wholeWord?: boolean;
+  /** Comma-separated globs; when set, only matching files are searched */
+  include?: string;
+  /** Comma-separated globs of files to skip, on top of the ignore rules */
+  exclude?: string;
+  maxResults?: number;
+}
+
+export interface SearchMatch {
+  filePath: string;
+  /** 1-indexed */
+  line: number;
+  /** 1-indexed */
+  column: number;
+  length: number;
+  matchText: string;
+  /** The matched line, shortened around the match when it is long */
+  preview: string;
+  /** Offset of the match within preview */
+  previewStart: number;
+}
+
+export interface SearchResultBatch {
+  searchId: string;
+  filePath: string;
+  matches: SearchMatch[];
+}
+
+export interface SearchSummary {
+  searchId: string;
+  matchCount: number;
+  fileCount: number;
+  limitHit: boolean;
+  cancelled: boolean;
+  error?: string;
+}
+
+export interface ReplacePreviewRequest {
+  filePath: string;
+  /** The matches to replace; any other match in the file is left alone */
+  matches: SearchMatch[];
+  options: SearchOptions;
+  /** Replacement text; $1, $& etc. are expanded when options.isRegex is set */
+  replaceText: string;
+}
+
+export interface ReplacePreview {
+  filePath: string;
+  originalContent: string;
+  newContent: string;
+  replacedCount: number;
+  /** Matches no longer found where the search reported them */
+  skippedCount: number;
+}
+
+/**
+ * A markdown file that wiki-links ([[note]]) can point to
+ */
+export interface WikiNote {
+  filePath: string;
+  /** File name without the extension */
+  name: string;
+  /** Folder relative to its workspace root; empty at the root */
+  folder: string;
+  /** Shortest link target that finds the note from anywhere in the workspace */
+  linkTarget: string;
+}
+
+/**
+ * A file or folder that was renamed or moved
+ */
+export interface PathRename {
+  from: string;
+  to: string;
+}
+
+export interface BatchFileWrite {
+  filePath: string;
+  /** The write is refused unless the file still has exactly this content */
+  expectedContent: string;
+  content: string;
 }
 
 export interface Tab {
@@ -57,3 +259,145 @@ export interface Settings {
   autoSave: boolean;
   autoSaveDelay: number;
 }
+
+/**
+ * Settings remembered per workspace, overriding the app defaults while it is open
+ */
+export interface WorkspaceSettings extends Partial<Pick<Settings, 'autoSaveDelay'>> {
+  /** Comma-separated globs prefilled as "files to exclude" in Find in Files */
+  searchExclude?: string;
+  /**
+   * BibTeX or CSL-JSON file cited from, relative to the first folder; when
+   * unset, the first .bib or .csl.json file at the top of a folder is used
+   */
+  bibliography?: string;
+  /** Style of citations and generated bibliographies (default APA) */
+  citationStyle?: CitationStyle;
+}
+
+/**
+ * Citation styles, named after the CSL styles they follow
+ */
+export type CitationStyle = 'apa' | 'chicago-author-date' | 'ieee';
+
+/**
+ * A person's name in a bibliography entry; organisations use literal
+ */
+export interface CitationName {
+  family?: string;
+  given?: string;
+  literal?: string;
+}
+
+/**
+ * A bibliography entry, in CSL-JSON's shape (BibTeX entries are converted)
+ */
+export interface CitationEntry {
+  /** Citation key, as in [@key] */
+  id: string;
+  /** CSL item type: article-journal, book, chapter, paper-conference, thesis, report, webpage... */
+  type: string;
+  title?: string;
+  author?: CitationName[];
+  editor?: CitationName[];
+  issued?: { 'date-parts'?: Array<Array<number | string>>; literal?: string };
+  'container-title'?: string;
+  publisher?: string;
+  'publisher-place'?: string;
+  volume?: string;
+  issue?: string;
+  page?: string;
+  edition?: string;
+  DOI?: string;
+  URL?: string;
+}
+
+export interface Bibliography {
+  filePath: string;
+  entries: CitationEntry[];
+}
+
+/**
+ * The root folders open together, saved as an .intellirite-workspace file
+ */
+export interface Workspace {
+  /** The workspace file, once saved; a single opened folder has none */
+  filePath?: string;
+  /** Absolute paths of the root folders, in Sidebar order */
+  folders: string[];
+  settings: WorkspaceSettings;
+}
+
+/**
+ * Where the user was in a document: selection (ProseMirror positions) and scroll offset
+ */
+export interface EditorViewState {
+  selection: { from: number; to: number };
+  scrollTop: number;
+}
+
+export interface SessionTab {
+  filePath: string;
+  encoding?: TextEncoding;
+  isPinned?: boolean;
+  isSourceMode?: boolean;
+  viewState?: EditorViewState;
+}
+
+/**
+ * What is restored when a workspace is opened again: its tabs and the panels' state
+ */
+export interface WorkspaceSession {
+  workspace: Workspace;
+  tabs: SessionTab[];
+  activeFilePath?: string;
+  isChatCollapsed?: boolean;
+}
+
+export type RecentItemKind = 'folder' | 'workspace' | 'file';
+
+/**
+ * A folder, workspace file or file on the welcome screen's recent lists
+ */
+export interface RecentItem {
+  kind: RecentItemKind;
+  path: string;
+  /** For files: the workspace folder it was opened from, reopened along with it */
+  rootPath?: string;
+  pinned: boolean;
+  lastOpened: number;
+}
+
+export interface RecentOpenResult {
+  /** Workspace to load, or null when the item is a file inside the open workspace */
+  workspace: Workspace | null;
+  missingFolders?: string[];
+  /** File to open once the workspace is loaded */
+  filePath?: string;
+}
+
+/**
+ * A snapshot in a file's local history
+ */
+export interface HistoryEntry {
+  id: string;
+  /** When the content was saved */
+  timestamp: number;
+  /** When the snapshot was started; saves shortly after it update it in place */
+  createdAt: number;
+  hash: string;
+  wordCount: number;
+}
+
+/**
+ * Unsaved edits to a file, journaled so they survive a crash or forced quit
+ */
+export interface UnsavedBuffer {
+  filePath: string;
+  /** The buffer in the file's on-disk format */
+  content: string;
+  encoding?: TextEncoding;
+  /** Disk version the edits were made against */
+  diskVersion?: FileVersion;
+  modifiedAt: number;
+}
@@ -0,0 +1,212 @@
+// Citation Styles Test
+// Formats one entry of each type in every citation style, pinning what the
+// simplified styles produce for citations and bibliography entries
+
+import { formatBibliography, formatCitation, formatReference } from '../renderer/utils/citationStyles';
+import type { CitationEntry, CitationStyle } from '../shared/types';
+
+// One entry per type the styles tell apart
+const entries: CitationEntry[] = [
+    {
+        id: 'smith2020',
+        type: 'article-journal',
+        title: 'Learning to write',
+        author: [{ family: 'Smith', given: 'Jane Ann' }, { family: 'Lee', given: 'Min' }],
+        issued: { 'date-parts': [[2020]] },
+        'container-title': 'Journal of Writing',
+        volume: '12',
+        issue: '3',
+        page: '45-67',
+        DOI: '10.1000/jw.2020.3',
+    },
+    {
+        id: 'knuth1997',
+        type: 'book',
+        title: 'The Art of Computer Programming',
+        author: [{ family: 'Knuth', given: 'Donald E.' }],
+        issued: { 'date-parts': [[1997]] },
+        edition: '3',
+        publisher: 'Addison-Wesley',
+        'publisher-place': 'Reading, MA',
+    },
+    {
+        id: 'doe2019',
+        type: 'chapter',
+        title: 'Drafting',
+        author: [{ family: 'Doe', given: 'John' }],
+        editor: [{ family: 'Brown', given: 'Alice' }, { family: 'Green', given: 'Bob' }],
+        issued: { 'date-parts': [[2019]] },
+        'container-title': 'Handbook of Prose',
+        page: '10-20',
+        publisher: 'Oxford University Press',
+        'publisher-place': 'Oxford',
+    },
+    {
+        id: 'kim2021',
+        type: 'paper-conference',
+        title: 'Fast editors',
+        author: [{ family: 'Kim', given: 'Soo' }, { family: 'Park', given: 'Ji' }, { family: 'Cho', given: 'Hye' }],
+        issued: { 'date-parts': [[2021]] },
+        'container-title': 'Proceedings of the Editor Conference',
+        page: '1-8',
+        publisher: 'ACM',
+        'publisher-place': 'New York',
+    },
+    {
+        id: 'white2018',
+        type: 'book',
+        title: 'Collected Essays',
+        editor: [{ family: 'White', given: 'Eve' }],
+        issued: { 'date-parts': [[2018]] },
+        publisher: 'Penguin',
+    },
+    {
+        id: 'who2022',
+        type: 'report',
+        title: 'World report',
+        author: [{ literal: 'World Health Organization' }],
+        issued: { 'date-parts': [[2022]] },
+        publisher: 'WHO',
+        URL: 'https://who.int/report',
+    },
+    {
+        id: 'notes',
+        type: 'webpage',
+        title: 'Style notes',
+        URL: 'https://example.com/notes',
+    },
+];
+
+// Bibliography entries, in the order of `entries`
+const references: Record<CitationStyle, string[]> = {
+    apa: [
+        'Smith, J. A., & Lee, M. (2020). Learning to write. *Journal of Writing*, *12*(3), 45-67. https://doi.org/10.1000/jw.2020.3',
+        'Knuth, D. E. (1997). *The Art of Computer Programming* (3rd ed.). Addison-Wesley.',
+        'Doe, J. (2019). Drafting. In A. Brown & B. Green (Eds.), *Handbook of Prose* (pp. 10-20). Oxford University Press.',
+        'Kim, S., Park, J., & Cho, H. (2021). Fast editors. In *Proceedings of the Editor Conference* (pp. 1-8). ACM.',
+        'White, E. (Ed.). (2018). *Collected Essays*. Penguin.',
+        'World Health Organization. (2022). *World report*. WHO. https://who.int/report',
+        '*Style notes*. (n.d.). https://example.com/notes',
+    ],
+    'chicago-author-date': [
+        'Smith, Jane Ann, and Min Lee. 2020. “Learning to write.” *Journal of Writing* 12 (3): 45-67. https://doi.org/10.1000/jw.2020.3.',
+        'Knuth, Donald E. 1997. *The Art of Computer Programming*. 3rd ed. Reading, MA: Addison-Wesley.',
+        'Doe, John. 2019. “Drafting.” In *Handbook of Prose*, edited by Alice Brown and Bob Green, 10-20. Oxford: Oxford University Press.',
+        'Kim, Soo, Ji Park, and Hye Cho. 2021. “Fast editors.” In *Proceedings of the Editor Conference*, 1-8. New York: ACM.',
+        'White, Eve, ed. 2018. *Collected Essays*. Penguin.',
+        'World Health Organization. 2022. *World report*. WHO. https://who.int/report.',
+        '*Style notes*. n.d. https://example.com/notes.',
+    ],
+    ieee: [
+        '\\[1\\] J. A. Smith and M. Lee, “Learning to write,” *Journal of Writing*, vol. 12, no. 3, pp. 45-67, 2020. doi: 10.1000/jw.2020.3.',
+        '\\[2\\] D. E. Knuth, *The Art of Computer Programming*, 3rd ed. Reading, MA: Addison-Wesley, 1997.',
+        '\\[3\\] J. Doe, “Drafting,” in *Handbook of Prose*, A. Brown and B. Green, Eds. Oxford: Oxford University Press, 2019, pp. 10-20.',
+        '\\[4\\] S. Kim, J. Park, and H. Cho, “Fast editors,” in *Proceedings of the Editor Conference*, New York: ACM, 2021, pp. 1-8.',
+        '\\[5\\] E. White, *Collected Essays*, Penguin, 2018.',
+        '\\[6\\] World Health Organization, *World report*, WHO, 2022. [Online]. Available: https://who.int/report',
+        '\\[7\\] *Style notes*, n.d. [Online]. Available: https://example.com/notes',
+    ],
+};
+
+// "see [@smith2020, p. 4; @kim2021; @missing]" and "-@knuth1997"
+const citations: Record<CitationStyle, [string, string]> = {
+    apa: ['(see Smith & Lee, 2020, p. 4; Kim et al., 2021; missing?)', '(1997)'],
+    'chicago-author-date': ['(see Smith and Lee 2020, p. 4; Kim, Park, and Cho 2021; missing?)', '(1997)'],
+    ieee: ['see [1, p. 4], [4], [missing?]', '[2]'],
+};
+
+function assertEqual(actual: string, expected: string, label: string) {
+    if (actual !== expected) {
+        throw new Error(
+            `${label}\n--- expected ---\n${JSON.stringify(expected)}\n--- actual ---\n${JSON.stringify(actual)}`
+        );
+    }
+}
+
+async function runCitationStylesTest() {
+    console.log('🧪 Citation Styles Test\n');
+    console.log('='.repeat(60));
+
+    const byKey = new Map(entries.map((entry) => [entry.id, entry]));
+    const numbers = new Map(entries.map((entry, index) => [entry.id, index + 1]));
+
+    try {
+        for (const style of Object.keys(references) as CitationStyle[]) {
+            console.log(`\n📚 ${style}`);
+            console.log('-'.repeat(60));
+
+            entries.forEach((entry, index) => {
+                assertEqual(
+                    formatReference(entry, style, index + 1),
+                    references[style][index],
+                    `${style}: ${entry.type} entry "${entry.id}" changed`
+                );
+                console.log(`✓ ${entry.type} (${entry.id})`);
+            });
+
+            const [grouped, suppressed] = citations[style];
+            assertEqual(
+                formatCitation(
+                    [
+                        { key: 'smith2020', prefix: 'see', suffix: 'p. 4', suppressAuthor: false },
+                        { key: 'kim2021', prefix: '', suffix: '', suppressAuthor: false },
+                        { key: 'missing', prefix: '', suffix: '', suppressAuthor: false },
+                    ],
+                    byKey,
+                    style,
+                    numbers
+                ),
+                grouped,
+                `${style}: grouped citation changed`
+            );
+            assertEqual(
+                formatCitation([{ key: 'knuth1997', prefix: '', suffix: '', suppressAuthor: true }], byKey, style, numbers),
+                suppressed,
+                `${style}: citation without the author changed`
+            );
+            console.log('✓ In-text citations');
+        }
+
+        // Author-date bibliographies are sorted, numeric ones follow the citations
+        console.log('\n🔢 Bibliography order');
+        console.log('-'.repeat(60));
+        const cited = ['who2022', 'doe2019', 'smith2020'];
+        assertEqual(
+            formatBibliography(cited, byKey, 'apa').map((reference) => reference.split(' ')[0]).join(' '),
+            'Doe, Smith, World',
+            'APA bibliography should be sorted by author'
+        );
+        assertEqual(
+            formatBibliography(cited, byKey, 'ieee').map((reference) => reference.split(' ')[0]).join(' '),
+            '\\[1\\] \\[2\\] \\[3\\]',
+            'IEEE bibliography should be numbered in citation order'
+        );
+        assertEqual(
+            formatBibliography(cited, byKey, 'ieee')[0],
+            references.ieee[5].replace('\\[6\\]', '\\[1\\]'),
+            'IEEE bibliography should start with the first cited entry'
+        );
+        console.log('✓ Sorted and numbered');
+
+        console.log('\n' + '='.repeat(60));
+        console.log('✅ ALL CITATION STYLE TESTS PASSED\n');
+
+        return true;
+
+    } catch (error) {
+        console.error('\n❌ TEST FAILED');
+        console.error('-'.repeat(60));
+        console.error((error as Error).message);
+        return false;
+    }
+}
+
+// Run the test
+runCitationStylesTest()
+    .then(success => {
+        process.exit(success ? 0 : 1);
+    })
+    .catch(error => {
+        console.error('Unexpected error:', error);
+        process.exit(1);
+    });
@@ -0,0 +1,110 @@
+// Front Matter Test
+// Reads property values the way the properties panel does, checking quoting,
+// comments and value types
+
+import { parseFrontMatter, type FrontMatterProperty } from '../utils/front-matter';
+
+// Front matter and the properties it must be read as
+const cases: Array<{ name: string; source: string; expected: FrontMatterProperty[] }> = [
+    {
+        name: 'Plain values',
+        source: `---
+title: Chapter 2
+draft: true
+words: 1200
+due: 2024-05-01
+---
+`,
+        expected: [
+            { key: 'title', type: 'text', value: 'Chapter 2' },
+            { key: 'draft', type: 'boolean', value: true },
+            { key: 'words', type: 'number', value: 1200 },
+            { key: 'due', type: 'date', value: '2024-05-01' },
+        ],
+    },
+    {
+        name: 'Quoted values',
+        source: `---
+title: "Chapter: One"
+subtitle: 'It''s here'
+year: "2024"
+---
+`,
+        expected: [
+            { key: 'title', type: 'text', value: 'Chapter: One' },
+            { key: 'subtitle', type: 'text', value: "It's here" },
+            { key: 'year', type: 'text', value: '2024' },
+        ],
+    },
+    {
+        name: 'Comments',
+        source: `---
+title: Chapter 2 # working title
+heading: "Chapter: One" # c
+tag: 'a # b' # not part of the tag
+issue: "#12"
+---
+`,
+        expected: [
+            { key: 'title', type: 'text', value: 'Chapter 2' },
+            { key: 'heading', type: 'text', value: 'Chapter: One' },
+            { key: 'tag', type: 'text', value: 'a # b' },
+            { key: 'issue', type: 'text', value: '#12' },
+        ],
+    },
+    {
+        name: 'Lists',
+        source: `---
+tags: [ai, "draft, early"]
+authors:
+  - Ada
+  - 'Grace' # editor
+---
+`,
+        expected: [
+            { key: 'tags', type: 'list', value: ['ai', 'draft, early'] },
+            { key: 'authors', type: 'list', value: ['Ada', 'Grace'] },
+        ],
+    },
+];
+
+function assertEqual(actual: unknown, expected: unknown, label: string) {
+    if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+        throw new Error(
+            `${label}\n--- expected ---\n${JSON.stringify(expected)}\n--- actual ---\n${JSON.stringify(actual)}`
+        );
+    }
+}
+
+async function runFrontMatterTest() {
+    console.log('🧪 Front Matter Test\n');
+    console.log('='.repeat(60));
+
+    try {
+        for (const { name, source, expected } of cases) {
+            assertEqual(parseFrontMatter(source), expected, `"${name}" was read wrongly`);
+            console.log(`✓ ${name}`);
+        }
+
+        console.log('\n' + '='.repeat(60));
+        console.log('✅ ALL FRONT MATTER TESTS PASSED\n');
+
+        return true;
+
+    } catch (error) {
+        console.error('\n❌ TEST FAILED');
+        console.error('-'.repeat(60));
+        console.error((error as Error).message);
+        return false;
+    }
+}
+
+// Run the test
+runFrontMatterTest()
+    .then(success => {
+        process.exit(success ? 0 : 1);
+    })
+    .catch(error => {
+        console.error('Unexpected error:', error);
+        process.exit(1);
+    });
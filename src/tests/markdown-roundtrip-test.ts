@@ -0,0 +1,277 @@
+// Round-trip Test for Markdown Files
+// Loads markdown the way the editor does and saves it back, checking that
+// untouched files come back byte for byte and that edits keep the file's style
+
+import { markdownToEditorHtml, editorHtmlToMarkdown } from '../renderer/utils/markdown';
+
+// Files that must survive loading and saving unchanged
+const corpus: Array<{ name: string; markdown: string }> = [
+    {
+        name: 'Headings and paragraphs',
+        markdown: `# Title
+
+Some *emphasis*, __strong__ text and \`code\`.
+A soft-wrapped second line.
+
+Setext heading
+==============
+
+## Trailing hashes ##
+`,
+    },
+    {
+        name: 'YAML front matter',
+        markdown: `---
+title: Chapter 2
+tags: [ai, draft]
+---
+
+# Chapter 2
+
+Body text.
+`,
+    },
+    {
+        name: 'HTML comments and blocks',
+        markdown: `<!-- TODO: rewrite the intro -->
+
+Intro with an inline <!-- note --> comment and <kbd>Ctrl</kbd>.
+
+<div align="center">
+  <img src="cover.png">
+</div>
+`,
+    },
+    {
+        name: 'Footnotes',
+        markdown: `A claim that needs a source.[^1] And another.[^note]
+
+[^1]: The first source.
+[^note]: A longer note
+    that continues on an indented line.
+`,
+    },
+    {
+        name: 'Reference-style links',
+        markdown: `See [the docs][docs], [Example][] and [shortcut].
+
+[docs]: https://example.com/docs "Documentation"
+[example]: https://example.com
+[shortcut]: <https://example.com/a b>
+`,
+    },
+    {
+        name: 'List markers and task lists',
+        markdown: `* star bullets
+* second item
+    * nested with four spaces
+
++ plus bullets
+
+1) parenthesis numbering
+2) second
+
+- [ ] open task
+- [x] done task
+`,
+    },
+    {
+        name: 'Code, rules and tables',
+        markdown: `~~~python
+def main():
+    pass
+~~~
+
+    indented code
+
+* * *
+
+| Left | Right |
+|:-----|------:|
+| a    |     1 |
+`,
+    },
+    {
+        name: 'Escapes, entities and breaks',
+        markdown: `Literal \\*stars\\*, snake_case, AT&T and &copy; 2024.
+Hard break with backslash\\
+next line.
+`,
+    },
+    {
+        name: 'Wiki-links',
+        markdown: `See [[Project Plan]], [[notes/ideas#Next steps|what comes next]] and [[#Intro]].
+Not a link: \`[[code]]\`.
+`,
+    },
+    {
+        name: 'Citations',
+        markdown: `As argued [see @smith2020, pp. 4-5; -@doe99], and by @lee21 in passing.
+Not citations: [me@example.org] and [a link @x](https://example.org).
+`,
+    },
+    {
+        name: 'Math',
+        markdown: `Euler's identity $e^{i\\pi} + 1 = 0$, shown large as $$e^{i\\pi}$$; prices like $5 and $10 stay text.
+
+$$
+\\int_0^1 x\\,dx = \\frac{1}{2}
+$$
+
+$$\\sum_{n=1}^\\infty \\frac{1}{n^2}$$
+`,
+    },
+    {
+        name: 'Windows line endings, no final newline',
+        markdown: '# Title\r\n\r\n- one\r\n- two\r\n\r\nLast line',
+    },
+];
+
+/**
+ * Simulate an edit: change a block's text without touching its source attributes,
+ * which come before the text
+ */
+function editBlock(html: string, from: string, to: string): string {
+    const index = html.lastIndexOf(from);
+    if (index === -1) {
+        throw new Error(`Edit target not found: ${from}`);
+    }
+    return html.slice(0, index) + to + html.slice(index + from.length);
+}
+
+function assertEqual(actual: string, expected: string, label: string) {
+    if (actual !== expected) {
+        throw new Error(
+            `${label}\n--- expected ---\n${JSON.stringify(expected)}\n--- actual ---\n${JSON.stringify(actual)}`
+        );
+    }
+}
+
+async function runRoundTripTest() {
+    console.log('🧪 Markdown Round-trip Test\n');
+    console.log('='.repeat(60));
+
+    try {
+        // ========================================================================
+        // STEP 1: Untouched files
+        // ========================================================================
+        console.log('\n📄 STEP 1: Untouched files');
+        console.log('-'.repeat(60));
+
+        for (const { name, markdown } of corpus) {
+            const saved = editorHtmlToMarkdown(markdownToEditorHtml(markdown));
+            assertEqual(saved, markdown, `Round trip changed "${name}"`);
+            console.log(`✓ ${name}`);
+        }
+
+        // ========================================================================
+        // STEP 2: Edited blocks
+        // ========================================================================
+        console.log('\n✏️  STEP 2: Edited blocks');
+        console.log('-'.repeat(60));
+
+        const styled = `---
+title: Styled
+---
+
+* first
+* second
+
+Some _emphasis_ here.
+
+Untouched [link][ref] paragraph.
+
+[ref]: https://example.com
+`;
+        const styledHtml = markdownToEditorHtml(styled);
+
+        assertEqual(
+            editorHtmlToMarkdown(editBlock(styledHtml, '<li>second</li>', '<li>second</li><li>third</li>')),
+            styled.replace('* second\n', '* second\n* third\n'),
+            'Adding a list item should keep the bullet style'
+        );
+        console.log('✓ New list items use the list\'s bullet');
+
+        assertEqual(
+            editorHtmlToMarkdown(editBlock(styledHtml, 'here.', 'and <em>more</em> here.')),
+            styled.replace('here.', 'and _more_ here.'),
+            'Editing a paragraph should keep the emphasis style'
+        );
+        console.log('✓ Edited paragraphs keep the emphasis marker');
+
+        assertEqual(
+            editorHtmlToMarkdown(editBlock(styledHtml, 'Untouched ', 'Edited ')),
+            styled.replace('Untouched ', 'Edited '),
+            'Editing a paragraph should keep its reference links'
+        );
+        console.log('✓ Reference links stay reference links');
+
+        assertEqual(
+            editorHtmlToMarkdown(styledHtml + '<p>A new paragraph</p>'),
+            styled + '\nA new paragraph\n',
+            'A new block should be separated by a blank line'
+        );
+        console.log('✓ New blocks are appended after a blank line');
+
+        // ========================================================================
+        // STEP 3: HTML as the editor writes it
+        // ========================================================================
+        console.log('\n🧩 STEP 3: Editor-shaped HTML');
+        console.log('-'.repeat(60));
+
+        // The editor wraps list items and cells in paragraphs and adds its own
+        // attributes; unchanged blocks must still be written verbatim
+        const tasks = '- [ ] open\n- [x] done\n';
+        const taskAttributes = /data-md-raw="[^"]*" data-md-hash="[^"]*"/.exec(markdownToEditorHtml(tasks))![0];
+        const editorTasks =
+            `<ul ${taskAttributes} data-type="taskList">` +
+            '<li data-checked="false" data-type="taskItem"><label><input type="checkbox"><span></span></label><div><p>open</p></div></li>' +
+            '<li data-checked="true" data-type="taskItem"><label><input type="checkbox" checked="checked"><span></span></label><div><p>done</p></div></li>' +
+            '</ul>';
+        assertEqual(editorHtmlToMarkdown(editorTasks), tasks, 'Editor task list should be written verbatim');
+        console.log('✓ Task lists');
+
+        const table = '| a | b |\n|:--|--:|\n| 1 | 2 |\n';
+        const tableAttributes = /data-md-raw="[^"]*" data-md-hash="[^"]*"/.exec(markdownToEditorHtml(table))![0];
+        const editorTable =
+            `<table ${tableAttributes} class="editor-table" style="min-width: 50px"><colgroup><col><col></colgroup><tbody>` +
+            '<tr><th colspan="1" rowspan="1"><p>a</p></th><th colspan="1" rowspan="1"><p>b</p></th></tr>' +
+            '<tr><td colspan="1" rowspan="1"><p>1</p></td><td colspan="1" rowspan="1"><p>2</p></td></tr>' +
+            '</tbody></table>';
+        assertEqual(editorHtmlToMarkdown(editorTable), table, 'Editor table should be written verbatim');
+        console.log('✓ Tables');
+
+        const code = '```\nplain\n```\n';
+        const codeAttributes = /data-md-raw="[^"]*" data-md-hash="[^"]*"/.exec(markdownToEditorHtml(code))![0];
+        assertEqual(
+            editorHtmlToMarkdown(`<pre ${codeAttributes}><code class="language-plaintext">plain</code></pre>`),
+            code,
+            'Editor code block should be written verbatim'
+        );
+        console.log('✓ Code blocks');
+
+        // ========================================================================
+        // SUMMARY
+        // ========================================================================
+        console.log('\n' + '='.repeat(60));
+        console.log('✅ ALL ROUND-TRIP TESTS PASSED\n');
+
+        return true;
+
+    } catch (error) {
+        console.error('\n❌ TEST FAILED');
+        console.error('-'.repeat(60));
+        console.error((error as Error).message);
+        return false;
+    }
+}
+
+// Run the test
+runRoundTripTest()
+    .then(success => {
+        process.exit(success ? 0 : 1);
+    })
+    .catch(error => {
+        console.error('Unexpected error:', error);
+        process.exit(1);
+    });
@@ -19,8 +19,17 @@ export interface FileContext {
     isActive: boolean;
     /** File extension (without dot) */
     extension?: string;
+    /** Document metadata from the file's front matter (status, tags, word target...) */
+    metadata?: DocumentMetadata;
+    /** Sources in the workspace bibliography, as "@key: Author (Year) Title" */
+    bibliography?: string[];
 }
 
+/**
+ * Front matter properties of a document, by name
+ */
+export type DocumentMetadata = Record<string, string | number | boolean | string[]>;
+
 /**
  * Represents a text selection or cursor position in a file
  */
@@ -223,7 +223,10 @@ export function getFileSize(content: string): number {
 // ============================================================================
 
 /**
- * Extract headings from markdown content
+ * Extract headings from markdown content, both # headings and setext headings
+ * (a paragraph underlined with === or ---)
+ * Lines in front matter and fenced code blocks are skipped.
+ * The line number of a setext heading is that of its first text line.
  * @param content - Markdown content
  * @returns Array of headings with line numbers
  */
@@ -232,18 +235,70 @@ export function extractMarkdownHeadings(content: string): Array<{
     text: string;
     lineNumber: number;
 }> {
-    const lines = content.split('\n');
+    const lines = content.split(/\r?\n/);
     const headings: Array<{ level: number; text: string; lineNumber: number }> = [];
+    let fence: string | null = null;
+    let inFrontMatter = lines[0]?.trim() === '---';
+    // Paragraph read so far, which an underline turns into a heading
+    let paragraph: { text: string; lineNumber: number } | null = null;
 
     lines.forEach((line, index) => {
-        // Match markdown headings (# to ######)
-        const match = line.match(/^(#{1,6})\s+(.+)$/);
+        if (inFrontMatter) {
+            if (index > 0 && /^(---|\.\.\.)\s*$/.test(line)) {
+                inFrontMatter = false;
+            }
+            return;
+        }
+
+        // Skip fenced code blocks (``` or ~~~, closed by a fence at least as long)
+        const fenceMatch = line.match(/^ {0,3}(`{3,}|~{3,})/);
+        if (fence) {
+            if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+                fence = null;
+            }
+            return;
+        }
+        if (fenceMatch) {
+            fence = fenceMatch[1];
+            paragraph = null;
+            return;
+        }
+
+        // Setext underline: === for level 1, --- for level 2
+        const underline = line.match(/^ {0,3}(=+|-+)\s*$/);
+        if (underline && paragraph) {
+            headings.push({
+                level: underline[1][0] === '=' ? 1 : 2,
+                text: paragraph.text,
+                lineNumber: paragraph.lineNumber,
+            });
+            paragraph = null;
+            return;
+        }
+
+        // Match markdown headings (# to ######), without closing #s
+        const match = line.match(/^ {0,3}(#{1,6})\s+(.+?)(?:\s+#+)?\s*$/);
         if (match) {
             headings.push({
                 level: match[1].length,
                 text: match[2].trim(),
                 lineNumber: index + 1,
             });
+            paragraph = null;
+            return;
+        }
+
+        // Blank lines end paragraphs; list items, quotes, tables and indented code are not ones
+        const isParagraphLine =
+            line.trim() !== '' &&
+            !/^ {0,3}([-*+]\s|\d+[.)]\s|>|\|)/.test(line) &&
+            (paragraph !== null || !/^( {4}|\t)/.test(line));
+        if (!isParagraphLine) {
+            paragraph = null;
+        } else if (paragraph) {
+            paragraph.text += ` ${line.trim()}`;
+        } else {
+            paragraph = { text: line.trim(), lineNumber: index + 1 };
         }
     });
 
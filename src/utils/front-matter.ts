@@ -0,0 +1,459 @@
+// Front Matter Utilities
+// Reads and edits the YAML front matter of markdown files line by line, so
+// properties that are not edited keep their exact source (comments, quoting,
+// key order and anything beyond simple values)
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Kind of value a property holds; 'yaml' is anything else (nested maps, block
+ * scalars, anchors...), shown as source and only editable as YAML
+ */
+export type FrontMatterType = 'text' | 'number' | 'date' | 'boolean' | 'list' | 'yaml';
+
+export type FrontMatterValue = string | number | boolean | string[];
+
+export interface FrontMatterProperty {
+    /** Property name */
+    key: string;
+    type: FrontMatterType;
+    /** Parsed value; the value's source text for 'yaml' properties */
+    value: FrontMatterValue;
+}
+
+/**
+ * A property with the lines it was read from
+ */
+interface PropertySource extends FrontMatterProperty {
+    /** Key as written, including any quotes */
+    rawKey: string;
+    /** Lines holding the key and its value */
+    lines: string[];
+    /** Blank and comment lines after the value, kept when the value changes */
+    trailing: string[];
+    /** Lists written as [a, b] stay that way */
+    flow: boolean;
+    /** Prefix of block list items (e.g. "  - ") */
+    itemPrefix: string;
+}
+
+interface FrontMatterParts {
+    opening: string;
+    /** Lines between the fences */
+    lines: string[];
+    /** Closing fence and everything after it (line break, blank lines) */
+    closing: string;
+    eol: string;
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+const NUMBER_PATTERN = /^[-+]?(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][-+]?\d+)?$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const KEY_PATTERN = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s#'"\-[\]{}][^#]*?|-[^\s#][^#]*?)[ \t]*:(?:[ \t]+(.*))?$/;
+const ITEM_PATTERN = /^([ \t]*-[ \t]+)(.*)$/;
+
+/**
+ * Split YAML front matter into its fences and lines; null for anything else
+ * (e.g. TOML front matter)
+ */
+function splitFrontMatter(source: string): FrontMatterParts | null {
+    const eol = source.includes('\r\n') ? '\r\n' : '\n';
+    const text = source.replace(/\r\n/g, '\n');
+    const match = /^(---[ \t]*)\n([\s\S]*?\n)?((?:---|\.\.\.)[ \t]*(?:\n[\s\S]*)?)$/.exec(text);
+    if (!match) return null;
+
+    const body = match[2] ?? '';
+    return {
+        opening: match[1],
+        lines: body ? body.slice(0, -1).split('\n') : [],
+        closing: match[3],
+        eol,
+    };
+}
+
+function joinFrontMatter(parts: FrontMatterParts): string {
+    const text = [parts.opening, ...parts.lines, parts.closing].join('\n');
+    return parts.eol === '\n' ? text : text.replace(/\n/g, parts.eol);
+}
+
+function isIgnorable(line: string): boolean {
+    return /^\s*(?:#.*)?$/.test(line);
+}
+
+/**
+ * Remove a trailing " # comment" from a plain value
+ */
+function stripComment(value: string): string {
+    return value.replace(/(?:^|[ \t]+)#.*$/, '').trim();
+}
+
+/**
+ * Length of the quoted string a value starts with, 0 when it does not start
+ * with one or it is not closed
+ */
+function quotedLength(value: string): number {
+    const quote = value[0];
+    if (quote !== '"' && quote !== "'") return 0;
+    for (let i = 1; i < value.length; i++) {
+        if (quote === '"' && value[i] === '\\') {
+            i++;
+        } else if (value[i] === quote) {
+            // '' is an escaped quote in single-quoted strings
+            if (quote === "'" && value[i + 1] === "'") i++;
+            else return i + 1;
+        }
+    }
+    return 0;
+}
+
+function unquote(value: string): string | null {
+    if (value.length >= 2 && value[0] === '"' && value.endsWith('"')) {
+        try {
+            return JSON.parse(value);
+        } catch {
+            return null;
+        }
+    }
+    if (value.length >= 2 && value[0] === "'" && value.endsWith("'")) {
+        return value.slice(1, -1).replace(/''/g, "'");
+    }
+    return null;
+}
+
+/**
+ * Parse a single-line scalar; null when it is not a simple value
+ */
+function parseScalar(source: string): { type: FrontMatterType; value: FrontMatterValue } | null {
+    // A # inside the quotes is text; one after them starts a comment
+    const trimmed = source.trim();
+    const length = quotedLength(trimmed);
+    if (length > 0 && stripComment(trimmed.slice(length)) === '') {
+        const quoted = unquote(trimmed.slice(0, length));
+        if (quoted !== null) return { type: 'text', value: quoted };
+    }
+
+    const value = stripComment(source);
+    if (/^[&*!|>%@`{[]/.test(value)) return null;
+    if (value === '' || value === '~' || value === 'null') return { type: 'text', value: '' };
+    if (value === 'true' || value === 'false') return { type: 'boolean', value: value === 'true' };
+    if (NUMBER_PATTERN.test(value)) return { type: 'number', value: Number(value) };
+    if (DATE_PATTERN.test(value)) return { type: 'date', value };
+    return { type: 'text', value };
+}
+
+/**
+ * Split the items of a flow list ("a, 'b, c', d"), respecting quotes
+ */
+function splitFlowItems(source: string): string[] | null {
+    const items: string[] = [];
+    let current = '';
+    let quote: string | null = null;
+    for (const char of source) {
+        if (quote) {
+            current += char;
+            if (char === quote) quote = null;
+        } else if (char === '"' || char === "'") {
+            quote = char;
+            current += char;
+        } else if (char === ',') {
+            items.push(current);
+            current = '';
+        } else if ('[]{}'.includes(char)) {
+            return null;
+        } else {
+            current += char;
+        }
+    }
+    if (quote) return null;
+    if (current.trim() || items.length > 0) items.push(current);
+    return items;
+}
+
+function parseListItems(sources: string[]): string[] | null {
+    const items: string[] = [];
+    for (const source of sources) {
+        const item = parseScalar(source);
+        if (!item) return null;
+        items.push(String(item.value));
+    }
+    return items;
+}
+
+/**
+ * Read a property from its key line and the lines of its value
+ */
+function parseProperty(
+    keyLine: string,
+    rawKey: string,
+    inlineValue: string,
+    valueLines: string[],
+    trailing: string[]
+): PropertySource {
+    const property: PropertySource = {
+        key: unquote(rawKey) ?? rawKey,
+        rawKey,
+        type: 'yaml',
+        value: [inlineValue, ...valueLines].filter(Boolean).join('\n'),
+        lines: [keyLine, ...valueLines],
+        trailing,
+        flow: false,
+        itemPrefix: '  - ',
+    };
+
+    const inline = inlineValue.trim();
+    if (valueLines.length === 0) {
+        const flow = /^\[(.*)\][ \t]*(?:#.*)?$/.exec(inline);
+        const items = flow ? splitFlowItems(flow[1]) : null;
+        const list = items && parseListItems(items);
+        if (list) {
+            return { ...property, type: 'list', value: list, flow: true };
+        }
+        const scalar = flow ? null : parseScalar(inline);
+        return scalar ? { ...property, ...scalar } : property;
+    }
+
+    // A block list: every value line is an item at the same indentation
+    if (stripComment(inline) === '') {
+        const items = valueLines.filter((line) => !isIgnorable(line)).map((line) => ITEM_PATTERN.exec(line));
+        const prefix = items[0]?.[1].replace(/-[ \t]+$/, '');
+        const isList = items.every((item) => item && item[1].replace(/-[ \t]+$/, '') === prefix && !KEY_PATTERN.test(item[2]));
+        const list = isList ? parseListItems(items.map((item) => item![2])) : null;
+        if (list) {
+            return { ...property, type: 'list', value: list, itemPrefix: items[0]![1] };
+        }
+    }
+
+    return property;
+}
+
+/**
+ * Read the properties of front matter along with their source lines
+ */
+function readProperties(parts: FrontMatterParts): { preamble: string[]; properties: PropertySource[] } {
+    const preamble: string[] = [];
+    const properties: PropertySource[] = [];
+    let current: { rawKey: string; inlineValue: string; lines: string[]; keyLine: string } | null = null;
+
+    const finish = () => {
+        if (!current) return;
+        // Blank lines and comments after the value are not part of it
+        let end = current.lines.length;
+        while (end > 0 && isIgnorable(current.lines[end - 1])) end--;
+        properties.push(parseProperty(
+            current.keyLine,
+            current.rawKey,
+            current.inlineValue,
+            current.lines.slice(0, end),
+            current.lines.slice(end)
+        ));
+        current = null;
+    };
+
+    for (const line of parts.lines) {
+        // Indented lines and list items continue the property before them
+        const key = /^[ \t]/.test(line) || /^-(?:\s|$)/.test(line) ? null : KEY_PATTERN.exec(line);
+        if (key && !isIgnorable(line)) {
+            finish();
+            current = { rawKey: key[1], inlineValue: key[2] ?? '', lines: [], keyLine: line };
+        } else if (current) {
+            current.lines.push(line);
+        } else {
+            preamble.push(line);
+        }
+    }
+    finish();
+
+    return { preamble, properties };
+}
+
+/**
+ * Parse YAML front matter (including its --- fences) into properties
+ * @returns null when the source is not YAML front matter
+ */
+export function parseFrontMatter(source: string): FrontMatterProperty[] | null {
+    const parts = splitFrontMatter(source);
+    if (!parts) return null;
+
+    return readProperties(parts).properties.map(({ key, type, value }) => ({ key, type, value }));
+}
+
+/**
+ * Properties as plain metadata (e.g. for the AI context)
+ */
+export function frontMatterToMetadata(source: string): Record<string, FrontMatterValue> {
+    const metadata: Record<string, FrontMatterValue> = {};
+    for (const property of parseFrontMatter(source) ?? []) {
+        metadata[property.key] = property.value;
+    }
+    return metadata;
+}
+
+// ============================================================================
+// WRITING
+// ============================================================================
+
+/**
+ * Whether a string must be quoted to be read back as the same string
+ */
+function needsQuotes(value: string, inFlowList: boolean): boolean {
+    return (
+        value !== value.trim() ||
+        value === '' ||
+        /^[-?:,[\]{}#&*!|>'"%@`~]/.test(value) ||
+        /: |:$| #/.test(value) ||
+        /[\n\t]/.test(value) ||
+        ['true', 'false', 'null', 'yes', 'no', 'on', 'off'].includes(value.toLowerCase()) ||
+        NUMBER_PATTERN.test(value) ||
+        DATE_PATTERN.test(value) ||
+        (inFlowList && /[,[\]{}]/.test(value))
+    );
+}
+
+function formatString(value: string, inFlowList = false): string {
+    return needsQuotes(value, inFlowList) ? JSON.stringify(value) : value;
+}
+
+function rawKeyLine(rawKey: string, inlineValue: string): string {
+    return inlineValue ? `${rawKey}: ${inlineValue}` : `${rawKey}:`;
+}
+
+/**
+ * Write a property's lines in the style it was read in
+ */
+function formatProperty(
+    rawKey: string,
+    type: FrontMatterType,
+    value: FrontMatterValue,
+    style: { flow: boolean; itemPrefix: string }
+): string[] {
+    switch (type) {
+        case 'list': {
+            const items = Array.isArray(value) ? value : [String(value)];
+            if (style.flow || items.length === 0) {
+                return [`${rawKey}: [${items.map((item) => formatString(item, true)).join(', ')}]`];
+            }
+            return [`${rawKey}:`, ...items.map((item) => style.itemPrefix + formatString(item))];
+        }
+        case 'number':
+        case 'boolean':
+            return [`${rawKey}: ${String(value)}`];
+        case 'date':
+            return [DATE_PATTERN.test(String(value)) ? `${rawKey}: ${value}` : `${rawKey}: ${formatString(String(value))}`];
+        case 'yaml': {
+            const lines = String(value).split('\n');
+            // Source that starts on the next line (nested maps, lists)
+            return /^[ \t]/.test(lines[0]) || ITEM_PATTERN.test(lines[0])
+                ? [`${rawKey}:`, ...lines]
+                : [rawKeyLine(rawKey, lines[0]), ...lines.slice(1)];
+        }
+        default:
+            return [value === '' ? `${rawKey}:` : `${rawKey}: ${formatString(String(value))}`];
+    }
+}
+
+function formatKey(key: string): string {
+    return /^[\w][\w .-]*$/.test(key) && key === key.trim() ? key : JSON.stringify(key);
+}
+
+/**
+ * Set a property, replacing its lines or adding it at the end; other lines are
+ * kept as they are
+ * @param type - Type of the value; defaults to the property's current type
+ */
+export function setFrontMatterProperty(
+    source: string,
+    key: string,
+    value: FrontMatterValue,
+    type?: FrontMatterType
+): string {
+    const parts = splitFrontMatter(source);
+    if (!parts) return source;
+
+    const { preamble, properties } = readProperties(parts);
+    const existing = properties.find((property) => property.key === key);
+    if (existing) {
+        existing.lines = formatProperty(existing.rawKey, type ?? existing.type, value, existing);
+    } else {
+        const list = properties.find((property) => property.type === 'list' && !property.flow);
+        properties.push({
+            key,
+            rawKey: formatKey(key),
+            type: type ?? 'text',
+            value,
+            lines: formatProperty(formatKey(key), type ?? 'text', value, {
+                flow: false,
+                // New lists are indented like the file's other lists
+                itemPrefix: list?.itemPrefix ?? '  - ',
+            }),
+            trailing: [],
+            flow: false,
+            itemPrefix: '  - ',
+        });
+    }
+
+    return joinFrontMatter({ ...parts, lines: [...preamble, ...properties.flatMap((p) => [...p.lines, ...p.trailing])] });
+}
+
+/**
+ * Remove a property and its value
+ */
+export function removeFrontMatterProperty(source: string, key: string): string {
+    const parts = splitFrontMatter(source);
+    if (!parts) return source;
+
+    const { preamble, properties } = readProperties(parts);
+    const lines = [
+        ...preamble,
+        ...properties.filter((property) => property.key !== key).flatMap((p) => [...p.lines, ...p.trailing]),
+    ];
+    return joinFrontMatter({ ...parts, lines });
+}
+
+/**
+ * Rename a property, keeping its value as written
+ */
+export function renameFrontMatterProperty(source: string, key: string, newKey: string): string {
+    const parts = splitFrontMatter(source);
+    if (!parts) return source;
+
+    const { preamble, properties } = readProperties(parts);
+    const lines = [
+        ...preamble,
+        ...properties.flatMap((property) => {
+            if (property.key !== key) return [...property.lines, ...property.trailing];
+            const [keyLine, ...rest] = property.lines;
+            return [formatKey(newKey) + keyLine.slice(property.rawKey.length), ...rest, ...property.trailing];
+        }),
+    ];
+    return joinFrontMatter({ ...parts, lines });
+}
+
+/**
+ * The YAML between the fences, for editing as text
+ */
+export function getFrontMatterYaml(source: string): string {
+    return splitFrontMatter(source)?.lines.join('\n') ?? '';
+}
+
+/**
+ * Replace the YAML between the fences, keeping the fences and what follows them
+ */
+export function setFrontMatterYaml(source: string, yaml: string): string {
+    const parts = splitFrontMatter(source);
+    if (!parts) return source;
+
+    const text = yaml.replace(/\r\n?/g, '\n').replace(/\n+$/, '');
+    return joinFrontMatter({ ...parts, lines: text ? text.split('\n') : [] });
+}
+
+/**
+ * Empty front matter to start a file's properties with
+ */
+export function createFrontMatter(eol = '\n'): string {
+    return `---${eol}---${eol}${eol}`;
+}